@@ -4,8 +4,10 @@ import { logToClient } from "@/lib/utils/client-logger"
 import { useEffect, useState } from 'react'
 import { use } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { BookDetails } from '@/components/book/book-details'
+import { FollowAuthorButton } from '@/components/author/follow-author-button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import type { Book } from '@/types/bookinfo'
 
@@ -14,6 +16,20 @@ interface QualityProfile {
   name: string
 }
 
+interface SeriesInfo {
+  name: string
+  books: Book[]
+  remainingBookIds: string[]
+}
+
+interface InstanceOption {
+  id: number
+  name: string
+  mediaType: 'ebook' | 'audiobook'
+  isDefault: boolean
+  profiles: QualityProfile[]
+}
+
 export default function BookPage({
   params,
 }: {
@@ -24,11 +40,17 @@ export default function BookPage({
   const [book, setBook] = useState<Book | null>(null)
   const [qualityProfiles, setQualityProfiles] = useState<QualityProfile[]>([])
   const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null)
+  const [instances, setInstances] = useState<InstanceOption[]>([])
+  const [selectedInstanceId, setSelectedInstanceId] = useState<number | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [requesting, setRequesting] = useState(false)
   const [requestSuccess, setRequestSuccess] = useState(false)
   const [syncStatus, setSyncStatus] = useState<{ isBookshelfConfigured: boolean; isSyncCompleted: boolean } | null>(null)
+  const [series, setSeries] = useState<SeriesInfo | null>(null)
+  const [requestingSeries, setRequestingSeries] = useState(false)
+  const [seriesMessage, setSeriesMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [follows, setFollows] = useState<{ id: number; authorName: string }[]>([])
 
   useEffect(() => {
     async function fetchData() {
@@ -55,6 +77,13 @@ export default function BookPage({
           if (profilesData.profiles && profilesData.profiles.length > 0) {
             setSelectedProfileId(profilesData.profiles[0].id)
           }
+
+          const instanceOptions: InstanceOption[] = profilesData.instances || []
+          setInstances(instanceOptions)
+          const defaultInstance = instanceOptions.find((i) => i.isDefault) ?? instanceOptions[0]
+          if (defaultInstance) {
+            setSelectedInstanceId(defaultInstance.id)
+          }
         }
 
         if (syncStatusResponse.ok) {
@@ -69,8 +98,76 @@ export default function BookPage({
     }
 
     fetchData()
+    fetchSeries()
+    fetchFollows()
   }, [resolvedParams.id])
 
+  async function fetchFollows() {
+    try {
+      const response = await fetch('/api/user/follows')
+      if (response.ok) {
+        const data = await response.json()
+        setFollows(data.follows || [])
+      }
+    } catch (err) {
+      logToClient('error', 'Failed to fetch followed authors:', { error: err instanceof Error ? err.message : err })
+    }
+  }
+
+  async function fetchSeries() {
+    try {
+      const response = await fetch(`/api/books/${resolvedParams.id}/series`)
+      if (response.ok) {
+        const data = await response.json()
+        setSeries(data.series)
+      }
+    } catch (err) {
+      logToClient('error', 'Failed to fetch series:', { error: err instanceof Error ? err.message : err })
+    }
+  }
+
+  const handleRequestSeries = async () => {
+    if (!book || selectedProfileId === null) return
+
+    setRequestingSeries(true)
+    setSeriesMessage(null)
+
+    try {
+      const response = await fetch('/api/requests/series', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bookId: book.id,
+          qualityProfileId: selectedProfileId,
+          instanceId: selectedInstanceId ?? undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to request series')
+      }
+
+      setSeriesMessage({
+        type: 'success',
+        text: `Requested ${data.requests.length} ${data.requests.length === 1 ? 'book' : 'books'} from ${data.series}.`,
+      })
+      await fetchSeries()
+    } catch (err) {
+      setSeriesMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to request series' })
+    } finally {
+      setRequestingSeries(false)
+    }
+  }
+
+  const handleInstanceChange = (instanceId: number) => {
+    const instance = instances.find((i) => i.id === instanceId)
+    setSelectedInstanceId(instanceId)
+    setQualityProfiles(instance?.profiles || [])
+    setSelectedProfileId(instance?.profiles[0]?.id ?? null)
+    setRequestSuccess(false)
+  }
+
   const handleRequest = async () => {
     if (!book || selectedProfileId === null) return
     if (syncStatus && (!syncStatus.isBookshelfConfigured || !syncStatus.isSyncCompleted)) return
@@ -85,6 +182,7 @@ export default function BookPage({
         body: JSON.stringify({
           bookId: book.id,
           qualityProfileId: selectedProfileId,
+          instanceId: selectedInstanceId ?? undefined,
         }),
       })
 
@@ -179,12 +277,31 @@ export default function BookPage({
 
   const statusInfo = getStatusInfo()
   const isLocked = syncStatus && (!syncStatus.isBookshelfConfigured || !syncStatus.isSyncCompleted)
-  const canRequest = (!book.requestStatus || book.requestStatus === 'declined') && !isLocked
+  const hasMultipleInstances = instances.length > 1
+  // With several instances, a request only blocks the instance it was made on
+  const canRequest = hasMultipleInstances
+    ? selectedInstanceId !== null && !book.requestedInstanceIds?.includes(selectedInstanceId) && !isLocked
+    : (!book.requestStatus || book.requestStatus === 'declined') && !isLocked
+
+  const followedAuthor = follows.find((f) => f.authorName.toLowerCase() === book.author.toLowerCase())
 
   return (
     <div className="space-y-8">
       <BookDetails book={book} />
 
+      {book.author && book.author !== 'Unknown Author' && (
+        <div className="flex items-center justify-between gap-4 bg-background-card border border-border rounded-lg p-4">
+          <p className="text-sm text-foreground-muted">
+            Follow {book.author} to have their new books requested for you automatically.
+          </p>
+          <FollowAuthorButton
+            authorName={book.author}
+            followId={followedAuthor?.id ?? null}
+            onChange={() => fetchFollows()}
+          />
+        </div>
+      )}
+
       {/* Existing Request Status */}
       {statusInfo && (
         <div className={`px-4 py-3 rounded-md border ${statusInfo.color}`}>
@@ -200,6 +317,81 @@ export default function BookPage({
         </div>
       )}
 
+      {book.instanceAvailability && book.instanceAvailability.length > 1 && (
+        <div className="bg-background-card border border-border rounded-lg p-4">
+          <h4 className="font-medium mb-2">Library Availability</h4>
+          <ul className="space-y-1 text-sm">
+            {book.instanceAvailability.map((availability) => (
+              <li key={availability.instanceId} className="flex justify-between gap-4">
+                <span>
+                  {availability.instanceName}{' '}
+                  <span className="text-foreground-muted">
+                    ({availability.mediaType === 'audiobook' ? 'Audiobook' : 'Ebook'})
+                  </span>
+                </span>
+                <span className={availability.status === 'available' ? 'text-green-600' : 'text-foreground-muted'}>
+                  {availability.status
+                    ? availability.status.charAt(0).toUpperCase() + availability.status.slice(1)
+                    : 'Not in library'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {series && series.books.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{series.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ol className="space-y-1 text-sm">
+              {series.books.map((seriesBook) => (
+                <li
+                  key={seriesBook.id}
+                  className={`flex justify-between gap-4 px-2 py-1 rounded ${seriesBook.id === book.id ? 'bg-primary/10' : ''}`}
+                >
+                  <span className="min-w-0 truncate">
+                    <span className="text-foreground-muted mr-2">
+                      {seriesBook.seriesPosition !== undefined ? `#${seriesBook.seriesPosition}` : '—'}
+                    </span>
+                    {seriesBook.id === book.id ? (
+                      <span className="font-medium">{seriesBook.title}</span>
+                    ) : (
+                      <Link href={`/book/${seriesBook.id}`} className="hover:underline">
+                        {seriesBook.title}
+                      </Link>
+                    )}
+                  </span>
+                  <span className="text-foreground-muted whitespace-nowrap">
+                    {seriesBook.mimirrState && seriesBook.mimirrState !== 'Unowned' ? seriesBook.mimirrState : ''}
+                  </span>
+                </li>
+              ))}
+            </ol>
+
+            {seriesMessage && (
+              <p className={`text-sm ${seriesMessage.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                {seriesMessage.text}
+              </p>
+            )}
+
+            {series.remainingBookIds.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={handleRequestSeries}
+                disabled={requestingSeries || !!isLocked || selectedProfileId === null}
+              >
+                {requestingSeries
+                  ? 'Requesting...'
+                  : `Request the rest of this series (${series.remainingBookIds.length} ${series.remainingBookIds.length === 1 ? 'book' : 'books'})`}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {error && !requestSuccess && (
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
           {error}
@@ -229,12 +421,34 @@ export default function BookPage({
         </div>
       )}
 
-      {qualityProfiles.length > 0 && (
+      {(qualityProfiles.length > 0 || hasMultipleInstances) && (
         <Card>
           <CardHeader>
             <CardTitle>Request Options</CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            {hasMultipleInstances && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">
+                  Library
+                </label>
+                <select
+                  value={selectedInstanceId || ''}
+                  onChange={(e) => handleInstanceChange(Number(e.target.value))}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  disabled={requesting}
+                >
+                  {instances.map((instance) => (
+                    <option key={instance.id} value={instance.id}>
+                      {instance.name} ({instance.mediaType === 'audiobook' ? 'Audiobook' : 'Ebook'})
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-foreground-muted">
+                  Choose which Bookshelf instance should fetch this book
+                </p>
+              </div>
+            )}
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">
                 Quality Profile
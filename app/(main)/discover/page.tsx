@@ -4,6 +4,7 @@ import { logToClient } from "@/lib/utils/client-logger"
 import { useEffect, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { BookGrid } from '@/components/book/book-grid'
+import type { RecommendationFeedbackType } from '@/components/book/book-card'
 import { AuthorGrid } from '@/components/author/author-grid'
 import { Card, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -19,11 +20,16 @@ export default function DiscoverPage() {
     newForYou: Book[]
     authorsForYou: Author[]
   } | null>(null)
+  const [popularBooks, setPopularBooks] = useState<Book[]>([])
+  const [newReleases, setNewReleases] = useState<Book[]>([])
+  const [nextInSeries, setNextInSeries] = useState<Book[]>([])
   const [searchResults, setSearchResults] = useState<Book[]>([])
   const [searchQuery, setSearchQuery] = useState('')
   const [loading, setLoading] = useState(true)
   const [searchState, setSearchState] = useState<'idle' | 'searching' | 'loading-details' | 'success' | 'error'>('idle')
   const [hasSearched, setHasSearched] = useState(false)
+  const [feedbackNotice, setFeedbackNotice] = useState<{ id: number; text: string } | null>(null)
+  const [followIds, setFollowIds] = useState<Map<string, number>>(new Map())
 
   // Sync search state with URL params on mount and when params change
   useEffect(() => {
@@ -101,29 +107,106 @@ export default function DiscoverPage() {
     }
   }, [searchParams])
 
-  useEffect(() => {
-    async function fetchBooks() {
-      try {
-        const personalizedResponse = await fetch('/api/discover/personalized?limit=10')
-        const personalizedData = await personalizedResponse.json()
-
-        console.log('Personalized data received:', personalizedData)
-        console.log('hasRequests:', personalizedData.hasRequests)
-        console.log('popularForYou count:', personalizedData.popularForYou?.length)
-        console.log('newForYou count:', personalizedData.newForYou?.length)
-        console.log('authorsForYou count:', personalizedData.authorsForYou?.length)
-
-        setPersonalizedBooks(personalizedData)
-      } catch (error) {
-        logToClient('error', 'Failed to fetch books:', { error: error instanceof Error ? error.message : error })
-      } finally {
-        setLoading(false)
+  async function fetchBooks() {
+    try {
+      const [personalizedResponse, popularResponse, newReleasesResponse, nextInSeriesResponse, followsResponse] = await Promise.all([
+        fetch('/api/discover/personalized?limit=10'),
+        fetch('/api/discover/popular?limit=10'),
+        fetch('/api/discover/new-releases?limit=10'),
+        fetch('/api/discover/next-in-series?limit=10'),
+        fetch('/api/user/follows'),
+      ])
+      const personalizedData = await personalizedResponse.json()
+
+      // Library-wide lists fill the rows until the user has personalized picks
+      if (popularResponse.ok) {
+        setPopularBooks((await popularResponse.json()).books || [])
+      }
+      if (newReleasesResponse.ok) {
+        setNewReleases((await newReleasesResponse.json()).books || [])
+      }
+      if (nextInSeriesResponse.ok) {
+        setNextInSeries((await nextInSeriesResponse.json()).books || [])
       }
+      if (followsResponse.ok) {
+        const { follows } = await followsResponse.json()
+        setFollowIds(new Map((follows || []).map((f: { id: number; authorName: string }) => [f.authorName.toLowerCase(), f.id])))
+      }
+
+      setPersonalizedBooks(personalizedData)
+    } catch (error) {
+      logToClient('error', 'Failed to fetch books:', { error: error instanceof Error ? error.message : error })
+    } finally {
+      setLoading(false)
     }
+  }
 
+  useEffect(() => {
     fetchBooks()
   }, [])
 
+  const handleFeedback = async (book: Book, type: RecommendationFeedbackType) => {
+    const authorName = book.authors?.[0] || book.author
+    const hidden = (b: Book) =>
+      type === 'hide_author'
+        ? (b.authors?.length ? b.authors : [b.author]).includes(authorName)
+        : b.id === book.id
+
+    try {
+      const response = await fetch('/api/discover/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(type === 'hide_author' ? { type, authorName } : { type, bookId: book.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save feedback')
+      }
+
+      setPersonalizedBooks((prev) => prev && {
+        ...prev,
+        popularForYou: prev.popularForYou.filter((b) => !hidden(b)),
+        newForYou: prev.newForYou.filter((b) => !hidden(b)),
+        authorsForYou: type === 'hide_author' ? prev.authorsForYou.filter((a) => a.name !== authorName) : prev.authorsForYou,
+      })
+      setPopularBooks((prev) => prev.filter((b) => !hidden(b)))
+      setNextInSeries((prev) => prev.filter((b) => !hidden(b)))
+      setNewReleases((prev) => prev.filter((b) => !hidden(b)))
+      setFeedbackNotice({
+        id: data.feedback.id,
+        text: type === 'hide_author' ? `Hid books by ${authorName}` : `Hid "${book.title}"`,
+      })
+    } catch (error) {
+      logToClient('error', 'Failed to save recommendation feedback:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  const undoFeedback = async () => {
+    if (!feedbackNotice) return
+
+    try {
+      const response = await fetch(`/api/discover/feedback/${feedbackNotice.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setFeedbackNotice(null)
+        await fetchBooks()
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to undo recommendation feedback:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  const handleFollowChange = (authorName: string, followId: number | null) => {
+    setFollowIds((prev) => {
+      const next = new Map(prev)
+      if (followId === null) {
+        next.delete(authorName.toLowerCase())
+      } else {
+        next.set(authorName.toLowerCase(), followId)
+      }
+      return next
+    })
+  }
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -146,13 +229,6 @@ export default function DiscoverPage() {
     )
   }
 
-  console.log('Rendering with personalizedBooks:', {
-    exists: !!personalizedBooks,
-    hasRequests: personalizedBooks?.hasRequests,
-    popularCount: personalizedBooks?.popularForYou?.length,
-    newCount: personalizedBooks?.newForYou?.length,
-  })
-
   return (
     <div className="space-y-4 md:space-y-8">
       <div>
@@ -229,6 +305,26 @@ export default function DiscoverPage() {
       {/* Only show sections if not searching */}
       {!hasSearched && personalizedBooks && (
         <>
+          {feedbackNotice && (
+            <div className="flex items-center justify-between gap-4 p-3 bg-background-secondary rounded-md border border-border text-sm">
+              <span>{feedbackNotice.text}. You won&apos;t see these in your recommendations again.</span>
+              <Button variant="outline" size="sm" onClick={undoFeedback}>
+                Undo
+              </Button>
+            </div>
+          )}
+
+          {nextInSeries.length > 0 && (
+            <section>
+              <Card className="mb-6 hover:bg-background-card">
+                <CardHeader>
+                  <CardTitle className="text-2xl">Next in Your Series</CardTitle>
+                </CardHeader>
+              </Card>
+              <BookGrid books={nextInSeries} onFeedback={handleFeedback} />
+            </section>
+          )}
+
           <section>
             <Card className="mb-6 hover:bg-background-card">
               <CardHeader>
@@ -236,8 +332,9 @@ export default function DiscoverPage() {
               </CardHeader>
             </Card>
             <BookGrid
-              books={personalizedBooks.hasRequests ? personalizedBooks.popularForYou : []}
-              emptyMessage="Request some books to populate this personalized list!"
+              books={personalizedBooks.hasRequests && personalizedBooks.popularForYou.length > 0 ? personalizedBooks.popularForYou : popularBooks}
+              emptyMessage="Nothing popular yet. Add import lists in Readarr or request some books to populate this list!"
+              onFeedback={handleFeedback}
             />
           </section>
 
@@ -248,8 +345,9 @@ export default function DiscoverPage() {
               </CardHeader>
             </Card>
             <BookGrid
-              books={personalizedBooks.hasRequests ? personalizedBooks.newForYou : []}
-              emptyMessage="Request some books to populate this personalized list!"
+              books={personalizedBooks.hasRequests && personalizedBooks.newForYou.length > 0 ? personalizedBooks.newForYou : newReleases}
+              emptyMessage="No recent releases yet. Add import lists in Readarr or request some books to populate this list!"
+              onFeedback={handleFeedback}
             />
           </section>
 
@@ -262,6 +360,8 @@ export default function DiscoverPage() {
             <AuthorGrid
               authors={personalizedBooks.hasRequests ? personalizedBooks.authorsForYou : []}
               emptyMessage="Request some books to populate this personalized list!"
+              followIds={followIds}
+              onFollowChange={handleFollowChange}
             />
           </section>
         </>
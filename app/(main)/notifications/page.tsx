@@ -0,0 +1,303 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { useServerEvents } from '@/lib/utils/server-events'
+import { NOTIFICATION_EVENTS } from '@/lib/services/notifications/types'
+import type { NotificationType } from '@/lib/services/notification.service'
+
+interface Notification {
+  id: number
+  type: NotificationType
+  title: string
+  message: string
+  link: string | null
+  isRead: boolean
+  createdAt: Date
+}
+
+const PAGE_SIZE = 25
+
+const TYPE_LABELS = Object.fromEntries(NOTIFICATION_EVENTS.map((event) => [event.type, event.label])) as Record<
+  NotificationType,
+  string
+>
+
+export default function NotificationsPage() {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [nextCursor, setNextCursor] = useState<number | null>(null)
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [typeFilter, setTypeFilter] = useState<NotificationType | ''>('')
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; ids: number[] }>({
+    show: false,
+    ids: [],
+  })
+
+  useEffect(() => {
+    setLoading(true)
+    setSelected(new Set())
+    fetchNotifications()
+  }, [typeFilter])
+
+  // New notifications are pushed as they are created; refetch anything missed while disconnected
+  useServerEvents((event) => {
+    if (event.type === 'notification') {
+      setUnreadCount((count) => count + 1)
+      if (!typeFilter || event.notification.type === typeFilter) {
+        const { notification } = event
+        setNotifications((current) => [notification, ...current.filter((n) => n.id !== notification.id)])
+      }
+    } else if (event.type === 'reconnected') {
+      fetchNotifications()
+    }
+  })
+
+  async function fetchNotifications(cursor?: number) {
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (typeFilter) params.set('type', typeFilter)
+      if (cursor) params.set('cursor', String(cursor))
+
+      const response = await fetch(`/api/notifications?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications')
+      }
+
+      const data = await response.json()
+      setNotifications((current) => (cursor ? [...current, ...data.notifications] : data.notifications))
+      setNextCursor(data.nextCursor)
+      setUnreadCount(data.unreadCount)
+    } catch (error) {
+      logToClient('error', 'Failed to fetch notifications:', { error: error instanceof Error ? error.message : error })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function loadMore() {
+    if (!nextCursor) return
+    setLoadingMore(true)
+    await fetchNotifications(nextCursor)
+    setLoadingMore(false)
+  }
+
+  async function markAsRead(id: number) {
+    try {
+      await fetch(`/api/notifications/${id}`, { method: 'POST' })
+      setNotifications((current) => current.map((n) => (n.id === id ? { ...n, isRead: true } : n)))
+      setUnreadCount((count) => Math.max(0, count - 1))
+    } catch (error) {
+      logToClient('error', 'Failed to mark notification as read:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function markAllAsRead() {
+    try {
+      await fetch('/api/notifications/read-all', { method: 'POST' })
+      setNotifications((current) => current.map((n) => ({ ...n, isRead: true })))
+      setUnreadCount(0)
+    } catch (error) {
+      logToClient('error', 'Failed to mark all as read:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  function toggleSelected(id: number, checked: boolean) {
+    const next = new Set(selected)
+    if (checked) {
+      next.add(id)
+    } else {
+      next.delete(id)
+    }
+    setSelected(next)
+  }
+
+  function toggleAll(checked: boolean) {
+    setSelected(checked ? new Set(notifications.map((n) => n.id)) : new Set())
+  }
+
+  async function confirmDelete() {
+    const ids = deleteConfirm.ids
+    if (ids.length === 0) return
+    setMessage(null)
+
+    try {
+      const response = ids.length === 1
+        ? await fetch(`/api/notifications/${ids[0]}`, { method: 'DELETE' })
+        : await fetch('/api/notifications/bulk-delete', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids }),
+          })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to delete notifications')
+      }
+
+      const removed = new Set(ids)
+      const unreadRemoved = notifications.filter((n) => removed.has(n.id) && !n.isRead).length
+      setNotifications((current) => current.filter((n) => !removed.has(n.id)))
+      setUnreadCount((count) => Math.max(0, count - unreadRemoved))
+      setSelected((current) => new Set(Array.from(current).filter((id) => !removed.has(id))))
+      setMessage({ type: 'success', text: `Deleted ${ids.length} notification${ids.length === 1 ? '' : 's'}` })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete notifications' })
+    } finally {
+      setDeleteConfirm({ show: false, ids: [] })
+    }
+  }
+
+  const allSelected = notifications.length > 0 && selected.size === notifications.length
+
+  return (
+    <div className="space-y-4 md:space-y-8">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2">
+          Notifications
+        </h1>
+        <p className="text-foreground-muted">
+          {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+        </p>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as NotificationType | '')}
+          className="w-full sm:w-64 px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">All types</option>
+          {NOTIFICATION_EVENTS.map((event) => (
+            <option key={event.type} value={event.type}>
+              {event.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button variant="outline" size="sm" onClick={markAllAsRead} disabled={unreadCount === 0}>
+            Mark all as read
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDeleteConfirm({ show: true, ids: Array.from(selected) })}
+            disabled={selected.size === 0}
+            className="text-red-600 hover:text-red-700"
+          >
+            Delete selected{selected.size > 0 ? ` (${selected.size})` : ''}
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[30vh]">
+          <p className="text-foreground-muted">Loading...</p>
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-foreground-muted">No notifications</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <label className="flex items-center gap-3 px-4 text-sm text-foreground-muted">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={(e) => toggleAll(e.target.checked)}
+              className="w-4 h-4 accent-primary cursor-pointer"
+            />
+            Select all loaded
+          </label>
+
+          {notifications.map((notification) => (
+            <div
+              key={notification.id}
+              className={`flex items-start gap-3 p-4 rounded-lg border border-border ${
+                notification.isRead ? 'bg-background-card' : 'bg-background-hover'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(notification.id)}
+                onChange={(e) => toggleSelected(notification.id, e.target.checked)}
+                className="mt-1 w-4 h-4 accent-primary cursor-pointer"
+                aria-label={`Select ${notification.title}`}
+              />
+              {!notification.isRead && (
+                <div className="w-2 h-2 mt-2 rounded-full bg-primary flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <h3 className="font-medium text-foreground text-sm">{notification.title}</h3>
+                <p className="text-sm text-foreground-muted mt-1">{notification.message}</p>
+                <p className="text-xs text-foreground-muted mt-2">
+                  {TYPE_LABELS[notification.type] || notification.type} ·{' '}
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                {notification.link && (
+                  <Link href={notification.link} onClick={() => !notification.isRead && markAsRead(notification.id)}>
+                    <Button variant="outline" size="sm">
+                      View
+                    </Button>
+                  </Link>
+                )}
+                {!notification.isRead && (
+                  <Button variant="outline" size="sm" onClick={() => markAsRead(notification.id)}>
+                    Mark read
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDeleteConfirm({ show: true, ids: [notification.id] })}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {nextCursor && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={deleteConfirm.show}
+        onOpenChange={(show) => setDeleteConfirm({ show, ids: [] })}
+        onConfirm={confirmDelete}
+        title={deleteConfirm.ids.length === 1 ? 'Delete Notification' : 'Delete Notifications'}
+        description={
+          deleteConfirm.ids.length === 1
+            ? 'Are you sure you want to delete this notification?'
+            : `Are you sure you want to delete ${deleteConfirm.ids.length} notifications?`
+        }
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </div>
+  )
+}
@@ -3,27 +3,43 @@ import { logToClient } from "@/lib/utils/client-logger"
 
 import { useEffect, useState } from 'react'
 import Image from 'next/image'
+import Link from 'next/link'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { RequestStatusBadge } from '@/components/request/request-status-badge'
+import { RequestTimeline } from '@/components/request/request-timeline'
+import { RequestComments } from '@/components/request/request-comments'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { ApproveDialog } from '@/components/request/approve-dialog'
+import { ResolveDialog } from '@/components/request/resolve-dialog'
+import { DeclineDialog } from '@/components/request/decline-dialog'
 import { BookOpen, CheckCircle, XCircle } from 'lucide-react'
+import { useServerEvents } from '@/lib/utils/server-events'
 import type { RequestWithBook } from '@/lib/services/request.service'
+import type { DeclineReason, DeclineReasonCount } from '@/lib/services/decline-reason.service'
+import type { BulkRequestAction } from '@/lib/services/approval.service'
 
 export default function AllRequestsPage() {
   const [requests, setRequests] = useState<RequestWithBook[]>([])
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState<string>('pending')
   const [polling, setPolling] = useState(false)
-  const [declineConfirm, setDeclineConfirm] = useState<{ show: boolean; id: number | null }>({
-    show: false,
-    id: null,
-  })
+  const [declineTarget, setDeclineTarget] = useState<RequestWithBook | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [bulkDecline, setBulkDecline] = useState(false)
+  const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false)
+  const [bulkRunning, setBulkRunning] = useState(false)
+  const [declineReasons, setDeclineReasons] = useState<DeclineReason[]>([])
+  const [declineCounts, setDeclineCounts] = useState<DeclineReasonCount[]>([])
   const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: number | null }>({
     show: false,
     id: null,
   })
   const [approvingId, setApprovingId] = useState<number | null>(null)
+  const [approveTarget, setApproveTarget] = useState<RequestWithBook | null>(null)
+  const [resolveTarget, setResolveTarget] = useState<RequestWithBook | null>(null)
+  const [historyId, setHistoryId] = useState<number | null>(null)
+  const [commentsId, setCommentsId] = useState<number | null>(null)
   const [toast, setToast] = useState<{
     show: boolean
     message: string
@@ -36,30 +52,15 @@ export default function AllRequestsPage() {
 
   useEffect(() => {
     fetchRequests()
+    fetchDeclineReasons()
   }, [])
 
-  // Auto-refresh requests every 10 seconds to show new/updated requests, but pause when tab is hidden
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (document.visibilityState === 'visible') {
-        fetchRequests()
-      }
-    }, 10000) // 10 seconds
-
-    // Also fetch when tab becomes visible again
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        fetchRequests()
-      }
-    }
-
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-
-    return () => {
-      clearInterval(interval)
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
+  // Refresh when any request changes status, or after missing events while disconnected
+  useServerEvents((event) => {
+    if (event.type === 'request_status' || event.type === 'reconnected') {
+      fetchRequests()
     }
-  }, [])
+  })
 
   async function fetchRequests() {
     try {
@@ -72,13 +73,42 @@ export default function AllRequestsPage() {
     } finally {
       setLoading(false)
     }
+
+    // Declines change with the request list, so their counts are refreshed alongside it
+    fetchDeclineCounts()
+  }
+
+  async function fetchDeclineCounts() {
+    try {
+      const response = await fetch('/api/admin/decline-stats')
+      if (response.ok) {
+        const data = await response.json()
+        setDeclineCounts(data.counts || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch decline stats:', { error: error instanceof Error ? error.message : error })
+    }
   }
 
-  async function handleApprove(id: number) {
+  async function fetchDeclineReasons() {
+    try {
+      const response = await fetch('/api/settings/decline-reasons')
+      if (response.ok) {
+        const data = await response.json()
+        setDeclineReasons(data.reasons || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch decline reasons:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleApprove(id: number, rootFolderPath?: string) {
     setApprovingId(id)
     try {
       const response = await fetch(`/api/requests/${id}/approve`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rootFolderPath }),
       })
 
       if (!response.ok) {
@@ -93,16 +123,12 @@ export default function AllRequestsPage() {
     }
   }
 
-  function handleDecline(id: number) {
-    setDeclineConfirm({ show: true, id })
-  }
-
-  async function confirmDecline() {
-    if (!declineConfirm.id) return
-
+  async function handleDecline(id: number, reasonId?: string, note?: string) {
     try {
-      const response = await fetch(`/api/requests/${declineConfirm.id}/decline`, {
+      const response = await fetch(`/api/requests/${id}/decline`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reasonId, note }),
       })
 
       if (!response.ok) {
@@ -110,7 +136,6 @@ export default function AllRequestsPage() {
       }
 
       await fetchRequests()
-      setDeclineConfirm({ show: false, id: null })
     } catch (error) {
       logToClient('error', 'Failed to decline request:', { error: error instanceof Error ? error.message : error })
     }
@@ -139,6 +164,57 @@ export default function AllRequestsPage() {
     }
   }
 
+  function toggleSelected(id: number) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  async function handleBulkAction(action: BulkRequestAction, extra: { reasonId?: string; note?: string } = {}) {
+    // Only send requests the action applies to (e.g. "Retry" only touches errored requests)
+    const eligible = selectedRequests.filter((r) => {
+      if (action === 'approve') return r.status === 'pending'
+      if (action === 'retry') return r.status === 'error'
+      if (action === 'decline') return r.status === 'pending' || r.status === 'error'
+      return true
+    })
+    if (eligible.length === 0) return
+
+    setBulkRunning(true)
+    try {
+      const response = await fetch('/api/requests/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ids: eligible.map((r) => r.id), ...extra }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply bulk action')
+      }
+
+      setToast({
+        show: true,
+        message: data.failed > 0
+          ? `${data.succeeded} updated, ${data.failed} failed: ${data.results.find((r: { success: boolean }) => !r.success)?.error}`
+          : `${data.succeeded} ${data.succeeded === 1 ? 'request' : 'requests'} updated`,
+        type: data.failed > 0 ? 'error' : 'success',
+      })
+      setSelectedIds(new Set())
+      await fetchRequests()
+    } catch (error) {
+      logToClient('error', 'Failed to apply bulk action:', { error: error instanceof Error ? error.message : error })
+      setToast({ show: true, message: error instanceof Error ? error.message : 'Failed to apply bulk action', type: 'error' })
+    } finally {
+      setBulkRunning(false)
+    }
+  }
+
   async function handlePollStatus() {
     setPolling(true)
     try {
@@ -177,6 +253,9 @@ export default function AllRequestsPage() {
             )
           : requests.filter((r) => r.status === filter)
 
+  const selectedRequests = requests.filter((r) => selectedIds.has(r.id))
+  const allVisibleSelected = filteredRequests.length > 0 && filteredRequests.every((r) => selectedIds.has(r.id))
+
   const stats = {
     total: requests.length,
     pending: requests.filter((r) => r.status === 'pending').length,
@@ -240,6 +319,19 @@ export default function AllRequestsPage() {
         </div>
       </div>
 
+      {declineCounts.length > 0 && (
+        <div className="bg-background-card border border-border rounded-lg p-4">
+          <p className="text-sm text-foreground-muted mb-2">Declines by Reason</p>
+          <ul className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            {declineCounts.map(({ reason, count }) => (
+              <li key={reason ?? ''}>
+                {reason || 'No reason given'}: <span className="font-semibold text-red-600">{count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Filter Buttons and Actions */}
       <div className="flex flex-wrap items-center justify-between gap-2">
         <div className="flex flex-wrap gap-2">
@@ -303,9 +395,70 @@ export default function AllRequestsPage() {
           >
             {polling ? 'Checking...' : 'Check Status Now'}
           </Button>
+          <Link href="/requests/archived">
+            <Button variant="outline" size="sm">
+              Archived
+            </Button>
+          </Link>
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {filteredRequests.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 bg-background-card border border-border rounded-lg px-4 py-2">
+          <label className="flex items-center gap-2 text-sm cursor-pointer mr-2">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={() =>
+                setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredRequests.map((r) => r.id)))
+              }
+              className="w-4 h-4 accent-primary cursor-pointer"
+            />
+            {selectedRequests.length > 0 ? `${selectedRequests.length} selected` : 'Select all'}
+          </label>
+          {selectedRequests.length > 0 && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => handleBulkAction('approve')}
+                disabled={bulkRunning || !selectedRequests.some((r) => r.status === 'pending')}
+              >
+                Approve
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBulkAction('retry')}
+                disabled={bulkRunning || !selectedRequests.some((r) => r.status === 'error')}
+              >
+                Retry Errored
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBulkDecline(true)}
+                disabled={bulkRunning || !selectedRequests.some((r) => r.status === 'pending' || r.status === 'error')}
+              >
+                Decline
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBulkDeleteConfirm(true)}
+                disabled={bulkRunning}
+                className="text-red-600 hover:text-red-700"
+              >
+                Delete
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())} disabled={bulkRunning}>
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Requests List */}
       <div className="space-y-4">
         {filteredRequests.length === 0 ? (
@@ -321,6 +474,14 @@ export default function AllRequestsPage() {
             <Card key={request.id} className="overflow-hidden">
               <CardContent className="p-4">
                 <div className="flex gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(request.id)}
+                    onChange={() => toggleSelected(request.id)}
+                    aria-label={`Select ${request.bookTitle}`}
+                    className="mt-1 w-4 h-4 flex-shrink-0 accent-primary cursor-pointer"
+                  />
+
                   {/* Book Cover */}
                   <div className="flex-shrink-0 w-16 h-24 relative bg-background-hover rounded overflow-hidden">
                     {request.bookCoverImage && request.bookCoverImage !== 'null' && !request.bookCoverImage.startsWith('/') ? (
@@ -380,6 +541,12 @@ export default function AllRequestsPage() {
                           Note: {request.notes}
                         </p>
                       )}
+                      {request.status === 'declined' && (request.declineReason || request.declineNote) && (
+                        <p className="text-red-600">
+                          Declined{request.declineReason ? `: ${request.declineReason}` : ''}
+                          {request.declineNote && <span className="text-foreground-muted"> - {request.declineNote}</span>}
+                        </p>
+                      )}
                     </div>
 
                     {/* Admin Actions */}
@@ -388,15 +555,25 @@ export default function AllRequestsPage() {
                         <Button
                           variant="default"
                           size="sm"
-                          onClick={() => handleApprove(request.id)}
+                          onClick={() => setApproveTarget(request)}
                           disabled={approvingId === request.id}
                         >
                           {approvingId === request.id ? (request.status === 'error' ? 'Retrying...' : 'Approving...') : (request.status === 'error' ? 'Retry Import' : 'Approve')}
                         </Button>
+                        {request.status === 'error' && request.notes?.includes('MIMIRR_MANUAL_INTERVENTION_REQUIRED') && (
+                          <Button
+                            variant="default"
+                            size="sm"
+                            onClick={() => setResolveTarget(request)}
+                            disabled={approvingId === request.id}
+                          >
+                            Resolve
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleDecline(request.id)}
+                          onClick={() => setDeclineTarget(request)}
                           disabled={approvingId === request.id}
                         >
                           Decline
@@ -425,6 +602,35 @@ export default function AllRequestsPage() {
                         </Button>
                       </div>
                     )}
+
+                    <div className="mt-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryId(historyId === request.id ? null : request.id)}
+                      >
+                        {historyId === request.id ? 'Hide History' : 'History'}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCommentsId(commentsId === request.id ? null : request.id)}
+                      >
+                        {commentsId === request.id ? 'Hide Comments' : 'Comments'}
+                      </Button>
+                    </div>
+
+                    {historyId === request.id && (
+                      <div className="mt-3">
+                        <RequestTimeline requestId={request.id} />
+                      </div>
+                    )}
+
+                    {commentsId === request.id && (
+                      <div className="mt-3">
+                        <RequestComments requestId={request.id} />
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -433,13 +639,44 @@ export default function AllRequestsPage() {
         )}
       </div>
 
+      <ApproveDialog
+        request={approveTarget}
+        onOpenChange={(open) => !open && setApproveTarget(null)}
+        onConfirm={(rootFolderPath) => approveTarget && handleApprove(approveTarget.id, rootFolderPath)}
+      />
+
+      <ResolveDialog
+        request={resolveTarget}
+        onOpenChange={(open) => !open && setResolveTarget(null)}
+        onResolved={() => {
+          setToast({ show: true, message: 'Request linked to the existing Bookshelf book', type: 'success' })
+          fetchRequests()
+        }}
+      />
+
+      <DeclineDialog
+        open={!!declineTarget}
+        description={declineTarget ? `Decline "${declineTarget.bookTitle}" requested by ${declineTarget.requestedBy || 'Unknown User'}.` : ''}
+        reasons={declineReasons}
+        onOpenChange={(open) => !open && setDeclineTarget(null)}
+        onConfirm={(reasonId, note) => declineTarget && handleDecline(declineTarget.id, reasonId, note)}
+      />
+
+      <DeclineDialog
+        open={bulkDecline}
+        description={`Decline the ${selectedRequests.filter((r) => r.status === 'pending' || r.status === 'error').length} selected pending or errored requests.`}
+        reasons={declineReasons}
+        onOpenChange={setBulkDecline}
+        onConfirm={(reasonId, note) => handleBulkAction('decline', { reasonId, note })}
+      />
+
       <ConfirmDialog
-        open={declineConfirm.show}
-        onOpenChange={(show) => setDeclineConfirm({ show, id: null })}
-        onConfirm={confirmDecline}
-        title="Decline Request"
-        description="Are you sure you want to decline this request? The user will not be notified."
-        confirmText="Decline"
+        open={bulkDeleteConfirm}
+        onOpenChange={setBulkDeleteConfirm}
+        onConfirm={() => handleBulkAction('delete')}
+        title="Delete Requests"
+        description={`Are you sure you want to delete ${selectedRequests.length} ${selectedRequests.length === 1 ? 'request' : 'requests'}? This action cannot be undone.`}
+        confirmText="Delete"
         cancelText="Cancel"
         variant="destructive"
       />
@@ -0,0 +1,263 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { RequestStatusBadge } from '@/components/request/request-status-badge'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import type { ArchivedRequestWithBook } from '@/lib/services/archive.service'
+
+export default function ArchivedRequestsPage() {
+  const [requests, setRequests] = useState<ArchivedRequestWithBook[]>([])
+  const [loading, setLoading] = useState(true)
+  const [retentionDays, setRetentionDays] = useState('30')
+  const [savingRetention, setSavingRetention] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [restoringId, setRestoringId] = useState<number | null>(null)
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: number | null }>({
+    show: false,
+    id: null,
+  })
+
+  useEffect(() => {
+    fetchArchived()
+  }, [])
+
+  async function fetchArchived() {
+    try {
+      const response = await fetch('/api/requests/archived')
+      const data = await response.json()
+      setRequests(data.requests || [])
+      if (typeof data.retentionDays === 'number') {
+        setRetentionDays(String(data.retentionDays))
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch archived requests:', { error: error instanceof Error ? error.message : error })
+      setRequests([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSaveRetention(e: React.FormEvent) {
+    e.preventDefault()
+    setSavingRetention(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/requests/archived', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retentionDays: parseInt(retentionDays, 10) }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save retention')
+      }
+
+      setMessage({ type: 'success', text: 'Retention period saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save retention' })
+    } finally {
+      setSavingRetention(false)
+    }
+  }
+
+  async function handleRestore(id: number) {
+    setRestoringId(id)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/requests/archived/${id}/restore`, {
+        method: 'POST',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore request')
+      }
+
+      setMessage({ type: 'success', text: 'Request restored. It will re-link with Bookshelf on the next sync.' })
+      await fetchArchived()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to restore request' })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteConfirm.id) return
+
+    try {
+      const response = await fetch(`/api/requests/archived/${deleteConfirm.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete archived request')
+      }
+
+      await fetchArchived()
+      setDeleteConfirm({ show: false, id: null })
+    } catch (error) {
+      logToClient('error', 'Failed to delete archived request:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-foreground-muted">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">
+            Archived Requests (Admin)
+          </h1>
+          <p className="text-foreground-muted">
+            Requests removed by library sync because their book disappeared from Bookshelf
+          </p>
+        </div>
+        <Link href="/requests/all">
+          <Button variant="outline" size="sm">
+            Back to All Requests
+          </Button>
+        </Link>
+      </div>
+
+      {/* Retention */}
+      <form
+        onSubmit={handleSaveRetention}
+        className="bg-background-card border border-border rounded-lg p-4 flex flex-col sm:flex-row sm:items-end gap-4"
+      >
+        <div className="space-y-2 flex-1">
+          <label htmlFor="retentionDays" className="text-sm font-medium">
+            Keep archived requests for (days)
+          </label>
+          <Input
+            id="retentionDays"
+            type="number"
+            min={0}
+            max={3650}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+          />
+          <p className="text-xs text-foreground-muted">
+            Archived requests older than this are permanently deleted. Use 0 to keep them forever.
+          </p>
+        </div>
+        <Button type="submit" disabled={savingRetention}>
+          {savingRetention ? 'Saving...' : 'Save'}
+        </Button>
+      </form>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* Archived Requests List */}
+      <div className="space-y-4">
+        {requests.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-foreground-muted">No archived requests</p>
+          </div>
+        ) : (
+          requests.map((request) => (
+            <Card key={request.id} className="overflow-hidden">
+              <CardContent className="p-4">
+                <div className="flex gap-4">
+                  {/* Book Cover */}
+                  <div className="flex-shrink-0 w-16 h-24 relative bg-background-hover rounded overflow-hidden">
+                    {request.bookCoverImage && request.bookCoverImage !== 'null' && !request.bookCoverImage.startsWith('/') ? (
+                      <Image
+                        src={request.bookCoverImage}
+                        alt={request.bookTitle || 'Unknown Book'}
+                        fill
+                        className="object-cover"
+                        sizes="64px"
+                      />
+                    ) : (
+                      <div className="flex items-center justify-center h-full text-foreground-muted">
+                        <span className="text-2xl">📚</span>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Request Details */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-semibold text-sm truncate">
+                          {request.bookTitle || 'Unknown Book'}
+                        </h3>
+                        <p className="text-xs text-foreground-muted truncate">
+                          {request.bookAuthor || 'Unknown Author'}
+                        </p>
+                      </div>
+                      <RequestStatusBadge status={request.status} />
+                    </div>
+
+                    <div className="mt-2 space-y-1 text-xs text-foreground-muted">
+                      {request.requestedBy && (
+                        <p className="font-medium text-foreground">
+                          Requested by: {request.requestedBy === 'system_sync' ? 'Manually Added' : request.requestedBy}
+                        </p>
+                      )}
+                      <p>
+                        Requested: {new Date(request.requestedAt).toLocaleDateString()}
+                        {' '}· Archived: {new Date(request.archivedAt).toLocaleString()}
+                      </p>
+                      <p className="italic">Reason: {request.archivedReason}</p>
+                    </div>
+
+                    <div className="mt-3 flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRestore(request.id)}
+                        disabled={restoringId === request.id}
+                      >
+                        {restoringId === request.id ? 'Restoring...' : 'Restore'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDeleteConfirm({ show: true, id: request.id })}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete Permanently
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={deleteConfirm.show}
+        onOpenChange={(show) => setDeleteConfirm({ show, id: null })}
+        onConfirm={confirmDelete}
+        title="Delete Archived Request"
+        description="Are you sure you want to permanently delete this request? This action cannot be undone."
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </div>
+  )
+}
@@ -6,10 +6,19 @@ import { RequestList } from '@/components/request/request-list'
 import { Button } from '@/components/ui/button'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { BookOpen, CheckCircle, XCircle } from 'lucide-react'
+import { useServerEvents } from '@/lib/utils/server-events'
 import type { RequestWithBook } from '@/lib/services/request.service'
+import type { QuotaStatus, QuotaWindow } from '@/lib/services/quota.service'
+
+const QUOTA_WINDOW_LABELS: Record<QuotaWindow, string> = {
+  daily: 'today',
+  weekly: 'in the last 7 days',
+  monthly: 'in the last 30 days',
+}
 
 export default function RequestsPage() {
   const [requests, setRequests] = useState<RequestWithBook[]>([])
+  const [quota, setQuota] = useState<QuotaStatus | null>(null)
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState<string>('pending')
   const [polling, setPolling] = useState(false)
@@ -29,30 +38,16 @@ export default function RequestsPage() {
 
   useEffect(() => {
     fetchRequests()
+    fetchQuota()
   }, [])
 
-  // Auto-refresh requests every 10 seconds to show new/updated requests, but pause when tab is hidden
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (document.visibilityState === 'visible') {
-        fetchRequests()
-      }
-    }, 10000) // 10 seconds
-
-    // Also fetch when tab becomes visible again
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        fetchRequests()
-      }
-    }
-
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-
-    return () => {
-      clearInterval(interval)
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
+  // Refresh when one of the user's requests changes status, or after missing events while disconnected
+  useServerEvents((event) => {
+    if (event.type === 'request_status' || event.type === 'reconnected') {
+      fetchRequests()
+      fetchQuota()
     }
-  }, [])
+  })
 
   async function fetchRequests() {
     try {
@@ -67,6 +62,17 @@ export default function RequestsPage() {
     }
   }
 
+  async function fetchQuota() {
+    try {
+      const response = await fetch('/api/user/quota')
+      if (!response.ok) return
+      const data = await response.json()
+      setQuota(data.quota || null)
+    } catch (error) {
+      logToClient('error', 'Failed to fetch request quota:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
   function handleDelete(id: number) {
     setDeleteConfirm({ show: true, id })
   }
@@ -85,6 +91,7 @@ export default function RequestsPage() {
 
       // Refresh requests
       await fetchRequests()
+      await fetchQuota()
     } catch (error) {
       logToClient('error', 'Failed to delete request:', { error: error instanceof Error ? error.message : error })
     }
@@ -142,6 +149,10 @@ export default function RequestsPage() {
     error: requests.filter((r) => r.status === 'error').length,
   }
 
+  const limitedQuotaWindows = quota && !quota.exempt
+    ? (['daily', 'weekly', 'monthly'] as QuotaWindow[]).filter((w) => quota[w].limit !== null)
+    : []
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
@@ -161,6 +172,26 @@ export default function RequestsPage() {
         </p>
       </div>
 
+      {/* Request Quota */}
+      {quota && limitedQuotaWindows.length > 0 && (
+        <div className="bg-background-card border border-border rounded-lg p-4">
+          <p className="text-sm font-medium mb-1">Remaining requests</p>
+          <div className="flex flex-col sm:flex-row sm:flex-wrap gap-x-6 gap-y-1 text-sm text-foreground-muted">
+            {limitedQuotaWindows.map((w) => (
+              <span key={w}>
+                <span className={`font-semibold ${quota[w].remaining === 0 ? 'text-red-600' : 'text-foreground'}`}>
+                  {quota[w].remaining} of {quota[w].limit}
+                </span>{' '}
+                {QUOTA_WINDOW_LABELS[w]}
+                {quota[w].remaining === 0 && quota[w].resetsAt && (
+                  <> · next slot {new Date(quota[w].resetsAt as Date).toLocaleString()}</>
+                )}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Statistics */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="bg-background-card border border-border rounded-lg p-4">
@@ -0,0 +1,441 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+
+type RuleType = 'user' | 'role' | 'quality_profile' | 'library_author'
+
+interface AutoApprovalRule {
+  id: number
+  name: string
+  ruleType: RuleType
+  targetUserId: number | null
+  targetRole: 'admin' | 'user' | null
+  targetQualityProfileId: number | null
+  targetInstanceId: number | null
+  enabled: boolean
+  matchCount: number
+  lastMatchedAt: string | null
+}
+
+interface UserOption {
+  id: number
+  username: string
+}
+
+interface QualityProfileOption {
+  id: number
+  name: string
+}
+
+interface InstanceProfiles {
+  id: number
+  name: string
+  profiles: QualityProfileOption[]
+}
+
+interface RuleForm {
+  name: string
+  ruleType: RuleType
+  targetUserId: string
+  targetRole: 'admin' | 'user'
+  // "<instanceId>:<profileId>", since profile IDs repeat across instances
+  targetProfile: string
+  enabled: boolean
+}
+
+const RULE_TYPE_LABELS: Record<RuleType, string> = {
+  user: 'Specific user',
+  role: 'User role',
+  quality_profile: 'Quality profile',
+  library_author: 'Author already in library',
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  ruleType: 'user',
+  targetUserId: '',
+  targetRole: 'user',
+  targetProfile: '',
+  enabled: true,
+}
+
+export default function AutoApprovalSettingsPage() {
+  const [rules, setRules] = useState<AutoApprovalRule[]>([])
+  const [userOptions, setUserOptions] = useState<UserOption[]>([])
+  const [instances, setInstances] = useState<InstanceProfiles[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<number | null>(null)
+  const [formData, setFormData] = useState<RuleForm>({ ...EMPTY_FORM })
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: number | null; name: string }>({
+    show: false,
+    id: null,
+    name: '',
+  })
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [rulesResponse, usersResponse, profilesResponse] = await Promise.all([
+          fetch('/api/settings/auto-approval'),
+          fetch('/api/users'),
+          fetch('/api/settings/quality-profiles'),
+        ])
+
+        const rulesData = await rulesResponse.json()
+        const usersData = await usersResponse.json()
+        const profilesData = await profilesResponse.json()
+
+        setRules(rulesData.rules || [])
+        setUserOptions(usersData.users || [])
+        setInstances(profilesData.instances || [])
+      } catch (error) {
+        logToClient('error', 'Failed to fetch auto-approval settings:', { error: error instanceof Error ? error.message : error })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [])
+
+  async function fetchRules() {
+    try {
+      const response = await fetch('/api/settings/auto-approval')
+      const data = await response.json()
+      setRules(data.rules || [])
+    } catch (error) {
+      logToClient('error', 'Failed to fetch auto-approval rules:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  function openCreateForm() {
+    setEditingRuleId(null)
+    setFormData({ ...EMPTY_FORM })
+    setMessage('')
+    setShowForm(true)
+  }
+
+  function openEditForm(rule: AutoApprovalRule) {
+    setEditingRuleId(rule.id)
+    setFormData({
+      name: rule.name,
+      ruleType: rule.ruleType,
+      targetUserId: rule.targetUserId?.toString() ?? '',
+      targetRole: rule.targetRole ?? 'user',
+      targetProfile: rule.targetInstanceId && rule.targetQualityProfileId
+        ? `${rule.targetInstanceId}:${rule.targetQualityProfileId}`
+        : '',
+      enabled: rule.enabled,
+    })
+    setMessage('')
+    setShowForm(true)
+  }
+
+  function buildPayload(form: RuleForm) {
+    const [instanceId, profileId] = form.targetProfile.split(':')
+    return {
+      name: form.name,
+      ruleType: form.ruleType,
+      targetUserId: form.targetUserId ? parseInt(form.targetUserId) : null,
+      targetRole: form.ruleType === 'role' ? form.targetRole : null,
+      targetQualityProfileId: profileId ? parseInt(profileId) : null,
+      targetInstanceId: instanceId ? parseInt(instanceId) : null,
+      enabled: form.enabled,
+    }
+  }
+
+  async function handleSaveRule(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const response = await fetch(
+        editingRuleId ? `/api/settings/auto-approval/${editingRuleId}` : '/api/settings/auto-approval',
+        {
+          method: editingRuleId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildPayload(formData)),
+        }
+      )
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save rule')
+      }
+
+      setShowForm(false)
+      setEditingRuleId(null)
+      await fetchRules()
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to save rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleToggleRule(rule: AutoApprovalRule) {
+    try {
+      const response = await fetch(`/api/settings/auto-approval/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: rule.name,
+          ruleType: rule.ruleType,
+          targetUserId: rule.targetUserId,
+          targetRole: rule.targetRole,
+          targetQualityProfileId: rule.targetQualityProfileId,
+          targetInstanceId: rule.targetInstanceId,
+          enabled: !rule.enabled,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update rule')
+      }
+
+      await fetchRules()
+    } catch (error) {
+      logToClient('error', 'Failed to toggle auto-approval rule:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function confirmDeleteRule() {
+    if (!deleteConfirm.id) return
+
+    try {
+      const response = await fetch(`/api/settings/auto-approval/${deleteConfirm.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete rule')
+      }
+
+      await fetchRules()
+    } catch (error) {
+      logToClient('error', 'Failed to delete auto-approval rule:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  function describeTarget(rule: AutoApprovalRule): string {
+    switch (rule.ruleType) {
+      case 'user': {
+        const target = userOptions.find((u) => u.id === rule.targetUserId)
+        return `User: ${target?.username || `#${rule.targetUserId}`}`
+      }
+      case 'role':
+        return `Role: ${rule.targetRole === 'admin' ? 'Administrators' : 'Users'}`
+      case 'quality_profile': {
+        const instance = instances.find((i) => i.id === rule.targetInstanceId)
+        const profile = instance?.profiles.find((p) => p.id === rule.targetQualityProfileId)
+        const profileName = profile?.name || `#${rule.targetQualityProfileId}`
+        return `Quality profile: ${instances.length > 1 && instance ? `${instance.name} / ${profileName}` : profileName}`
+      }
+      case 'library_author':
+        return 'Author already has books in the library'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-foreground-muted">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle>Auto-Approval Rules</CardTitle>
+              <CardDescription>
+                New requests matching any enabled rule are approved and sent to Bookshelf immediately.
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateForm}>Add Rule</Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {showForm && (
+            <form onSubmit={handleSaveRule} className="space-y-4 border border-border rounded-lg p-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name *</label>
+                <Input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                  placeholder="e.g. Trusted family members"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Match on *</label>
+                <select
+                  value={formData.ruleType}
+                  onChange={(e) => setFormData({ ...formData, ruleType: e.target.value as RuleType })}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background"
+                >
+                  {(Object.keys(RULE_TYPE_LABELS) as RuleType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {RULE_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.ruleType === 'user' && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">User *</label>
+                  <select
+                    value={formData.targetUserId}
+                    onChange={(e) => setFormData({ ...formData, targetUserId: e.target.value })}
+                    className="w-full px-3 py-2 border border-border rounded-md bg-background"
+                    required
+                  >
+                    <option value="">Select a user</option>
+                    {userOptions.map((u) => (
+                      <option key={u.id} value={u.id}>
+                        {u.username}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {formData.ruleType === 'role' && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Role *</label>
+                  <select
+                    value={formData.targetRole}
+                    onChange={(e) => setFormData({ ...formData, targetRole: e.target.value as 'admin' | 'user' })}
+                    className="w-full px-3 py-2 border border-border rounded-md bg-background"
+                  >
+                    <option value="user">User</option>
+                    <option value="admin">Administrator</option>
+                  </select>
+                </div>
+              )}
+
+              {formData.ruleType === 'quality_profile' && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Quality Profile *</label>
+                  <select
+                    value={formData.targetProfile}
+                    onChange={(e) => setFormData({ ...formData, targetProfile: e.target.value })}
+                    className="w-full px-3 py-2 border border-border rounded-md bg-background"
+                    required
+                  >
+                    <option value="">Select a profile</option>
+                    {instances.map((instance) => (
+                      <optgroup key={instance.id} label={instance.name}>
+                        {instance.profiles.map((p) => (
+                          <option key={p.id} value={`${instance.id}:${p.id}`}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.enabled}
+                  onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+
+              {message && <p className="text-sm text-red-600">{message}</p>}
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'Saving...' : editingRuleId ? 'Save Rule' : 'Create Rule'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {rules.length === 0 ? (
+            <p className="text-center py-8 text-foreground-muted">
+              No auto-approval rules. Every request waits for an administrator.
+            </p>
+          ) : (
+            rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-start justify-between gap-4 bg-background-card border border-border rounded-lg p-4"
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{rule.name}</h3>
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full font-medium ${
+                        rule.enabled
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'
+                      }`}
+                    >
+                      {rule.enabled ? 'Enabled' : 'Disabled'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-foreground-muted mt-1">{describeTarget(rule)}</p>
+                  <p className="text-xs text-foreground-muted mt-2">
+                    Matched {rule.matchCount} {rule.matchCount === 1 ? 'request' : 'requests'}
+                    {rule.lastMatchedAt && (
+                      <> · Last match: {new Date(rule.lastMatchedAt).toLocaleString()}</>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleToggleRule(rule)}>
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => openEditForm(rule)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeleteConfirm({ show: true, id: rule.id, name: rule.name })}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        open={deleteConfirm.show}
+        onOpenChange={(show) => setDeleteConfirm({ show, id: null, name: '' })}
+        onConfirm={confirmDeleteRule}
+        title="Delete Rule"
+        description={`Are you sure you want to delete the rule "${deleteConfirm.name}"?`}
+        confirmText="Delete Rule"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 import { logToClient } from "@/lib/utils/client-logger"
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -28,6 +28,10 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
+import { BookshelfInstances } from '@/components/settings/bookshelf-instances'
+import { useServerEvents } from '@/lib/utils/server-events'
+import type { ReconciliationPlan } from '@/lib/services/sync.service'
+import type { BookshelfInstance } from '@/lib/db'
 
 interface QualityProfile {
   id: number
@@ -35,14 +39,37 @@ interface QualityProfile {
   profileName: string
   enabled: boolean
   orderIndex: number
+  rootFolderPath: string | null
+  metadataProfileId: number | null
+}
+
+interface RootFolder {
+  id: number
+  path: string
+}
+
+interface MetadataProfile {
+  id: number
+  name: string
 }
 
 interface SortableProfileProps {
   profile: QualityProfile
+  rootFolders: RootFolder[]
+  metadataProfiles: MetadataProfile[]
   onToggle: (profileId: number, enabled: boolean) => void
+  onRootFolderChange: (profileId: number, rootFolderPath: string | null) => void
+  onMetadataProfileChange: (profileId: number, metadataProfileId: number | null) => void
 }
 
-function SortableProfile({ profile, onToggle }: SortableProfileProps) {
+function SortableProfile({
+  profile,
+  rootFolders,
+  metadataProfiles,
+  onToggle,
+  onRootFolderChange,
+  onMetadataProfileChange,
+}: SortableProfileProps) {
   const {
     attributes,
     listeners,
@@ -92,13 +119,60 @@ function SortableProfile({ profile, onToggle }: SortableProfileProps) {
         onChange={(e) => onToggle(profile.profileId, e.target.checked)}
         className="w-4 h-4 cursor-pointer"
       />
-      <span className={profile.enabled ? 'text-foreground' : 'text-foreground-muted line-through'}>
+      <span className={`flex-1 ${profile.enabled ? 'text-foreground' : 'text-foreground-muted line-through'}`}>
         {profile.profileName}
       </span>
+      {rootFolders.length > 1 && (
+        <select
+          value={profile.rootFolderPath ?? ''}
+          onChange={(e) => onRootFolderChange(profile.profileId, e.target.value || null)}
+          title="Root folder for books requested with this profile"
+          className="max-w-[50%] px-2 py-1 text-sm bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">First root folder</option>
+          {rootFolders.map((folder) => (
+            <option key={folder.id} value={folder.path}>
+              {folder.path}
+            </option>
+          ))}
+        </select>
+      )}
+      {metadataProfiles.length > 0 && (
+        <select
+          value={profile.metadataProfileId ?? ''}
+          onChange={(e) => onMetadataProfileChange(profile.profileId, e.target.value ? Number(e.target.value) : null)}
+          title="Metadata profile for authors added with this profile"
+          className="max-w-[30%] px-2 py-1 text-sm bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">Default metadata</option>
+          {metadataProfiles.map((metadataProfile) => (
+            <option key={metadataProfile.id} value={metadataProfile.id}>
+              {metadataProfile.name}
+            </option>
+          ))}
+        </select>
+      )}
     </div>
   )
 }
 
+function PlanSection({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) {
+    return <p className="text-foreground-muted">{title}</p>
+  }
+
+  return (
+    <details>
+      <summary className="cursor-pointer">{title}</summary>
+      <ul className="mt-1 ml-4 list-disc font-mono text-xs text-foreground-muted max-h-40 overflow-y-auto">
+        {items.map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+      </ul>
+    </details>
+  )
+}
+
 export default function BookshelfSettingsPage() {
   const [formData, setFormData] = useState({
     url: '',
@@ -121,9 +195,18 @@ export default function BookshelfSettingsPage() {
   } | null>(null)
   const [qualityProfiles, setQualityProfiles] = useState<QualityProfile[]>([])
   const [profilesLoading, setProfilesLoading] = useState(false)
+  const [instances, setInstances] = useState<BookshelfInstance[]>([])
+  const [profileInstanceId, setProfileInstanceId] = useState<number | null>(null)
+  const [rootFolders, setRootFolders] = useState<RootFolder[]>([])
+  const [metadataProfiles, setMetadataProfiles] = useState<MetadataProfile[]>([])
+  const [defaultMetadataProfileId, setDefaultMetadataProfileId] = useState<number | null>(null)
   const [showUnsavedWarning, setShowUnsavedWarning] = useState(false)
   const [showApiKeyHelp, setShowApiKeyHelp] = useState(false)
 
+  // Webhook State
+  const [webhookSecret, setWebhookSecret] = useState('')
+  const [regeneratingSecret, setRegeneratingSecret] = useState(false)
+
   // Sync Job State
   const [syncJob, setSyncJob] = useState<any>(null)
   const [startingScan, setStartingScan] = useState(false)
@@ -158,8 +241,54 @@ export default function BookshelfSettingsPage() {
   useEffect(() => {
     fetchSettings()
     fetchQualityProfiles()
+    fetchWebhookSecret()
   }, [])
 
+  async function fetchWebhookSecret() {
+    try {
+      const response = await fetch('/api/settings/bookshelf/webhook')
+      if (response.ok) {
+        const data = await response.json()
+        setWebhookSecret(data.secret || '')
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch webhook secret:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleRegenerateSecret() {
+    setRegeneratingSecret(true)
+    try {
+      const response = await fetch('/api/settings/bookshelf/webhook', { method: 'POST' })
+      if (response.ok) {
+        const data = await response.json()
+        setWebhookSecret(data.secret || '')
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to regenerate webhook secret:', { error: error instanceof Error ? error.message : error })
+    } finally {
+      setRegeneratingSecret(false)
+    }
+  }
+
+  const webhookUrl = typeof window !== 'undefined'
+    ? `${window.location.origin}/api/webhooks/bookshelf`
+    : '/api/webhooks/bookshelf'
+
+  function handleInstancesChange(updated: BookshelfInstance[]) {
+    setInstances(updated)
+    // Keep the profile editor on a valid instance
+    if (profileInstanceId && !updated.some((i) => i.id === profileInstanceId)) {
+      setProfileInstanceId(null)
+      fetchQualityProfiles()
+    }
+  }
+
+  function handleProfileInstanceChange(instanceId: number) {
+    setProfileInstanceId(instanceId)
+    fetchQualityProfiles(instanceId)
+  }
+
   // Warn user when leaving page with unsaved changes
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
@@ -173,46 +302,54 @@ export default function BookshelfSettingsPage() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload)
   }, [hasUnsavedChanges])
 
-  // Polling for sync status
-  useEffect(() => {
-    const fetchStatus = async () => {
-      try {
-        const response = await fetch('/api/admin/readarr/scan-status')
-        if (response.ok) {
-          const data = await response.json()
-          if (data.job) {
-            setSyncJob(data.job)
-            if (data.job.status !== 'scanning') {
-              setScanMessage(null)
-            }
+  // Sync status: fetched once, then pushed as the job progresses.
+  // Applying a plan also touches the older dry-run job, so only the newest job is followed.
+  const latestSyncJobId = useRef(0)
+
+  async function fetchScanStatus() {
+    try {
+      const response = await fetch('/api/admin/readarr/scan-status')
+      if (response.ok) {
+        const data = await response.json()
+        if (data.job) {
+          latestSyncJobId.current = data.job.id ?? 0
+          setSyncJob(data.job)
+          if (data.job.status !== 'scanning') {
+            setScanMessage(null)
           }
         }
-      } catch (e) {
-        // Ignore errors to not spam console
       }
+    } catch (e) {
+      // Ignore errors to not spam console
     }
+  }
 
-    // Fetch immediately on mount
-    fetchStatus()
+  useEffect(() => {
+    fetchScanStatus()
+  }, [])
 
-    // Setup rapid polling
-    const interval = setInterval(() => {
-      // Only poll if a scan might be running, or we don't know yet
-      if (!syncJob || syncJob.status === 'scanning') {
-        fetchStatus()
+  useServerEvents((event) => {
+    if (event.type === 'sync_job') {
+      if (event.job.id < latestSyncJobId.current) return
+      latestSyncJobId.current = event.job.id
+      setSyncJob(event.job)
+      if (event.job.status !== 'scanning') {
+        setScanMessage(null)
       }
-    }, 1000)
-
-    return () => clearInterval(interval)
-  }, [syncJob?.status])
+    } else if (event.type === 'reconnected') {
+      fetchScanStatus()
+    }
+  })
 
 
-  async function handleStartScan() {
+  async function handleStartScan(dryRun = false) {
     setStartingScan(true)
     setScanMessage(null)
     try {
       const response = await fetch('/api/admin/readarr/start-scan', {
-        method: 'POST'
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
       })
 
       const data = await response.json()
@@ -222,8 +359,8 @@ export default function BookshelfSettingsPage() {
       }
 
       // Update local state to trigger polling
-      setSyncJob({ status: 'scanning', currentLogMessage: 'Initializing scan...' })
-      setScanMessage({ type: 'success', text: 'Scan started successfully.' })
+      setSyncJob({ status: 'scanning', dryRun, currentLogMessage: dryRun ? 'Initializing dry run...' : 'Initializing scan...' })
+      setScanMessage({ type: 'success', text: dryRun ? 'Dry run started successfully.' : 'Scan started successfully.' })
 
     } catch (e: any) {
       setScanMessage({ type: 'error', text: e.message || 'Failed to start scan' })
@@ -233,6 +370,46 @@ export default function BookshelfSettingsPage() {
     }
   }
 
+  async function handleApplyPlan() {
+    if (!syncJob?.id) return
+
+    setStartingScan(true)
+    setScanMessage(null)
+    try {
+      const response = await fetch('/api/admin/readarr/apply-plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: syncJob.id }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply plan')
+      }
+
+      setSyncJob({ status: 'scanning', currentLogMessage: 'Applying plan...' })
+      setScanMessage({ type: 'success', text: 'Plan is being applied.' })
+
+    } catch (e: any) {
+      setScanMessage({ type: 'error', text: e.message || 'Failed to apply plan' })
+      logToClient('error', 'Failed to apply plan:', { error: e.message || e })
+    } finally {
+      setStartingScan(false)
+    }
+  }
+
+  // Plans (one per instance) stored by the latest dry run, if they have not been applied yet
+  const pendingPlans: ReconciliationPlan[] | null = (() => {
+    if (!syncJob?.dryRun || syncJob.status !== 'complete' || !syncJob.plan || syncJob.planAppliedAt) return null
+    try {
+      const parsed = JSON.parse(syncJob.plan)
+      return Array.isArray(parsed) ? parsed : [parsed]
+    } catch {
+      return null
+    }
+  })()
+
 
 
 
@@ -256,10 +433,14 @@ export default function BookshelfSettingsPage() {
     }
   }
 
-  async function fetchQualityProfiles() {
+  async function fetchQualityProfiles(instanceId: number | null = profileInstanceId) {
     try {
       setProfilesLoading(true)
-      const response = await fetch('/api/settings/bookshelf/quality-profiles')
+      const response = await fetch(
+        instanceId
+          ? `/api/settings/bookshelf/quality-profiles?instanceId=${instanceId}`
+          : '/api/settings/bookshelf/quality-profiles'
+      )
       const data = await response.json()
 
       if (response.ok) {
@@ -270,6 +451,78 @@ export default function BookshelfSettingsPage() {
     } finally {
       setProfilesLoading(false)
     }
+
+    fetchRootFolders(instanceId)
+    fetchMetadataProfiles(instanceId)
+  }
+
+  async function fetchMetadataProfiles(instanceId: number | null) {
+    try {
+      const response = await fetch(
+        instanceId
+          ? `/api/settings/bookshelf/metadata-profiles?instanceId=${instanceId}`
+          : '/api/settings/bookshelf/metadata-profiles'
+      )
+      const data = await response.json()
+
+      if (response.ok) {
+        setMetadataProfiles(data.profiles || [])
+        setDefaultMetadataProfileId(data.defaultMetadataProfileId ?? null)
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch metadata profiles:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleDefaultMetadataProfile(metadataProfileId: number | null) {
+    try {
+      const response = await fetch('/api/settings/bookshelf/metadata-profiles', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ metadataProfileId, instanceId: profileInstanceId ?? undefined }),
+      })
+
+      if (response.ok) {
+        setDefaultMetadataProfileId(metadataProfileId)
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to update default metadata profile:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleProfileMetadataProfile(profileId: number, metadataProfileId: number | null) {
+    try {
+      const response = await fetch('/api/settings/bookshelf/quality-profiles', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileId, metadataProfileId, instanceId: profileInstanceId ?? undefined }),
+      })
+
+      if (response.ok) {
+        setQualityProfiles(prev =>
+          prev.map(p => (p.profileId === profileId ? { ...p, metadataProfileId } : p))
+        )
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to update profile metadata profile:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function fetchRootFolders(instanceId: number | null) {
+    try {
+      const response = await fetch(
+        instanceId
+          ? `/api/settings/bookshelf/root-folders?instanceId=${instanceId}`
+          : '/api/settings/bookshelf/root-folders'
+      )
+      const data = await response.json()
+
+      if (response.ok) {
+        setRootFolders(data.rootFolders || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch root folders:', { error: error instanceof Error ? error.message : error })
+    }
   }
 
   async function handleToggleProfile(profileId: number, enabled: boolean) {
@@ -277,7 +530,7 @@ export default function BookshelfSettingsPage() {
       const response = await fetch('/api/settings/bookshelf/quality-profiles', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ profileId, enabled }),
+        body: JSON.stringify({ profileId, enabled, instanceId: profileInstanceId ?? undefined }),
       })
 
       if (response.ok) {
@@ -290,6 +543,24 @@ export default function BookshelfSettingsPage() {
     }
   }
 
+  async function handleProfileRootFolder(profileId: number, rootFolderPath: string | null) {
+    try {
+      const response = await fetch('/api/settings/bookshelf/quality-profiles', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileId, rootFolderPath, instanceId: profileInstanceId ?? undefined }),
+      })
+
+      if (response.ok) {
+        setQualityProfiles(prev =>
+          prev.map(p => (p.profileId === profileId ? { ...p, rootFolderPath } : p))
+        )
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to update profile root folder:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
   async function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event
 
@@ -308,6 +579,7 @@ export default function BookshelfSettingsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           orderedProfileIds: newProfiles.map(p => p.profileId),
+          instanceId: profileInstanceId ?? undefined,
         }),
       })
     } catch (error) {
@@ -444,7 +716,7 @@ export default function BookshelfSettingsPage() {
         <CardHeader>
           <CardTitle>Bookshelf Configuration</CardTitle>
           <CardDescription>
-            Configure the connection to your Bookshelf instance for automated
+            Configure the connection to your default Bookshelf instance for automated
             book downloads
           </CardDescription>
         </CardHeader>
@@ -580,15 +852,49 @@ export default function BookshelfSettingsPage() {
         </CardContent>
       </Card>
 
-      {qualityProfiles.length > 0 && (
+      {isConfigured && <BookshelfInstances onChange={handleInstancesChange} />}
+
+      {(qualityProfiles.length > 0 || instances.length > 1) && (
         <Card>
           <CardHeader>
             <CardTitle>Quality Profiles</CardTitle>
             <CardDescription>
               Enable/disable profiles and reorder them. The first enabled profile will be the default selection when making requests.
+              {rootFolders.length > 1 && ' Pick a root folder per profile to control where approved books are stored.'}
+              {metadataProfiles.length > 0 && ' New authors get the metadata profile mapped to the request\'s quality profile, or the default below.'}
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            {instances.length > 1 && (
+              <select
+                value={profileInstanceId ?? instances.find((i) => i.isDefault)?.id ?? ''}
+                onChange={(e) => handleProfileInstanceChange(Number(e.target.value))}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {instances.map((instance) => (
+                  <option key={instance.id} value={instance.id}>
+                    {instance.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {metadataProfiles.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Default Metadata Profile</label>
+                <select
+                  value={defaultMetadataProfileId ?? ''}
+                  onChange={(e) => handleDefaultMetadataProfile(e.target.value ? Number(e.target.value) : null)}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">First profile in Bookshelf ({metadataProfiles[0].name})</option>
+                  {metadataProfiles.map((metadataProfile) => (
+                    <option key={metadataProfile.id} value={metadataProfile.id}>
+                      {metadataProfile.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             {profilesLoading ? (
               <div className="text-center py-4 text-foreground-muted">
                 Loading profiles...
@@ -608,7 +914,11 @@ export default function BookshelfSettingsPage() {
                       <SortableProfile
                         key={profile.profileId}
                         profile={profile}
+                        rootFolders={rootFolders}
+                        metadataProfiles={metadataProfiles}
                         onToggle={handleToggleProfile}
+                        onRootFolderChange={handleProfileRootFolder}
+                        onMetadataProfileChange={handleProfileMetadataProfile}
                       />
                     ))}
                   </div>
@@ -628,16 +938,28 @@ export default function BookshelfSettingsPage() {
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="space-y-4">
-            <Button
-              onClick={handleStartScan}
-              disabled={startingScan || !isConfigured || hasUnsavedChanges || testStatus?.type === 'error' || (syncJob && syncJob.status === 'scanning')}
-            >
-              {startingScan
-                ? 'Starting...'
-                : (syncJob && syncJob.status === 'scanning')
-                  ? 'Background Scan Active...'
-                  : 'Scan Library'}
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => handleStartScan()}
+                disabled={startingScan || !isConfigured || hasUnsavedChanges || testStatus?.type === 'error' || (syncJob && syncJob.status === 'scanning')}
+              >
+                {startingScan
+                  ? 'Starting...'
+                  : (syncJob && syncJob.status === 'scanning')
+                    ? 'Background Scan Active...'
+                    : 'Scan Library'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleStartScan(true)}
+                disabled={startingScan || !isConfigured || hasUnsavedChanges || testStatus?.type === 'error' || (syncJob && syncJob.status === 'scanning')}
+              >
+                Dry Run
+              </Button>
+            </div>
+            <p className="text-xs text-foreground-muted">
+              A dry run shows what a scan would import, archive, correct and purge without changing anything.
+            </p>
 
             {hasUnsavedChanges ? (
               <p className="text-sm text-yellow-600 dark:text-yellow-400">
@@ -700,11 +1022,99 @@ export default function BookshelfSettingsPage() {
                 </div>
               </div>
             )}
+
+            {pendingPlans && (
+              <div className="bg-background-secondary p-4 rounded-md border border-border space-y-3 text-sm">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                  <span className="font-medium">
+                    Dry run plan from {new Date(pendingPlans[0]?.generatedAt ?? Date.now()).toLocaleString()}
+                  </span>
+                  <Button size="sm" onClick={handleApplyPlan} disabled={startingScan}>
+                    Apply This Plan
+                  </Button>
+                </div>
+                {pendingPlans.map((pendingPlan) => (
+                  <div key={pendingPlan.instanceId} className="space-y-3">
+                    {pendingPlans.length > 1 && (
+                      <p className="font-medium">{pendingPlan.instanceName || 'Bookshelf'}</p>
+                    )}
+                    <PlanSection
+                      title={`Ghost imports (${pendingPlan.ghosts.length})`}
+                      items={pendingPlan.ghosts.map((g) => `${g.title} — ${g.author} (${g.status})`)}
+                    />
+                    <PlanSection
+                      title={`Requests to archive (${pendingPlan.orphans.length})`}
+                      items={pendingPlan.orphans.map((o) => `${o.title || o.bookId}: ${o.reason}`)}
+                    />
+                    <PlanSection
+                      title={`Status auto-corrections (${pendingPlan.statusCorrections.length})`}
+                      items={pendingPlan.statusCorrections.map((c) => `${c.title || c.bookId}: ${c.fromStatus} → ${c.toStatus}`)}
+                    />
+                    <PlanSection
+                      title={`Legacy status renames (${pendingPlan.statusNormalizations.length})`}
+                      items={pendingPlan.statusNormalizations.map((n) => `Request #${n.requestId}: ${n.fromStatus} → ${n.toStatus}`)}
+                    />
+                    <PlanSection
+                      title={`Legacy backfills (${pendingPlan.backfills.length})`}
+                      items={pendingPlan.backfills.map((b) => `${b.title}: ${b.fromStatus} → ${b.toStatus}`)}
+                    />
+                    <PlanSection
+                      title={`Metadata caches to purge (${pendingPlan.cachePurges.length})`}
+                      items={pendingPlan.cachePurges}
+                    />
+                    <p className="text-xs text-foreground-muted">
+                      Applying also refreshes {pendingPlan.libraryBooks.length} library entries and caches the metadata fetched for {pendingPlan.metadataRefresh.length} books.
+                      Requests that changed since the dry run are left untouched.
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
-
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhook</CardTitle>
+          <CardDescription>
+            Let Bookshelf notify Mimirr instantly when books are grabbed, imported, or deleted instead of waiting for the next poll.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <p className="text-foreground-muted">
+            In Bookshelf, go to Settings → Connect → add a <strong>Webhook</strong> connection using the URL below with method POST.
+            Enter any username and use the secret as the password. Enable On Grab, On Release Import, On Upgrade, On Rename and On Book Delete.
+          </p>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Webhook URL</label>
+            <Input type="text" value={webhookUrl} readOnly />
+          </div>
+          {instances.filter((i) => !i.isDefault).map((instance) => (
+            <div key={instance.id} className="space-y-2">
+              <label className="text-sm font-medium">Webhook URL for {instance.name}</label>
+              <Input type="text" value={`${webhookUrl}?instanceId=${instance.id}`} readOnly />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Secret</label>
+            <div className="flex gap-2">
+              <Input type="text" value={webhookSecret} readOnly className="font-mono" />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRegenerateSecret}
+                disabled={regeneratingSecret}
+              >
+                {regeneratingSecret ? 'Regenerating...' : 'Regenerate'}
+              </Button>
+            </div>
+            <p className="text-xs text-foreground-muted">
+              Regenerating invalidates the old secret; update Bookshelf afterwards.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
 
       <Card>
         <CardHeader>
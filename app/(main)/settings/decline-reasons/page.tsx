@@ -0,0 +1,126 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface EditableReason {
+  id?: string
+  label: string
+}
+
+export default function DeclineReasonsSettingsPage() {
+  const [reasons, setReasons] = useState<EditableReason[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    async function fetchReasons() {
+      try {
+        const response = await fetch('/api/settings/decline-reasons')
+        if (response.ok) {
+          const data = await response.json()
+          setReasons(data.reasons || [])
+        }
+      } catch (error) {
+        logToClient('error', 'Failed to fetch decline reasons:', { error: error instanceof Error ? error.message : error })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReasons()
+  }, [])
+
+  function updateLabel(index: number, label: string) {
+    setReasons(reasons.map((reason, i) => (i === index ? { ...reason, label } : reason)))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/decline-reasons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reasons: reasons.filter((r) => r.label.trim()) }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save decline reasons')
+      }
+
+      setReasons(data.reasons)
+      setMessage({ type: 'success', text: 'Decline reasons saved successfully!' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save decline reasons' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-foreground-muted">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Decline Reasons</CardTitle>
+          <CardDescription>
+            Reasons admins can pick when declining a request. The requester sees the reason in their notification.
+            Requests already declined keep the reason they were declined with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {reasons.length === 0 && (
+            <p className="text-sm text-foreground-muted">No decline reasons. Requests can still be declined without one.</p>
+          )}
+
+          {reasons.map((reason, index) => (
+            <div key={reason.id ?? `new-${index}`} className="flex gap-2">
+              <Input
+                value={reason.label}
+                onChange={(e) => updateLabel(index, e.target.value)}
+                placeholder="e.g. Already owned in another format"
+                maxLength={100}
+              />
+              <Button
+                variant="outline"
+                onClick={() => setReasons(reasons.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700"
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+
+          <Button variant="outline" onClick={() => setReasons([...reasons, { label: '' }])}>
+            Add Reason
+          </Button>
+
+          {message && (
+            <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {message.text}
+            </p>
+          )}
+
+          <div>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import type { BookshelfJobWithRequest } from '@/lib/services/bookshelf-job.service'
+
+type StatusFilter = '' | 'queued' | 'running' | 'completed' | 'failed'
+
+const STATUS_STYLES: Record<BookshelfJobWithRequest['status'], string> = {
+  queued: 'bg-blue-500/10 text-blue-600',
+  running: 'bg-yellow-500/10 text-yellow-600',
+  completed: 'bg-green-500/10 text-green-600',
+  failed: 'bg-red-500/10 text-red-600',
+}
+
+export default function JobsSettingsPage() {
+  const [jobs, setJobs] = useState<BookshelfJobWithRequest[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('')
+  const [loading, setLoading] = useState(true)
+  const [retryingId, setRetryingId] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : ''
+      const response = await fetch(`/api/admin/bookshelf-jobs${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        setJobs(data.jobs || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch Bookshelf jobs:', { error: error instanceof Error ? error.message : error })
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    fetchJobs()
+
+    const interval = setInterval(fetchJobs, 10000)
+    return () => clearInterval(interval)
+  }, [fetchJobs])
+
+  async function handleRetry(jobId: number) {
+    setRetryingId(jobId)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/admin/bookshelf-jobs/${jobId}/retry`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry job')
+      }
+
+      setMessage({ type: 'success', text: 'Job queued for another attempt.' })
+      await fetchJobs()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to retry job' })
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-foreground-muted">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Bookshelf Jobs</CardTitle>
+          <CardDescription>
+            Approved requests are added to Bookshelf by a background job. Failed attempts are retried with
+            increasing delays; a job that runs out of attempts fails and its request is marked as errored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">All jobs</option>
+              <option value="queued">Queued</option>
+              <option value="running">Running</option>
+              <option value="completed">Completed</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+
+          {message && (
+            <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {message.text}
+            </p>
+          )}
+
+          {jobs.length === 0 ? (
+            <p className="text-sm text-foreground-muted">No jobs to show.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {jobs.map((job) => (
+                <li key={job.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {job.bookTitle} <span className="text-foreground-muted font-normal">by {job.bookAuthor}</span>
+                    </p>
+                    <p className="text-xs text-foreground-muted">
+                      <span className={`inline-block px-2 py-0.5 rounded-full mr-2 capitalize ${STATUS_STYLES[job.status]}`}>
+                        {job.status}
+                      </span>
+                      Request #{job.requestId} · Attempt {job.attempts} of {job.maxAttempts}
+                      {job.status === 'queued' && job.attempts > 0 && ` · Next attempt ${new Date(job.runAt).toLocaleString()}`}
+                      {job.completedAt && ` · Finished ${new Date(job.completedAt).toLocaleString()}`}
+                    </p>
+                    {job.lastError && job.status !== 'completed' && (
+                      <p className="text-xs text-red-600 break-words">{job.lastError}</p>
+                    )}
+                  </div>
+                  {job.status === 'failed' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRetry(job.id)}
+                      disabled={retryingId === job.id}
+                    >
+                      {retryingId === job.id ? 'Retrying...' : 'Retry'}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -12,10 +12,14 @@ interface Tab {
 
 const tabs: Tab[] = [
   { name: 'General', path: '/settings/general' },
+  { name: 'My Notifications', path: '/settings/my-notifications' },
   { name: 'Notifications', path: '/settings/notifications', adminOnly: true },
   { name: 'Bookshelf', path: '/settings/bookshelf', adminOnly: true },
   { name: 'BookLore', path: '/settings/booklore', adminOnly: true },
   { name: 'Users', path: '/settings/users', adminOnly: true },
+  { name: 'Auto-Approval', path: '/settings/auto-approval', adminOnly: true },
+  { name: 'Decline Reasons', path: '/settings/decline-reasons', adminOnly: true },
+  { name: 'Jobs', path: '/settings/jobs', adminOnly: true },
   { name: 'Logs', path: '/settings/logs', adminOnly: true },
 ]
 
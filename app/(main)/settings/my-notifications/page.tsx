@@ -0,0 +1,331 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface MyNotificationSettings {
+  notifyRequestApproved: boolean
+  notifyRequestDeclined: boolean
+  notifyRequestAvailable: boolean
+  notifyRequestComment: boolean
+  emailEnabled: boolean
+  ntfyEnabled: boolean
+  ntfyServerUrl: string
+  ntfyTopic: string
+  ntfyToken: string
+  digestFrequency: 'off' | 'daily' | 'weekly'
+}
+
+type EventKey = 'notifyRequestApproved' | 'notifyRequestDeclined' | 'notifyRequestAvailable' | 'notifyRequestComment'
+
+const EVENTS: { key: EventKey; label: string; description: string }[] = [
+  { key: 'notifyRequestApproved', label: 'Request Approved', description: 'When one of your requests is approved.' },
+  { key: 'notifyRequestDeclined', label: 'Request Declined', description: 'When one of your requests is declined.' },
+  { key: 'notifyRequestAvailable', label: 'Request Available', description: 'When a book you requested is ready to read.' },
+  { key: 'notifyRequestComment', label: 'Request Comments', description: 'When someone comments on one of your requests.' },
+]
+
+const defaultSettings: MyNotificationSettings = {
+  notifyRequestApproved: true,
+  notifyRequestDeclined: true,
+  notifyRequestAvailable: true,
+  notifyRequestComment: true,
+  emailEnabled: false,
+  ntfyEnabled: false,
+  ntfyServerUrl: 'https://ntfy.sh',
+  ntfyTopic: '',
+  ntfyToken: '',
+  digestFrequency: 'off',
+}
+
+async function errorFrom(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}))
+  return data.details?.[0]?.message || data.error || fallback
+}
+
+export default function MyNotificationsPage() {
+  const [settings, setSettings] = useState<MyNotificationSettings>(defaultSettings)
+  const [accountEmail, setAccountEmail] = useState('')
+  const [emailAvailable, setEmailAvailable] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  async function fetchSettings() {
+    try {
+      const response = await fetch('/api/user/notification-settings')
+      if (response.ok) {
+        const data = await response.json()
+        setSettings({
+          ...data.settings,
+          ntfyServerUrl: data.settings.ntfyServerUrl || defaultSettings.ntfyServerUrl,
+          ntfyTopic: data.settings.ntfyTopic || '',
+          ntfyToken: data.settings.ntfyToken || '',
+        })
+        setAccountEmail(data.accountEmail || '')
+        setEmailAvailable(data.emailAvailable)
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch notification settings:', { error: error instanceof Error ? error.message : error })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/user/notification-settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      })
+
+      if (!response.ok) {
+        throw new Error(await errorFrom(response, 'Failed to save settings'))
+      }
+
+      setMessage({ type: 'success', text: 'Notification settings saved successfully!' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSendDigest() {
+    setTesting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/user/notification-settings/digest', { method: 'POST' })
+
+      if (!response.ok) {
+        throw new Error(await errorFrom(response, 'Failed to send digest'))
+      }
+
+      setMessage({ type: 'success', text: 'Digest sent! Check your inbox.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to send digest' })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  async function handleTest(channel: 'email' | 'ntfy') {
+    setTesting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/user/notification-settings/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel, settings }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await errorFrom(response, 'Failed to send test notification'))
+      }
+
+      setMessage({ type: 'success', text: 'Test notification sent!' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to send test notification' })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-foreground-muted">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <p className="text-foreground-muted">
+          Choose which updates about your requests you receive, and where.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md ${
+            message.type === 'success'
+              ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-600 dark:text-green-400'
+              : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events</CardTitle>
+          <CardDescription>
+            Turned-off events are not shown in Mimirr or sent to your channels below
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {EVENTS.map((event) => (
+            <div key={event.key} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                id={event.key}
+                checked={settings[event.key]}
+                onChange={(e) => setSettings({ ...settings, [event.key]: e.target.checked })}
+                className="mt-1 w-5 h-5 accent-primary cursor-pointer"
+              />
+              <label htmlFor={event.key}>
+                <div className="font-medium text-foreground">{event.label}</div>
+                <div className="text-sm text-foreground-muted">{event.description}</div>
+              </label>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Email</CardTitle>
+          <CardDescription>
+            {emailAvailable
+              ? 'Receive notifications by email'
+              : 'Email is not available until an admin sets up an email server'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="email-enabled"
+              checked={settings.emailEnabled}
+              onChange={(e) => setSettings({ ...settings, emailEnabled: e.target.checked })}
+              disabled={!emailAvailable}
+              className="w-5 h-5 accent-primary cursor-pointer"
+            />
+            <label htmlFor="email-enabled" className="text-sm font-medium text-foreground">
+              Send notifications by email
+            </label>
+          </div>
+          <p className="text-xs text-foreground-muted">
+            Emails go to your account email address{accountEmail ? ` (${accountEmail})` : ''}.
+            {settings.digestFrequency !== 'off' && ' Your email digest replaces them while it is on.'}
+          </p>
+          <Button variant="outline" onClick={() => handleTest('email')} disabled={!emailAvailable || testing}>
+            Test Email
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Digest</CardTitle>
+          <CardDescription>
+            A summary of your request activity by email, instead of individual notification emails
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Frequency</label>
+            <select
+              value={settings.digestFrequency}
+              onChange={(e) =>
+                setSettings({ ...settings, digestFrequency: e.target.value as MyNotificationSettings['digestFrequency'] })
+              }
+              disabled={!emailAvailable}
+              className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="off">Off</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </div>
+          <p className="text-xs text-foreground-muted">
+            Digests go to your account email address. While a digest is on, notifications are no longer emailed
+            one by one; ntfy and in-app notifications carry on as usual. Send one now to see the last period's digest; saved changes
+            apply to the next scheduled one.
+          </p>
+          <Button variant="outline" onClick={handleSendDigest} disabled={!emailAvailable || testing}>
+            Send Digest Now
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ntfy</CardTitle>
+          <CardDescription>
+            Receive push notifications on your phone or desktop through an{' '}
+            <a href="https://ntfy.sh" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+              ntfy
+            </a>{' '}
+            topic
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="ntfy-enabled"
+              checked={settings.ntfyEnabled}
+              onChange={(e) => setSettings({ ...settings, ntfyEnabled: e.target.checked })}
+              className="w-5 h-5 accent-primary cursor-pointer"
+            />
+            <label htmlFor="ntfy-enabled" className="text-sm font-medium text-foreground">
+              Send notifications to ntfy
+            </label>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Input
+              label="Server URL"
+              type="url"
+              placeholder="https://ntfy.sh"
+              value={settings.ntfyServerUrl}
+              onChange={(e) => setSettings({ ...settings, ntfyServerUrl: e.target.value })}
+            />
+            <Input
+              label="Topic"
+              placeholder="my-mimirr-requests"
+              value={settings.ntfyTopic}
+              onChange={(e) => setSettings({ ...settings, ntfyTopic: e.target.value })}
+              maxLength={64}
+            />
+            <Input
+              label="Access Token"
+              type="password"
+              placeholder="Only needed for protected topics"
+              value={settings.ntfyToken}
+              onChange={(e) => setSettings({ ...settings, ntfyToken: e.target.value })}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => handleTest('ntfy')}
+            disabled={!settings.ntfyServerUrl || !settings.ntfyTopic || testing}
+          >
+            Test ntfy
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} disabled={saving} className="w-full">
+        {saving ? 'Saving...' : 'Save Settings'}
+      </Button>
+    </div>
+  )
+}
@@ -4,6 +4,9 @@ import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { NotificationChannels } from '@/components/settings/notification-channels'
+import { SmtpServerSettings } from '@/components/settings/smtp-server-settings'
+import { NotificationRetention } from '@/components/settings/notification-retention'
 import { logToClient } from '@/lib/utils/client-logger'
 
 interface NotificationSettings {
@@ -17,6 +20,7 @@ interface NotificationSettings {
     requestAvailable: boolean
     requestSubmitted: boolean
     bookshelfError: boolean
+    requestComment: boolean
   }
 }
 
@@ -32,6 +36,7 @@ export default function NotificationSettingsPage() {
       requestAvailable: true,
       requestSubmitted: true,
       bookshelfError: true,
+      requestComment: true,
     },
   })
   const [loading, setLoading] = useState(true)
@@ -129,7 +134,7 @@ export default function NotificationSettingsPage() {
         </p>
       </div>
 
-      {/* Discord Tab - Only showing Discord for now, can add more agents later */}
+      {/* Discord agent */}
       <Card>
         <CardHeader>
           <div className="flex items-center gap-3">
@@ -352,6 +357,31 @@ export default function NotificationSettingsPage() {
                   </div>
                 </div>
               </div>
+
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={settings.notificationTypes.requestComment}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      notificationTypes: {
+                        ...settings.notificationTypes,
+                        requestComment: e.target.checked,
+                      },
+                    })
+                  }
+                  className="mt-1 w-5 h-5 accent-primary cursor-pointer"
+                />
+                <div>
+                  <div className="font-medium text-foreground">
+                    Request Comments
+                  </div>
+                  <div className="text-sm text-foreground-muted">
+                    Send notifications when a requester or admin comments on a request.
+                  </div>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -370,6 +400,12 @@ export default function NotificationSettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+      <NotificationChannels />
+
+      <SmtpServerSettings />
+
+      <NotificationRetention />
     </div>
   )
 }
@@ -2,7 +2,7 @@
 import { logToClient } from "@/lib/utils/client-logger"
 
 import { useEffect, useState } from 'react'
-import { Card, CardContent } from '@/components/ui/card'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
@@ -17,6 +17,59 @@ interface User {
   lastLoginAt: Date | null
 }
 
+interface QuotaLimits {
+  dailyLimit: number | null
+  weeklyLimit: number | null
+  monthlyLimit: number | null
+}
+
+interface UserQuotaOverride extends QuotaLimits {
+  userId: number
+  unlimited: boolean
+}
+
+// Quota inputs are edited as strings so that a blank field can mean "no limit"/"use default"
+interface QuotaForm {
+  dailyLimit: string
+  weeklyLimit: string
+  monthlyLimit: string
+}
+
+const EMPTY_QUOTA_FORM: QuotaForm = { dailyLimit: '', weeklyLimit: '', monthlyLimit: '' }
+
+const QUOTA_FIELDS: { key: keyof QuotaForm; label: string }[] = [
+  { key: 'dailyLimit', label: 'Per day' },
+  { key: 'weeklyLimit', label: 'Per 7 days' },
+  { key: 'monthlyLimit', label: 'Per 30 days' },
+]
+
+function toQuotaForm(limits: QuotaLimits | null | undefined): QuotaForm {
+  if (!limits) return { ...EMPTY_QUOTA_FORM }
+  return {
+    dailyLimit: limits.dailyLimit?.toString() ?? '',
+    weeklyLimit: limits.weeklyLimit?.toString() ?? '',
+    monthlyLimit: limits.monthlyLimit?.toString() ?? '',
+  }
+}
+
+function fromQuotaForm(form: QuotaForm): QuotaLimits {
+  const parse = (value: string) => (value.trim() === '' ? null : parseInt(value, 10))
+  return {
+    dailyLimit: parse(form.dailyLimit),
+    weeklyLimit: parse(form.weeklyLimit),
+    monthlyLimit: parse(form.monthlyLimit),
+  }
+}
+
+function describeQuota(limits: QuotaLimits): string {
+  const parts = [
+    limits.dailyLimit !== null ? `${limits.dailyLimit}/day` : null,
+    limits.weeklyLimit !== null ? `${limits.weeklyLimit}/week` : null,
+    limits.monthlyLimit !== null ? `${limits.monthlyLimit}/month` : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : 'Unlimited'
+}
+
 interface UserStats {
   total: number
   admins: number
@@ -43,6 +96,15 @@ export default function UsersManagementPage() {
     username: '',
   })
 
+  // Quota state
+  const [defaultQuotaForm, setDefaultQuotaForm] = useState<QuotaForm>({ ...EMPTY_QUOTA_FORM })
+  const [userQuotas, setUserQuotas] = useState<Record<number, UserQuotaOverride>>({})
+  const [savingDefaultQuota, setSavingDefaultQuota] = useState(false)
+  const [quotaMessage, setQuotaMessage] = useState('')
+  const [editingQuotaUserId, setEditingQuotaUserId] = useState<number | null>(null)
+  const [userQuotaForm, setUserQuotaForm] = useState<QuotaForm>({ ...EMPTY_QUOTA_FORM })
+  const [userQuotaUnlimited, setUserQuotaUnlimited] = useState(false)
+
   // Form state
   const [formData, setFormData] = useState({
     username: '',
@@ -54,8 +116,108 @@ export default function UsersManagementPage() {
 
   useEffect(() => {
     fetchUsers()
+    fetchQuotas()
   }, [])
 
+  async function fetchQuotas() {
+    try {
+      const response = await fetch('/api/settings/quotas')
+      if (!response.ok) return
+      const data = await response.json()
+      setDefaultQuotaForm(toQuotaForm(data.defaultQuota))
+      const overrides: Record<number, UserQuotaOverride> = {}
+      for (const quota of (data.userQuotas || []) as UserQuotaOverride[]) {
+        overrides[quota.userId] = quota
+      }
+      setUserQuotas(overrides)
+    } catch (error) {
+      logToClient('error', 'Failed to fetch quotas:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleSaveDefaultQuota(e: React.FormEvent) {
+    e.preventDefault()
+    setSavingDefaultQuota(true)
+    setQuotaMessage('')
+
+    try {
+      const response = await fetch('/api/settings/quotas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fromQuotaForm(defaultQuotaForm)),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save default quota')
+      }
+
+      setQuotaMessage('Default quota saved successfully')
+    } catch (error) {
+      setQuotaMessage(error instanceof Error ? error.message : 'Failed to save default quota')
+    } finally {
+      setSavingDefaultQuota(false)
+    }
+  }
+
+  function handleEditUserQuota(userId: number) {
+    setEditingQuotaUserId(userId)
+    setUserQuotaForm(toQuotaForm(userQuotas[userId]))
+    setUserQuotaUnlimited(userQuotas[userId]?.unlimited ?? false)
+  }
+
+  async function handleSaveUserQuota(userId: number) {
+    try {
+      const response = await fetch(`/api/users/${userId}/quota`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...fromQuotaForm(userQuotaForm), unlimited: userQuotaUnlimited }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        logToClient('error', 'Failed to update user quota:', { error: error.error })
+        return
+      }
+
+      setEditingQuotaUserId(null)
+      await fetchQuotas()
+    } catch (error) {
+      logToClient('error', 'Failed to update user quota:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleResetUserQuota(userId: number) {
+    try {
+      const response = await fetch(`/api/users/${userId}/quota`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        logToClient('error', 'Failed to reset user quota:', { error: error.error })
+        return
+      }
+
+      setEditingQuotaUserId(null)
+      await fetchQuotas()
+    } catch (error) {
+      logToClient('error', 'Failed to reset user quota:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  function describeUserQuota(userId: number): string {
+    const override = userQuotas[userId]
+    const defaults = fromQuotaForm(defaultQuotaForm)
+    if (!override) return `Default (${describeQuota(defaults)})`
+    if (override.unlimited) return 'Unlimited'
+    return describeQuota({
+      dailyLimit: override.dailyLimit ?? defaults.dailyLimit,
+      weeklyLimit: override.weeklyLimit ?? defaults.weeklyLimit,
+      monthlyLimit: override.monthlyLimit ?? defaults.monthlyLimit,
+    })
+  }
+
   async function fetchUsers() {
     try {
       const response = await fetch('/api/users')
@@ -186,6 +348,49 @@ export default function UsersManagementPage() {
         </div>
       </div>
 
+      {/* Default Request Quota */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Request Quotas</CardTitle>
+          <CardDescription>
+            Default number of requests each user may make within a rolling window. Leave a field blank for no limit. Administrators are exempt and declined requests do not count.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveDefaultQuota} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {QUOTA_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <label htmlFor={`default-${field.key}`} className="text-sm font-medium">
+                    {field.label}
+                  </label>
+                  <Input
+                    id={`default-${field.key}`}
+                    type="number"
+                    min={0}
+                    value={defaultQuotaForm[field.key]}
+                    onChange={(e) =>
+                      setDefaultQuotaForm({ ...defaultQuotaForm, [field.key]: e.target.value })
+                    }
+                    placeholder="Unlimited"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {quotaMessage && (
+              <p className={`text-sm ${quotaMessage.includes('success') ? 'text-green-600' : 'text-red-600'}`}>
+                {quotaMessage}
+              </p>
+            )}
+
+            <Button type="submit" disabled={savingDefaultQuota}>
+              {savingDefaultQuota ? 'Saving...' : 'Save Default Quota'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
       {/* Create User Form */}
       {showCreateForm && (
         <Card>
@@ -319,8 +524,21 @@ export default function UsersManagementPage() {
                         </>
                       )}
                     </p>
+                    <p className="text-xs text-foreground-muted mt-1">
+                      Request quota:{' '}
+                      {user.role === 'admin' ? 'Exempt (admin)' : describeUserQuota(user.id)}
+                    </p>
                   </div>
                   <div className="flex gap-2">
+                    {user.role !== 'admin' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditUserQuota(user.id)}
+                      >
+                        Quota
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -338,6 +556,63 @@ export default function UsersManagementPage() {
                     </Button>
                   </div>
                 </div>
+
+                {editingQuotaUserId === user.id && (
+                  <div className="border-t border-border pt-4 mt-4 space-y-3">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={userQuotaUnlimited}
+                        onChange={(e) => setUserQuotaUnlimited(e.target.checked)}
+                      />
+                      Unlimited (ignore the default quota)
+                    </label>
+                    {!userQuotaUnlimited && (
+                      <>
+                        <p className="text-sm text-foreground-muted">
+                          Leave a field blank to use the default for that window.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          {QUOTA_FIELDS.map((field) => (
+                            <div key={field.key} className="space-y-1">
+                              <label className="block text-sm font-medium">{field.label}</label>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={userQuotaForm[field.key]}
+                                onChange={(e) =>
+                                  setUserQuotaForm({ ...userQuotaForm, [field.key]: e.target.value })
+                                }
+                                placeholder="Default"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleSaveUserQuota(user.id)}>
+                        Save Quota
+                      </Button>
+                      {userQuotas[user.id] && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleResetUserQuota(user.id)}
+                        >
+                          Reset to Default
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditingQuotaUserId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))
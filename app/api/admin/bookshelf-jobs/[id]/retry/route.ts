@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { RequestService } from '@/lib/services/request.service'
+import { BookService } from '@/lib/services/book.service'
+import { ApprovalService } from '@/lib/services/approval.service'
+import { BookshelfJobService } from '@/lib/services/bookshelf-job.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/bookshelf-jobs/[id]/retry - Re-queue a failed Bookshelf addition (admin only)
+ * The request goes back to processing and the job starts over with a fresh set of attempts.
+ */
+async function postHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin(request)
+    const { id } = await params
+    const jobId = parseInt(id)
+
+    if (isNaN(jobId)) {
+      return NextResponse.json({ error: 'Invalid job ID' }, { status: 400 })
+    }
+
+    const job = await BookshelfJobService.getJobById(jobId)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.status !== 'failed') {
+      return NextResponse.json({ error: 'Only failed jobs can be retried' }, { status: 400 })
+    }
+
+    const existingRequest = await RequestService.getRequestById(job.requestId)
+    if (!existingRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    const book = await BookService.getBookById(existingRequest.bookId)
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    // Approving again resets this request's failed job rather than queueing a second one
+    const updatedRequest = await ApprovalService.approveRequest(existingRequest, book, {
+      processedBy: user.userId,
+      source: 'admin',
+    })
+
+    logger.info('Failed Bookshelf job retried', { jobId, requestId: job.requestId, retriedBy: user.userId })
+
+    return NextResponse.json({ request: updatedRequest })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Retry Bookshelf job error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retry Bookshelf job' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { BookshelfJobService } from '@/lib/services/bookshelf-job.service'
+import type { BookshelfJob } from '@/lib/db'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+const JOB_STATUSES: BookshelfJob['status'][] = ['queued', 'running', 'completed', 'failed']
+
+/**
+ * GET /api/admin/bookshelf-jobs - List queued, running, completed and failed Bookshelf additions (admin only)
+ * Optional query: ?status=failed to show only one status
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const status = (request.nextUrl.searchParams.get('status') || undefined) as BookshelfJob['status'] | undefined
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const jobs = await BookshelfJobService.listJobs(status)
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get Bookshelf jobs error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve Bookshelf jobs' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
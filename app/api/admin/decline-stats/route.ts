@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { DeclineReasonService } from '@/lib/services/decline-reason.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/decline-stats - Count declined requests per reason, archived ones included (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const counts = await DeclineReasonService.getDeclineCounts()
+
+    return NextResponse.json({ counts })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get decline stats error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve decline stats' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db, syncJobs } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+import { logger } from '@/lib/utils/logger'
+import { ReadarrJobOrchestrator } from '@/lib/services/orchestrator.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
+import { requireAdmin, AuthError } from '@/lib/middleware/auth.middleware'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+
+export const dynamic = 'force-dynamic'
+
+const applyPlanSchema = z.object({
+  jobId: z.number().int().positive(),
+})
+
+/**
+ * POST /api/admin/readarr/apply-plan - Apply the plan stored by a dry-run scan (admin only)
+ */
+export const POST = withLogging(async function POST(request: NextRequest) {
+  try {
+    // 1. Authorization Check
+    try {
+      await requireAdmin(request)
+    } catch (e) {
+      if (e instanceof AuthError) {
+        logger.warn('Unauthorized access attempt to readarr apply-plan route')
+        return new NextResponse('Unauthorized', { status: 401 })
+      }
+      throw e
+    }
+
+    const validationResult = applyPlanSchema.safeParse(await request.json().catch(() => ({})))
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const planJobId = validationResult.data.jobId
+
+    // 2. Validate the dry-run job
+    const planJobs = await db
+      .select()
+      .from(syncJobs)
+      .where(eq(syncJobs.id, planJobId))
+      .limit(1)
+
+    const planJob = planJobs[0]
+    if (!planJob || !planJob.dryRun || planJob.status !== 'complete' || !planJob.plan) {
+      return NextResponse.json(
+        { error: 'No completed dry-run plan found for this job.' },
+        { status: 404 }
+      )
+    }
+
+    if (planJob.planAppliedAt) {
+      return NextResponse.json(
+        { error: 'This plan has already been applied. Run a new dry run to review current changes.' },
+        { status: 409 }
+      )
+    }
+
+    // 3. Concurrency Lock
+    const activeJobs = await db
+      .select()
+      .from(syncJobs)
+      .where(eq(syncJobs.status, 'scanning'))
+      .limit(1)
+
+    if (activeJobs.length > 0) {
+      return NextResponse.json(
+        { error: 'A scan is already in progress.', jobId: activeJobs[0].id },
+        { status: 409 }
+      )
+    }
+
+    // 4. Fetch Configuration
+    const bookshelfConfigs = await BookshelfInstanceService.getConfigs()
+
+    if (bookshelfConfigs.length === 0) {
+      return NextResponse.json(
+        { error: 'Bookshelf configuration missing. Cannot apply plan.' },
+        { status: 500 }
+      )
+    }
+
+    // 5. Create new job that applies the stored plan
+    const newJob = await db
+      .insert(syncJobs)
+      .values({
+        status: 'scanning',
+        planJobId,
+        currentLogMessage: `Initializing plan from dry run #${planJobId}...`,
+      })
+      .returning()
+
+    const jobId = newJob[0].id
+
+    // Kick off in background so we can return 202 Accepted immediately
+    ReadarrJobOrchestrator.applyPlan(jobId, planJobId, bookshelfConfigs).catch((err) => {
+      logger.error('Unhandled error in background orchestrator', { error: err instanceof Error ? err.message : err })
+    })
+
+    return NextResponse.json(
+      { success: true, message: 'Plan accepted and being applied in background.', jobId },
+      { status: 202 }
+    )
+  } catch (error) {
+    logger.error('Error applying readarr plan', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+});
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db, syncJobs, settings } from '@/lib/db'
+import { db, syncJobs } from '@/lib/db'
 import { inArray, eq } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
 import { timingSafeCompare } from '@/lib/utils/crypto'
 import { ReadarrJobOrchestrator } from '@/lib/services/orchestrator.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { requireAdmin, AuthError } from '@/lib/middleware/auth.middleware'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 
@@ -22,6 +23,10 @@ export const POST = withLogging(async function POST(request: NextRequest) {
       throw e
     }
 
+    // A dry run computes the plan and stores it on the job without changing anything
+    const body = await request.json().catch(() => ({}))
+    const dryRun = body?.dryRun === true
+
     // 2. Concurrency Lock
     const activeJobs = await db
       .select()
@@ -53,39 +58,22 @@ export const POST = withLogging(async function POST(request: NextRequest) {
     }
 
     // 3. Fetch Configuration
-    const urlSetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_url'))
-      .limit(1)
+    const bookshelfConfigs = await BookshelfInstanceService.getConfigs()
 
-    const apiKeySetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_api_key'))
-      .limit(1)
-
-    const bookshelfUrl = urlSetting[0]?.value
-    const bookshelfApiKey = apiKeySetting[0]?.value
-
-    if (!bookshelfUrl || !bookshelfApiKey) {
+    if (bookshelfConfigs.length === 0) {
       return NextResponse.json(
         { error: 'Bookshelf configuration missing. Cannot perform Baseline Sync.' },
         { status: 500 }
       )
     }
 
-    const bookshelfConfig = {
-      url: bookshelfUrl,
-      apiKey: bookshelfApiKey,
-    }
-
     // 4. Create new job
     const newJob = await db
       .insert(syncJobs)
       .values({
         status: 'scanning',
-        currentLogMessage: 'Initializing scan...',
+        dryRun,
+        currentLogMessage: dryRun ? 'Initializing dry run...' : 'Initializing scan...',
       })
       .returning()
 
@@ -97,7 +85,7 @@ export const POST = withLogging(async function POST(request: NextRequest) {
     // this can run asynchronously. For better Vercel support, waitUntil is used if available
     // but standard Promises work for standalone nodes.
     const runOrchestrator = async () => {
-      await ReadarrJobOrchestrator.startJob(jobId, bookshelfConfig)
+      await ReadarrJobOrchestrator.startJob(jobId, bookshelfConfigs, { dryRun })
     }
 
     // Kick off in background
@@ -106,7 +94,7 @@ export const POST = withLogging(async function POST(request: NextRequest) {
     })
 
     return NextResponse.json(
-      { success: true, message: 'Scan accepted and started in background.', jobId },
+      { success: true, message: dryRun ? 'Dry run accepted and started in background.' : 'Scan accepted and started in background.', jobId, dryRun },
       { status: 202 }
     )
   } catch (error) {
@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { requests, settings } from '@/lib/db/schema';
-import { inArray, isNotNull, eq } from 'drizzle-orm';
 import { BookshelfService } from '@/lib/services/bookshelf.service';
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service';
 import { logger } from '@/lib/utils/logger';
 import { withLogging } from '@/lib/middleware/logging.middleware';
 import { requireAdmin, AuthError } from '@/lib/middleware/auth.middleware';
@@ -21,43 +20,37 @@ export const GET = withLogging(async function GET(request: NextRequest) {
       throw e
     }
 
-    // Fetch configuration for BookshelfService
-    const urlSetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_url'))
-      .limit(1);
+    // Fetch configuration for every Bookshelf instance
+    const configs = await BookshelfInstanceService.getConfigs();
+    const defaultInstance = await BookshelfInstanceService.getDefaultInstance();
 
-    const apiKeySetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_api_key'))
-      .limit(1);
-
-    const bookshelfUrl = urlSetting[0]?.value;
-    const bookshelfApiKey = apiKeySetting[0]?.value;
-
-    if (!bookshelfUrl || !bookshelfApiKey) {
+    if (configs.length === 0 || !defaultInstance) {
       return NextResponse.json({ error: 'Bookshelf configuration missing from database. Cannot perform sync audit.' }, { status: 500 });
     }
 
-    // 2. Fetch the entire Readarr library
-    const library = await BookshelfService.getLibraryBooks({ url: bookshelfUrl, apiKey: bookshelfApiKey });
+    // 2. Fetch each instance's entire Readarr library
+    let totalReadarrBooksFetched = 0;
 
-    if (!library || !Array.isArray(library)) {
-      return NextResponse.json(
-        { error: 'Failed to fetch Readarr library payload' },
-        { status: 500 }
-      );
-    }
+    // Create in-memory Sets for fast lookup, one per instance
+    const readarrIdsByInstance = new Map<number, Set<number>>();
 
-    const totalReadarrBooksFetched = library.length;
+    for (const config of configs) {
+      const library = await BookshelfService.getLibraryBooks(config);
 
-    // Create in-memory Sets for fast lookup
-    const readarrIds = new Set<number>();
+      if (!library || !Array.isArray(library)) {
+        return NextResponse.json(
+          { error: 'Failed to fetch Readarr library payload' },
+          { status: 500 }
+        );
+      }
+
+      totalReadarrBooksFetched += library.length;
 
-    for (const book of library) {
-      if (book.id) readarrIds.add(Number(book.id));
+      const readarrIds = new Set<number>();
+      for (const book of library) {
+        if (book.id) readarrIds.add(Number(book.id));
+      }
+      readarrIdsByInstance.set(config.instanceId!, readarrIds);
     }
 
     // 3. Query Mimirr's Database
@@ -76,10 +69,12 @@ export const GET = withLogging(async function GET(request: NextRequest) {
     // 4. Diffing Logic
     // Check requests table
     for (const req of activeRequests) {
-      if (req.bookshelfId !== null && !readarrIds.has(Number(req.bookshelfId))) {
+      const readarrIds = readarrIdsByInstance.get(req.instanceId ?? defaultInstance.id);
+      if (req.bookshelfId !== null && !readarrIds?.has(Number(req.bookshelfId))) {
         orphanedRecords.push({
           sourceTable: 'requests',
           mimirrId: req.id,
+          instanceId: req.instanceId ?? defaultInstance.id,
           bookshelfId: req.bookshelfId,
           foreignBookId: req.foreignBookId,
           status: req.status,
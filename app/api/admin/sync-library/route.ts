@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { settings } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
 import { SyncService } from '@/lib/services/sync.service';
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service';
 import { logger } from '@/lib/utils/logger';
 import { withLogging } from '@/lib/middleware/logging.middleware';
 import { requireAdmin, AuthError } from '@/lib/middleware/auth.middleware';
@@ -25,22 +23,9 @@ export const POST = withLogging(async function POST(request: NextRequest) {
     }
 
     // Fetch configuration for BookshelfService
-    const urlSetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_url'))
-      .limit(1);
+    const bookshelfConfigs = await BookshelfInstanceService.getConfigs();
 
-    const apiKeySetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_api_key'))
-      .limit(1);
-
-    const bookshelfUrl = urlSetting[0]?.value;
-    const bookshelfApiKey = apiKeySetting[0]?.value;
-
-    if (!bookshelfUrl || !bookshelfApiKey) {
+    if (bookshelfConfigs.length === 0) {
       return NextResponse.json(
         { error: 'Bookshelf configuration missing. Cannot perform Baseline Sync.' },
         { status: 500 }
@@ -49,13 +34,14 @@ export const POST = withLogging(async function POST(request: NextRequest) {
 
     logger.debug('Triggering manual Baseline Sync');
 
-    const bookshelfConfig = {
-      url: bookshelfUrl,
-      apiKey: bookshelfApiKey,
-    };
-
-    // Execute the detached heavy sync
-    const report = await SyncService.reconcileWithReadarr(bookshelfConfig);
+    // Execute the detached heavy sync for each instance
+    const report = { added: 0, orphaned: 0, purged: 0 };
+    for (const bookshelfConfig of bookshelfConfigs) {
+      const instanceReport = await SyncService.reconcileWithReadarr(bookshelfConfig);
+      report.added += instanceReport.added;
+      report.orphaned += instanceReport.orphaned;
+      report.purged += instanceReport.purged;
+    }
 
     return NextResponse.json({
       success: true,
@@ -3,9 +3,10 @@ import { withLogging } from '@/lib/middleware/logging.middleware'
 import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
 import { BookService } from '@/lib/services/book.service'
 import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { logger } from '@/lib/utils/logger'
-import { db, requests, settings } from '@/lib/db'
-import { and, eq } from 'drizzle-orm'
+import { db, requests } from '@/lib/db'
+import { and, eq, not } from 'drizzle-orm'
 
 export const dynamic = 'force-dynamic'
 
@@ -57,25 +58,12 @@ async function getHandler(
 
     // If not requested, check Bookshelf library
     if (!existingRequest[0] || mimirrState === 'Unowned') {
-      const urlSetting = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.key, 'bookshelf_url'))
-        .limit(1)
-
-      const apiKeySetting = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.key, 'bookshelf_api_key'))
-        .limit(1)
-
-      const bookshelfUrl = urlSetting[0]?.value
-      const bookshelfApiKey = apiKeySetting[0]?.value
-
-      if (bookshelfUrl && bookshelfApiKey) {
+      const bookshelfConfig = await BookshelfInstanceService.getConfig()
+
+      if (bookshelfConfig) {
         try {
           const libraryStatus = await BookshelfService.checkBookInLibrary(
-            { url: bookshelfUrl, apiKey: bookshelfApiKey },
+            bookshelfConfig,
             id,
             book.title,
             book.author
@@ -101,6 +89,25 @@ async function getHandler(
       }
     }
 
+    // Per-instance availability is only meaningful with more than one instance
+    const availability = (await BookshelfInstanceService.getAvailability([id])).get(id)
+    const instanceAvailability = availability && availability.length > 1 ? availability : undefined
+
+    // Let the user request the same book on another instance (e.g. the audiobook of an owned ebook)
+    const userRequests = await db
+      .select({ instanceId: requests.instanceId })
+      .from(requests)
+      .where(
+        and(
+          eq(requests.userId, payload.userId),
+          eq(requests.bookId, id),
+          not(eq(requests.status, 'declined'))
+        )
+      )
+    const requestedInstanceIds = userRequests
+      .map((r) => r.instanceId)
+      .filter((instanceId): instanceId is number => instanceId !== null)
+
     // Add request status to the book
     const bookWithStatus = {
       ...book,
@@ -108,6 +115,8 @@ async function getHandler(
       requestId,
       availableFormat,
       mimirrState,
+      instanceAvailability,
+      requestedInstanceIds,
     }
 
     return NextResponse.json({ book: bookWithStatus })
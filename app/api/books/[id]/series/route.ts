@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { BookService } from '@/lib/services/book.service'
+import { SeriesService } from '@/lib/services/series.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/books/[id]/series - Get the series a book belongs to, its books in order,
+ * and which of them "request the rest of this series" would request
+ */
+async function getHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request)
+    const { id } = await params
+
+    const book = await BookService.getBookById(id)
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    const series = await SeriesService.getSeriesForBook(book)
+    if (!series) {
+      return NextResponse.json({ series: null })
+    }
+
+    const remainingBookIds = SeriesService.getRemainingBooks(book, series.books).map((b) => b.id)
+
+    return NextResponse.json({ series: { ...series, remainingBookIds } })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get book series API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve series' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
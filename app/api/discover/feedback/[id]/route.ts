@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import * as RecommendationService from '@/lib/services/recommendation.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/discover/feedback/[id] - Undo a piece of recommendation feedback
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const feedbackId = parseInt(id)
+
+    if (isNaN(feedbackId)) {
+      return NextResponse.json({ error: 'Invalid feedback ID' }, { status: 400 })
+    }
+
+    const removed = await RecommendationService.removeRecommendationFeedback(user.userId, feedbackId)
+    if (!removed) {
+      return NextResponse.json({ error: 'Feedback not found' }, { status: 404 })
+    }
+
+    RecommendationService.updateUserPreferences(user.userId).catch(err =>
+      logger.error('Failed to background update preferences', { userId: user.userId, error: err instanceof Error ? err.message : err })
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Delete recommendation feedback API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to remove recommendation feedback' },
+      { status: 500 }
+    )
+  }
+}
+
+export const DELETE = withLogging(deleteHandler)
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import * as RecommendationService from '@/lib/services/recommendation.service'
+import { recommendationFeedbackSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/discover/feedback - List the current user's recommendation feedback
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const feedback = await RecommendationService.getRecommendationFeedback(user.userId)
+
+    return NextResponse.json({ feedback })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get recommendation feedback API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve recommendation feedback' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/discover/feedback - Thumbs down a book, mark it "not interested" or hide an author.
+ * Recommendations are rebuilt in the background so the weights catch up.
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const body = await request.json()
+
+    const validationResult = recommendationFeedbackSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const feedback = await RecommendationService.addRecommendationFeedback(user.userId, validationResult.data)
+
+    RecommendationService.updateUserPreferences(user.userId).catch(err =>
+      logger.error('Failed to background update preferences', { userId: user.userId, error: err instanceof Error ? err.message : err })
+    )
+
+    return NextResponse.json({ feedback }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Create recommendation feedback API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to save recommendation feedback' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { SeriesService } from '@/lib/services/series.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/discover/next-in-series - Next unowned book in each series the user has made progress in
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    const payload = await requireAuth(request)
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '10')
+
+    const books = await SeriesService.getNextInSeriesForUser(payload.userId, limit)
+
+    return NextResponse.json({ books })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get next in series API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to get next in series' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
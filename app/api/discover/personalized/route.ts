@@ -4,12 +4,15 @@ import { requireAuth, AuthError, handleAuthError } from '@/lib/middleware/auth.m
 import * as RecommendationService from '@/lib/services/recommendation.service'
 import { BookService } from '@/lib/services/book.service'
 import { logger } from '@/lib/utils/logger'
+import type { RecommendationSignals } from '@/types/bookinfo'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * GET /api/discover/personalized - Get personalized book recommendations
- * Returns three sections: Popular Books for You, New Books for You, Authors You Might Enjoy
+ * Returns three sections: Popular Books for You, New Books for You, Authors You Might Enjoy.
+ * Recommended books carry the signals (genres, moods, paces, author, source request) that picked them.
+ * Books and authors the user dismissed are filtered out even before the cache is rebuilt.
  */
 async function getHandler(request: NextRequest) {
   try {
@@ -45,23 +48,39 @@ async function getHandler(request: NextRequest) {
     let popularForYou: any[] = []
     let newForYou: any[] = []
     let authorsForYou: any[] = []
+    let signals: Record<string, RecommendationSignals> = {}
+
+    if (prefs.recommendationSignals) {
+      try {
+        signals = JSON.parse(prefs.recommendationSignals)
+      } catch (error) {
+        logger.error('Failed to parse recommendation signals', { error: error instanceof Error ? error.message : error, userId: payload.userId })
+      }
+    }
+    const feedback = await RecommendationService.getRecommendationFeedback(payload.userId)
+    const withSignals = (book: any) => (signals[book.id] ? { ...book, recommendationSignals: signals[book.id] } : book)
 
     if (prefs.recommendedPopularBooks) {
       const bookIds = JSON.parse(prefs.recommendedPopularBooks) as string[]
       const booksMap = await BookService.getBooksByIds(bookIds.slice(0, limit))
       popularForYou = bookIds.slice(0, limit).map(id => booksMap.get(id)).filter(Boolean)
+        .filter(book => !RecommendationService.isExcludedByFeedback(book!, feedback))
+        .map(withSignals)
     }
 
     if (prefs.recommendedNewBooks) {
       const bookIds = JSON.parse(prefs.recommendedNewBooks) as string[]
       const booksMap = await BookService.getBooksByIds(bookIds.slice(0, limit))
       newForYou = bookIds.slice(0, limit).map(id => booksMap.get(id)).filter(Boolean)
+        .filter(book => !RecommendationService.isExcludedByFeedback(book!, feedback))
+        .map(withSignals)
     }
 
     if (prefs.recommendedAuthorBooks) {
       // Authors are stored as JSON array of Author objects
       try {
-        authorsForYou = JSON.parse(prefs.recommendedAuthorBooks)
+        authorsForYou = (JSON.parse(prefs.recommendedAuthorBooks) as any[])
+          .filter(author => !RecommendationService.isAuthorHidden(author.name, feedback))
       } catch (error) {
         logger.error('Failed to parse recommended authors', { error: error instanceof Error ? error.message : error, userId: payload.userId })
         authorsForYou = []
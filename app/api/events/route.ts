@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { RealtimeService } from '@/lib/services/realtime.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+// Comment lines at this interval keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000
+
+/**
+ * GET /api/events - Server-Sent Events stream of the current user's notifications and request
+ * status changes, plus every request change and sync job progress for admins
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const encoder = new TextEncoder()
+    let close = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+
+        const send = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            close()
+          }
+        }
+
+        const unsubscribe = RealtimeService.subscribe((event) => {
+          const visible = RealtimeService.visibleTo(event, user)
+          if (visible) {
+            send(`data: ${JSON.stringify(visible)}\n\n`)
+          }
+        })
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS)
+
+        close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client going away
+          }
+          logger.debug('Event stream closed', { userId: user.userId })
+        }
+
+        request.signal.addEventListener('abort', () => close())
+
+        // Tell the browser how long to wait before reconnecting after a dropped connection
+        send('retry: 5000\n\n')
+        logger.debug('Event stream opened', { userId: user.userId })
+      },
+      cancel() {
+        close()
+      },
+    })
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Open event stream error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to open event stream' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
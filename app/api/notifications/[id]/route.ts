@@ -41,4 +41,43 @@ async function postHandler(
   }
 }
 
+/**
+ * DELETE /api/notifications/[id] - Delete a notification
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const notificationId = parseInt(id)
+
+    if (isNaN(notificationId)) {
+      return NextResponse.json(
+        { error: 'Invalid notification ID' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await NotificationService.deleteNotifications(user.userId, [notificationId])
+    if (deleted === 0) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Failed to delete notification', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to delete notification' },
+      { status: 500 }
+    )
+  }
+}
+
 export const POST = withLogging(postHandler)
+export const DELETE = withLogging(deleteHandler)
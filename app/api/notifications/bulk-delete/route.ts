@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { NotificationService } from '@/lib/services/notification.service'
+import { bulkNotificationDeleteSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/notifications/bulk-delete - Delete many of the user's notifications at once
+ * Body: { ids }
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const body = await request.json()
+
+    const validationResult = bulkNotificationDeleteSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await NotificationService.deleteNotifications(
+      user.userId,
+      Array.from(new Set(validationResult.data.ids))
+    )
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Failed to bulk delete notifications', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to delete notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -1,21 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
-import { NotificationService } from '@/lib/services/notification.service'
+import { NotificationService, type NotificationType } from '@/lib/services/notification.service'
+import { NOTIFICATION_EVENTS } from '@/lib/services/notifications/types'
 import { logger } from '@/lib/utils/logger'
 
 export const dynamic = 'force-dynamic'
 
 /**
- * GET /api/notifications - Get user's notifications
+ * GET /api/notifications - Get user's notifications, newest first
+ * Optional query: ?cursor=<nextCursor from the previous page>&limit=50&type=request_approved
  */
 async function getHandler(request: NextRequest) {
   try {
     const user = await requireAuth(request)
+    const { searchParams } = request.nextUrl
 
-    const notifications = await NotificationService.getUserNotifications(user.userId)
+    const cursor = searchParams.get('cursor') ? parseInt(searchParams.get('cursor')!) : undefined
+    if (cursor !== undefined && isNaN(cursor)) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100)
+
+    const type = (searchParams.get('type') || undefined) as NotificationType | undefined
+    if (type && !NOTIFICATION_EVENTS.some((event) => event.type === type)) {
+      return NextResponse.json({ error: 'Invalid notification type' }, { status: 400 })
+    }
+
+    const [page, unreadCount] = await Promise.all([
+      NotificationService.getUserNotifications(user.userId, { cursor, limit, type }),
+      NotificationService.getUnreadCount(user.userId),
+    ])
 
-    return NextResponse.json({ notifications })
+    return NextResponse.json({ ...page, unreadCount })
   } catch (error) {
     if (error instanceof Error && error.message.includes('Authentication')) {
       return handleAuthError(error)
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { RequestService } from '@/lib/services/request.service'
+import { RequestCommentService } from '@/lib/services/request-comment.service'
+import { requestCommentSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/requests/[id]/comments - Get a request's comment thread
+ */
+async function getHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const requestId = parseInt(id)
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    const requestData = await RequestService.getRequestById(requestId)
+
+    // Admins can read the thread of archived/deleted requests; users only their own live requests
+    if (!requestData && user.role !== 'admin') {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    if (requestData && user.role !== 'admin' && requestData.userId !== user.userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const comments = await RequestCommentService.getComments(requestId)
+
+    return NextResponse.json({ comments })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get request comments API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve request comments' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/requests/[id]/comments - Comment on a request (the requester or an admin)
+ */
+async function postHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const requestId = parseInt(id)
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    const existingRequest = await RequestService.getRequestById(requestId)
+    if (!existingRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    if (user.role !== 'admin' && existingRequest.userId !== user.userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = requestCommentSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const comment = await RequestCommentService.addComment(
+      existingRequest,
+      { userId: user.userId, role: user.role },
+      validationResult.data.body
+    )
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Create request comment API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to add comment' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
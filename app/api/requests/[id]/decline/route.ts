@@ -2,17 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
 import { RequestService } from '@/lib/services/request.service'
-import { BookService } from '@/lib/services/book.service'
-import { BookshelfService } from '@/lib/services/bookshelf.service'
-import { NotificationService } from '@/lib/services/notification.service'
+import { ApprovalService } from '@/lib/services/approval.service'
+import { DeclineReasonService } from '@/lib/services/decline-reason.service'
+import { declineRequestSchema } from '@/lib/utils/validation'
 import { logger } from '@/lib/utils/logger'
-import { db, users, settings } from '@/lib/db'
-import { eq } from 'drizzle-orm'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * POST /api/requests/[id]/decline - Decline a request (admin only)
+ * Optional body: { reasonId, note } - a decline reason template and an explanation for the requester
  */
 async function postHandler(
   request: NextRequest,
@@ -23,77 +22,33 @@ async function postHandler(
     const { id } = await params
     const requestId = parseInt(id)
 
+    const body = await request.json().catch(() => ({}))
+    const validationResult = declineRequestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { reasonId, note } = validationResult.data
+    const reason = reasonId ? await DeclineReasonService.getReason(reasonId) : null
+    if (reasonId && !reason) {
+      return NextResponse.json({ error: 'Unknown decline reason' }, { status: 400 })
+    }
+
     // Get the request details
     const existingRequest = await RequestService.getRequestById(requestId)
     if (!existingRequest) {
       return NextResponse.json({ error: 'Request not found' }, { status: 404 })
     }
 
-    // Get book details for notification
-    const book = await BookService.getBookById(existingRequest.bookId)
-
-    const updatedRequest = await RequestService.updateRequest(requestId, {
-      status: 'declined',
+    const updatedRequest = await ApprovalService.declineRequest(existingRequest, {
       processedBy: user.userId,
+      reason,
+      note,
     })
 
-    // Send notification to user if book details available
-    if (book) {
-      // Get requesting user's details for notification
-      const requestingUser = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, existingRequest.userId))
-        .limit(1)
-
-      const username = requestingUser[0]?.username || 'Unknown User'
-
-      // Get quality profile name from Bookshelf
-      let qualityProfileName = 'Unknown'
-      try {
-        // Get Bookshelf settings
-        const urlSetting = await db
-          .select()
-          .from(settings)
-          .where(eq(settings.key, 'bookshelf_url'))
-          .limit(1)
-
-        const apiKeySetting = await db
-          .select()
-          .from(settings)
-          .where(eq(settings.key, 'bookshelf_api_key'))
-          .limit(1)
-
-        const bookshelfUrl = urlSetting[0]?.value
-        const bookshelfApiKey = apiKeySetting[0]?.value
-
-        if (bookshelfUrl && bookshelfApiKey) {
-          const profiles = await BookshelfService.getQualityProfiles({
-            url: bookshelfUrl,
-            apiKey: bookshelfApiKey,
-          })
-          const profile = profiles.find((p) => p.id === existingRequest.qualityProfileId)
-          if (profile) qualityProfileName = profile.name
-        }
-      } catch (error) {
-        logger.error('Failed to fetch quality profile', { error: error instanceof Error ? error.message : error })
-      }
-
-      await NotificationService.sendNotification(
-        existingRequest.userId,
-        'request_declined',
-        'Book Request Declined',
-        book.title,
-        book.author || 'Unknown Author',
-        book.description || 'No description available',
-        book.coverImage,
-        username,
-        'Declined',
-        qualityProfileName,
-        '/requests'
-      )
-    }
-
     return NextResponse.json({ request: updatedRequest })
   } catch (error) {
     if (error instanceof Error && error.message.includes('Authentication')) {
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { RequestService } from '@/lib/services/request.service'
+import { RequestEventService } from '@/lib/services/request-event.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/requests/[id]/history - Get a request's status history
+ */
+async function getHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const requestId = parseInt(id)
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    const requestData = await RequestService.getRequestById(requestId)
+
+    // Admins can view the history of purged/deleted requests; users only their own live requests
+    if (!requestData && user.role !== 'admin') {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    if (requestData && user.role !== 'admin' && requestData.userId !== user.userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const events = await RequestEventService.getHistory(requestId)
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get request history API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve request history' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
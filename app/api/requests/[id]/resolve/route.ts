@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { RequestService } from '@/lib/services/request.service'
+import { BookService } from '@/lib/services/book.service'
+import { ApprovalService } from '@/lib/services/approval.service'
+import { resolveRequestSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Map resolution service errors to HTTP responses
+ */
+function resolutionErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error)) return null
+
+  if (error.message.includes('does not require manual intervention') || error.message.includes('does not belong')) {
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+  if (error.message.includes('not found') || error.message.includes('not configured')) {
+    return NextResponse.json({ error: error.message }, { status: 404 })
+  }
+  return null
+}
+
+/**
+ * GET /api/requests/[id]/resolve - Get the existing Readarr author and books for a manual-intervention request (admin only)
+ * With ?bookId= returns the editions of that Readarr book instead.
+ */
+async function getHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const requestId = parseInt(id)
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    const existingRequest = await RequestService.getRequestById(requestId)
+    if (!existingRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    const bookIdParam = request.nextUrl.searchParams.get('bookId')
+    if (bookIdParam) {
+      const bookshelfBookId = parseInt(bookIdParam)
+      if (isNaN(bookshelfBookId)) {
+        return NextResponse.json({ error: 'Invalid book ID' }, { status: 400 })
+      }
+
+      const editions = await ApprovalService.getResolutionEditions(existingRequest, bookshelfBookId)
+      return NextResponse.json({ editions })
+    }
+
+    const book = await BookService.getBookById(existingRequest.bookId)
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    const candidates = await ApprovalService.getResolutionCandidates(existingRequest, book)
+
+    return NextResponse.json(candidates)
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    const mapped = resolutionErrorResponse(error)
+    if (mapped) return mapped
+
+    logger.error('Get resolution candidates API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to load resolution options' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/requests/[id]/resolve - Monitor an existing Readarr book and link it to the request (admin only)
+ */
+async function postHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin(request)
+    const { id } = await params
+    const requestId = parseInt(id)
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationResult = resolveRequestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const existingRequest = await RequestService.getRequestById(requestId)
+    if (!existingRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    const book = await BookService.getBookById(existingRequest.bookId)
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    const updatedRequest = await ApprovalService.resolveManualIntervention(
+      existingRequest,
+      book,
+      validationResult.data,
+      user.userId
+    )
+
+    return NextResponse.json({ request: updatedRequest })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    const mapped = resolutionErrorResponse(error)
+    if (mapped) return mapped
+
+    logger.error('Resolve request API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: error instanceof Error ? `Failed to resolve request: ${error.message}` : 'Failed to resolve request' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -8,10 +8,11 @@ import {
 import { RequestService } from '@/lib/services/request.service'
 import { BookService } from '@/lib/services/book.service'
 import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { NotificationService } from '@/lib/services/notification.service'
 import { updateRequestSchema } from '@/lib/utils/validation'
 import { logger } from '@/lib/utils/logger'
-import { db, users, settings } from '@/lib/db'
+import { db, users } from '@/lib/db'
 import { eq } from 'drizzle-orm'
 
 export const dynamic = 'force-dynamic'
@@ -133,7 +134,10 @@ async function deleteHandler(
 
     const username = requestingUser[0]?.username || 'A user'
 
-    await RequestService.deleteRequest(parseInt(id))
+    await RequestService.deleteRequest(parseInt(id), {
+      source: user.role === 'admin' ? 'admin' : 'user',
+      actorId: user.userId,
+    })
 
     // Notify admins that the request was cancelled
     if (book && requestData.status === 'pending') {
@@ -142,27 +146,11 @@ async function deleteHandler(
       // Get quality profile name from Bookshelf
       let qualityProfileName = 'Unknown'
       try {
-        // Get Bookshelf settings
-        const urlSetting = await db
-          .select()
-          .from(settings)
-          .where(eq(settings.key, 'bookshelf_url'))
-          .limit(1)
-
-        const apiKeySetting = await db
-          .select()
-          .from(settings)
-          .where(eq(settings.key, 'bookshelf_api_key'))
-          .limit(1)
-
-        const bookshelfUrl = urlSetting[0]?.value
-        const bookshelfApiKey = apiKeySetting[0]?.value
-
-        if (bookshelfUrl && bookshelfApiKey) {
-          const profiles = await BookshelfService.getQualityProfiles({
-            url: bookshelfUrl,
-            apiKey: bookshelfApiKey,
-          })
+        // Get the request's instance settings
+        const bookshelfConfig = await BookshelfInstanceService.getConfig(requestData.instanceId)
+
+        if (bookshelfConfig) {
+          const profiles = await BookshelfService.getQualityProfiles(bookshelfConfig)
           const profile = profiles.find((p) => p.id === requestData.qualityProfileId)
           if (profile) qualityProfileName = profile.name
         }
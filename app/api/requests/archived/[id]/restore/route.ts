@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { ArchiveService } from '@/lib/services/archive.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/requests/archived/[id]/restore - Restore an archived request (admin only)
+ */
+async function postHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin(request)
+    const { id } = await params
+    const archivedId = parseInt(id)
+
+    if (isNaN(archivedId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    const restoredRequest = await ArchiveService.restoreRequest(archivedId, user.userId)
+
+    return NextResponse.json({ request: restoredRequest })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof Error && error.message === 'Archived request not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message.includes('already has an active request')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    logger.error('Restore archived request API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to restore request' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { ArchiveService } from '@/lib/services/archive.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/requests/archived/[id] - Permanently delete an archived request (admin only)
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin(request)
+    const { id } = await params
+    const archivedId = parseInt(id)
+
+    if (isNaN(archivedId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 })
+    }
+
+    await ArchiveService.deleteArchivedRequest(archivedId, user.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Delete archived request API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to delete archived request' },
+      { status: 500 }
+    )
+  }
+}
+
+export const DELETE = withLogging(deleteHandler)
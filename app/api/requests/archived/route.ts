@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { ArchiveService } from '@/lib/services/archive.service'
+import { logger } from '@/lib/utils/logger'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+const retentionSchema = z.object({
+  retentionDays: z.number().int().min(0).max(3650),
+})
+
+/**
+ * GET /api/requests/archived - Get archived requests and the retention setting (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const requests = await ArchiveService.getArchivedRequests()
+    const retentionDays = await ArchiveService.getRetentionDays()
+
+    return NextResponse.json({ requests, retentionDays })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get archived requests API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve archived requests' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/requests/archived - Update the archive retention period (admin only)
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+    const body = await request.json()
+
+    const validatedData = retentionSchema.parse(body)
+
+    await ArchiveService.setRetentionDays(validatedData.retentionDays, user.userId)
+
+    return NextResponse.json({ retentionDays: validatedData.retentionDays })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Retention must be between 0 and 3650 days' }, { status: 400 })
+    }
+
+    logger.error('Update archive retention error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update archive retention' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { ApprovalService } from '@/lib/services/approval.service'
+import { DeclineReasonService } from '@/lib/services/decline-reason.service'
+import { bulkRequestActionSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/requests/bulk - Approve, decline, delete or retry many requests at once (admin only)
+ * Body: { action, ids, reasonId?, note? }. Returns a result per request; Bookshelf additions are queued.
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = bulkRequestActionSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { action, ids, reasonId, note } = validationResult.data
+    const reason = reasonId ? await DeclineReasonService.getReason(reasonId) : null
+    if (reasonId && !reason) {
+      return NextResponse.json({ error: 'Unknown decline reason' }, { status: 400 })
+    }
+
+    const results = await ApprovalService.runBulkAction(action, Array.from(new Set(ids)), {
+      processedBy: user.userId,
+      reason,
+      note,
+    })
+
+    return NextResponse.json({
+      results,
+      succeeded: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Bulk request action API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to apply bulk action' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { SeriesService } from '@/lib/services/series.service'
+import { RequestService, RequestsUnavailableError } from '@/lib/services/request.service'
+import { QuotaExceededError } from '@/lib/services/quota.service'
+import { createRequestSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/requests/series - Request the rest of the series a book belongs to as one batch
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    await RequestService.assertAcceptingRequests()
+
+    const body = await request.json()
+    const validationResult = createRequestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const batch = await SeriesService.requestRestOfSeries({
+      userId: user.userId,
+      ...validationResult.data,
+    })
+
+    // One admin notification for the whole batch
+    const firstBook = batch.books[0]
+    RequestService.announceSubmission({
+      userId: user.userId,
+      instanceId: batch.requests[0].instanceId,
+      qualityProfileId: validationResult.data.qualityProfileId,
+      title: 'New Series Request',
+      bookTitle: `${batch.series} (${batch.books.length} ${batch.books.length === 1 ? 'book' : 'books'})`,
+      bookAuthor: firstBook.author || 'Unknown Author',
+      description: batch.books.map((b) => (b.seriesPosition !== undefined ? `#${b.seriesPosition} ${b.title}` : b.title)).join('\n'),
+      coverImage: firstBook.coverImage,
+      autoApproved: batch.autoApproved === batch.requests.length,
+    })
+
+    return NextResponse.json({ series: batch.series, requests: batch.requests }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof RequestsUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, quotaWindow: error.window, resetsAt: error.resetsAt },
+        { status: 429 }
+      )
+    }
+
+    if (error instanceof Error) {
+      logger.error('Create series request API error', { error: error.message })
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Unexpected create series request error', { error })
+    return NextResponse.json(
+      { error: 'Failed to request series' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { AutoApprovalService } from '@/lib/services/auto-approval.service'
+import { autoApprovalRuleSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/settings/auto-approval/[id] - Update an auto-approval rule (admin only)
+ */
+async function putHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const ruleId = parseInt(id)
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Invalid rule ID' }, { status: 400 })
+    }
+
+    const body = await request.json()
+
+    const validationResult = autoApprovalRuleSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const rule = await AutoApprovalService.updateRule(ruleId, validationResult.data)
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Update auto-approval rule error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update auto-approval rule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/auto-approval/[id] - Delete an auto-approval rule (admin only)
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const ruleId = parseInt(id)
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Invalid rule ID' }, { status: 400 })
+    }
+
+    await AutoApprovalService.deleteRule(ruleId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Delete auto-approval rule error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to delete auto-approval rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export const PUT = withLogging(putHandler)
+export const DELETE = withLogging(deleteHandler)
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { AutoApprovalService } from '@/lib/services/auto-approval.service'
+import { autoApprovalRuleSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/auto-approval - List auto-approval rules (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const rules = await AutoApprovalService.getRules()
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get auto-approval rules error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve auto-approval rules' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/settings/auto-approval - Create an auto-approval rule (admin only)
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = autoApprovalRuleSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const rule = await AutoApprovalService.createRule(validationResult.data, user.userId)
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Create auto-approval rule error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to create auto-approval rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
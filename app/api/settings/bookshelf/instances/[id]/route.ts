@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
+import { bookshelfInstanceSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/settings/bookshelf/instances/[id] - Update a Bookshelf instance (admin only)
+ */
+async function putHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const instanceId = parseInt(id)
+
+    if (isNaN(instanceId)) {
+      return NextResponse.json({ error: 'Invalid instance ID' }, { status: 400 })
+    }
+
+    const body = await request.json()
+
+    const validationResult = bookshelfInstanceSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const isConnected = await BookshelfService.testConnection({
+      url: validationResult.data.url,
+      apiKey: validationResult.data.apiKey,
+    })
+
+    if (!isConnected) {
+      return NextResponse.json(
+        { error: 'Failed to connect to Bookshelf. Please check your URL and API key.' },
+        { status: 400 }
+      )
+    }
+
+    const instance = await BookshelfInstanceService.updateInstance(instanceId, validationResult.data)
+    if (!instance) {
+      return NextResponse.json({ error: 'Instance not found' }, { status: 404 })
+    }
+
+    try {
+      await BookshelfService.syncQualityProfiles(BookshelfInstanceService.toConfig(instance))
+    } catch (syncError) {
+      logger.error('Failed to sync quality profiles', { error: syncError, instanceId })
+    }
+
+    return NextResponse.json({ instance })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof Error && error.message.includes('UNIQUE')) {
+      return NextResponse.json({ error: 'An instance with this name already exists' }, { status: 409 })
+    }
+
+    logger.error('Update Bookshelf instance error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update Bookshelf instance' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/bookshelf/instances/[id] - Remove a Bookshelf instance (admin only)
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const instanceId = parseInt(id)
+
+    if (isNaN(instanceId)) {
+      return NextResponse.json({ error: 'Invalid instance ID' }, { status: 400 })
+    }
+
+    await BookshelfInstanceService.deleteInstance(instanceId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof Error && error.message === 'Instance not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message.includes('cannot be deleted')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    logger.error('Delete Bookshelf instance error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to delete Bookshelf instance' },
+      { status: 500 }
+    )
+  }
+}
+
+export const PUT = withLogging(putHandler)
+export const DELETE = withLogging(deleteHandler)
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
+import { bookshelfInstanceSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/bookshelf/instances - List Bookshelf instances (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const instances = await BookshelfInstanceService.getInstances()
+
+    return NextResponse.json({ instances })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get Bookshelf instances error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve Bookshelf instances' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/settings/bookshelf/instances - Add a Bookshelf instance (admin only)
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = bookshelfInstanceSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const isConnected = await BookshelfService.testConnection({
+      url: validationResult.data.url,
+      apiKey: validationResult.data.apiKey,
+    })
+
+    if (!isConnected) {
+      return NextResponse.json(
+        { error: 'Failed to connect to Bookshelf. Please check your URL and API key.' },
+        { status: 400 }
+      )
+    }
+
+    const instance = await BookshelfInstanceService.createInstance(validationResult.data)
+
+    // Sync quality profiles from the new instance
+    try {
+      await BookshelfService.syncQualityProfiles(BookshelfInstanceService.toConfig(instance))
+    } catch (syncError) {
+      // Log but don't fail the request - profiles can be synced later
+      logger.error('Failed to sync quality profiles', { error: syncError, instanceId: instance.id })
+    }
+
+    logger.info('Bookshelf instance added', { instanceId: instance.id, userId: user.userId })
+
+    return NextResponse.json({ instance }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof Error && error.message.includes('UNIQUE')) {
+      return NextResponse.json({ error: 'An instance with this name already exists' }, { status: 409 })
+    }
+
+    logger.error('Create Bookshelf instance error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to create Bookshelf instance' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
+import { defaultMetadataProfileSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/bookshelf/metadata-profiles?instanceId= - List an instance's metadata profiles and its default (admin only)
+ * Falls back to the default instance when no instance is given.
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const instanceParam = request.nextUrl.searchParams.get('instanceId')
+    const instanceId = instanceParam ? parseInt(instanceParam, 10) : null
+    if (instanceParam && isNaN(instanceId!)) {
+      return NextResponse.json({ error: 'Invalid instance ID' }, { status: 400 })
+    }
+
+    const instance = instanceId
+      ? await BookshelfInstanceService.getInstance(instanceId)
+      : await BookshelfInstanceService.getDefaultInstance()
+    if (!instance) {
+      return NextResponse.json({ profiles: [], defaultMetadataProfileId: null })
+    }
+
+    const profiles = await BookshelfService.getMetadataProfiles(BookshelfInstanceService.toConfig(instance))
+
+    return NextResponse.json({
+      instanceId: instance.id,
+      profiles,
+      defaultMetadataProfileId: instance.defaultMetadataProfileId,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get metadata profiles error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve metadata profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/settings/bookshelf/metadata-profiles - Set an instance's default metadata profile (admin only)
+ */
+async function putHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = defaultMetadataProfileSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { metadataProfileId } = validationResult.data
+    const instance = validationResult.data.instanceId
+      ? await BookshelfInstanceService.getInstance(validationResult.data.instanceId)
+      : await BookshelfInstanceService.getDefaultInstance()
+    if (!instance) {
+      return NextResponse.json({ error: 'Instance not found' }, { status: 404 })
+    }
+
+    await BookshelfService.setDefaultMetadataProfile(instance.id, metadataProfileId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Update default metadata profile error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update metadata profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const PUT = withLogging(putHandler)
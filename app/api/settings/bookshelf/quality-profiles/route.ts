@@ -2,18 +2,35 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
 import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { logger } from '@/lib/utils/logger'
 
 export const dynamic = 'force-dynamic'
 
 /**
- * GET /api/settings/bookshelf/quality-profiles - Get quality profile configurations
+ * Resolve the instance a profile operation targets, defaulting to the default instance
+ */
+async function resolveInstanceId(value: unknown): Promise<number | null> {
+  const instanceId = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10)
+  if (!isNaN(instanceId)) return instanceId
+
+  const instance = await BookshelfInstanceService.getDefaultInstance()
+  return instance?.id ?? null
+}
+
+/**
+ * GET /api/settings/bookshelf/quality-profiles?instanceId= - Get an instance's quality profile configurations
  */
 async function getHandler(request: NextRequest) {
   try {
     await requireAdmin(request)
 
-    const configs = await BookshelfService.getQualityProfileConfigs()
+    const instanceId = await resolveInstanceId(request.nextUrl.searchParams.get('instanceId'))
+    if (!instanceId) {
+      return NextResponse.json({ profiles: [] })
+    }
+
+    const configs = await BookshelfService.getQualityProfileConfigs(instanceId)
 
     return NextResponse.json({ profiles: configs })
   } catch (error) {
@@ -37,20 +54,25 @@ async function patchHandler(request: NextRequest) {
     await requireAdmin(request)
     const body = await request.json()
 
-    const { profileId, enabled, orderIndex } = body
+    const { profileId, enabled, orderIndex, rootFolderPath, metadataProfileId } = body
+    const instanceId = await resolveInstanceId(body.instanceId)
 
-    if (!profileId) {
+    if (!profileId || !instanceId) {
       return NextResponse.json(
         { error: 'Profile ID is required' },
         { status: 400 }
       )
     }
 
-    const updates: { enabled?: boolean; orderIndex?: number } = {}
+    const updates: { enabled?: boolean; orderIndex?: number; rootFolderPath?: string | null; metadataProfileId?: number | null } = {}
     if (typeof enabled === 'boolean') updates.enabled = enabled
     if (typeof orderIndex === 'number') updates.orderIndex = orderIndex
+    // An empty string or null clears the mapping and falls back to the first root folder
+    if (rootFolderPath !== undefined) updates.rootFolderPath = rootFolderPath || null
+    // null clears the mapping and falls back to the instance's default metadata profile
+    if (typeof metadataProfileId === 'number' || metadataProfileId === null) updates.metadataProfileId = metadataProfileId
 
-    await BookshelfService.updateQualityProfileConfig(profileId, updates)
+    await BookshelfService.updateQualityProfileConfig(instanceId, profileId, updates)
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -75,15 +97,16 @@ async function postHandler(request: NextRequest) {
     const body = await request.json()
 
     const { orderedProfileIds } = body
+    const instanceId = await resolveInstanceId(body.instanceId)
 
-    if (!Array.isArray(orderedProfileIds)) {
+    if (!Array.isArray(orderedProfileIds) || !instanceId) {
       return NextResponse.json(
         { error: 'orderedProfileIds must be an array' },
         { status: 400 }
       )
     }
 
-    await BookshelfService.reorderQualityProfiles(orderedProfileIds)
+    await BookshelfService.reorderQualityProfiles(instanceId, orderedProfileIds)
 
     return NextResponse.json({ success: true })
   } catch (error) {
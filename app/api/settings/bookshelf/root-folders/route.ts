@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/bookshelf/root-folders?instanceId= - List an instance's Bookshelf root folders (admin only)
+ * Falls back to the default instance when no instance is given.
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const instanceParam = request.nextUrl.searchParams.get('instanceId')
+    const instanceId = instanceParam ? parseInt(instanceParam, 10) : null
+    if (instanceParam && isNaN(instanceId!)) {
+      return NextResponse.json({ error: 'Invalid instance ID' }, { status: 400 })
+    }
+
+    const config = await BookshelfInstanceService.getConfig(instanceId)
+    if (!config) {
+      return NextResponse.json({ rootFolders: [] })
+    }
+
+    const folders = await BookshelfService.getRootFolders(config)
+
+    return NextResponse.json({
+      instanceId: config.instanceId,
+      rootFolders: folders.map((folder) => ({
+        id: folder.id,
+        name: folder.name,
+        path: folder.path,
+        freeSpace: folder.freeSpace,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get root folders error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve root folders' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
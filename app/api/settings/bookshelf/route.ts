@@ -1,37 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
-import { db, settings } from '@/lib/db'
-import { eq } from 'drizzle-orm'
 import { bookshelfSettingsSchema } from '@/lib/utils/validation'
 import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { logger } from '@/lib/utils/logger'
 
 export const dynamic = 'force-dynamic'
 
 /**
- * GET /api/settings/bookshelf - Get Bookshelf configuration
+ * GET /api/settings/bookshelf - Get the default Bookshelf instance's configuration
  */
 async function getHandler(request: NextRequest) {
   try {
     await requireAdmin(request)
 
-    const urlSetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_url'))
-      .limit(1)
-
-    const apiKeySetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_api_key'))
-      .limit(1)
+    const instance = await BookshelfInstanceService.getDefaultInstance({ includeUnconnected: true })
 
     return NextResponse.json({
-      url: urlSetting[0]?.value || '',
-      apiKey: apiKeySetting[0]?.value || '',
-      configured: urlSetting.length > 0 && apiKeySetting.length > 0,
+      url: instance?.url || '',
+      apiKey: instance?.apiKey || '',
+      configured: !!instance && BookshelfInstanceService.isConnectable(instance),
     })
   } catch (error) {
     if (error instanceof Error && error.message.includes('Authentication')) {
@@ -47,7 +36,7 @@ async function getHandler(request: NextRequest) {
 }
 
 /**
- * POST /api/settings/bookshelf - Update Bookshelf configuration
+ * POST /api/settings/bookshelf - Update the default Bookshelf instance's configuration
  */
 async function postHandler(request: NextRequest) {
   try {
@@ -70,52 +59,28 @@ async function postHandler(request: NextRequest) {
       )
     }
 
-    const now = new Date()
-
-    // Upsert URL setting
-    await db
-      .insert(settings)
-      .values({
-        key: 'bookshelf_url',
-        value: validatedData.url,
-        category: 'bookshelf',
-        updatedAt: now,
-        updatedBy: user.userId,
-      })
-      .onConflictDoUpdate({
-        target: settings.key,
-        set: {
-          value: validatedData.url,
-          updatedAt: now,
-          updatedBy: user.userId,
-        },
-      })
-
-    // Upsert API key setting
-    await db
-      .insert(settings)
-      .values({
-        key: 'bookshelf_api_key',
-        value: validatedData.apiKey,
-        category: 'bookshelf',
-        updatedAt: now,
-        updatedBy: user.userId,
-      })
-      .onConflictDoUpdate({
-        target: settings.key,
-        set: {
-          value: validatedData.apiKey,
-          updatedAt: now,
-          updatedBy: user.userId,
-        },
-      })
+    // Update the default instance, creating it on first setup
+    const existing = await BookshelfInstanceService.getDefaultInstance({ includeUnconnected: true })
+    const instance = existing
+      ? await BookshelfInstanceService.updateInstance(existing.id, {
+          name: existing.name,
+          mediaType: existing.mediaType,
+          url: validatedData.url,
+          apiKey: validatedData.apiKey,
+        })
+      : await BookshelfInstanceService.createInstance({
+          name: 'Bookshelf',
+          mediaType: 'ebook',
+          url: validatedData.url,
+          apiKey: validatedData.apiKey,
+          isDefault: true,
+        })
 
     // Sync quality profiles from Bookshelf
     try {
-      await BookshelfService.syncQualityProfiles({
-        url: validatedData.url,
-        apiKey: validatedData.apiKey,
-      })
+      if (instance) {
+        await BookshelfService.syncQualityProfiles(BookshelfInstanceService.toConfig(instance))
+      }
     } catch (syncError) {
       // Log but don't fail the request - profiles can be synced later
       logger.error('Failed to sync quality profiles', { error: syncError })
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { WebhookService } from '@/lib/services/webhook.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/bookshelf/webhook - Get the inbound webhook secret (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const secret = await WebhookService.getWebhookSecret()
+
+    return NextResponse.json({ secret })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get webhook secret error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve webhook secret' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/settings/bookshelf/webhook - Regenerate the inbound webhook secret (admin only)
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+
+    const secret = await WebhookService.regenerateWebhookSecret(user.userId)
+
+    return NextResponse.json({ secret })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Regenerate webhook secret error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to regenerate webhook secret' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
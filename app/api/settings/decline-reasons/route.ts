@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { DeclineReasonService } from '@/lib/services/decline-reason.service'
+import { declineReasonsSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/decline-reasons - Get the decline reason templates (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const reasons = await DeclineReasonService.getReasons()
+
+    return NextResponse.json({ reasons })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get decline reasons error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve decline reasons' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/settings/decline-reasons - Replace the decline reason templates (admin only)
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = declineReasonsSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const reasons = await DeclineReasonService.updateReasons(validationResult.data.reasons, user.userId)
+
+    return NextResponse.json({ reasons })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Update decline reasons error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update decline reasons' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { NotificationChannelService } from '@/lib/services/notification-channel.service'
+import { notificationChannelSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/settings/notifications/channels/[id] - Update a notification channel (admin only)
+ */
+async function putHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const channelId = parseInt(id)
+
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel ID' }, { status: 400 })
+    }
+
+    const body = await request.json()
+
+    const validationResult = notificationChannelSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const channel = await NotificationChannelService.updateChannel(channelId, validationResult.data)
+    if (!channel) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ channel })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Update notification channel error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update notification channel' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/notifications/channels/[id] - Remove a notification channel (admin only)
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const channelId = parseInt(id)
+
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel ID' }, { status: 400 })
+    }
+
+    const deleted = await NotificationChannelService.deleteChannel(channelId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Delete notification channel error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to delete notification channel' },
+      { status: 500 }
+    )
+  }
+}
+
+export const PUT = withLogging(putHandler)
+export const DELETE = withLogging(deleteHandler)
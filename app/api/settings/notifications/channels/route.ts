@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { NotificationChannelService } from '@/lib/services/notification-channel.service'
+import { notificationChannelSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/notifications/channels - List notification channels (admin only)
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const channels = await NotificationChannelService.getChannels()
+
+    return NextResponse.json({ channels })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get notification channels error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve notification channels' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/settings/notifications/channels - Add a notification channel (admin only)
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = notificationChannelSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const channel = await NotificationChannelService.createChannel(validationResult.data)
+
+    logger.info('Notification channel added', { channelId: channel.id, userId: user.userId })
+
+    return NextResponse.json({ channel }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Create notification channel error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to create notification channel' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { NotificationChannelService } from '@/lib/services/notification-channel.service'
+import { notificationChannelConfigSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/settings/notifications/channels/test - Send a test notification through a channel (admin only)
+ * Body: { type, config }, so a channel can be tested before it is saved
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+    const body = await request.json()
+
+    const validationResult = notificationChannelConfigSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { type, config } = validationResult.data
+
+    try {
+      await NotificationChannelService.testChannel(type, config)
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : String(sendError)
+      logger.warn('Test channel notification failed', { type, error: message })
+      return NextResponse.json(
+        { error: `Failed to send test notification: ${message}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Test notification channel error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to test notification channel' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -28,6 +28,7 @@ async function getHandler(request: NextRequest) {
           requestAvailable: true,
           requestSubmitted: true,
           bookshelfError: true,
+          requestComment: true,
         },
       })
     }
@@ -44,6 +45,7 @@ async function getHandler(request: NextRequest) {
         requestAvailable: settings.notifyRequestAvailable,
         requestSubmitted: settings.notifyRequestSubmitted,
         bookshelfError: settings.notifyBookshelfError,
+        requestComment: settings.notifyRequestComment,
       },
     })
   } catch (error) {
@@ -82,6 +84,7 @@ async function postHandler(request: NextRequest) {
       updateData.notifyRequestAvailable = body.notificationTypes.requestAvailable
       updateData.notifyRequestSubmitted = body.notificationTypes.requestSubmitted
       updateData.notifyBookshelfError = body.notificationTypes.bookshelfError
+      updateData.notifyRequestComment = body.notificationTypes.requestComment
     }
 
     const updated = await NotificationService.updateSettings(updateData)
@@ -99,6 +102,7 @@ async function postHandler(request: NextRequest) {
         requestAvailable: updated.notifyRequestAvailable,
         requestSubmitted: updated.notifyRequestSubmitted,
         bookshelfError: updated.notifyBookshelfError,
+        requestComment: updated.notifyRequestComment,
       },
     })
   } catch (error) {
@@ -2,23 +2,35 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
 import { BookshelfService } from '@/lib/services/bookshelf.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { logger } from '@/lib/utils/logger'
 
 export const dynamic = 'force-dynamic'
 
 /**
- * GET /api/settings/quality-profiles - Get enabled quality profiles in order
- * This endpoint returns only enabled profiles sorted by order for use in request forms
+ * GET /api/settings/quality-profiles - Get enabled quality profiles in order, grouped by instance
+ * This endpoint returns only enabled profiles sorted by order for use in request forms.
+ * `profiles` holds the default instance's profiles for forms that predate multiple instances.
  */
 async function getHandler(request: NextRequest) {
   try {
     // Require authentication
     await requireAuth(request)
 
-    // Fetch enabled quality profiles in order from database
-    const profiles = await BookshelfService.getEnabledQualityProfiles()
+    // Fetch enabled quality profiles in order from database for every instance
+    const instances = await Promise.all(
+      (await BookshelfInstanceService.getInstances()).map(async (instance) => ({
+        id: instance.id,
+        name: instance.name,
+        mediaType: instance.mediaType,
+        isDefault: instance.isDefault,
+        profiles: await BookshelfService.getEnabledQualityProfiles(instance.id),
+      }))
+    )
+
+    const profiles = instances.find((i) => i.isDefault)?.profiles ?? instances[0]?.profiles ?? []
 
-    return NextResponse.json({ profiles })
+    return NextResponse.json({ profiles, instances })
   } catch (error) {
     if (error instanceof Error && error.message.includes('Authentication')) {
       return handleAuthError(error)
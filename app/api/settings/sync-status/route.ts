@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
-import { db, settings, syncJobs } from '@/lib/db'
+import { db, syncJobs } from '@/lib/db'
 import { eq } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
 import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
 import { withLogging } from '@/lib/middleware/logging.middleware'
 
@@ -13,19 +14,7 @@ async function getHandler(request: Request) {
     await requireAuth(request as any)
 
     // Check if Bookshelf is configured
-    const urlSetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_url'))
-      .limit(1)
-
-    const apiKeySetting = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'bookshelf_api_key'))
-      .limit(1)
-
-    const isBookshelfConfigured = urlSetting.length > 0 && apiKeySetting.length > 0 && !!urlSetting[0].value && !!apiKeySetting[0].value
+    const isBookshelfConfigured = (await BookshelfInstanceService.getDefaultInstance()) !== null
 
     // Check if at least one sync job has completed
     const syncCheck = await db
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { AuthorFollowService } from '@/lib/services/author-follow.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/user/follows/[id] - Stop following an author
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const followId = parseInt(id)
+
+    if (isNaN(followId)) {
+      return NextResponse.json({ error: 'Invalid follow ID' }, { status: 400 })
+    }
+
+    const removed = await AuthorFollowService.unfollow(user.userId, followId)
+    if (!removed) {
+      return NextResponse.json({ error: 'Follow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Unfollow author API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to unfollow author' },
+      { status: 500 }
+    )
+  }
+}
+
+export const DELETE = withLogging(deleteHandler)
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { AuthorFollowService } from '@/lib/services/author-follow.service'
+import { authorFollowSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/user/follows - List the authors the current user follows
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const follows = await AuthorFollowService.getFollows(user.userId)
+
+    return NextResponse.json({ follows })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get author follows API error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve followed authors' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/follows - Follow an author; their new releases are requested automatically
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const body = await request.json()
+
+    const validationResult = authorFollowSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const follow = await AuthorFollowService.follow(user.userId, validationResult.data)
+
+    return NextResponse.json({ follow }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Follow author API error', { error })
+    return NextResponse.json(
+      { error: 'Failed to follow author' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
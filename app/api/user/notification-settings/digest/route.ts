@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { DigestService } from '@/lib/services/digest.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/user/notification-settings/digest - Email the current user their digest for the last period now
+ * Uses the saved digest frequency (daily if digests are off) and does not affect the schedule
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const { userId } = await requireAuth(request)
+
+    try {
+      await DigestService.sendPreview(userId)
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : String(sendError)
+      logger.warn('Email digest preview failed', { userId, error: message })
+      return NextResponse.json(
+        { error: `Failed to send digest: ${message}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Email digest preview error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to send digest' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
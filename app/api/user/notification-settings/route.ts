@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { UserNotificationService, PersonalChannelError } from '@/lib/services/user-notification.service'
+import { MailService } from '@/lib/services/mail.service'
+import { UserService } from '@/lib/services/user.service'
+import { userNotificationSettingsSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/user/notification-settings - Get the current user's notification preferences
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    const { userId } = await requireAuth(request)
+
+    const [preferences, smtpServer, user] = await Promise.all([
+      UserNotificationService.getPreferences(userId),
+      MailService.getServerSettings(),
+      UserService.getUserById(userId),
+    ])
+
+    return NextResponse.json({
+      settings: preferences,
+      accountEmail: user?.email || null,
+      emailAvailable: !!smtpServer,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Get user notification settings error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to retrieve notification settings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/notification-settings - Update the current user's notification preferences
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const { userId } = await requireAuth(request)
+    const body = await request.json()
+
+    const validationResult = userNotificationSettingsSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const preferences = await UserNotificationService.updatePreferences(userId, validationResult.data)
+
+    return NextResponse.json({ settings: preferences })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    if (error instanceof PersonalChannelError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Update user notification settings error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update notification settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const POST = withLogging(postHandler)
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { UserNotificationService, PersonalChannelError } from '@/lib/services/user-notification.service'
+import { userNotificationTestSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/user/notification-settings/test - Send a test notification to one of the current user's channels
+ * Body: { channel, settings }, so a channel can be tested before it is saved.
+ * Delivery errors can echo whatever the remote server replied, so only admins see them in full.
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const { userId, role } = await requireAuth(request)
+    const body = await request.json()
+
+    const validationResult = userNotificationTestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { channel, settings } = validationResult.data
+
+    try {
+      await UserNotificationService.testChannel(userId, channel, settings)
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : String(sendError)
+      logger.warn('Personal test notification failed', { userId, channel, error: message })
+
+      if (sendError instanceof PersonalChannelError || role === 'admin') {
+        return NextResponse.json(
+          { error: `Failed to send test notification: ${message}` },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          error: channel === 'ntfy'
+            ? 'Failed to send test notification. Check the server URL, topic and access token.'
+            : 'Failed to send test notification. Ask an admin to check the email server settings.',
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Test personal notification error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to test notification' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
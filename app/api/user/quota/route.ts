@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAuth, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { QuotaService } from '@/lib/services/quota.service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/user/quota - Get the current user's remaining request allowance
+ */
+async function getHandler(request: NextRequest) {
+  try {
+    const payload = await requireAuth(request)
+
+    const quota = await QuotaService.getQuotaStatus(payload.userId)
+
+    return NextResponse.json({ quota })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Failed to get user quota', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to get request quota' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { requireAdmin, handleAuthError } from '@/lib/middleware/auth.middleware'
+import { UserService } from '@/lib/services/user.service'
+import { QuotaService } from '@/lib/services/quota.service'
+import { userQuotaOverrideSchema } from '@/lib/utils/validation'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/users/[id]/quota - Get a user's quota override and current usage (admin only)
+ */
+async function getHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const userId = parseInt(id)
+
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 })
+    }
+
+    const override = await QuotaService.getUserQuotaOverride(userId)
+    const status = await QuotaService.getQuotaStatus(userId)
+
+    return NextResponse.json({ override, status })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Failed to get user quota', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to get user quota' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/users/[id]/quota - Set a user's quota override (admin only)
+ */
+async function putHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const userId = parseInt(id)
+
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 })
+    }
+
+    const body = await request.json()
+
+    const validationResult = userQuotaOverrideSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const user = await UserService.getUserById(userId)
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const override = await QuotaService.setUserQuotaOverride(userId, validationResult.data)
+
+    return NextResponse.json({ override })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Failed to update user quota', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to update user quota' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/users/[id]/quota - Remove a user's quota override (admin only)
+ */
+async function deleteHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request)
+    const { id } = await params
+    const userId = parseInt(id)
+
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 })
+    }
+
+    await QuotaService.clearUserQuotaOverride(userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Authentication')) {
+      return handleAuthError(error)
+    }
+
+    logger.error('Failed to clear user quota', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to clear user quota' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withLogging(getHandler)
+export const PUT = withLogging(putHandler)
+export const DELETE = withLogging(deleteHandler)
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/middleware/logging.middleware'
+import { WebhookService } from '@/lib/services/webhook.service'
+import { BookshelfInstanceService } from '@/lib/services/bookshelf-instance.service'
+import { logger } from '@/lib/utils/logger'
+import { bookshelfWebhookSchema } from '@/lib/utils/validation'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Extract the shared secret from the request.
+ * Readarr sends it as the Basic auth password; a custom header also works. It is never read from the
+ * query string, which ends up in request logs.
+ */
+function getProvidedSecret(request: NextRequest): string | null {
+  const headerSecret = request.headers.get('x-mimirr-webhook-secret')
+  if (headerSecret) return headerSecret
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf-8')
+    const separatorIndex = decoded.indexOf(':')
+    return separatorIndex >= 0 ? decoded.substring(separatorIndex + 1) : decoded
+  }
+
+  return null
+}
+
+/**
+ * POST /api/webhooks/bookshelf - Receive Readarr/Bookshelf webhook events
+ */
+async function postHandler(request: NextRequest) {
+  try {
+    const isAuthorized = await WebhookService.verifySecret(getProvidedSecret(request))
+    if (!isAuthorized) {
+      logger.warn('Rejected Bookshelf webhook with invalid secret')
+      return NextResponse.json({ error: 'Invalid webhook secret' }, { status: 401 })
+    }
+
+    // Each instance's Connect entry names itself with ?instanceId=; the default instance needs no parameter
+    const instanceParam = request.nextUrl.searchParams.get('instanceId')
+    const instance = instanceParam
+      ? await BookshelfInstanceService.getInstance(parseInt(instanceParam, 10))
+      : await BookshelfInstanceService.getDefaultInstance()
+
+    if (!instance) {
+      return NextResponse.json({ error: 'Unknown Bookshelf instance' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validationResult = bookshelfWebhookSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await WebhookService.handleBookshelfEvent(validationResult.data, instance.id)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    logger.error('Bookshelf webhook error', { error: error instanceof Error ? error.message : error })
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withLogging(postHandler)
@@ -1,12 +1,15 @@
 import { Card } from '@/components/ui/card'
 import type { Author } from '@/types/bookinfo'
 import Image from 'next/image'
+import { FollowAuthorButton } from './follow-author-button'
 
 interface AuthorCardProps {
   author: Author
+  followId?: number | null
+  onFollowChange?: (authorName: string, followId: number | null) => void
 }
 
-export function AuthorCard({ author }: AuthorCardProps) {
+export function AuthorCard({ author, followId = null, onFollowChange }: AuthorCardProps) {
   return (
     <Card className="overflow-hidden hover:ring-2 hover:ring-primary transition-all cursor-pointer group">
       <div className="aspect-[3/4] relative bg-muted">
@@ -77,6 +80,15 @@ export function AuthorCard({ author }: AuthorCardProps) {
             ))}
           </div>
         )}
+
+        {onFollowChange && (
+          <FollowAuthorButton
+            authorName={author.name}
+            followId={followId}
+            onChange={(id) => onFollowChange(author.name, id)}
+            className="mt-3 w-full h-8"
+          />
+        )}
       </div>
     </Card>
   )
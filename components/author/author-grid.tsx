@@ -4,11 +4,16 @@ import type { Author } from '@/types/bookinfo'
 interface AuthorGridProps {
   authors: Author[]
   emptyMessage?: string
+  // Follow IDs keyed by lowercased author name; omit to hide the follow buttons
+  followIds?: Map<string, number>
+  onFollowChange?: (authorName: string, followId: number | null) => void
 }
 
 export function AuthorGrid({
   authors,
   emptyMessage = 'No authors found',
+  followIds,
+  onFollowChange,
 }: AuthorGridProps) {
   if (!authors || authors.length === 0) {
     return (
@@ -21,7 +26,12 @@ export function AuthorGrid({
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-4">
       {authors.map((author) => (
-        <AuthorCard key={author.id} author={author} />
+        <AuthorCard
+          key={author.id}
+          author={author}
+          followId={followIds?.get(author.name.toLowerCase()) ?? null}
+          onFollowChange={onFollowChange}
+        />
       ))}
     </div>
   )
@@ -0,0 +1,64 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useState } from 'react'
+import { UserCheck, UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface FollowAuthorButtonProps {
+  authorName: string
+  followId: number | null
+  onChange: (followId: number | null) => void
+  className?: string
+}
+
+/**
+ * Follow / unfollow toggle. Following an author requests their new releases automatically.
+ */
+export function FollowAuthorButton({ authorName, followId, onChange, className }: FollowAuthorButtonProps) {
+  const [saving, setSaving] = useState(false)
+  const following = followId !== null
+
+  async function handleClick(e: React.MouseEvent) {
+    // Author cards may sit inside a link; keep the click on the button
+    e.preventDefault()
+    e.stopPropagation()
+    setSaving(true)
+
+    try {
+      if (following) {
+        const response = await fetch(`/api/user/follows/${followId}`, { method: 'DELETE' })
+        if (!response.ok) throw new Error('Failed to unfollow author')
+        onChange(null)
+      } else {
+        const response = await fetch('/api/user/follows', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ authorName }),
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to follow author')
+        onChange(data.follow.id)
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to update author follow:', { error: error instanceof Error ? error.message : error })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Button
+      type="button"
+      variant={following ? 'outline' : 'secondary'}
+      size="sm"
+      onClick={handleClick}
+      disabled={saving}
+      title={following ? `New books by ${authorName} are requested for you` : `Request new books by ${authorName} automatically`}
+      className={className}
+    >
+      {following ? <UserCheck className="h-4 w-4 mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+      {following ? 'Following' : 'Follow'}
+    </Button>
+  )
+}
@@ -1,12 +1,24 @@
 import Link from 'next/link'
 import Image from 'next/image'
+import { EyeOff, ThumbsDown, UserX } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
-import type { Book } from '@/types/bookinfo'
+import type { Book, RecommendationSignals } from '@/types/bookinfo'
+import type { RecommendationFeedback } from '@/lib/db'
+
+export type RecommendationFeedbackType = RecommendationFeedback['type']
 
 interface BookCardProps {
   book: Book
+  /** Shows the thumbs-down / not interested / hide author actions when set */
+  onFeedback?: (book: Book, type: RecommendationFeedbackType) => void
 }
 
+const feedbackActions: { type: RecommendationFeedbackType; label: string; Icon: typeof ThumbsDown }[] = [
+  { type: 'thumbs_down', label: 'Not for me', Icon: ThumbsDown },
+  { type: 'not_interested', label: 'Not interested', Icon: EyeOff },
+  { type: 'hide_author', label: 'Hide this author', Icon: UserX },
+]
+
 // Exclude overly broad genre categories from display
 const broadGenres = new Set([
   'Nonfiction',
@@ -24,9 +36,35 @@ const broadGenres = new Set([
   'Biography Memoir'
 ])
 
-export function BookCard({ book }: BookCardProps) {
+function formatInstanceStatus(status: string | null): string {
+  if (!status) return '–'
+  return status.charAt(0).toUpperCase() + status.slice(1)
+}
+
+/**
+ * One-line explanation for a personalized recommendation,
+ * e.g. "Because you requested Dune · Space Opera, Adventurous"
+ */
+function formatRecommendationReason(signals: RecommendationSignals): string | null {
+  const matches = [...signals.genres.slice(0, 2), ...signals.moods.slice(0, 1), ...signals.paces.slice(0, 1)]
+  const lead = signals.sourceRequest
+    ? `Because you requested ${signals.sourceRequest.title}`
+    : signals.author
+      ? `More from ${signals.author}`
+      : null
+
+  if (lead && matches.length > 0) return `${lead} · ${matches.join(', ')}`
+  if (lead) return lead
+  if (matches.length > 0) return `Matches ${matches.join(', ')}`
+  return null
+}
+
+export function BookCard({ book, onFeedback }: BookCardProps) {
   // Filter out broad genres and show only specific ones
   const specificGenres = book.genres?.filter(g => !broadGenres.has(g)) || []
+  const recommendationReason = book.recommendationSignals
+    ? formatRecommendationReason(book.recommendationSignals)
+    : null
 
   // Get status badge info using existing standard badge colors
   const getStatusBadge = () => {
@@ -76,6 +114,18 @@ export function BookCard({ book }: BookCardProps) {
           <p className="text-xs text-foreground-muted line-clamp-1">
             {book.author}
           </p>
+          {recommendationReason && (
+            <p className="text-xs text-primary line-clamp-2 mt-1" title={recommendationReason}>
+              {recommendationReason}
+            </p>
+          )}
+          {book.instanceAvailability && book.instanceAvailability.length > 1 && (
+            <p className="text-xs text-foreground-muted line-clamp-1 mt-1">
+              {book.instanceAvailability
+                .map((a) => `${a.instanceName}: ${formatInstanceStatus(a.status)}`)
+                .join(' · ')}
+            </p>
+          )}
           {book.rating !== undefined && book.rating !== null && (
             <div className="flex items-center gap-1 mt-2">
               <div className="flex">
@@ -109,6 +159,27 @@ export function BookCard({ book }: BookCardProps) {
               ))}
             </div>
           )}
+          {onFeedback && (
+            <div className="mt-2 flex gap-1">
+              {feedbackActions.map(({ type, label, Icon }) => (
+                <button
+                  key={type}
+                  type="button"
+                  title={label}
+                  aria-label={label}
+                  onClick={(e) => {
+                    // The whole card is a link; keep the click on the button
+                    e.preventDefault()
+                    e.stopPropagation()
+                    onFeedback(book, type)
+                  }}
+                  className="p-1 rounded text-foreground-muted hover:text-foreground hover:bg-background-hover"
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </button>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </Link>
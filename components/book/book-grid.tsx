@@ -1,14 +1,16 @@
-import { BookCard } from './book-card'
+import { BookCard, type RecommendationFeedbackType } from './book-card'
 import type { Book } from '@/types/bookinfo'
 
 interface BookGridProps {
   books: Book[]
   emptyMessage?: string
+  onFeedback?: (book: Book, type: RecommendationFeedbackType) => void
 }
 
 export function BookGrid({
   books,
   emptyMessage = 'No books found',
+  onFeedback,
 }: BookGridProps) {
   if (!books || books.length === 0) {
     return (
@@ -21,7 +23,7 @@ export function BookGrid({
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-4">
       {books.map((book) => (
-        <BookCard key={book.id} book={book} />
+        <BookCard key={book.id} book={book} onFeedback={onFeedback} />
       ))}
     </div>
   )
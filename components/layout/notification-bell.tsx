@@ -4,13 +4,14 @@ import { logToClient } from "@/lib/utils/client-logger"
 import { useEffect, useState, useRef, memo } from 'react'
 import Link from 'next/link'
 import { formatDistanceToNow } from 'date-fns'
+import { useServerEvents } from '@/lib/utils/server-events'
 
 interface Notification {
   id: number
   type: string
   title: string
   message: string
-  link?: string
+  link: string | null
   isRead: boolean
   createdAt: Date
 }
@@ -24,28 +25,18 @@ export const NotificationBell = memo(function NotificationBell() {
 
   useEffect(() => {
     fetchNotifications()
+  }, [])
 
-    // Poll for new notifications every 10 seconds, but pause when tab is hidden
-    const interval = setInterval(() => {
-      if (document.visibilityState === 'visible') {
-        fetchNotifications()
-      }
-    }, 10000)
-
-    // Also fetch when tab becomes visible again
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        fetchNotifications()
-      }
-    }
-
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-
-    return () => {
-      clearInterval(interval)
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
+  // New notifications are pushed as they are created; refetch anything missed while disconnected
+  useServerEvents((event) => {
+    if (event.type === 'notification') {
+      const { notification } = event
+      setNotifications((current) => [notification, ...current.filter((n) => n.id !== notification.id)])
+      setUnreadCount((count) => count + 1)
+    } else if (event.type === 'reconnected') {
+      fetchNotifications()
     }
-  }, [])
+  })
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -63,11 +54,11 @@ export const NotificationBell = memo(function NotificationBell() {
 
   async function fetchNotifications() {
     try {
-      const response = await fetch('/api/notifications')
+      const response = await fetch('/api/notifications?limit=10')
       if (response.ok) {
         const data = await response.json()
         setNotifications(data.notifications || [])
-        setUnreadCount(data.notifications?.filter((n: Notification) => !n.isRead).length || 0)
+        setUnreadCount(data.unreadCount || 0)
       }
     } catch (error) {
       logToClient('error', 'Failed to fetch notifications:', { error: error instanceof Error ? error.message : error })
@@ -216,6 +207,15 @@ export const NotificationBell = memo(function NotificationBell() {
               })
             )}
           </div>
+
+          {/* Footer */}
+          <Link
+            href="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="block p-3 border-t border-border text-center text-sm text-primary hover:underline"
+          >
+            View all notifications
+          </Link>
         </div>
       )}
     </div>
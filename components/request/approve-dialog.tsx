@@ -0,0 +1,110 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import type { RequestWithBook } from '@/lib/services/request.service'
+
+interface RootFolder {
+  id: number
+  path: string
+}
+
+interface ApproveDialogProps {
+  request: RequestWithBook | null
+  onOpenChange: (open: boolean) => void
+  onConfirm: (rootFolderPath: string | undefined) => void
+}
+
+/**
+ * Approve (or retry) a request, optionally overriding the Bookshelf root folder.
+ * Retries keep the folder stored on the request unless the admin picks another.
+ */
+export function ApproveDialog({ request, onOpenChange, onConfirm }: ApproveDialogProps) {
+  const [rootFolders, setRootFolders] = useState<RootFolder[]>([])
+  const [rootFolderPath, setRootFolderPath] = useState('')
+
+  useEffect(() => {
+    if (!request) return
+
+    setRootFolderPath(request.rootFolderPath ?? '')
+    fetchRootFolders(request.instanceId)
+  }, [request])
+
+  async function fetchRootFolders(instanceId: number | null) {
+    try {
+      const response = await fetch(
+        instanceId
+          ? `/api/settings/bookshelf/root-folders?instanceId=${instanceId}`
+          : '/api/settings/bookshelf/root-folders'
+      )
+      const data = await response.json()
+      setRootFolders(response.ok ? data.rootFolders || [] : [])
+    } catch (error) {
+      logToClient('error', 'Failed to fetch root folders:', { error: error instanceof Error ? error.message : error })
+      setRootFolders([])
+    }
+  }
+
+  const isRetry = request?.status === 'error'
+  const storedFolderMissing =
+    !!request?.rootFolderPath && rootFolders.length > 0 && !rootFolders.some((f) => f.path === request.rootFolderPath)
+
+  return (
+    <AlertDialog open={!!request} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isRetry ? 'Retry Import' : 'Approve Request'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {request ? `Send "${request.bookTitle}" to Bookshelf.` : ''}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">Root Folder</label>
+          <select
+            value={rootFolderPath}
+            onChange={(e) => setRootFolderPath(e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {!request?.rootFolderPath && <option value="">Automatic (quality profile mapping)</option>}
+            {storedFolderMissing && (
+              <option value={request!.rootFolderPath!}>{request!.rootFolderPath} (missing)</option>
+            )}
+            {rootFolders.map((folder) => (
+              <option key={folder.id} value={folder.path}>
+                {folder.path}
+              </option>
+            ))}
+          </select>
+          {storedFolderMissing && (
+            <p className="text-xs text-red-600">
+              The folder used for this request no longer exists in Bookshelf. Pick another before retrying.
+            </p>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => {
+              onConfirm(rootFolderPath || undefined)
+              onOpenChange(false)
+            }}
+          >
+            {isRetry ? 'Retry Import' : 'Approve'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
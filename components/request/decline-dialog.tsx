@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import type { DeclineReason } from '@/lib/services/decline-reason.service'
+
+interface DeclineDialogProps {
+  open: boolean
+  description: string
+  reasons: DeclineReason[]
+  onOpenChange: (open: boolean) => void
+  onConfirm: (reasonId: string | undefined, note: string | undefined) => void
+}
+
+/**
+ * Decline one or more requests with one of the admin's decline reason templates and an optional note.
+ * Requesters see both in their notification.
+ */
+export function DeclineDialog({ open, description, reasons, onOpenChange, onConfirm }: DeclineDialogProps) {
+  const [reasonId, setReasonId] = useState('')
+  const [note, setNote] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+
+    setReasonId(reasons[0]?.id ?? '')
+    setNote('')
+  }, [open])
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Decline Request</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Reason</label>
+            <select
+              value={reasonId}
+              onChange={(e) => setReasonId(e.target.value)}
+              className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {reasons.map((reason) => (
+                <option key={reason.id} value={reason.id}>
+                  {reason.label}
+                </option>
+              ))}
+              <option value="">No reason</option>
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Note (optional)</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Anything else the requester should know..."
+              rows={3}
+              maxLength={1000}
+              className="w-full px-3 py-2 text-sm bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => {
+              onConfirm(reasonId || undefined, note.trim() || undefined)
+              onOpenChange(false)
+            }}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            Decline
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
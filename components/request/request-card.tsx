@@ -1,7 +1,12 @@
+'use client'
+
+import { useState } from 'react'
 import Image from 'next/image'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { RequestStatusBadge } from './request-status-badge'
+import { RequestTimeline } from './request-timeline'
+import { RequestComments } from './request-comments'
 import type { RequestWithBook } from '@/lib/services/request.service'
 
 interface RequestCardProps {
@@ -10,6 +15,8 @@ interface RequestCardProps {
 }
 
 export function RequestCard({ request, onDelete }: RequestCardProps) {
+  const [showHistory, setShowHistory] = useState(false)
+  const [showComments, setShowComments] = useState(false)
   const requestDate = new Date(request.requestedAt).toLocaleDateString()
 
   return (
@@ -61,6 +68,7 @@ export function RequestCard({ request, onDelete }: RequestCardProps) {
                 </p>
               )}
               <p>Requested: {requestDate}</p>
+              {request.instanceName && <p>Library: {request.instanceName}</p>}
               {request.bookPublishedDate &&
                 new Date(request.bookPublishedDate) > new Date() && (
                   <p className="text-primary font-medium">
@@ -77,11 +85,17 @@ export function RequestCard({ request, onDelete }: RequestCardProps) {
               {request.notes && (
                 <p className="italic line-clamp-2">Note: {request.notes}</p>
               )}
+              {request.status === 'declined' && (request.declineReason || request.declineNote) && (
+                <p className="text-red-600 dark:text-red-400">
+                  Declined{request.declineReason ? `: ${request.declineReason}` : ''}
+                  {request.declineNote && <span className="text-foreground-muted"> - {request.declineNote}</span>}
+                </p>
+              )}
             </div>
 
             {/* Actions */}
-            {request.status === 'pending' && onDelete && (
-              <div className="mt-3">
+            <div className="mt-3 flex gap-2">
+              {request.status === 'pending' && onDelete && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -90,6 +104,32 @@ export function RequestCard({ request, onDelete }: RequestCardProps) {
                 >
                   Cancel Request
                 </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowHistory(!showHistory)}
+              >
+                {showHistory ? 'Hide History' : 'History'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowComments(!showComments)}
+              >
+                {showComments ? 'Hide Comments' : 'Comments'}
+              </Button>
+            </div>
+
+            {showHistory && (
+              <div className="mt-3">
+                <RequestTimeline requestId={request.id} />
+              </div>
+            )}
+
+            {showComments && (
+              <div className="mt-3">
+                <RequestComments requestId={request.id} />
               </div>
             )}
           </div>
@@ -0,0 +1,107 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import type { RequestCommentWithAuthor } from '@/lib/services/request-comment.service'
+
+interface RequestCommentsProps {
+  requestId: number
+}
+
+export function RequestComments({ requestId }: RequestCommentsProps) {
+  const [comments, setComments] = useState<RequestCommentWithAuthor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [body, setBody] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchComments() {
+      try {
+        const response = await fetch(`/api/requests/${requestId}/comments`)
+        if (!response.ok) {
+          throw new Error('Failed to fetch request comments')
+        }
+        const data = await response.json()
+        setComments(data.comments || [])
+      } catch (error) {
+        logToClient('error', 'Failed to fetch request comments:', { error: error instanceof Error ? error.message : error })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchComments()
+  }, [requestId])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!body.trim()) return
+
+    setPosting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/requests/${requestId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add comment')
+      }
+
+      setComments((prev) => [...prev, data.comment])
+      setBody('')
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add comment')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="text-xs text-foreground-muted">Loading comments...</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {comments.length === 0 ? (
+        <p className="text-xs text-foreground-muted">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {comments.map((comment) => (
+            <li
+              key={comment.id}
+              className={`text-xs rounded-md p-2 border ${
+                comment.authorRole === 'admin' ? 'bg-primary/5 border-primary/20' : 'bg-background-hover border-border'
+              }`}
+            >
+              <p className="text-foreground-muted mb-1">
+                <span className="font-medium text-foreground">{comment.authorUsername || 'Deleted user'}</span>
+                {comment.authorRole === 'admin' && ' (admin)'} · {new Date(comment.createdAt).toLocaleString()}
+              </p>
+              <p className="text-foreground whitespace-pre-wrap break-words">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Add a comment, e.g. which edition you want..."
+          rows={2}
+          maxLength={2000}
+          className="w-full px-3 py-2 text-sm bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <Button type="submit" size="sm" disabled={posting || !body.trim()}>
+          {posting ? 'Posting...' : 'Comment'}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import type { RequestEventWithActor } from '@/lib/services/request-event.service'
+
+interface RequestTimelineProps {
+  requestId: number
+}
+
+const sourceLabels: Record<string, string> = {
+  user: 'by requester',
+  admin: 'by admin',
+  system: 'by Mimirr',
+  poll: 'by status check',
+  sync: 'by library sync',
+  webhook: 'by Bookshelf',
+  auto_approval: 'by auto-approval',
+}
+
+function formatStatus(status: string | null): string {
+  if (!status) return 'Created'
+  return status.charAt(0).toUpperCase() + status.slice(1)
+}
+
+export function RequestTimeline({ requestId }: RequestTimelineProps) {
+  const [events, setEvents] = useState<RequestEventWithActor[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch(`/api/requests/${requestId}/history`)
+        if (!response.ok) {
+          throw new Error('Failed to fetch request history')
+        }
+        const data = await response.json()
+        setEvents(data.events || [])
+      } catch (error) {
+        logToClient('error', 'Failed to fetch request history:', { error: error instanceof Error ? error.message : error })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [requestId])
+
+  if (loading) {
+    return <p className="text-xs text-foreground-muted">Loading history...</p>
+  }
+
+  if (events.length === 0) {
+    return <p className="text-xs text-foreground-muted">No history recorded yet.</p>
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-1 space-y-3">
+      {events.map((event) => (
+        <li key={event.id} className="relative ml-3">
+          <span className="absolute -left-4 top-1 w-2 h-2 rounded-full bg-primary" />
+          <p className="text-xs font-medium text-foreground">
+            {event.fromStatus ? `${formatStatus(event.fromStatus)} → ${formatStatus(event.toStatus)}` : `Requested (${formatStatus(event.toStatus)})`}
+          </p>
+          <p className="text-xs text-foreground-muted">
+            {new Date(event.createdAt).toLocaleString()} · {event.actorUsername ? `by ${event.actorUsername}` : sourceLabels[event.source] || event.source}
+          </p>
+          {event.message && (
+            <p className="text-xs text-foreground-muted italic line-clamp-2">{event.message}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
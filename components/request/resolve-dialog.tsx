@@ -0,0 +1,213 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { RequestWithBook } from '@/lib/services/request.service'
+import type { ResolutionCandidates, ResolutionEdition } from '@/lib/services/approval.service'
+
+interface ResolveDialogProps {
+  request: RequestWithBook | null
+  onOpenChange: (open: boolean) => void
+  onResolved: () => void
+}
+
+/**
+ * Guided resolution for requests blocked by the author circuit breaker.
+ * Shows the author already in Readarr, lets the admin pick the matching book (and optionally an edition),
+ * then monitors it and links it back to the request.
+ */
+export function ResolveDialog({ request, onOpenChange, onResolved }: ResolveDialogProps) {
+  const [candidates, setCandidates] = useState<ResolutionCandidates | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [search, setSearch] = useState('')
+  const [selectedBookId, setSelectedBookId] = useState<number | null>(null)
+  const [editions, setEditions] = useState<ResolutionEdition[]>([])
+  const [foreignEditionId, setForeignEditionId] = useState('')
+  const [resolving, setResolving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!request) return
+
+    setCandidates(null)
+    setSearch('')
+    setSelectedBookId(null)
+    setEditions([])
+    setForeignEditionId('')
+    setError(null)
+    fetchCandidates(request.id)
+  }, [request])
+
+  useEffect(() => {
+    setEditions([])
+    setForeignEditionId('')
+    if (request && selectedBookId) {
+      fetchEditions(request.id, selectedBookId)
+    }
+  }, [selectedBookId])
+
+  async function fetchCandidates(requestId: number) {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/requests/${requestId}/resolve`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load resolution options')
+      }
+
+      setCandidates(data)
+      setSelectedBookId(data.suggestedBookId)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load resolution options')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function fetchEditions(requestId: number, bookId: number) {
+    try {
+      const response = await fetch(`/api/requests/${requestId}/resolve?bookId=${bookId}`)
+      const data = await response.json()
+      if (response.ok) {
+        setEditions(data.editions || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch editions:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleResolve() {
+    if (!request || !selectedBookId) return
+    setResolving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/requests/${request.id}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bookshelfBookId: selectedBookId,
+          foreignEditionId: foreignEditionId || undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resolve request')
+      }
+
+      onResolved()
+      onOpenChange(false)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to resolve request')
+    } finally {
+      setResolving(false)
+    }
+  }
+
+  const filteredBooks = (candidates?.books || []).filter((b) =>
+    b.title.toLowerCase().includes(search.trim().toLowerCase())
+  )
+
+  return (
+    <AlertDialog open={!!request} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Resolve Request</AlertDialogTitle>
+          <AlertDialogDescription>
+            {request
+              ? `"${request.bookTitle}" could not be added automatically because its author already exists in Bookshelf. Pick the matching book to monitor it instead.`
+              : ''}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {loading && <p className="text-sm text-foreground-muted">Loading author from Bookshelf...</p>}
+
+        {candidates && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Existing author: <span className="font-medium">{candidates.author.name}</span>
+              <span className="text-foreground-muted"> ({candidates.books.length} books in Bookshelf)</span>
+            </p>
+
+            <Input
+              placeholder="Search this author's books..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+
+            <div className="max-h-64 overflow-y-auto space-y-1 border border-border rounded-md p-2">
+              {filteredBooks.length === 0 ? (
+                <p className="text-sm text-foreground-muted p-2">No matching books</p>
+              ) : (
+                filteredBooks.map((b) => (
+                  <label
+                    key={b.id}
+                    className={`flex items-center gap-3 p-2 rounded cursor-pointer text-sm ${
+                      selectedBookId === b.id ? 'bg-primary/10' : 'hover:bg-background-secondary'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="resolve-book"
+                      checked={selectedBookId === b.id}
+                      onChange={() => setSelectedBookId(b.id)}
+                    />
+                    <span className="flex-1 min-w-0 truncate">
+                      {b.title}
+                      {b.id === candidates.suggestedBookId && (
+                        <span className="ml-2 text-xs px-2 py-0.5 bg-primary/10 text-primary rounded-full">Suggested</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-foreground-muted whitespace-nowrap">
+                      {b.releaseDate ? new Date(b.releaseDate).getFullYear() : '—'}
+                      {b.hasFile ? ' · On disk' : b.monitored ? ' · Monitored' : ''}
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+
+            {editions.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Edition</label>
+                <select
+                  value={foreignEditionId}
+                  onChange={(e) => setForeignEditionId(e.target.value)}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Keep Bookshelf&apos;s current editions</option>
+                  {editions.map((edition) => (
+                    <option key={edition.foreignEditionId} value={edition.foreignEditionId}>
+                      {[edition.title, edition.format, edition.publisher].filter(Boolean).join(' · ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button onClick={handleResolve} disabled={!selectedBookId || resolving}>
+            {resolving ? 'Resolving...' : 'Monitor & Link'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import type { BookshelfInstance } from '@/lib/db'
+import type { BookshelfMediaType } from '@/types/bookshelf.types'
+
+interface BookshelfInstancesProps {
+  /** Called after any instance is added, changed or removed */
+  onChange?: (instances: BookshelfInstance[]) => void
+}
+
+const emptyForm = {
+  name: '',
+  mediaType: 'audiobook' as BookshelfMediaType,
+  url: '',
+  apiKey: '',
+}
+
+export function BookshelfInstances({ onChange }: BookshelfInstancesProps) {
+  const [instances, setInstances] = useState<BookshelfInstance[]>([])
+  const [formData, setFormData] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: number | null }>({
+    show: false,
+    id: null,
+  })
+
+  useEffect(() => {
+    fetchInstances()
+  }, [])
+
+  async function fetchInstances() {
+    try {
+      const response = await fetch('/api/settings/bookshelf/instances')
+      if (response.ok) {
+        const data = await response.json()
+        setInstances(data.instances || [])
+        onChange?.(data.instances || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch Bookshelf instances:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  function startEdit(instance: BookshelfInstance) {
+    setEditingId(instance.id)
+    setFormData({
+      name: instance.name,
+      mediaType: instance.mediaType,
+      url: instance.url,
+      apiKey: instance.apiKey,
+    })
+    setMessage(null)
+  }
+
+  function cancelEdit() {
+    setEditingId(null)
+    setFormData(emptyForm)
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/settings/bookshelf/instances/${editingId}` : '/api/settings/bookshelf/instances',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save instance')
+      }
+
+      setMessage({ type: 'success', text: editingId ? 'Instance updated' : 'Instance added' })
+      cancelEdit()
+      await fetchInstances()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save instance' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleMakeDefault(instance: BookshelfInstance) {
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/settings/bookshelf/instances/${instance.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: instance.name,
+          mediaType: instance.mediaType,
+          url: instance.url,
+          apiKey: instance.apiKey,
+          isDefault: true,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update instance')
+      }
+
+      await fetchInstances()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update instance' })
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteConfirm.id) return
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/settings/bookshelf/instances/${deleteConfirm.id}`, {
+        method: 'DELETE',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete instance')
+      }
+
+      await fetchInstances()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete instance' })
+    } finally {
+      setDeleteConfirm({ show: false, id: null })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bookshelf Instances</CardTitle>
+        <CardDescription>
+          Run separate Bookshelf instances for ebooks and audiobooks. Users pick the library when requesting,
+          and new requests go to the default instance unless they choose another.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        {instances.length > 0 && (
+          <div className="space-y-2">
+            {instances.map((instance) => (
+              <div
+                key={instance.id}
+                className="flex flex-wrap items-center justify-between gap-3 p-3 bg-background-secondary rounded-md border border-border"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">
+                    {instance.name}
+                    {instance.isDefault && (
+                      <span className="ml-2 text-xs px-2 py-0.5 bg-primary/10 text-primary rounded-full">Default</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-foreground-muted truncate">
+                    {instance.mediaType === 'audiobook' ? 'Audiobooks' : 'Ebooks'} · {instance.url}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {!instance.isDefault && (
+                    <Button variant="outline" size="sm" onClick={() => handleMakeDefault(instance)}>
+                      Make Default
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => startEdit(instance)}>
+                    Edit
+                  </Button>
+                  {!instance.isDefault && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDeleteConfirm({ show: true, id: instance.id })}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h4 className="font-medium text-sm">{editingId ? 'Edit Instance' : 'Add Instance'}</h4>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Input
+              label="Name"
+              placeholder="Audiobooks"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Media Type</label>
+              <select
+                value={formData.mediaType}
+                onChange={(e) => setFormData({ ...formData, mediaType: e.target.value as BookshelfMediaType })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="ebook">Ebooks</option>
+                <option value="audiobook">Audiobooks</option>
+              </select>
+            </div>
+            <Input
+              label="Bookshelf URL"
+              type="url"
+              placeholder="http://localhost:8788"
+              value={formData.url}
+              onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+              required
+            />
+            <Input
+              label="API Key"
+              type="password"
+              placeholder="Your Bookshelf API key"
+              value={formData.apiKey}
+              onChange={(e) => setFormData({ ...formData, apiKey: e.target.value })}
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save Instance' : 'Add Instance'}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={cancelEdit}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+
+      <ConfirmDialog
+        open={deleteConfirm.show}
+        onOpenChange={(show) => setDeleteConfirm({ show, id: null })}
+        onConfirm={confirmDelete}
+        title="Remove Bookshelf Instance"
+        description="Remove this instance from Mimirr? Its quality profiles and library mirror are deleted. Instances that still have requests cannot be removed."
+        confirmText="Remove"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,439 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { NotificationType } from '@/lib/services/notification.service'
+import type { ParsedNotificationChannel } from '@/lib/services/notification-channel.service'
+import { CHANNEL_TYPE_LABELS, NOTIFICATION_EVENTS, type ChannelType } from '@/lib/services/notifications/types'
+
+interface ChannelField {
+  key: string
+  label: string
+  type?: 'text' | 'url' | 'password' | 'number' | 'select'
+  placeholder?: string
+  required?: boolean
+  options?: { value: string; label: string }[]
+}
+
+const CHANNEL_FIELDS: Record<ChannelType, ChannelField[]> = {
+  webhook: [
+    { key: 'url', label: 'Webhook URL', type: 'url', placeholder: 'https://example.com/hooks/mimirr', required: true },
+    { key: 'authHeader', label: 'Authorization Header', type: 'password', placeholder: 'Bearer ...' },
+  ],
+  email: [
+    { key: 'host', label: 'SMTP Host', placeholder: 'smtp.example.com', required: true },
+    { key: 'port', label: 'SMTP Port', type: 'number', placeholder: '587', required: true },
+    {
+      key: 'security',
+      label: 'Encryption',
+      type: 'select',
+      options: [
+        { value: 'starttls', label: 'STARTTLS' },
+        { value: 'tls', label: 'TLS' },
+        { value: 'none', label: 'None' },
+      ],
+    },
+    { key: 'username', label: 'Username' },
+    { key: 'password', label: 'Password', type: 'password' },
+    { key: 'from', label: 'From', placeholder: 'Mimirr <mimirr@example.com>', required: true },
+    { key: 'to', label: 'To', placeholder: 'admin@example.com, other@example.com', required: true },
+  ],
+  ntfy: [
+    { key: 'serverUrl', label: 'Server URL', type: 'url', placeholder: 'https://ntfy.sh', required: true },
+    { key: 'topic', label: 'Topic', placeholder: 'mimirr', required: true },
+    { key: 'token', label: 'Access Token', type: 'password' },
+    { key: 'priority', label: 'Priority (1-5)', type: 'number', placeholder: '3' },
+  ],
+  gotify: [
+    { key: 'serverUrl', label: 'Server URL', type: 'url', placeholder: 'https://gotify.example.com', required: true },
+    { key: 'token', label: 'Application Token', type: 'password', required: true },
+    { key: 'priority', label: 'Priority', type: 'number', placeholder: '5' },
+  ],
+  pushover: [
+    { key: 'apiUrl', label: 'API URL', type: 'url', placeholder: 'https://api.pushover.net/1/messages.json', required: true },
+    { key: 'apiToken', label: 'API Token', type: 'password', required: true },
+    { key: 'userKey', label: 'User Key', type: 'password', required: true },
+    { key: 'priority', label: 'Priority (-2 to 2)', type: 'number', placeholder: '0' },
+  ],
+  apprise: [
+    { key: 'url', label: 'Apprise Notify URL', type: 'url', placeholder: 'http://apprise:8000/notify/mimirr', required: true },
+    { key: 'tags', label: 'Tags', placeholder: 'all' },
+  ],
+}
+
+const DEFAULT_CONFIGS: Record<ChannelType, Record<string, string>> = {
+  webhook: {},
+  email: { port: '587', security: 'starttls' },
+  ntfy: { serverUrl: 'https://ntfy.sh' },
+  gotify: {},
+  pushover: { apiUrl: 'https://api.pushover.net/1/messages.json' },
+  apprise: {},
+}
+
+const emptyForm = {
+  name: '',
+  type: 'webhook' as ChannelType,
+  enabled: true,
+  config: DEFAULT_CONFIGS.webhook,
+  events: NOTIFICATION_EVENTS.map((event) => event.type),
+}
+
+/**
+ * Convert the form's string fields into the config the API expects:
+ * numbers for number fields, and blank optional fields left out
+ */
+function toConfig(type: ChannelType, values: Record<string, string>): Record<string, string | number> {
+  const config: Record<string, string | number> = {}
+  for (const field of CHANNEL_FIELDS[type]) {
+    const value = (values[field.key] ?? '').trim()
+    if (!value) continue
+    config[field.key] = field.type === 'number' ? Number(value) : value
+  }
+  return config
+}
+
+async function errorFrom(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}))
+  return data.details?.[0]?.message || data.error || fallback
+}
+
+export function NotificationChannels() {
+  const [channels, setChannels] = useState<ParsedNotificationChannel[]>([])
+  const [formData, setFormData] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: number | null }>({
+    show: false,
+    id: null,
+  })
+
+  useEffect(() => {
+    fetchChannels()
+  }, [])
+
+  async function fetchChannels() {
+    try {
+      const response = await fetch('/api/settings/notifications/channels')
+      if (response.ok) {
+        const data = await response.json()
+        setChannels(data.channels || [])
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch notification channels:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  function startAdd() {
+    setEditingId(null)
+    setFormData(emptyForm)
+    setShowForm(true)
+    setMessage(null)
+  }
+
+  function startEdit(channel: ParsedNotificationChannel) {
+    setEditingId(channel.id)
+    setFormData({
+      name: channel.name,
+      type: channel.type,
+      enabled: channel.enabled,
+      config: Object.fromEntries(Object.entries(channel.config).map(([key, value]) => [key, String(value)])),
+      events: channel.events,
+    })
+    setShowForm(true)
+    setMessage(null)
+  }
+
+  function cancelEdit() {
+    setEditingId(null)
+    setFormData(emptyForm)
+    setShowForm(false)
+  }
+
+  function changeType(type: ChannelType) {
+    setFormData({ ...formData, type, config: DEFAULT_CONFIGS[type] })
+  }
+
+  function toggleEvent(type: NotificationType, checked: boolean) {
+    setFormData({
+      ...formData,
+      events: checked ? [...formData.events, type] : formData.events.filter((event) => event !== type),
+    })
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/settings/notifications/channels/${editingId}` : '/api/settings/notifications/channels',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: formData.name,
+            type: formData.type,
+            enabled: formData.enabled,
+            config: toConfig(formData.type, formData.config),
+            events: formData.events,
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(await errorFrom(response, 'Failed to save channel'))
+      }
+
+      setMessage({ type: 'success', text: editingId ? 'Channel updated' : 'Channel added' })
+      cancelEdit()
+      await fetchChannels()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save channel' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleTest(type: ChannelType, config: Record<string, string | number>) {
+    setTesting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/notifications/channels/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, config }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await errorFrom(response, 'Failed to send test notification'))
+      }
+
+      setMessage({ type: 'success', text: 'Test notification sent!' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to send test notification' })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteConfirm.id) return
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/settings/notifications/channels/${deleteConfirm.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error(await errorFrom(response, 'Failed to delete channel'))
+      }
+
+      if (editingId === deleteConfirm.id) cancelEdit()
+      await fetchChannels()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete channel' })
+    } finally {
+      setDeleteConfirm({ show: false, id: null })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Channels</CardTitle>
+        <CardDescription>
+          Send notifications to webhooks, email, ntfy, Gotify, Pushover or an Apprise server. Each channel
+          picks its own events; the Discord agent above keeps its own settings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        {channels.length > 0 && (
+          <div className="space-y-2">
+            {channels.map((channel) => (
+              <div
+                key={channel.id}
+                className="flex flex-wrap items-center justify-between gap-3 p-3 bg-background-hover rounded-md border border-border"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">
+                    {channel.name}
+                    {!channel.enabled && (
+                      <span className="ml-2 text-xs px-2 py-0.5 bg-foreground-muted/10 text-foreground-muted rounded-full">
+                        Disabled
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-foreground-muted">
+                    {CHANNEL_TYPE_LABELS[channel.type]} · {channel.events.length} of {NOTIFICATION_EVENTS.length} events
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTest(channel.type, channel.config as unknown as Record<string, string | number>)}
+                    disabled={testing}
+                  >
+                    Test
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => startEdit(channel)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeleteConfirm({ show: true, id: channel.id })}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!showForm ? (
+          <Button variant="outline" onClick={startAdd}>
+            Add Channel
+          </Button>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h4 className="font-medium text-sm">{editingId ? 'Edit Channel' : 'Add Channel'}</h4>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Input
+                label="Name"
+                placeholder="Family ntfy"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                maxLength={50}
+                required
+              />
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Type</label>
+                <select
+                  value={formData.type}
+                  onChange={(e) => changeType(e.target.value as ChannelType)}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {(Object.keys(CHANNEL_TYPE_LABELS) as ChannelType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {CHANNEL_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {CHANNEL_FIELDS[formData.type].map((field) =>
+                field.type === 'select' ? (
+                  <div key={field.key} className="space-y-2">
+                    <label className="text-sm font-medium text-foreground">{field.label}</label>
+                    <select
+                      value={formData.config[field.key] ?? ''}
+                      onChange={(e) =>
+                        setFormData({ ...formData, config: { ...formData.config, [field.key]: e.target.value } })
+                      }
+                      className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {field.options?.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <Input
+                    key={field.key}
+                    label={field.label}
+                    type={field.type ?? 'text'}
+                    placeholder={field.placeholder}
+                    value={formData.config[field.key] ?? ''}
+                    onChange={(e) =>
+                      setFormData({ ...formData, config: { ...formData.config, [field.key]: e.target.value } })
+                    }
+                    required={field.required}
+                  />
+                )
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="channel-enabled"
+                checked={formData.enabled}
+                onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                className="w-5 h-5 accent-primary cursor-pointer"
+              />
+              <label htmlFor="channel-enabled" className="text-sm font-medium text-foreground">
+                Enabled
+              </label>
+            </div>
+
+            <div>
+              <label className="block mb-2 text-sm font-medium text-foreground">Events</label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {NOTIFICATION_EVENTS.map((event) => (
+                  <label key={event.type} className="flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={formData.events.includes(event.type)}
+                      onChange={(e) => toggleEvent(event.type, e.target.checked)}
+                      className="w-4 h-4 accent-primary cursor-pointer"
+                    />
+                    {event.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Save Channel' : 'Add Channel'}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleTest(formData.type, toConfig(formData.type, formData.config))}
+                disabled={testing}
+              >
+                {testing ? 'Testing...' : 'Test'}
+              </Button>
+              <Button type="button" variant="outline" onClick={cancelEdit}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={deleteConfirm.show}
+        onOpenChange={(show) => setDeleteConfirm({ show, id: null })}
+        onConfirm={confirmDelete}
+        title="Remove Notification Channel"
+        description="Remove this notification channel? It stops receiving notifications immediately."
+        confirmText="Remove"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </Card>
+  )
+}
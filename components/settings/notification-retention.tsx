@@ -0,0 +1,102 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export function NotificationRetention() {
+  const [readDays, setReadDays] = useState('90')
+  const [unreadDays, setUnreadDays] = useState('0')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchRetention()
+  }, [])
+
+  async function fetchRetention() {
+    try {
+      const response = await fetch('/api/settings/notifications/retention')
+      if (response.ok) {
+        const data = await response.json()
+        setReadDays(String(data.retention.readDays))
+        setUnreadDays(String(data.retention.unreadDays))
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch notification retention:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/notifications/retention', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ readDays: parseInt(readDays, 10), unreadDays: parseInt(unreadDays, 10) }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save retention')
+      }
+
+      setMessage({ type: 'success', text: 'Retention policy saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save retention' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Retention</CardTitle>
+        <CardDescription>
+          In-app notifications older than this are deleted for every user by a scheduled cleanup.
+          Use 0 to keep them forever.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {message && (
+            <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {message.text}
+            </p>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Input
+              label="Keep read notifications for (days)"
+              type="number"
+              min={0}
+              max={3650}
+              value={readDays}
+              onChange={(e) => setReadDays(e.target.value)}
+              required
+            />
+            <Input
+              label="Keep unread notifications for (days)"
+              type="number"
+              min={0}
+              max={3650}
+              value={unreadDays}
+              onChange={(e) => setUnreadDays(e.target.value)}
+              required
+            />
+          </div>
+
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Retention'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+import { logToClient } from "@/lib/utils/client-logger"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface SmtpForm {
+  host: string
+  port: string
+  security: 'none' | 'starttls' | 'tls'
+  username: string
+  password: string
+  from: string
+}
+
+const emptyForm: SmtpForm = {
+  host: '',
+  port: '587',
+  security: 'starttls',
+  username: '',
+  password: '',
+  from: '',
+}
+
+export function SmtpServerSettings() {
+  const [formData, setFormData] = useState<SmtpForm>(emptyForm)
+  const [hasPassword, setHasPassword] = useState(false)
+  const [environmentOverride, setEnvironmentOverride] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchServer()
+  }, [])
+
+  async function fetchServer() {
+    try {
+      const response = await fetch('/api/settings/notifications/smtp')
+      if (response.ok) {
+        const data = await response.json()
+        setEnvironmentOverride(data.environmentOverride)
+        if (data.server) {
+          setFormData({
+            host: data.server.host,
+            port: String(data.server.port),
+            security: data.server.security,
+            username: data.server.username || '',
+            password: '',
+            from: data.server.from,
+          })
+          setHasPassword(data.server.hasPassword)
+        }
+      }
+    } catch (error) {
+      logToClient('error', 'Failed to fetch SMTP server settings:', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/notifications/smtp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          host: formData.host.trim(),
+          port: Number(formData.port),
+          security: formData.security,
+          username: formData.username.trim() || undefined,
+          password: formData.password || undefined,
+          from: formData.from.trim(),
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save SMTP server')
+      }
+
+      const data = await response.json()
+      setHasPassword(data.server.hasPassword)
+      setFormData({ ...formData, password: '' })
+      setMessage({ type: 'success', text: 'SMTP server saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save SMTP server' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Server</CardTitle>
+        <CardDescription>
+          The SMTP server used for emails sent to users, such as their personal notification emails.
+          Users turn email and digests on for themselves under My Notifications.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {environmentOverride && (
+            <p className="text-sm text-foreground-muted">
+              The SMTP_HOST environment variable is set, so emails use the SMTP_* environment settings and
+              the settings below are not used.
+            </p>
+          )}
+
+          {message && (
+            <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {message.text}
+            </p>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Input
+              label="SMTP Host"
+              placeholder="smtp.example.com"
+              value={formData.host}
+              onChange={(e) => setFormData({ ...formData, host: e.target.value })}
+              required
+            />
+            <Input
+              label="SMTP Port"
+              type="number"
+              placeholder="587"
+              value={formData.port}
+              onChange={(e) => setFormData({ ...formData, port: e.target.value })}
+              required
+            />
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Encryption</label>
+              <select
+                value={formData.security}
+                onChange={(e) => setFormData({ ...formData, security: e.target.value as SmtpForm['security'] })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="starttls">STARTTLS</option>
+                <option value="tls">TLS</option>
+                <option value="none">None</option>
+              </select>
+            </div>
+            <Input
+              label="From"
+              placeholder="Mimirr <mimirr@example.com>"
+              value={formData.from}
+              onChange={(e) => setFormData({ ...formData, from: e.target.value })}
+              required
+            />
+            <Input
+              label="Username"
+              value={formData.username}
+              onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+            />
+            <Input
+              label="Password"
+              type="password"
+              placeholder={hasPassword ? 'Leave blank to keep the saved password' : ''}
+              value={formData.password}
+              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+            />
+          </div>
+
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Email Server'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
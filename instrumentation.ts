@@ -42,5 +42,111 @@ export async function register() {
         })
       }, intervalMs)
     }
+
+    // Work through queued Bookshelf additions, resuming any a restart interrupted
+    const { BookshelfJobService } = await import('./lib/services/bookshelf-job.service')
+    const jobPollSeconds = parseInt(process.env.BOOKSHELF_JOB_POLL_SECONDS || '15', 10) || 15
+
+    if (!globalAny.__mimirr_bookshelf_job_interval) {
+      logger.info(`Starting Bookshelf job worker. Poll interval: ${jobPollSeconds} seconds.`)
+
+      // Jobs still marked running belong to the previous process; requeue them before anything new is claimed
+      await BookshelfJobService.recoverInterruptedJobs().catch(err => {
+        logger.error('Error recovering interrupted Bookshelf jobs', { error: err })
+      })
+
+      setTimeout(() => {
+        BookshelfJobService.processDueJobs().catch(err => {
+          logger.error('Error in initial Bookshelf job run', { error: err })
+        })
+      }, 5000)
+
+      globalAny.__mimirr_bookshelf_job_interval = setInterval(() => {
+        BookshelfJobService.processDueJobs().catch(err => {
+          logger.error('Error in scheduled Bookshelf job run', { error: err })
+        })
+      }, jobPollSeconds * 1000)
+    }
+
+    // Check active requests against Bookshelf between full syncs; status changes reach open pages over /api/events.
+    // With no page listening the poll is skipped and the regular sync keeps statuses current.
+    const { RequestService } = await import('./lib/services/request.service')
+    const { RealtimeService } = await import('./lib/services/realtime.service')
+    const requestPollSeconds = parseInt(process.env.REQUEST_POLL_SECONDS || '60', 10) || 60
+
+    if (!globalAny.__mimirr_request_poll_interval) {
+      logger.info(`Starting request status poller. Interval: ${requestPollSeconds} seconds.`)
+
+      // A poll over many requests can outlast the interval; never run two at once
+      let requestPollRunning = false
+
+      globalAny.__mimirr_request_poll_interval = setInterval(() => {
+        if (requestPollRunning || !RealtimeService.hasSubscribers()) return
+        requestPollRunning = true
+
+        RequestService.targetPollActiveRequests()
+          .catch(err => {
+            logger.error('Error in scheduled request status poll', { error: err })
+          })
+          .finally(() => {
+            requestPollRunning = false
+          })
+      }, requestPollSeconds * 1000)
+    }
+
+    // Rebuild the Popular / New Releases discovery lists on their own, slower schedule
+    const { DiscoveryService } = await import('./lib/services/discovery.service')
+    const discoveryHours = parseInt(process.env.DISCOVERY_REFRESH_HOURS || '6', 10) || 6
+
+    if (!globalAny.__mimirr_discovery_interval) {
+      logger.info(`Starting discovery list refresh. Interval: ${discoveryHours} hours.`)
+
+      setTimeout(() => {
+        DiscoveryService.refresh().catch(err => {
+          logger.error('Error in initial discovery refresh', { error: err })
+        })
+      }, 30000) // Let the first library sync go first
+
+      globalAny.__mimirr_discovery_interval = setInterval(() => {
+        DiscoveryService.refresh().catch(err => {
+          logger.error('Error in scheduled discovery refresh', { error: err })
+        })
+      }, discoveryHours * 60 * 60 * 1000)
+    }
+
+    // Delete notifications past the admin's retention policy
+    const { NotificationService } = await import('./lib/services/notification.service')
+    const notificationCleanupHours = parseInt(process.env.NOTIFICATION_CLEANUP_HOURS || '24', 10) || 24
+
+    if (!globalAny.__mimirr_notification_cleanup_interval) {
+      logger.info(`Starting notification cleanup. Interval: ${notificationCleanupHours} hours.`)
+
+      setTimeout(() => {
+        NotificationService.purgeExpired().catch(err => {
+          logger.error('Error in initial notification cleanup', { error: err })
+        })
+      }, 60000)
+
+      globalAny.__mimirr_notification_cleanup_interval = setInterval(() => {
+        NotificationService.purgeExpired().catch(err => {
+          logger.error('Error in scheduled notification cleanup', { error: err })
+        })
+      }, notificationCleanupHours * 60 * 60 * 1000)
+    }
+
+    // Check for due email digests every quarter hour; they go out at DIGEST_HOUR server local time
+    const { DigestService } = await import('./lib/services/digest.service')
+    const parsedDigestHour = parseInt(process.env.DIGEST_HOUR || '8', 10)
+    const digestHour = parsedDigestHour >= 0 && parsedDigestHour <= 23 ? parsedDigestHour : 8
+
+    if (!globalAny.__mimirr_digest_interval) {
+      logger.info(`Starting email digest scheduler. Send hour: ${digestHour}:00.`)
+
+      globalAny.__mimirr_digest_interval = setInterval(() => {
+        DigestService.sendDueDigests(digestHour).catch(err => {
+          logger.error('Error in scheduled email digest run', { error: err })
+        })
+      }, 15 * 60 * 1000)
+    }
   }
 }
@@ -0,0 +1,12 @@
+CREATE TABLE `request_quotas` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`daily_limit` integer,
+	`weekly_limit` integer,
+	`monthly_limit` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `request_quotas_user_id_unique` ON `request_quotas` (`user_id`);
\ No newline at end of file
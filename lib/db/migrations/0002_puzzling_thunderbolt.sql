@@ -0,0 +1,16 @@
+CREATE TABLE `auto_approval_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`rule_type` text NOT NULL,
+	`target_user_id` integer,
+	`target_role` text,
+	`target_quality_profile_id` integer,
+	`enabled` integer DEFAULT true NOT NULL,
+	`match_count` integer DEFAULT 0 NOT NULL,
+	`last_matched_at` integer,
+	`created_by` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`target_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,11 @@
+CREATE TABLE `request_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`request_id` integer NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`source` text NOT NULL,
+	`actor_id` integer,
+	`message` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`actor_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1,20 @@
+CREATE TABLE `archived_requests` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`user_id` integer NOT NULL,
+	`book_id` text NOT NULL,
+	`status` text NOT NULL,
+	`quality_profile_id` integer NOT NULL,
+	`bookshelf_id` integer,
+	`requested_at` integer NOT NULL,
+	`processed_at` integer,
+	`processed_by` integer,
+	`notes` text,
+	`completed_at` integer,
+	`foreign_book_id` text,
+	`foreign_author_id` text,
+	`monitoring_option` text,
+	`archived_reason` text NOT NULL,
+	`archived_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`processed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
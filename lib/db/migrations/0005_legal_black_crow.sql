@@ -0,0 +1,4 @@
+ALTER TABLE `sync_jobs` ADD `dry_run` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `sync_jobs` ADD `plan` text;--> statement-breakpoint
+ALTER TABLE `sync_jobs` ADD `plan_job_id` integer;--> statement-breakpoint
+ALTER TABLE `sync_jobs` ADD `plan_applied_at` integer;
\ No newline at end of file
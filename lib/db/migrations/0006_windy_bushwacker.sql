@@ -0,0 +1,60 @@
+CREATE TABLE `bookshelf_instances` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`media_type` text DEFAULT 'ebook' NOT NULL,
+	`url` text NOT NULL,
+	`api_key` text NOT NULL,
+	`is_default` integer DEFAULT false NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `bookshelf_instances_name_unique` ON `bookshelf_instances` (`name`);--> statement-breakpoint
+-- Carry the existing single Bookshelf connection over as the default instance. Without a saved URL there
+-- is nothing to connect to, so no instance is created and profile configs without one are dropped below.
+INSERT INTO `bookshelf_instances` (`name`, `media_type`, `url`, `api_key`, `is_default`)
+SELECT 'Bookshelf', 'ebook',
+	(SELECT `value` FROM `settings` WHERE `key` = 'bookshelf_url'),
+	COALESCE((SELECT `value` FROM `settings` WHERE `key` = 'bookshelf_api_key'), ''),
+	1
+WHERE EXISTS (SELECT 1 FROM `settings` WHERE `key` = 'bookshelf_url' AND `value` != '');--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+-- The library mirror is rebuilt per instance by the next sync
+DROP TABLE `library_books`;--> statement-breakpoint
+CREATE TABLE `library_books` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`instance_id` integer NOT NULL,
+	`foreign_book_id` text NOT NULL,
+	`status` text NOT NULL,
+	`bookshelf_id` integer,
+	`title` text DEFAULT '' NOT NULL,
+	`author_name` text DEFAULT '' NOT NULL,
+	FOREIGN KEY (`instance_id`) REFERENCES `bookshelf_instances`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `library_books_foreign_book_id_instance_id_unique` ON `library_books` (`foreign_book_id`,`instance_id`);--> statement-breakpoint
+CREATE TABLE `__new_quality_profile_configs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`instance_id` integer NOT NULL,
+	`profile_id` integer NOT NULL,
+	`profile_name` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`order_index` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`instance_id`) REFERENCES `bookshelf_instances`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+-- Existing profile configs belong to the default instance
+INSERT INTO `__new_quality_profile_configs`("id", "instance_id", "profile_id", "profile_name", "enabled", "order_index", "created_at", "updated_at")
+SELECT q."id", i."id", q."profile_id", q."profile_name", q."enabled", q."order_index", q."created_at", q."updated_at"
+FROM `quality_profile_configs` q
+JOIN `bookshelf_instances` i ON i."is_default" = 1;--> statement-breakpoint
+DROP TABLE `quality_profile_configs`;--> statement-breakpoint
+ALTER TABLE `__new_quality_profile_configs` RENAME TO `quality_profile_configs`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `quality_profile_configs_instance_id_profile_id_unique` ON `quality_profile_configs` (`instance_id`,`profile_id`);--> statement-breakpoint
+ALTER TABLE `archived_requests` ADD `instance_id` integer;--> statement-breakpoint
+ALTER TABLE `requests` ADD `instance_id` integer REFERENCES bookshelf_instances(id);--> statement-breakpoint
+UPDATE `requests` SET `instance_id` = (SELECT `id` FROM `bookshelf_instances` WHERE `is_default` = 1);--> statement-breakpoint
+UPDATE `archived_requests` SET `instance_id` = (SELECT `id` FROM `bookshelf_instances` WHERE `is_default` = 1);
@@ -0,0 +1,3 @@
+ALTER TABLE `archived_requests` ADD `root_folder_path` text;--> statement-breakpoint
+ALTER TABLE `quality_profile_configs` ADD `root_folder_path` text;--> statement-breakpoint
+ALTER TABLE `requests` ADD `root_folder_path` text;
\ No newline at end of file
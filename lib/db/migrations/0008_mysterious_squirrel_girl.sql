@@ -0,0 +1,2 @@
+ALTER TABLE `bookshelf_instances` ADD `default_metadata_profile_id` integer;--> statement-breakpoint
+ALTER TABLE `quality_profile_configs` ADD `metadata_profile_id` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_preferences` ADD `recommendation_signals` text;
\ No newline at end of file
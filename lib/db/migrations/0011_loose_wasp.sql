@@ -0,0 +1,2 @@
+ALTER TABLE `book_cache` ADD `series` text;--> statement-breakpoint
+ALTER TABLE `book_cache` ADD `series_position` real;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `author_follows` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`author_name` text NOT NULL,
+	`foreign_author_id` text,
+	`instance_id` integer,
+	`quality_profile_id` integer,
+	`known_book_ids` text,
+	`last_checked_at` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`instance_id`) REFERENCES `bookshelf_instances`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `author_follows_user_id_author_name_unique` ON `author_follows` (`user_id`,`author_name`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `request_comments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`request_id` integer NOT NULL,
+	`user_id` integer,
+	`body` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `notification_settings` ADD `notify_request_comment` integer DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `archived_requests` ADD `decline_reason` text;--> statement-breakpoint
+ALTER TABLE `archived_requests` ADD `decline_note` text;--> statement-breakpoint
+ALTER TABLE `requests` ADD `decline_reason` text;--> statement-breakpoint
+ALTER TABLE `requests` ADD `decline_note` text;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `bookshelf_jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`request_id` integer NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`max_attempts` integer DEFAULT 5 NOT NULL,
+	`run_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_error` text,
+	`started_at` integer,
+	`completed_at` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
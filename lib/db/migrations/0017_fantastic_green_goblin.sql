@@ -0,0 +1,19 @@
+CREATE TABLE `user_notification_settings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`notify_request_approved` integer DEFAULT true NOT NULL,
+	`notify_request_declined` integer DEFAULT true NOT NULL,
+	`notify_request_available` integer DEFAULT true NOT NULL,
+	`notify_request_comment` integer DEFAULT true NOT NULL,
+	`email_enabled` integer DEFAULT false NOT NULL,
+	`email_address` text,
+	`ntfy_enabled` integer DEFAULT false NOT NULL,
+	`ntfy_server_url` text,
+	`ntfy_topic` text,
+	`ntfy_token` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `user_notification_settings_user_id_unique` ON `user_notification_settings` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `user_notification_settings` ADD `digest_frequency` text DEFAULT 'off' NOT NULL;--> statement-breakpoint
+ALTER TABLE `user_notification_settings` ADD `last_digest_sent_at` integer;
\ No newline at end of file
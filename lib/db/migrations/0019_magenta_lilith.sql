@@ -0,0 +1 @@
+ALTER TABLE `request_quotas` ADD `unlimited` integer DEFAULT false NOT NULL;
\ No newline at end of file
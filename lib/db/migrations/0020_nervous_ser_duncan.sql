@@ -0,0 +1 @@
+ALTER TABLE `user_notification_settings` DROP COLUMN `email_address`;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `auto_approval_rules` ADD `target_instance_id` integer REFERENCES bookshelf_instances(id);--> statement-breakpoint
+-- Existing quality profile rules were written against the default instance's profiles
+UPDATE `auto_approval_rules` SET `target_instance_id` = (SELECT `id` FROM `bookshelf_instances` WHERE `is_default` = 1) WHERE `rule_type` = 'quality_profile';
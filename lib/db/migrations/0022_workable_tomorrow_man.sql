@@ -0,0 +1,3 @@
+-- Threads of requests that were deleted outright, or purged from the archive, before comments were cleaned up with them
+DELETE FROM `request_comments` WHERE `request_id` NOT IN (SELECT `id` FROM `requests`) AND `request_id` NOT IN (SELECT `id` FROM `archived_requests`);--> statement-breakpoint
+CREATE INDEX `request_comments_request_id_idx` ON `request_comments` (`request_id`);
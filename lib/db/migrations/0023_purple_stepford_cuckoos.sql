@@ -0,0 +1 @@
+CREATE INDEX `request_events_request_id_idx` ON `request_events` (`request_id`);
\ No newline at end of file
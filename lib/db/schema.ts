@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm'
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, real, unique, index } from 'drizzle-orm/sqlite-core'
 
 // Users table
 export const users = sqliteTable('users', {
@@ -19,6 +19,23 @@ export const users = sqliteTable('users', {
   lastLoginAt: integer('last_login_at', { mode: 'timestamp' }),
 })
 
+// Bookshelf (Readarr) instances, e.g. one for ebooks and one for audiobooks
+export const bookshelfInstances = sqliteTable('bookshelf_instances', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  mediaType: text('media_type', { enum: ['ebook', 'audiobook'] }).notNull().default('ebook'),
+  url: text('url').notNull(),
+  apiKey: text('api_key').notNull(),
+  isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
+  defaultMetadataProfileId: integer('default_metadata_profile_id'), // Readarr metadata profile for new authors (null = first profile)
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
 // Requests table
 export const requests = sqliteTable('requests', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -44,6 +61,10 @@ export const requests = sqliteTable('requests', {
   foreignBookId: text('foreign_book_id'),
   foreignAuthorId: text('foreign_author_id'),
   monitoringOption: text('monitoring_option'),
+  instanceId: integer('instance_id').references(() => bookshelfInstances.id), // Target Bookshelf instance
+  rootFolderPath: text('root_folder_path'), // Readarr root folder chosen at approval, reused on retries
+  declineReason: text('decline_reason'), // Label of the decline reason template, kept even if the template is removed
+  declineNote: text('decline_note'), // Optional admin explanation given with the decline reason
 })
 
 // Book cache table
@@ -62,6 +83,8 @@ export const bookCache = sqliteTable('book_cache', {
   moods: text('moods'), // JSON stringified array
   paces: text('paces'), // JSON stringified array
   rating: text('rating'), // Store as text for precision
+  series: text('series'), // Primary series name from Readarr's seriesTitle
+  seriesPosition: real('series_position'), // Position in the series (may be fractional, e.g. 2.5)
   cachedAt: integer('cached_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -94,6 +117,56 @@ export const notificationSettings = sqliteTable('notification_settings', {
   notifyRequestAvailable: integer('notify_request_available', { mode: 'boolean' }).notNull().default(true),
   notifyRequestSubmitted: integer('notify_request_submitted', { mode: 'boolean' }).notNull().default(true),
   notifyBookshelfError: integer('notify_bookshelf_error', { mode: 'boolean' }).notNull().default(true),
+  notifyRequestComment: integer('notify_request_comment', { mode: 'boolean' }).notNull().default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
+// Notification channels table
+// Providers beyond the built-in Discord webhook. Config is a JSON object whose shape depends on the type,
+// and events is a JSON array of the notification types the channel receives.
+export const notificationChannels = sqliteTable('notification_channels', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  type: text('type', {
+    enum: ['webhook', 'email', 'ntfy', 'gotify', 'pushover', 'apprise'],
+  }).notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  config: text('config').notNull(),
+  events: text('events').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
+// Per-user notification settings table
+// Which events reach the user (in-app and on their personal channels), the personal channels themselves,
+// and how often they get an email digest. Users without a row get every event in-app, no personal channels
+// and no digest.
+export const userNotificationSettings = sqliteTable('user_notification_settings', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' })
+    .unique(),
+  notifyRequestApproved: integer('notify_request_approved', { mode: 'boolean' }).notNull().default(true),
+  notifyRequestDeclined: integer('notify_request_declined', { mode: 'boolean' }).notNull().default(true),
+  notifyRequestAvailable: integer('notify_request_available', { mode: 'boolean' }).notNull().default(true),
+  notifyRequestComment: integer('notify_request_comment', { mode: 'boolean' }).notNull().default(true),
+  emailEnabled: integer('email_enabled', { mode: 'boolean' }).notNull().default(false),
+  ntfyEnabled: integer('ntfy_enabled', { mode: 'boolean' }).notNull().default(false),
+  ntfyServerUrl: text('ntfy_server_url'),
+  ntfyTopic: text('ntfy_topic'),
+  ntfyToken: text('ntfy_token'),
+  digestFrequency: text('digest_frequency', { enum: ['off', 'daily', 'weekly'] }).notNull().default('off'),
+  lastDigestSentAt: integer('last_digest_sent_at', { mode: 'timestamp' }),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -109,7 +182,7 @@ export const notifications = sqliteTable('notifications', {
     .notNull()
     .references(() => users.id, { onDelete: 'cascade' }),
   type: text('type', {
-    enum: ['request_approved', 'request_declined', 'request_available', 'request_submitted', 'bookshelf_error', 'request_error'],
+    enum: ['request_approved', 'request_declined', 'request_available', 'request_submitted', 'bookshelf_error', 'request_error', 'author_new_release', 'request_comment'],
   }).notNull(),
   title: text('title').notNull(),
   message: text('message').notNull(),
@@ -138,6 +211,7 @@ export const userPreferences = sqliteTable('user_preferences', {
   recommendedPopularBooks: text('recommended_popular_books'), // JSON: [bookId1, bookId2, ...]
   recommendedNewBooks: text('recommended_new_books'), // JSON: [bookId1, bookId2, ...]
   recommendedAuthorBooks: text('recommended_author_books'), // JSON: [bookId1, bookId2, ...]
+  recommendationSignals: text('recommendation_signals'), // JSON: {bookId: RecommendationSignals, ...}
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -146,30 +220,74 @@ export const userPreferences = sqliteTable('user_preferences', {
     .default(sql`(unixepoch())`),
 })
 
+// Recommendation feedback table (per-user "not for me" signals from the discover page)
+// bookId is set for thumbs_down/not_interested; authorName is the hidden author, or the book's author.
+// genres is a JSON snapshot of the book's genres at the time, so negative weights do not depend on the book cache.
+export const recommendationFeedback = sqliteTable('recommendation_feedback', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: ['thumbs_down', 'not_interested', 'hide_author'] }).notNull(),
+  bookId: text('book_id'),
+  authorName: text('author_name'),
+  genres: text('genres'), // JSON: [genre1, genre2, ...]
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
+// Author follows table
+// New books by a followed author are requested automatically. knownBookIds is the JSON list of the author's
+// foreign book IDs already seen; null until the first check records the baseline (nothing is requested then).
+export const authorFollows = sqliteTable('author_follows', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  authorName: text('author_name').notNull(),
+  foreignAuthorId: text('foreign_author_id'), // Set from Readarr's author lookup on the first check
+  instanceId: integer('instance_id').references(() => bookshelfInstances.id, { onDelete: 'set null' }), // null = default instance
+  qualityProfileId: integer('quality_profile_id'), // null = first enabled profile of the instance
+  knownBookIds: text('known_book_ids'), // JSON: [foreignBookId1, foreignBookId2, ...]
+  lastCheckedAt: integer('last_checked_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+}, (table) => [unique().on(table.userId, table.authorName)])
+
 // Quality profile configurations table
 export const qualityProfileConfigs = sqliteTable('quality_profile_configs', {
   id: integer('id').primaryKey({ autoIncrement: true }),
-  profileId: integer('profile_id').notNull().unique(),
+  instanceId: integer('instance_id')
+    .notNull()
+    .references(() => bookshelfInstances.id, { onDelete: 'cascade' }),
+  profileId: integer('profile_id').notNull(),
   profileName: text('profile_name').notNull(),
   enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
   orderIndex: integer('order_index').notNull(),
+  rootFolderPath: text('root_folder_path'), // Readarr root folder for requests using this profile (null = first folder)
+  metadataProfileId: integer('metadata_profile_id'), // Readarr metadata profile for requests using this profile (null = instance default)
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
   updatedAt: integer('updated_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
-})
+}, (table) => [unique().on(table.instanceId, table.profileId)])
 
-// Library books table (mirror of Readarr library)
+// Library books table (mirror of each Readarr instance's library)
 export const libraryBooks = sqliteTable('library_books', {
   id: integer('id').primaryKey({ autoIncrement: true }),
-  foreignBookId: text('foreign_book_id').notNull().unique(),
+  instanceId: integer('instance_id')
+    .notNull()
+    .references(() => bookshelfInstances.id, { onDelete: 'cascade' }),
+  foreignBookId: text('foreign_book_id').notNull(),
   status: text('status').notNull(),
   bookshelfId: integer('bookshelf_id'),
   title: text('title').notNull().default(''),
   authorName: text('author_name').notNull().default(''),
-})
+}, (table) => [unique().on(table.foreignBookId, table.instanceId)])
 
 // Sessions table
 export const sessions = sqliteTable('sessions', {
@@ -194,12 +312,144 @@ export const syncJobs = sqliteTable('sync_jobs', {
   processedBooks: integer('processed_books').notNull().default(0),
   currentLogMessage: text('current_log_message'),
   activityLog: text('activity_log'), // JSON stringified array of logs/partial warnings
+  dryRun: integer('dry_run', { mode: 'boolean' }).notNull().default(false),
+  plan: text('plan'), // JSON stringified ReconciliationPlan[] (one per instance), stored by dry runs for review
+  planJobId: integer('plan_job_id'), // Dry-run job whose stored plan this job applied
+  planAppliedAt: integer('plan_applied_at', { mode: 'timestamp' }),
   startedAt: integer('started_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
   completedAt: integer('completed_at', { mode: 'timestamp' }),
 })
 
+// Bookshelf addition jobs
+// Durable queue for adding approved requests to Bookshelf, so a restart mid-handshake resumes the work
+// instead of leaving the request stuck in processing. Failed attempts back off exponentially.
+export const bookshelfJobs = sqliteTable('bookshelf_jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  requestId: integer('request_id').notNull(),
+  status: text('status', {
+    enum: ['queued', 'running', 'completed', 'failed'],
+  }).notNull().default('queued'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  runAt: integer('run_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`), // Earliest time of the next attempt
+  lastError: text('last_error'),
+  startedAt: integer('started_at', { mode: 'timestamp' }),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
+// Request quotas table (per-user overrides of the global default stored in settings)
+// A null limit means the user inherits the global default for that window.
+export const requestQuotas = sqliteTable('request_quotas', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' })
+    .unique(),
+  dailyLimit: integer('daily_limit'),
+  weeklyLimit: integer('weekly_limit'),
+  monthlyLimit: integer('monthly_limit'),
+  unlimited: integer('unlimited', { mode: 'boolean' }).notNull().default(false), // Ignore the default and every limit
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
+// Auto-approval rules table
+// Each rule matches on a single criterion; the relevant target column is set for that rule type.
+export const autoApprovalRules = sqliteTable('auto_approval_rules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  ruleType: text('rule_type', {
+    enum: ['user', 'role', 'quality_profile', 'library_author'],
+  }).notNull(),
+  targetUserId: integer('target_user_id').references(() => users.id, { onDelete: 'cascade' }),
+  targetRole: text('target_role', { enum: ['admin', 'user'] }),
+  targetQualityProfileId: integer('target_quality_profile_id'), // Bookshelf quality profile ID
+  // Profile IDs are only unique within one instance, so quality profile rules name the instance too
+  targetInstanceId: integer('target_instance_id').references(() => bookshelfInstances.id, { onDelete: 'cascade' }),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  matchCount: integer('match_count').notNull().default(0),
+  lastMatchedAt: integer('last_matched_at', { mode: 'timestamp' }),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
+// Request events table (audit trail of request status transitions)
+// requestId is intentionally not a foreign key so history survives request purges.
+export const requestEvents = sqliteTable('request_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  requestId: integer('request_id').notNull(),
+  fromStatus: text('from_status'), // null when the request was created
+  toStatus: text('to_status').notNull(), // request status, or 'deleted'/'purged'
+  source: text('source', {
+    enum: ['user', 'admin', 'system', 'poll', 'sync', 'webhook', 'auto_approval'],
+  }).notNull(),
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  message: text('message'),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+}, (table) => [index('request_events_request_id_idx').on(table.requestId)])
+
+// Request comments table
+// Thread between the requester and admins. Like request events, comments are not tied to the live
+// request row so they survive archiving and restoring the request; they are deleted with the request
+// itself or with its archived copy.
+export const requestComments = sqliteTable('request_comments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  requestId: integer('request_id').notNull(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  body: text('body').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+}, (table) => [index('request_comments_request_id_idx').on(table.requestId)])
+
+// Archived requests table
+// Requests removed by library reconciliation are moved here instead of being hard-deleted,
+// keeping their original ID so they can be restored. Rows are purged after the retention period.
+export const archivedRequests = sqliteTable('archived_requests', {
+  id: integer('id').primaryKey(), // Original request ID
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  bookId: text('book_id').notNull(),
+  status: text('status').notNull(), // Status at the time of archiving
+  qualityProfileId: integer('quality_profile_id').notNull(),
+  bookshelfId: integer('bookshelf_id'),
+  requestedAt: integer('requested_at', { mode: 'timestamp' }).notNull(),
+  processedAt: integer('processed_at', { mode: 'timestamp' }),
+  processedBy: integer('processed_by').references(() => users.id, { onDelete: 'set null' }),
+  notes: text('notes'),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+  foreignBookId: text('foreign_book_id'),
+  foreignAuthorId: text('foreign_author_id'),
+  monitoringOption: text('monitoring_option'),
+  instanceId: integer('instance_id'),
+  rootFolderPath: text('root_folder_path'),
+  declineReason: text('decline_reason'),
+  declineNote: text('decline_note'),
+  archivedReason: text('archived_reason').notNull(),
+  archivedAt: integer('archived_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+})
+
 // Type exports for use in application
 export type User = typeof users.$inferSelect
 export type NewUser = typeof users.$inferInsert
@@ -213,13 +463,35 @@ export type Setting = typeof settings.$inferSelect
 export type NewSetting = typeof settings.$inferInsert
 export type NotificationSettings = typeof notificationSettings.$inferSelect
 export type NewNotificationSettings = typeof notificationSettings.$inferInsert
+export type NotificationChannel = typeof notificationChannels.$inferSelect
+export type NewNotificationChannel = typeof notificationChannels.$inferInsert
+export type UserNotificationSettings = typeof userNotificationSettings.$inferSelect
+export type NewUserNotificationSettings = typeof userNotificationSettings.$inferInsert
 export type Notification = typeof notifications.$inferSelect
 export type NewNotification = typeof notifications.$inferInsert
 export type UserPreferences = typeof userPreferences.$inferSelect
 export type NewUserPreferences = typeof userPreferences.$inferInsert
+export type RecommendationFeedback = typeof recommendationFeedback.$inferSelect
+export type NewRecommendationFeedback = typeof recommendationFeedback.$inferInsert
+export type AuthorFollow = typeof authorFollows.$inferSelect
+export type NewAuthorFollow = typeof authorFollows.$inferInsert
 export type QualityProfileConfig = typeof qualityProfileConfigs.$inferSelect
 export type NewQualityProfileConfig = typeof qualityProfileConfigs.$inferInsert
 export type LibraryBook = typeof libraryBooks.$inferSelect
 export type NewLibraryBook = typeof libraryBooks.$inferInsert
+export type BookshelfInstance = typeof bookshelfInstances.$inferSelect
+export type NewBookshelfInstance = typeof bookshelfInstances.$inferInsert
 export type SyncJob = typeof syncJobs.$inferSelect
 export type NewSyncJob = typeof syncJobs.$inferInsert
+export type BookshelfJob = typeof bookshelfJobs.$inferSelect
+export type NewBookshelfJob = typeof bookshelfJobs.$inferInsert
+export type RequestQuota = typeof requestQuotas.$inferSelect
+export type NewRequestQuota = typeof requestQuotas.$inferInsert
+export type AutoApprovalRule = typeof autoApprovalRules.$inferSelect
+export type NewAutoApprovalRule = typeof autoApprovalRules.$inferInsert
+export type RequestEvent = typeof requestEvents.$inferSelect
+export type NewRequestEvent = typeof requestEvents.$inferInsert
+export type RequestComment = typeof requestComments.$inferSelect
+export type NewRequestComment = typeof requestComments.$inferInsert
+export type ArchivedRequest = typeof archivedRequests.$inferSelect
+export type NewArchivedRequest = typeof archivedRequests.$inferInsert
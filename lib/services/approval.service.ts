@@ -0,0 +1,582 @@
+import { db, users, bookCache, type Request } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import type { Book } from '@/types/bookinfo'
+import { RequestService } from './request.service'
+import { BookService } from './book.service'
+import type { RequestEventSource } from './request-event.service'
+import { BookshelfService } from './bookshelf.service'
+import { NotificationService } from './notification.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { BookshelfJobService } from './bookshelf-job.service'
+import type { BookshelfConfig } from '@/types/bookshelf.types'
+import type { DeclineReason } from './decline-reason.service'
+
+export const MANUAL_INTERVENTION_MARKER = 'MIMIRR_MANUAL_INTERVENTION_REQUIRED'
+
+export interface ResolutionBook {
+  id: number
+  title: string
+  foreignBookId: string
+  releaseDate?: string
+  monitored: boolean
+  hasFile: boolean
+  editionCount: number
+}
+
+export interface ResolutionCandidates {
+  author: { id: number; name: string }
+  books: ResolutionBook[]
+  suggestedBookId: number | null
+}
+
+export interface ResolutionEdition {
+  foreignEditionId: string
+  title: string
+  format?: string
+  isEbook?: boolean
+  publisher?: string
+  releaseDate?: string
+  monitored: boolean
+}
+
+export type BulkRequestAction = 'approve' | 'decline' | 'delete' | 'retry'
+
+export interface BulkActionResult {
+  id: number
+  success: boolean
+  error?: string
+}
+
+/**
+ * A Bookshelf addition failed in a way retrying cannot fix; an admin has to change the request first
+ */
+export class PermanentAdditionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentAdditionError'
+  }
+}
+
+export class ApprovalService {
+  /**
+   * Approve a request and hand the book off to Bookshelf.
+   * The request status is updated immediately; the Bookshelf addition is queued as a durable job.
+   * Used by both the admin approve route and the auto-approval rules engine.
+   * The requester's notes are kept; eventMessage only goes into the request history.
+   */
+  static async approveRequest(
+    existingRequest: Request,
+    book: Book,
+    options: { processedBy?: number; eventMessage?: string; source?: RequestEventSource; rootFolderPath?: string } = {}
+  ): Promise<Request> {
+    const requestId = existingRequest.id
+    const bookshelfConfig = await BookshelfInstanceService.getConfig(existingRequest.instanceId)
+    // An errored request's notes hold the failure, which a retry clears
+    const notes = existingRequest.status === 'error' ? '' : undefined
+    const audit = { source: options.source, message: options.eventMessage }
+
+    if (!bookshelfConfig) {
+      logger.warn('Bookshelf not configured, approving request without sending to Bookshelf')
+      return RequestService.updateRequest(requestId, {
+        status: 'approved',
+        processedBy: options.processedBy,
+        notes,
+        ...(options.rootFolderPath ? { rootFolderPath: options.rootFolderPath } : {}),
+      }, audit)
+    }
+
+    // Determine the initial status based on release date
+    const isUnreleased =
+      book.publishedDate && new Date(book.publishedDate) > new Date()
+    const initialStatus = isUnreleased ? 'approved' : 'processing'
+
+    // Update request status immediately to provide fast UI response and clear errors
+    const updatedRequest = await RequestService.updateRequest(requestId, {
+      status: initialStatus,
+      processedBy: options.processedBy,
+      notes,
+      ...(options.rootFolderPath ? { rootFolderPath: options.rootFolderPath } : {}),
+    }, audit)
+
+    // Queue the Bookshelf addition so callers can respond immediately and a restart resumes it
+    await BookshelfJobService.enqueue(requestId)
+
+    return updatedRequest
+  }
+
+  /**
+   * Whether a request is a record the library sync imported from Bookshelf.
+   * These must never be pushed back to Bookshelf through an approval.
+   */
+  static async isSystemImport(existingRequest: Request): Promise<boolean> {
+    const systemUser = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, 'system_sync'))
+      .limit(1)
+
+    return systemUser.length > 0 && existingRequest.userId === systemUser[0].id
+  }
+
+  /**
+   * Apply one admin action to many requests. Each request succeeds or fails on its own;
+   * approvals and retries only update the status here and queue their Bookshelf additions.
+   */
+  static async runBulkAction(
+    action: BulkRequestAction,
+    requestIds: number[],
+    options: { processedBy: number; reason?: DeclineReason | null; note?: string }
+  ): Promise<BulkActionResult[]> {
+    const results: BulkActionResult[] = []
+
+    for (const id of requestIds) {
+      try {
+        const existingRequest = await RequestService.getRequestById(id)
+        if (!existingRequest) {
+          throw new Error('Request not found')
+        }
+
+        switch (action) {
+          case 'approve':
+          case 'retry': {
+            const expected = action === 'approve' ? 'pending' : 'error'
+            if (existingRequest.status !== expected) {
+              throw new Error(`Only ${expected} requests can be ${action === 'approve' ? 'approved' : 'retried'}`)
+            }
+            if (await this.isSystemImport(existingRequest)) {
+              throw new Error('System-imported records cannot be pushed to Readarr')
+            }
+
+            const book = await BookService.getBookById(existingRequest.bookId)
+            if (!book) {
+              throw new Error('Book not found')
+            }
+
+            await this.approveRequest(existingRequest, book, { processedBy: options.processedBy })
+            break
+          }
+          case 'decline':
+            if (existingRequest.status !== 'pending' && existingRequest.status !== 'error') {
+              throw new Error('Only pending or errored requests can be declined')
+            }
+            await this.declineRequest(existingRequest, options)
+            break
+          case 'delete':
+            await RequestService.deleteRequest(id, { source: 'admin', actorId: options.processedBy })
+            break
+        }
+
+        results.push({ id, success: true })
+      } catch (error) {
+        results.push({ id, success: false, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    logger.info('Bulk request action completed', {
+      action,
+      requested: requestIds.length,
+      succeeded: results.filter((r) => r.success).length,
+    })
+
+    return results
+  }
+
+  /**
+   * Decline a request, optionally with a decline reason template and a note, and notify the requester
+   */
+  static async declineRequest(
+    existingRequest: Request,
+    options: { processedBy: number; reason?: DeclineReason | null; note?: string }
+  ): Promise<Request> {
+    const { reason, note } = options
+
+    const updatedRequest = await RequestService.updateRequest(existingRequest.id, {
+      status: 'declined',
+      processedBy: options.processedBy,
+      declineReason: reason?.label ?? null,
+      declineNote: note || null,
+    }, {
+      message: reason ? `Declined: ${reason.label}` : undefined,
+    })
+
+    // Send notification to user if book details available
+    const book = await BookService.getBookById(existingRequest.bookId)
+    if (book) {
+      const username = await this.getUsername(existingRequest.userId)
+      const bookshelfConfig = await BookshelfInstanceService.getConfig(existingRequest.instanceId)
+      const qualityProfileName = bookshelfConfig
+        ? await this.getQualityProfileName(bookshelfConfig, existingRequest.qualityProfileId)
+        : 'Unknown'
+
+      await NotificationService.sendNotification(
+        existingRequest.userId,
+        'request_declined',
+        'Book Request Declined',
+        book.title,
+        book.author || 'Unknown Author',
+        book.description || 'No description available',
+        book.coverImage,
+        username,
+        'Declined',
+        qualityProfileName,
+        '/requests',
+        [
+          ...(reason ? [{ name: 'Reason', value: reason.label }] : []),
+          ...(note ? [{ name: 'Note', value: note }] : []),
+        ]
+      )
+    }
+
+    return updatedRequest
+  }
+
+  /**
+   * Add an approved request's book to Bookshelf and notify the requester.
+   * Run by the Bookshelf job worker; throws on failures worth retrying, and PermanentAdditionError on those
+   * that are not. A metadata conflict that needs manual intervention is not retried either: the request
+   * is marked as errored and admins are notified here.
+   */
+  static async processBookshelfAddition(
+    existingRequest: Request,
+    book: Book,
+    bookshelfConfig: BookshelfConfig
+  ): Promise<void> {
+    const requestId = existingRequest.id
+
+    logger.info('Adding book to Bookshelf', {
+      requestId,
+      bookId: book.id,
+      title: book.title,
+    })
+
+    const rootFolderPath = await this.resolveRootFolder(existingRequest, bookshelfConfig)
+
+    // Remember the folder so retries land in the same place
+    if (rootFolderPath !== existingRequest.rootFolderPath) {
+      await RequestService.updateRequest(requestId, { rootFolderPath })
+    }
+
+    const metadataProfileId = await BookshelfService.resolveMetadataProfileId(
+      bookshelfConfig,
+      existingRequest.qualityProfileId
+    )
+
+    const result = await BookshelfService.addBook(bookshelfConfig, {
+      title: book.title,
+      author: book.author || 'Unknown Author',
+      foreignBookId: book.id, // Book ID correlates to the foreign Book ID
+      qualityProfileId: existingRequest.qualityProfileId,
+      metadataProfileId,
+      rootFolderPath: rootFolderPath,
+    })
+
+    if (!result.success) {
+      if (result.requiresManualIntervention) {
+        logger.warn('Bookshelf Circuit Breaker Triggered', { requestId, message: result.message })
+
+        await RequestService.updateRequest(requestId, {
+          status: 'error',
+          notes: result.message
+        })
+
+        const adminIds = await NotificationService.getAdminUserIds()
+        const username = await this.getUsername(existingRequest.userId)
+
+        await NotificationService.sendNotification(
+          adminIds,
+          'bookshelf_error',
+          'Manual Intervention Required',
+          book.title,
+          book.author || 'Unknown Author',
+          result.message || 'Goodreads metadata conflict detected.',
+          book.coverImage,
+          username,
+          'Error',
+          'Unknown',
+          '/requests/all'
+        )
+        return
+      }
+      throw new Error(result.error)
+    }
+
+    // Update request with Bookshelf ID and mark as processing/approved
+    await RequestService.updateRequest(requestId, {
+      bookshelfId: result.bookshelfId,
+      foreignBookId: result.foreignBookId,
+    })
+
+    logger.info('Bookshelf addition successful', {
+      requestId,
+      bookshelfId: result.bookshelfId,
+    })
+
+    // The Request Transition: Mimirr officially added the book to Readarr.
+    // Remove the temporary search cache entry for this foreignBookId.
+    try {
+      await db.delete(bookCache).where(eq(bookCache.id, result.foreignBookId || book.id))
+      logger.info('Cleaned up temporary cache for newly added book', { foreignBookId: result.foreignBookId || book.id })
+    } catch (cacheErr) {
+      logger.error('Failed to clean up temporary cache', { error: cacheErr instanceof Error ? cacheErr.message : cacheErr, foreignBookId: result.foreignBookId || book.id })
+    }
+
+    const username = await this.getUsername(existingRequest.userId)
+
+    const qualityProfileName = await this.getQualityProfileName(bookshelfConfig, existingRequest.qualityProfileId)
+
+    // Send notification to user
+    await NotificationService.sendNotification(
+      existingRequest.userId,
+      'request_approved',
+      'Book Request Approved',
+      book.title,
+      book.author || 'Unknown Author',
+      book.description || 'No description available',
+      book.coverImage,
+      username,
+      'Approved',
+      qualityProfileName,
+      '/requests'
+    )
+  }
+
+  /**
+   * Mark a request as errored once its Bookshelf job has run out of attempts and notify admins
+   */
+  static async markAdditionFailed(existingRequest: Request, message: string): Promise<void> {
+    await RequestService.updateRequest(existingRequest.id, {
+      status: 'error',
+      notes: `Failed to add to Bookshelf: ${message}`,
+    })
+
+    const book = await BookService.getBookById(existingRequest.bookId)
+    if (!book) return
+
+    // Send notification to admins about Bookshelf error
+    const adminIds = await NotificationService.getAdminUserIds()
+    const username = await this.getUsername(existingRequest.userId)
+
+    await NotificationService.sendNotification(
+      adminIds,
+      'bookshelf_error',
+      'Bookshelf Connection Error',
+      book.title,
+      book.author || 'Unknown Author',
+      `Failed to add to Bookshelf: ${message}`,
+      book.coverImage,
+      username,
+      'Error',
+      'Unknown',
+      '/requests/all'
+    )
+  }
+
+  /**
+   * Load what an admin needs to resolve a request blocked by the author circuit breaker:
+   * the existing Readarr author and that author's books, with the best title match suggested.
+   */
+  static async getResolutionCandidates(existingRequest: Request, book: Book): Promise<ResolutionCandidates> {
+    const bookshelfConfig = await this.getResolutionConfig(existingRequest)
+
+    const author = await BookshelfService.findLibraryAuthor(bookshelfConfig, book.author || '')
+    if (!author) {
+      throw new Error('Author not found in Bookshelf')
+    }
+
+    const authorBooks = await BookshelfService.getAuthorBooks(bookshelfConfig, author.id)
+    const books: ResolutionBook[] = authorBooks
+      .map((b: any) => ({
+        id: b.id,
+        title: b.title,
+        foreignBookId: String(b.foreignBookId),
+        releaseDate: b.releaseDate,
+        monitored: !!b.monitored,
+        hasFile: (b.statistics?.bookFileCount || 0) > 0,
+        editionCount: b.editions?.length || 0,
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title))
+
+    const clean = (str: string) => str.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
+    const target = clean(book.title)
+    const suggested =
+      books.find((b) => b.foreignBookId === book.id) ||
+      books.find((b) => clean(b.title) === target) ||
+      books.find((b) => clean(b.title).includes(target) || target.includes(clean(b.title)))
+
+    return {
+      author: { id: author.id, name: author.authorName },
+      books,
+      suggestedBookId: suggested?.id ?? null,
+    }
+  }
+
+  /**
+   * List the editions of one of the author's Readarr books for the resolution dialog
+   */
+  static async getResolutionEditions(existingRequest: Request, bookshelfBookId: number): Promise<ResolutionEdition[]> {
+    const bookshelfConfig = await this.getResolutionConfig(existingRequest)
+    const editions = await BookshelfService.getBookEditions(bookshelfConfig, bookshelfBookId)
+
+    return editions.map((e: any) => ({
+      foreignEditionId: String(e.foreignEditionId),
+      title: e.title,
+      format: e.format,
+      isEbook: e.isEbook,
+      publisher: e.publisher,
+      releaseDate: e.releaseDate,
+      monitored: !!e.monitored,
+    }))
+  }
+
+  /**
+   * Resolve a manual-intervention request by monitoring a book that already exists under the
+   * Readarr author (through the same PUT path addBook uses) and linking it to the request.
+   */
+  static async resolveManualIntervention(
+    existingRequest: Request,
+    book: Book,
+    selection: { bookshelfBookId: number; foreignEditionId?: string },
+    processedBy: number
+  ): Promise<Request> {
+    const bookshelfConfig = await this.getResolutionConfig(existingRequest)
+
+    const author = await BookshelfService.findLibraryAuthor(bookshelfConfig, book.author || '')
+    if (!author) {
+      throw new Error('Author not found in Bookshelf')
+    }
+
+    const authorBooks = await BookshelfService.getAuthorBooks(bookshelfConfig, author.id)
+    const target = authorBooks.find((b: any) => b.id === selection.bookshelfBookId)
+    if (!target) {
+      throw new Error('Selected book does not belong to this author in Bookshelf')
+    }
+
+    const rootFolderPath = await this.resolveRootFolder(existingRequest, bookshelfConfig)
+    const metadataProfileId = await BookshelfService.resolveMetadataProfileId(
+      bookshelfConfig,
+      existingRequest.qualityProfileId
+    )
+
+    await BookshelfService.monitorExistingBook(bookshelfConfig, target.id, author.id, {
+      qualityProfileId: existingRequest.qualityProfileId,
+      metadataProfileId,
+      rootFolderPath,
+      foreignEditionId: selection.foreignEditionId,
+    })
+
+    const updatedRequest = await RequestService.updateRequest(existingRequest.id, {
+      status: 'processing',
+      processedBy,
+      notes: '',
+      bookshelfId: target.id,
+      foreignBookId: String(target.foreignBookId),
+      rootFolderPath,
+    }, {
+      source: 'admin',
+      message: `Resolved manually: linked to "${target.title}" by ${author.authorName} in Bookshelf`,
+    })
+
+    logger.info('Manual intervention resolved', {
+      requestId: existingRequest.id,
+      bookshelfId: target.id,
+      foreignEditionId: selection.foreignEditionId,
+    })
+
+    const username = await this.getUsername(existingRequest.userId)
+    const qualityProfileName = await this.getQualityProfileName(bookshelfConfig, existingRequest.qualityProfileId)
+
+    await NotificationService.sendNotification(
+      existingRequest.userId,
+      'request_approved',
+      'Book Request Approved',
+      book.title,
+      book.author || 'Unknown Author',
+      book.description || 'No description available',
+      book.coverImage,
+      username,
+      'Approved',
+      qualityProfileName,
+      '/requests'
+    )
+
+    return updatedRequest
+  }
+
+  private static async getResolutionConfig(existingRequest: Request): Promise<BookshelfConfig> {
+    if (!existingRequest.notes?.includes(MANUAL_INTERVENTION_MARKER)) {
+      throw new Error('Request does not require manual intervention')
+    }
+
+    const bookshelfConfig = await BookshelfInstanceService.getConfig(existingRequest.instanceId)
+    if (!bookshelfConfig) {
+      throw new Error('Bookshelf not configured')
+    }
+
+    return bookshelfConfig
+  }
+
+  /**
+   * Pick the Bookshelf root folder for a request.
+   * Order: the folder stored on the request (admin override or an earlier attempt),
+   * then the folder mapped to the request's quality profile, then the instance's first root folder.
+   */
+  private static async resolveRootFolder(existingRequest: Request, bookshelfConfig: BookshelfConfig): Promise<string> {
+    const rootFolders = await BookshelfService.getRootFolders(bookshelfConfig)
+    const available = rootFolders.map((folder) => folder.path as string)
+
+    if (available.length === 0) {
+      throw new Error('No root folder configured in Bookshelf')
+    }
+
+    if (existingRequest.rootFolderPath) {
+      if (!available.includes(existingRequest.rootFolderPath)) {
+        throw new PermanentAdditionError(
+          `Root folder ${existingRequest.rootFolderPath} no longer exists in Bookshelf. Retry the request with another root folder.`
+        )
+      }
+      return existingRequest.rootFolderPath
+    }
+
+    if (bookshelfConfig.instanceId) {
+      const mapped = await BookshelfService.getProfileRootFolder(bookshelfConfig.instanceId, existingRequest.qualityProfileId)
+      if (mapped && available.includes(mapped)) {
+        return mapped
+      }
+      if (mapped) {
+        logger.warn('Mapped root folder no longer exists in Bookshelf, using the first root folder', {
+          requestId: existingRequest.id,
+          rootFolderPath: mapped,
+        })
+      }
+    }
+
+    return available[0]
+  }
+
+  /**
+   * Get a quality profile's display name from Bookshelf for notifications
+   */
+  private static async getQualityProfileName(bookshelfConfig: BookshelfConfig, qualityProfileId: number): Promise<string> {
+    try {
+      const profiles = await BookshelfService.getQualityProfiles(bookshelfConfig)
+      return profiles.find((p) => p.id === qualityProfileId)?.name || 'Unknown'
+    } catch (error) {
+      logger.error('Failed to fetch quality profile', { error: error instanceof Error ? error.message : error })
+      return 'Unknown'
+    }
+  }
+
+  /**
+   * Get a user's username for notifications
+   */
+  private static async getUsername(userId: number): Promise<string> {
+    const requestingUser = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1)
+
+    return requestingUser[0]?.username || 'Unknown User'
+  }
+}
@@ -0,0 +1,293 @@
+import { db, requests, archivedRequests, settings, users, type ArchivedRequest, type Request } from '@/lib/db'
+import { eq, and, inArray, lt, desc, not } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { BookService } from './book.service'
+import { RequestEventService, type RequestEventSource } from './request-event.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { RequestCommentService } from './request-comment.service'
+
+const RETENTION_SETTING_KEY = 'archive_retention_days'
+const DEFAULT_RETENTION_DAYS = 30
+
+export interface ArchivedRequestWithBook extends ArchivedRequest {
+  bookTitle?: string
+  bookAuthor?: string
+  bookCoverImage?: string
+  requestedBy?: string
+}
+
+export class ArchiveService {
+  /**
+   * Move requests into the archive instead of deleting them
+   * Returns the number of requests archived.
+   */
+  static async archiveRequests(
+    requestIds: number[],
+    reasons: Map<number, string>,
+    source: RequestEventSource = 'sync'
+  ): Promise<number> {
+    if (requestIds.length === 0) return 0
+
+    const rows = await db
+      .select()
+      .from(requests)
+      .where(inArray(requests.id, requestIds))
+
+    if (rows.length === 0) return 0
+
+    const now = new Date()
+    const archivedRows = rows.map((row) => ({
+      ...row,
+      archivedReason: reasons.get(row.id) || 'Removed from Readarr',
+      archivedAt: now,
+    }))
+
+    // Only rows that made it into the archive are deleted, and both happen together or not at all.
+    // A row already in the archive (same original ID) is skipped and stays in requests.
+    const archivedIds = await db.transaction(async (tx) => {
+      const inserted: number[] = []
+
+      // Keep each insert well under SQLite's bound parameter limit
+      const chunkSize = 50
+      for (let i = 0; i < archivedRows.length; i += chunkSize) {
+        const result = await tx
+          .insert(archivedRequests)
+          .values(archivedRows.slice(i, i + chunkSize))
+          .onConflictDoNothing()
+          .returning({ id: archivedRequests.id })
+        inserted.push(...result.map((r) => r.id))
+      }
+
+      if (inserted.length > 0) {
+        await tx.delete(requests).where(inArray(requests.id, inserted))
+      }
+
+      return inserted
+    })
+
+    if (archivedIds.length < rows.length) {
+      logger.warn('Some requests were already archived and were left in place', {
+        requestIds: rows.map((r) => r.id).filter((id) => !archivedIds.includes(id)),
+      })
+    }
+
+    const archived = rows.filter((row) => archivedIds.includes(row.id))
+
+    await RequestEventService.recordEvents(
+      archived.map((row) => ({
+        requestId: row.id,
+        fromStatus: row.status,
+        toStatus: 'archived',
+        source,
+        message: reasons.get(row.id),
+      }))
+    )
+
+    logger.info(`Archived ${archived.length} requests`, { requestIds: archivedIds })
+    return archived.length
+  }
+
+  /**
+   * Get all archived requests with book details, newest first
+   */
+  static async getArchivedRequests(): Promise<ArchivedRequestWithBook[]> {
+    try {
+      const rows = await db
+        .select({
+          request: archivedRequests,
+          username: users.username,
+        })
+        .from(archivedRequests)
+        .leftJoin(users, eq(archivedRequests.userId, users.id))
+        .orderBy(desc(archivedRequests.archivedAt))
+
+      // Batch fetch all book details
+      const bookIds = rows.map((r) => r.request.bookId)
+      const booksMap = await BookService.getBooksByIds(bookIds)
+
+      return rows.map(({ request, username }) => {
+        const book = booksMap.get(request.bookId)
+        return {
+          ...request,
+          bookTitle: book?.title || 'Unknown Book',
+          bookAuthor: book?.author || 'Unknown Author',
+          bookCoverImage: book?.coverImage,
+          requestedBy: username || 'Unknown User',
+        }
+      })
+    } catch (error) {
+      logger.error('Failed to get archived requests', { error: error instanceof Error ? error.message : error })
+      throw new Error('Failed to retrieve archived requests')
+    }
+  }
+
+  /**
+   * Restore an archived request back into the active requests table.
+   * The Readarr link is cleared so the next sync or poll re-resolves it.
+   */
+  static async restoreRequest(archivedId: number, restoredBy: number): Promise<Request> {
+    const archived = await db
+      .select()
+      .from(archivedRequests)
+      .where(eq(archivedRequests.id, archivedId))
+      .limit(1)
+
+    if (archived.length === 0) {
+      throw new Error('Archived request not found')
+    }
+
+    const row = archived[0]
+
+    // Avoid duplicating a request the user has since re-made
+    const existing = await db
+      .select({ id: requests.id })
+      .from(requests)
+      .where(
+        and(
+          eq(requests.userId, row.userId),
+          eq(requests.bookId, row.bookId),
+          not(eq(requests.status, 'declined'))
+        )
+      )
+      .limit(1)
+
+    if (existing.length > 0) {
+      throw new Error('This user already has an active request for this book')
+    }
+
+    const { archivedReason, archivedAt, ...requestFields } = row
+
+    // The original instance may have been removed since the request was archived
+    const instance = await BookshelfInstanceService.getConfig(requestFields.instanceId)
+
+    const restored = await db
+      .insert(requests)
+      .values({
+        ...requestFields,
+        status: requestFields.status as Request['status'],
+        instanceId: instance?.instanceId ?? null,
+        // Root folders are per instance, so only keep the stored folder if the instance is unchanged
+        rootFolderPath: instance?.instanceId === requestFields.instanceId ? requestFields.rootFolderPath : null,
+        bookshelfId: null,
+      })
+      .returning()
+
+    await db.delete(archivedRequests).where(eq(archivedRequests.id, archivedId))
+
+    await RequestEventService.recordEvent({
+      requestId: restored[0].id,
+      fromStatus: 'archived',
+      toStatus: restored[0].status,
+      source: 'admin',
+      actorId: restoredBy,
+      message: `Restored from archive (archived ${archivedAt.toLocaleDateString()}: ${archivedReason})`,
+    })
+
+    logger.info('Archived request restored', { requestId: restored[0].id, restoredBy })
+    return restored[0]
+  }
+
+  /**
+   * Permanently delete an archived request
+   */
+  static async deleteArchivedRequest(archivedId: number, deletedBy?: number): Promise<void> {
+    const result = await db
+      .delete(archivedRequests)
+      .where(eq(archivedRequests.id, archivedId))
+      .returning({ id: archivedRequests.id })
+
+    if (result.length > 0) {
+      await RequestCommentService.deleteComments([archivedId])
+      await RequestEventService.recordEvent({
+        requestId: archivedId,
+        fromStatus: 'archived',
+        toStatus: 'purged',
+        source: 'admin',
+        actorId: deletedBy,
+      })
+      logger.info('Archived request permanently deleted', { requestId: archivedId, deletedBy })
+    }
+  }
+
+  /**
+   * Get the number of days archived requests are kept (0 = keep forever)
+   */
+  static async getRetentionDays(): Promise<number> {
+    try {
+      const result = await db
+        .select()
+        .from(settings)
+        .where(eq(settings.key, RETENTION_SETTING_KEY))
+        .limit(1)
+
+      const parsed = parseInt(result[0]?.value ?? '', 10)
+      return isNaN(parsed) ? DEFAULT_RETENTION_DAYS : parsed
+    } catch (error) {
+      logger.error('Failed to get archive retention setting', { error: error instanceof Error ? error.message : error })
+      return DEFAULT_RETENTION_DAYS
+    }
+  }
+
+  /**
+   * Update the archive retention period
+   */
+  static async setRetentionDays(days: number, updatedBy: number): Promise<void> {
+    const now = new Date()
+
+    await db
+      .insert(settings)
+      .values({
+        key: RETENTION_SETTING_KEY,
+        value: String(days),
+        category: 'general',
+        updatedAt: now,
+        updatedBy,
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value: String(days),
+          updatedAt: now,
+          updatedBy,
+        },
+      })
+
+    logger.info('Archive retention updated', { days, updatedBy })
+  }
+
+  /**
+   * Permanently delete archived requests older than the retention period
+   */
+  static async purgeExpired(): Promise<number> {
+    try {
+      const retentionDays = await this.getRetentionDays()
+      if (retentionDays <= 0) return 0
+
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+
+      const purged = await db
+        .delete(archivedRequests)
+        .where(lt(archivedRequests.archivedAt, cutoff))
+        .returning({ id: archivedRequests.id })
+
+      if (purged.length > 0) {
+        await RequestCommentService.deleteComments(purged.map((row) => row.id))
+        await RequestEventService.recordEvents(
+          purged.map((row) => ({
+            requestId: row.id,
+            fromStatus: 'archived',
+            toStatus: 'purged',
+            source: 'system' as const,
+            message: `Archive retention of ${retentionDays} days elapsed`,
+          }))
+        )
+        logger.info(`Purged ${purged.length} archived requests past retention`, { retentionDays })
+      }
+
+      return purged.length
+    } catch (error) {
+      logger.error('Failed to purge expired archived requests', { error: error instanceof Error ? error.message : error })
+      return 0
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import { db, authorFollows, requests, users, type AuthorFollow } from '@/lib/db'
+import { and, eq, isNull, lt, or } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import type { BookshelfConfig, ReadarrBook } from '@/types/bookshelf.types'
+import { BookService } from './book.service'
+import { BookshelfService } from './bookshelf.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { ReadarrService } from './readarr.service'
+import { RequestService } from './request.service'
+import { NotificationService } from './notification.service'
+import { QuotaExceededError } from './quota.service'
+import { mapLibraryBook } from './discovery.service'
+
+// Books released longer ago than this before the follow are backlist, not new releases
+const BACKLIST_WINDOW_DAYS = 180
+
+interface AuthorBook {
+  foreignBookId: string
+  book: ReadarrBook
+}
+
+export class AuthorFollowService {
+  /**
+   * Get a user's followed authors, alphabetically
+   */
+  static async getFollows(userId: number): Promise<AuthorFollow[]> {
+    return db
+      .select()
+      .from(authorFollows)
+      .where(eq(authorFollows.userId, userId))
+      .orderBy(authorFollows.authorName)
+  }
+
+  /**
+   * Follow an author. Following twice returns the existing follow.
+   * The baseline of existing books is recorded on the first check, so nothing from the backlist is requested.
+   */
+  static async follow(
+    userId: number,
+    data: { authorName: string; instanceId?: number; qualityProfileId?: number }
+  ): Promise<AuthorFollow> {
+    const authorName = data.authorName.trim()
+
+    const existing = await db
+      .select()
+      .from(authorFollows)
+      .where(and(eq(authorFollows.userId, userId), eq(authorFollows.authorName, authorName)))
+      .limit(1)
+
+    if (existing[0]) return existing[0]
+
+    if (data.instanceId && !(await BookshelfInstanceService.getInstance(data.instanceId))) {
+      throw new Error('Bookshelf instance not found')
+    }
+
+    const [follow] = await db
+      .insert(authorFollows)
+      .values({
+        userId,
+        authorName,
+        instanceId: data.instanceId ?? null,
+        qualityProfileId: data.qualityProfileId ?? null,
+      })
+      .returning()
+
+    logger.info('Author followed', { userId, authorName })
+
+    // Record the baseline right away so books released from now on are picked up
+    this.checkFollow(follow).catch((error) =>
+      logger.error('Failed to record author follow baseline', { error: error instanceof Error ? error.message : error, followId: follow.id })
+    )
+
+    return follow
+  }
+
+  /**
+   * Stop following an author. Returns false if the follow was not found.
+   */
+  static async unfollow(userId: number, followId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(authorFollows)
+      .where(and(eq(authorFollows.id, followId), eq(authorFollows.userId, userId)))
+      .returning({ id: authorFollows.id })
+
+    return deleted.length > 0
+  }
+
+  /**
+   * Check every follow that has not been checked within the interval (called from the background sync)
+   */
+  static async checkDueFollows(intervalHours: number): Promise<void> {
+    const cutoff = new Date(Date.now() - intervalHours * 60 * 60 * 1000)
+    const due = await db
+      .select()
+      .from(authorFollows)
+      .where(or(isNull(authorFollows.lastCheckedAt), lt(authorFollows.lastCheckedAt, cutoff)))
+
+    if (due.length === 0) return
+
+    logger.info('Checking followed authors for new releases', { follows: due.length })
+
+    // Followers of the same author share one Readarr lookup
+    const booksByAuthor = new Map<string, AuthorBook[] | null>()
+
+    for (const follow of due) {
+      try {
+        await this.checkFollow(follow, booksByAuthor)
+      } catch (error) {
+        logger.error('Failed to check followed author', {
+          error: error instanceof Error ? error.message : error,
+          followId: follow.id,
+          authorName: follow.authorName,
+        })
+      }
+    }
+  }
+
+  /**
+   * Compare the author's current books against the follow's known books and request anything new
+   */
+  private static async checkFollow(
+    follow: AuthorFollow,
+    booksByAuthor: Map<string, AuthorBook[] | null> = new Map()
+  ): Promise<void> {
+    const config = await BookshelfInstanceService.getConfig(follow.instanceId)
+    if (!config) {
+      logger.warn('No Bookshelf instance for author follow check', { followId: follow.id })
+      return
+    }
+
+    const key = `${config.instanceId}:${follow.authorName.toLowerCase()}`
+    if (!booksByAuthor.has(key)) {
+      booksByAuthor.set(key, await this.findAuthorBooks(config, follow))
+    }
+    const authorBooks = booksByAuthor.get(key)
+
+    // Lookup failed: try again next time rather than treating every book as new
+    if (!authorBooks) return
+
+    const known = new Set<string>(follow.knownBookIds ? JSON.parse(follow.knownBookIds) : [])
+    const isBaseline = follow.knownBookIds === null
+    const newBooks = isBaseline ? [] : authorBooks.filter((b) => !known.has(b.foreignBookId))
+
+    for (const authorBook of newBooks) {
+      if (this.isBacklist(authorBook.book, follow.createdAt)) continue
+      await this.requestNewBook(follow, config, authorBook)
+    }
+
+    for (const authorBook of authorBooks) {
+      known.add(authorBook.foreignBookId)
+    }
+
+    await db
+      .update(authorFollows)
+      .set({
+        knownBookIds: JSON.stringify(Array.from(known)),
+        lastCheckedAt: new Date(),
+      })
+      .where(eq(authorFollows.id, follow.id))
+
+    if (newBooks.length > 0) {
+      logger.info('Followed author has new books', { followId: follow.id, authorName: follow.authorName, newBooks: newBooks.length })
+    }
+  }
+
+  /**
+   * Find the author's books through Readarr: the author lookup pins down the foreign author ID,
+   * then a search on the author's name returns their books. Returns null when the lookup fails.
+   */
+  private static async findAuthorBooks(config: BookshelfConfig, follow: AuthorFollow): Promise<AuthorBook[] | null> {
+    let foreignAuthorId = follow.foreignAuthorId
+    if (!foreignAuthorId) {
+      const [author] = await BookshelfService.lookupAuthor(config, follow.authorName)
+      if (!author?.foreignAuthorId) {
+        logger.warn('Followed author not found in Readarr lookup', { authorName: follow.authorName })
+        return null
+      }
+
+      foreignAuthorId = String(author.foreignAuthorId)
+      await db
+        .update(authorFollows)
+        .set({ foreignAuthorId })
+        .where(eq(authorFollows.id, follow.id))
+    }
+
+    const results: ReadarrBook[] = await BookshelfService.searchBooks(config, follow.authorName)
+    if (results.length === 0) return null
+
+    // Search results usually embed the author; fall back to the name when they do not
+    const clean = (str: string) => str.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
+    const isByAuthor = (book: ReadarrBook) => book.author?.foreignAuthorId
+      ? String(book.author.foreignAuthorId) === foreignAuthorId
+      : clean(book.author?.authorName || '') === clean(follow.authorName)
+
+    const books = new Map<string, AuthorBook>()
+    for (const book of results) {
+      if (!book.foreignBookId || !isByAuthor(book)) continue
+      books.set(String(book.foreignBookId), { foreignBookId: String(book.foreignBookId), book })
+    }
+
+    return Array.from(books.values())
+  }
+
+  /**
+   * Whether a book with a known release date came out well before the follow (a newly indexed old title)
+   */
+  private static isBacklist(book: ReadarrBook, followedAt: Date): boolean {
+    const released = new Date(book.releaseDate || '').getTime()
+    if (isNaN(released)) return false
+    return released < followedAt.getTime() - BACKLIST_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  }
+
+  /**
+   * Create a request for a new book on the follower's behalf (subject to auto-approval rules and quota),
+   * then tell the follower and the admins
+   */
+  private static async requestNewBook(follow: AuthorFollow, config: BookshelfConfig, authorBook: AuthorBook): Promise<void> {
+    const mapped = mapLibraryBook(authorBook.book, new Map())
+    const [annotated] = await ReadarrService.annotateLibraryState([mapped])
+
+    const alreadyRequested = await db
+      .select({ id: requests.id })
+      .from(requests)
+      .where(and(eq(requests.userId, follow.userId), eq(requests.bookId, mapped.id)))
+      .limit(1)
+
+    if (annotated.mimirrState !== 'Unowned' || alreadyRequested.length > 0) {
+      logger.debug('Skipping new book by followed author that is already owned or requested', { bookId: mapped.id })
+      return
+    }
+
+    const profiles = config.instanceId ? await BookshelfService.getEnabledQualityProfiles(config.instanceId) : []
+    const qualityProfileId = follow.qualityProfileId ?? profiles[0]?.id
+    if (!qualityProfileId) {
+      logger.warn('No quality profile available for author follow request', { followId: follow.id })
+      return
+    }
+
+    const follower = await db
+      .select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, follow.userId))
+      .limit(1)
+    const username = follower[0]?.username || 'Unknown User'
+
+    try {
+      const submitted = await RequestService.submitRequest({
+        userId: follow.userId,
+        bookId: mapped.id,
+        qualityProfileId,
+        instanceId: config.instanceId,
+        notes: `Requested automatically: you follow ${follow.authorName}`,
+      }, (await BookService.getBookById(mapped.id)) ?? mapped)
+
+      const book = submitted.book ?? mapped
+      const status = submitted.autoApproved ? 'Auto-approved' : 'Pending'
+
+      const qualityProfileName = profiles.find((p) => p.id === qualityProfileId)?.name || 'Unknown'
+
+      await NotificationService.notifyUser(
+        follow.userId,
+        'author_new_release',
+        `New Book by ${follow.authorName}`,
+        `${book.title} was requested for you - ${status}`,
+        `/book/${book.id}`,
+        {
+          type: 'author_new_release',
+          title: `New Book by ${follow.authorName}`,
+          bookTitle: book.title,
+          bookAuthor: book.author || follow.authorName,
+          description: book.description || 'No description available',
+          coverImage: book.coverImage,
+          requestedBy: username,
+          status,
+          format: qualityProfileName,
+          details: [],
+          link: `/book/${book.id}`,
+        }
+      )
+
+      const adminIds = await NotificationService.getAdminUserIds()
+      await NotificationService.sendNotification(
+        adminIds,
+        'request_submitted',
+        'New Book Request (Followed Author)',
+        book.title,
+        book.author || follow.authorName,
+        book.description || 'No description available',
+        book.coverImage,
+        username,
+        status,
+        qualityProfileName,
+        '/requests/all'
+      )
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        await NotificationService.createNotification(
+          follow.userId,
+          'author_new_release',
+          `New Book by ${follow.authorName}`,
+          `${mapped.title} is out, but it could not be requested automatically: ${error.message}`,
+          `/book/${mapped.id}`
+        )
+        return
+      }
+
+      throw error
+    }
+  }
+}
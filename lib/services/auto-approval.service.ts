@@ -0,0 +1,188 @@
+import { db, autoApprovalRules, libraryBooks, users, type AutoApprovalRule, type Request } from '@/lib/db'
+import { eq, sql } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import type { AutoApprovalRuleInput } from '@/lib/utils/validation'
+import type { Book } from '@/types/bookinfo'
+import { ApprovalService } from './approval.service'
+
+export class AutoApprovalService {
+  /**
+   * Get all auto-approval rules
+   */
+  static async getRules(): Promise<AutoApprovalRule[]> {
+    try {
+      return await db.select().from(autoApprovalRules).orderBy(autoApprovalRules.createdAt)
+    } catch (error) {
+      logger.error('Failed to get auto-approval rules', { error: error instanceof Error ? error.message : error })
+      return []
+    }
+  }
+
+  /**
+   * Create an auto-approval rule
+   */
+  static async createRule(data: AutoApprovalRuleInput, createdBy: number): Promise<AutoApprovalRule> {
+    const now = new Date()
+
+    const result = await db
+      .insert(autoApprovalRules)
+      .values({
+        ...this.normalizeTargets(data),
+        name: data.name,
+        ruleType: data.ruleType,
+        enabled: data.enabled ?? true,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning()
+
+    logger.info('Auto-approval rule created', { ruleId: result[0].id, name: data.name, ruleType: data.ruleType, createdBy })
+    return result[0]
+  }
+
+  /**
+   * Update an auto-approval rule
+   */
+  static async updateRule(ruleId: number, data: AutoApprovalRuleInput): Promise<AutoApprovalRule | null> {
+    const result = await db
+      .update(autoApprovalRules)
+      .set({
+        ...this.normalizeTargets(data),
+        name: data.name,
+        ruleType: data.ruleType,
+        enabled: data.enabled ?? true,
+        updatedAt: new Date(),
+      })
+      .where(eq(autoApprovalRules.id, ruleId))
+      .returning()
+
+    if (result.length === 0) return null
+
+    logger.info('Auto-approval rule updated', { ruleId, name: data.name, ruleType: data.ruleType })
+    return result[0]
+  }
+
+  /**
+   * Delete an auto-approval rule
+   */
+  static async deleteRule(ruleId: number): Promise<void> {
+    await db.delete(autoApprovalRules).where(eq(autoApprovalRules.id, ruleId))
+    logger.info('Auto-approval rule deleted', { ruleId })
+  }
+
+  /**
+   * Only keep the target column relevant to the rule type
+   */
+  private static normalizeTargets(data: AutoApprovalRuleInput) {
+    return {
+      targetUserId: data.ruleType === 'user' ? data.targetUserId ?? null : null,
+      targetRole: data.ruleType === 'role' ? data.targetRole ?? null : null,
+      targetQualityProfileId: data.ruleType === 'quality_profile' ? data.targetQualityProfileId ?? null : null,
+      targetInstanceId: data.ruleType === 'quality_profile' ? data.targetInstanceId ?? null : null,
+    }
+  }
+
+  /**
+   * Find the first enabled rule that matches a request, if any
+   */
+  static async findMatchingRule(request: Request, book: Book): Promise<AutoApprovalRule | null> {
+    const rules = (await this.getRules()).filter((rule) => rule.enabled)
+    if (rules.length === 0) return null
+
+    const requester = await db
+      .select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, request.userId))
+      .limit(1)
+    const requesterRole = requester[0]?.role
+
+    // Only look up the library when an author rule could apply
+    let authorInLibrary: boolean | null = null
+    const isAuthorInLibrary = async () => {
+      if (authorInLibrary === null) {
+        const authorName = (book.author || '').trim().toLowerCase()
+        if (!authorName || authorName === 'unknown author') {
+          authorInLibrary = false
+        } else {
+          const match = await db
+            .select({ id: libraryBooks.id })
+            .from(libraryBooks)
+            .where(sql`lower(${libraryBooks.authorName}) = ${authorName}`)
+            .limit(1)
+          authorInLibrary = match.length > 0
+        }
+      }
+      return authorInLibrary
+    }
+
+    for (const rule of rules) {
+      switch (rule.ruleType) {
+        case 'user':
+          if (rule.targetUserId === request.userId) return rule
+          break
+        case 'role':
+          if (requesterRole && rule.targetRole === requesterRole) return rule
+          break
+        case 'quality_profile':
+          if (rule.targetInstanceId === request.instanceId && rule.targetQualityProfileId === request.qualityProfileId) {
+            return rule
+          }
+          break
+        case 'library_author':
+          if (await isAuthorInLibrary()) return rule
+          break
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Evaluate auto-approval rules for a newly created request.
+   * When a rule matches, the request is approved through the same path as a manual approval.
+   * Returns the (possibly updated) request and the rule that matched.
+   */
+  static async evaluateRequest(
+    request: Request,
+    book: Book
+  ): Promise<{ request: Request; rule: AutoApprovalRule | null }> {
+    try {
+      const rule = await this.findMatchingRule(request, book)
+      if (!rule) {
+        return { request, rule: null }
+      }
+
+      logger.info('Request auto-approved by rule', {
+        requestId: request.id,
+        userId: request.userId,
+        bookId: request.bookId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        ruleType: rule.ruleType,
+      })
+
+      await db
+        .update(autoApprovalRules)
+        .set({
+          matchCount: sql`${autoApprovalRules.matchCount} + 1`,
+          lastMatchedAt: new Date(),
+        })
+        .where(eq(autoApprovalRules.id, rule.id))
+
+      const updatedRequest = await ApprovalService.approveRequest(request, book, {
+        eventMessage: `Auto-approved by rule "${rule.name}"`,
+        source: 'auto_approval',
+      })
+
+      return { request: updatedRequest, rule }
+    } catch (error) {
+      // A failed evaluation leaves the request pending for manual review
+      logger.error('Failed to evaluate auto-approval rules', {
+        error: error instanceof Error ? error.message : error,
+        requestId: request.id,
+      })
+      return { request, rule: null }
+    }
+  }
+}
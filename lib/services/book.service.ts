@@ -1,8 +1,9 @@
 import { db, bookCache, settings, libraryBooks, type BookCache, type NewBookCache } from '@/lib/db'
-import { eq, inArray } from 'drizzle-orm'
+import { eq, inArray, desc, like } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
 import type { Book } from '@/types/bookinfo'
 import { MOOD_KEYWORDS, PACE_KEYWORDS } from './recommendation.service'
+import { isSameSeries } from '@/lib/utils/series'
 
 export class BookService {
   private static CACHE_TTL = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
@@ -52,6 +53,9 @@ export class BookService {
         pageCount: book.pageCount,
         genres: JSON.stringify(book.genres),
         rating: book.rating?.toString() || null,
+        // Left undefined (not null) when unknown so a re-cache from a source without series data keeps it
+        series: book.series,
+        seriesPosition: book.seriesPosition,
         cachedAt: now,
         lastAccessedAt: now,
       }
@@ -142,6 +146,8 @@ export class BookService {
       description: mapped["Description"],
       genres: Array.isArray(genres) ? genres : [],
       coverImage: mapped["Cover Art"],
+      series: cachedBook.series || undefined,
+      seriesPosition: cachedBook.seriesPosition ?? undefined,
       _rawMapping: mapped,
       foreignBookId: id,
       readarrBookId: undefined
@@ -292,6 +298,8 @@ export class BookService {
             description: targetBookShape.description,
             genres: targetBookShape.genres,
             coverImage: targetBookShape.coverImage,
+            series: targetBookShape.series,
+            seriesPosition: targetBookShape.seriesPosition,
             _rawMapping: targetBookShape._rawMapping,
             foreignBookId: targetBookShape.foreignBookId,
             readarrBookId: targetBookShape.readarrBookId
@@ -333,18 +341,78 @@ export class BookService {
   }
 
   /**
-   * Get popular books
+   * Get the most recently viewed books from the local cache (a discovery source)
+   */
+  static async getRecentCachedBooks(limit = 200): Promise<Book[]> {
+    try {
+      const cached = await db
+        .select()
+        .from(bookCache)
+        .orderBy(desc(bookCache.lastAccessedAt))
+        .limit(limit)
+
+      return cached.map((cachedBook) => this.formatToTargetShape(String(cachedBook.id), cachedBook))
+    } catch (error) {
+      logger.error('Failed to get cached books', { error: error instanceof Error ? error.message : error })
+      return []
+    }
+  }
+
+  /**
+   * Get cached books tagged with a genre (exact, case-insensitive match), best rated first
+   */
+  static async getCachedBooksByGenre(genre: string, limit = 50): Promise<Book[]> {
+    try {
+      const cached = await db
+        .select()
+        .from(bookCache)
+        .where(like(bookCache.genres, `%${genre}%`))
+
+      const target = genre.toLowerCase()
+      return cached
+        .filter((cachedBook) => this.parseGenres(cachedBook.genres).some((g) => g.toLowerCase() === target))
+        .map((cachedBook) => this.formatToTargetShape(String(cachedBook.id), cachedBook))
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0))
+        .slice(0, limit)
+    } catch (error) {
+      logger.error('Failed to get cached books by genre', { error: error instanceof Error ? error.message : error, genre })
+      return []
+    }
+  }
+
+  /**
+   * Get cached books belonging to a series (name compared loosely), in series order
+   */
+  static async getCachedBooksBySeries(series: string): Promise<Book[]> {
+    try {
+      const cached = await db
+        .select()
+        .from(bookCache)
+        .where(like(bookCache.series, `%${series}%`))
+
+      return cached
+        .filter((cachedBook) => isSameSeries(cachedBook.series, series))
+        .map((cachedBook) => this.formatToTargetShape(String(cachedBook.id), cachedBook))
+        .sort((a, b) => (a.seriesPosition ?? Infinity) - (b.seriesPosition ?? Infinity))
+    } catch (error) {
+      logger.error('Failed to get cached books by series', { error: error instanceof Error ? error.message : error, series })
+      return []
+    }
+  }
+
+  /**
+   * Get popular books (from the scheduled discovery cache)
    */
   static async getPopularBooks(limit = 20): Promise<Book[]> {
-    // TODO: Architect Readarr Lists integration for discovery features.
-    return []
+    const { DiscoveryService } = await import('./discovery.service')
+    return DiscoveryService.getPopularBooks(limit)
   }
 
   /**
-   * Get new releases
+   * Get new releases (from the scheduled discovery cache)
    */
   static async getNewReleases(limit = 20): Promise<Book[]> {
-    // TODO: Architect Readarr Lists integration for discovery features.
-    return []
+    const { DiscoveryService } = await import('./discovery.service')
+    return DiscoveryService.getNewReleases(limit)
   }
 }
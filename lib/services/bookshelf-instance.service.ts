@@ -0,0 +1,205 @@
+import { db, bookshelfInstances, libraryBooks, requests, type BookshelfInstance } from '@/lib/db'
+import { and, eq, ne, not, inArray } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import type { BookshelfInstanceInput } from '@/lib/utils/validation'
+import type { BookshelfConfig, InstanceAvailability } from '@/types/bookshelf.types'
+
+export class BookshelfInstanceService {
+  /**
+   * Get all configured instances, default first
+   */
+  static async getInstances(): Promise<BookshelfInstance[]> {
+    const instances = await db.select().from(bookshelfInstances).orderBy(bookshelfInstances.id)
+    return instances.sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+  }
+
+  /**
+   * Get a single instance by ID
+   */
+  static async getInstance(instanceId: number): Promise<BookshelfInstance | null> {
+    const result = await db
+      .select()
+      .from(bookshelfInstances)
+      .where(eq(bookshelfInstances.id, instanceId))
+      .limit(1)
+
+    return result[0] || null
+  }
+
+  /**
+   * Whether an instance has the URL and API key needed to reach it
+   */
+  static isConnectable(instance: BookshelfInstance): boolean {
+    return !!instance.url && !!instance.apiKey
+  }
+
+  /**
+   * Get the default instance (used when a request does not name one).
+   * Instances without a URL or API key are skipped, so nothing is sent to a connection that does not exist;
+   * the settings page passes includeUnconnected to find the default instance it should complete.
+   */
+  static async getDefaultInstance(options: { includeUnconnected?: boolean } = {}): Promise<BookshelfInstance | null> {
+    const connectable = options.includeUnconnected
+      ? undefined
+      : and(ne(bookshelfInstances.url, ''), ne(bookshelfInstances.apiKey, ''))
+    const result = await db
+      .select()
+      .from(bookshelfInstances)
+      .where(and(eq(bookshelfInstances.isDefault, true), connectable))
+      .limit(1)
+
+    if (result[0]) return result[0]
+
+    // Fall back to the oldest usable instance if the flagged one cannot be reached
+    const first = await db.select().from(bookshelfInstances).where(connectable).orderBy(bookshelfInstances.id).limit(1)
+    return first[0] || null
+  }
+
+  static toConfig(instance: BookshelfInstance): BookshelfConfig {
+    return {
+      url: instance.url.replace(/\/$/, ''),
+      apiKey: instance.apiKey,
+      instanceId: instance.id,
+      instanceName: instance.name,
+    }
+  }
+
+  /**
+   * Get connection settings for an instance, or for the default instance when no ID is given.
+   * Returns null when nothing is configured or the instance has no URL or API key.
+   */
+  static async getConfig(instanceId?: number | null): Promise<BookshelfConfig | null> {
+    const instance = instanceId
+      ? (await this.getInstance(instanceId)) ?? (await this.getDefaultInstance())
+      : await this.getDefaultInstance()
+
+    return instance && this.isConnectable(instance) ? this.toConfig(instance) : null
+  }
+
+  /**
+   * Get connection settings for every instance that has a URL and API key
+   */
+  static async getConfigs(): Promise<BookshelfConfig[]> {
+    const instances = await this.getInstances()
+    return instances.filter((instance) => this.isConnectable(instance)).map((instance) => this.toConfig(instance))
+  }
+
+  /**
+   * Create an instance. The first instance always becomes the default.
+   */
+  static async createInstance(data: BookshelfInstanceInput): Promise<BookshelfInstance> {
+    const existing = await db.select({ id: bookshelfInstances.id }).from(bookshelfInstances).limit(1)
+    const isDefault = existing.length === 0 || !!data.isDefault
+    const now = new Date()
+
+    if (isDefault) {
+      await db.update(bookshelfInstances).set({ isDefault: false })
+    }
+
+    const result = await db
+      .insert(bookshelfInstances)
+      .values({
+        name: data.name,
+        mediaType: data.mediaType,
+        url: data.url,
+        apiKey: data.apiKey,
+        isDefault,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning()
+
+    logger.info('Bookshelf instance created', { instanceId: result[0].id, name: data.name, mediaType: data.mediaType })
+    return result[0]
+  }
+
+  /**
+   * Update an instance's connection details
+   */
+  static async updateInstance(instanceId: number, data: BookshelfInstanceInput): Promise<BookshelfInstance | null> {
+    if (data.isDefault) {
+      await db
+        .update(bookshelfInstances)
+        .set({ isDefault: false })
+        .where(not(eq(bookshelfInstances.id, instanceId)))
+    }
+
+    const result = await db
+      .update(bookshelfInstances)
+      .set({
+        name: data.name,
+        mediaType: data.mediaType,
+        url: data.url,
+        apiKey: data.apiKey,
+        ...(data.isDefault ? { isDefault: true } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(bookshelfInstances.id, instanceId))
+      .returning()
+
+    if (result.length === 0) return null
+
+    logger.info('Bookshelf instance updated', { instanceId, name: data.name })
+    return result[0]
+  }
+
+  /**
+   * Delete an instance. The default instance and instances still targeted by requests cannot be removed.
+   */
+  static async deleteInstance(instanceId: number): Promise<void> {
+    const instance = await this.getInstance(instanceId)
+    if (!instance) {
+      throw new Error('Instance not found')
+    }
+
+    if (instance.isDefault) {
+      throw new Error('The default instance cannot be deleted')
+    }
+
+    const inUse = await db
+      .select({ id: requests.id })
+      .from(requests)
+      .where(eq(requests.instanceId, instanceId))
+      .limit(1)
+
+    if (inUse.length > 0) {
+      throw new Error('This instance still has requests and cannot be deleted')
+    }
+
+    await db.delete(bookshelfInstances).where(eq(bookshelfInstances.id, instanceId))
+    logger.info('Bookshelf instance deleted', { instanceId, name: instance.name })
+  }
+
+  /**
+   * Look up per-instance library status for a set of foreign book IDs.
+   * Every instance is listed for every book; status is null when the book is not in that library.
+   */
+  static async getAvailability(foreignBookIds: string[]): Promise<Map<string, InstanceAvailability[]>> {
+    const result = new Map<string, InstanceAvailability[]>()
+    if (foreignBookIds.length === 0) return result
+
+    const instances = await this.getInstances()
+    const rows = await db
+      .select({
+        foreignBookId: libraryBooks.foreignBookId,
+        instanceId: libraryBooks.instanceId,
+        status: libraryBooks.status,
+      })
+      .from(libraryBooks)
+      .where(inArray(libraryBooks.foreignBookId, foreignBookIds))
+
+    for (const foreignBookId of foreignBookIds) {
+      result.set(
+        foreignBookId,
+        instances.map((instance) => ({
+          instanceId: instance.id,
+          instanceName: instance.name,
+          mediaType: instance.mediaType,
+          status: rows.find((r) => r.foreignBookId === foreignBookId && r.instanceId === instance.id)?.status ?? null,
+        }))
+      )
+    }
+
+    return result
+  }
+}
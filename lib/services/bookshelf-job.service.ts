@@ -0,0 +1,227 @@
+import { db, bookshelfJobs, requests, type BookshelfJob } from '@/lib/db'
+import { and, asc, desc, eq, inArray, lte, ne } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { BoundedQueue } from '@/lib/utils/bounded-queue'
+import { RequestService } from './request.service'
+import { BookService } from './book.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { ApprovalService, PermanentAdditionError } from './approval.service'
+
+// Each Bookshelf addition is a long author/book handshake; bulk approvals queue behind this many at a time
+const JOB_CONCURRENCY = 2
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+// Jobs claimed by this process; each one that finishes frees its slot and picks up the next
+const workers = new BoundedQueue(JOB_CONCURRENCY, () => {
+  BookshelfJobService.processDueJobs().catch((error) =>
+    logger.error('Failed to start queued Bookshelf jobs', { error: error instanceof Error ? error.message : error })
+  )
+})
+
+export interface BookshelfJobWithRequest extends BookshelfJob {
+  bookTitle: string
+  bookAuthor: string
+}
+
+export class BookshelfJobService {
+  /**
+   * Queue the Bookshelf addition for an approved request and start it if a worker slot is free.
+   * A request has at most one unfinished job: approving it again resets that job instead of adding another.
+   */
+  static async enqueue(requestId: number): Promise<BookshelfJob> {
+    const existing = await db
+      .select()
+      .from(bookshelfJobs)
+      .where(and(eq(bookshelfJobs.requestId, requestId), ne(bookshelfJobs.status, 'completed')))
+      .orderBy(desc(bookshelfJobs.createdAt))
+      .limit(1)
+
+    let job: BookshelfJob
+    if (existing[0]?.status === 'running') {
+      job = existing[0]
+    } else if (existing[0]) {
+      const result = await db
+        .update(bookshelfJobs)
+        .set({ status: 'queued', attempts: 0, runAt: new Date(), lastError: null, startedAt: null, completedAt: null })
+        .where(eq(bookshelfJobs.id, existing[0].id))
+        .returning()
+      job = result[0]
+    } else {
+      const result = await db.insert(bookshelfJobs).values({ requestId }).returning()
+      job = result[0]
+    }
+
+    logger.info('Bookshelf addition queued', { requestId, jobId: job.id })
+
+    this.processDueJobs().catch((error) =>
+      logger.error('Failed to start queued Bookshelf jobs', { error: error instanceof Error ? error.message : error })
+    )
+
+    return job
+  }
+
+  /**
+   * Put jobs left running by a previous process back in the queue. Call once at startup,
+   * before the worker claims anything.
+   */
+  static async recoverInterruptedJobs(): Promise<number> {
+    const recovered = await db
+      .update(bookshelfJobs)
+      .set({ status: 'queued', runAt: new Date() })
+      .where(eq(bookshelfJobs.status, 'running'))
+      .returning({ id: bookshelfJobs.id })
+
+    if (recovered.length > 0) {
+      logger.warn('Re-queued Bookshelf jobs interrupted by a restart', { count: recovered.length })
+    }
+
+    return recovered.length
+  }
+
+  /**
+   * Claim and start due jobs until every worker slot is busy. Jobs run in the background;
+   * each one that finishes frees its slot and picks up the next.
+   */
+  static async processDueJobs(): Promise<void> {
+    while (workers.hasFreeSlot) {
+      const job = await this.claimNextJob()
+      if (!job) return
+
+      workers.push(`Bookshelf job ${job.id}`, () => this.runJob(job))
+    }
+  }
+
+  /**
+   * List jobs for the admin jobs page, newest first
+   */
+  static async listJobs(
+    status?: BookshelfJob['status'],
+    limit: number = 100
+  ): Promise<BookshelfJobWithRequest[]> {
+    const jobs = await db
+      .select()
+      .from(bookshelfJobs)
+      .where(status ? eq(bookshelfJobs.status, status) : undefined)
+      .orderBy(desc(bookshelfJobs.createdAt))
+      .limit(limit)
+
+    const requestIds = [...new Set(jobs.map((job) => job.requestId))]
+    const requestRows = requestIds.length > 0
+      ? await db
+          .select({ id: requests.id, bookId: requests.bookId })
+          .from(requests)
+          .where(inArray(requests.id, requestIds))
+      : []
+    const bookIdByRequest = new Map(requestRows.map((r) => [r.id, r.bookId]))
+    const booksMap = await BookService.getBooksByIds(requestRows.map((r) => r.bookId))
+
+    return jobs.map((job) => {
+      const bookId = bookIdByRequest.get(job.requestId)
+      const book = bookId ? booksMap.get(bookId) : undefined
+      return {
+        ...job,
+        bookTitle: book?.title || 'Unknown Book',
+        bookAuthor: book?.author || 'Unknown Author',
+      }
+    })
+  }
+
+  /**
+   * Get a single job by ID
+   */
+  static async getJobById(jobId: number): Promise<BookshelfJob | null> {
+    const result = await db.select().from(bookshelfJobs).where(eq(bookshelfJobs.id, jobId)).limit(1)
+    return result[0] ?? null
+  }
+
+  /**
+   * Atomically move the next due job from queued to running.
+   * The status check in the update keeps two concurrent claimers from taking the same job.
+   */
+  private static async claimNextJob(): Promise<BookshelfJob | null> {
+    for (;;) {
+      const next = await db
+        .select({ id: bookshelfJobs.id, attempts: bookshelfJobs.attempts })
+        .from(bookshelfJobs)
+        .where(and(eq(bookshelfJobs.status, 'queued'), lte(bookshelfJobs.runAt, new Date())))
+        .orderBy(asc(bookshelfJobs.runAt))
+        .limit(1)
+
+      if (!next[0]) return null
+
+      const claimed = await db
+        .update(bookshelfJobs)
+        .set({ status: 'running', attempts: next[0].attempts + 1, startedAt: new Date() })
+        .where(and(eq(bookshelfJobs.id, next[0].id), eq(bookshelfJobs.status, 'queued')))
+        .returning()
+
+      if (claimed[0]) return claimed[0]
+    }
+  }
+
+  /**
+   * Run one attempt of a job. Failures are retried with exponential backoff until the job
+   * runs out of attempts, and only then is the request marked as errored. A PermanentAdditionError
+   * fails the job at once.
+   */
+  private static async runJob(job: BookshelfJob): Promise<void> {
+    const existingRequest = await RequestService.getRequestById(job.requestId)
+
+    // The request was deleted, declined or already handled since the job was queued
+    if (
+      !existingRequest ||
+      (existingRequest.status !== 'processing' && existingRequest.status !== 'approved') ||
+      existingRequest.bookshelfId
+    ) {
+      await this.finishJob(job.id, 'completed')
+      logger.info('Skipped Bookshelf job for a request that no longer needs adding', { jobId: job.id, requestId: job.requestId })
+      return
+    }
+
+    try {
+      const book = await BookService.getBookById(existingRequest.bookId)
+      if (!book) {
+        throw new Error('Book not found')
+      }
+
+      const bookshelfConfig = await BookshelfInstanceService.getConfig(existingRequest.instanceId)
+      if (!bookshelfConfig) {
+        throw new Error('Bookshelf not configured')
+      }
+
+      await ApprovalService.processBookshelfAddition(existingRequest, book, bookshelfConfig)
+      await this.finishJob(job.id, 'completed')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (job.attempts >= job.maxAttempts || error instanceof PermanentAdditionError) {
+        logger.error('Bookshelf job failed permanently', { jobId: job.id, requestId: job.requestId, attempts: job.attempts, error: message })
+        await this.finishJob(job.id, 'failed', message)
+        await ApprovalService.markAdditionFailed(existingRequest, message)
+        return
+      }
+
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS)
+      logger.warn('Bookshelf job failed, retrying later', {
+        jobId: job.id,
+        requestId: job.requestId,
+        attempts: job.attempts,
+        retryInSeconds: delay / 1000,
+        error: message,
+      })
+
+      await db
+        .update(bookshelfJobs)
+        .set({ status: 'queued', runAt: new Date(Date.now() + delay), lastError: message })
+        .where(eq(bookshelfJobs.id, job.id))
+    }
+  }
+
+  private static async finishJob(jobId: number, status: 'completed' | 'failed', lastError?: string): Promise<void> {
+    await db
+      .update(bookshelfJobs)
+      .set({ status, completedAt: new Date(), ...(lastError !== undefined ? { lastError } : {}) })
+      .where(eq(bookshelfJobs.id, jobId))
+  }
+}
@@ -12,6 +12,8 @@ import type { BookshelfConfig, QualityProfile } from '@/types/bookshelf.types'
 import * as BooksAPI from './bookshelf/books'
 import * as AuthorsAPI from './bookshelf/authors'
 import * as QualityProfilesAPI from './bookshelf/quality-profiles'
+import * as MetadataProfilesAPI from './bookshelf/metadata-profiles'
+import * as ImportListsAPI from './bookshelf/import-lists'
 import * as CacheAPI from './bookshelf/cache'
 
 export class BookshelfService {
@@ -48,11 +50,14 @@ export class BookshelfService {
   static getBook = BooksAPI.getBook
   static getBookEditions = BooksAPI.getBookEditions
   static getLibraryAuthors = AuthorsAPI.getLibraryAuthors
+  static findLibraryAuthor = AuthorsAPI.findLibraryAuthor
+  static getAuthorBooks = AuthorsAPI.getAuthorBooks
   static lookupAuthor = BooksAPI.lookupAuthor
   static searchBooks = BooksAPI.searchBooks
   static triggerBookSearch = BooksAPI.triggerBookSearch
   static getRootFolders = BooksAPI.getRootFolders
   static addBook = BooksAPI.addBook
+  static monitorExistingBook = BooksAPI.monitorExistingBook
   static getAuthorBookStatus = BooksAPI.getAuthorBookStatus
 
   // ============================================================
@@ -65,6 +70,21 @@ export class BookshelfService {
   static getEnabledQualityProfiles = QualityProfilesAPI.getEnabledQualityProfiles
   static updateQualityProfileConfig = QualityProfilesAPI.updateQualityProfileConfig
   static reorderQualityProfiles = QualityProfilesAPI.reorderQualityProfiles
+  static getProfileRootFolder = QualityProfilesAPI.getProfileRootFolder
+
+  // ============================================================
+  // Metadata Profiles API (delegated to ./bookshelf/metadata-profiles.ts)
+  // ============================================================
+
+  static getMetadataProfiles = MetadataProfilesAPI.getMetadataProfiles
+  static setDefaultMetadataProfile = MetadataProfilesAPI.setDefaultMetadataProfile
+  static resolveMetadataProfileId = MetadataProfilesAPI.resolveMetadataProfileId
+
+  // ============================================================
+  // Import Lists API (delegated to ./bookshelf/import-lists.ts)
+  // ============================================================
+
+  static getImportLists = ImportListsAPI.getImportLists
 
   // ============================================================
   // Cache API (delegated to ./bookshelf/cache.ts)
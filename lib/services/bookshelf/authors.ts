@@ -10,3 +10,24 @@ export async function getLibraryAuthors(config: BookshelfConfig): Promise<any[]>
     return [];
   }
 }
+
+/**
+ * Find a library author by name, ignoring punctuation and case
+ * (the same comparison addBook's author circuit breaker uses)
+ */
+export async function findLibraryAuthor(config: BookshelfConfig, authorName: string): Promise<any | null> {
+  const clean = (str: string) => str.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+  const target = clean(authorName);
+
+  const authors = await getLibraryAuthors(config);
+  return authors.find((a: any) => clean(a.authorName || '') === target) || null;
+}
+
+export async function getAuthorBooks(config: BookshelfConfig, authorId: number): Promise<any[]> {
+  try {
+    return await apiGet<any[]>(config, `/api/v1/book?authorId=${authorId}`);
+  } catch (error) {
+    logger.error(`Failed to get books for author ${authorId} from Bookshelf`, { error: error instanceof Error ? error.message : error });
+    return [];
+  }
+}
@@ -3,7 +3,7 @@ import { fetchWithTimeout, apiGet, apiPost, apiPut } from './api';
 import { fetchLibraryWithCache } from './cache';
 import { logger } from '@/lib/utils/logger';
 import { db, libraryBooks } from '@/lib/db';
-import { eq, or, like } from 'drizzle-orm';
+import { eq, and, or, like } from 'drizzle-orm';
 
 /**
  * Check if a book already exists in the Bookshelf library
@@ -52,7 +52,10 @@ export async function checkBookInLibrary(
       const idMatch = await db
         .select()
         .from(libraryBooks)
-        .where(eq(libraryBooks.foreignBookId, foreignBookId))
+        .where(and(
+          eq(libraryBooks.foreignBookId, foreignBookId),
+          config.instanceId ? eq(libraryBooks.instanceId, config.instanceId) : undefined
+        ))
         .limit(1);
 
       if (idMatch.length > 0) {
@@ -80,7 +83,10 @@ export async function checkBookInLibrary(
       const fuzzyMatches = await db
         .select()
         .from(libraryBooks)
-        .where(like(libraryBooks.title, `%${normalizedTitle}%`));
+        .where(and(
+          like(libraryBooks.title, `%${normalizedTitle}%`),
+          config.instanceId ? eq(libraryBooks.instanceId, config.instanceId) : undefined
+        ));
 
       if (fuzzyMatches.length > 0) {
         const exactMatch = fuzzyMatches.find(book => {
@@ -249,6 +255,7 @@ export async function addBook(
     author: string
     foreignBookId: string
     qualityProfileId: number
+    metadataProfileId: number
     rootFolderPath: string
   }
 ): Promise<{ success: boolean; bookshelfId?: number; foreignBookId?: string; error?: string; requiresManualIntervention?: boolean; message?: string }> {
@@ -284,43 +291,7 @@ export async function addBook(
         const authorId = existingBook.authorId || existingBook.author?.id;
 
         if (authorId) {
-           const authorLibrary = await fetchWithTimeout<any[]>(config, `/api/v1/book?authorId=${authorId}`);
-           const fullExistingBook = authorLibrary.find((b: any) => String(b.id) === String(existingBook.id)) || existingBook;
-
-           logger.info('Updating existing book in Readarr (PUT) to avoid Editions Unique Constraint', {
-             bookId: fullExistingBook.id,
-             foreignBookId: fullExistingBook.foreignBookId
-           });
-
-           const updatePayload = {
-             ...fullExistingBook,
-             monitored: true,
-             qualityProfileId: bookData.qualityProfileId,
-             rootFolderPath: bookData.rootFolderPath || fullExistingBook.rootFolderPath,
-             authorId: fullExistingBook.authorId || 0,
-             addOptions: { searchForNewBook: true },
-             author: {
-               ...(fullExistingBook.author || {}),
-               qualityProfileId: bookData.qualityProfileId,
-               metadataProfileId: 1,
-               rootFolderPath: bookData.rootFolderPath || fullExistingBook.rootFolderPath,
-               monitored: true,
-               monitorNewItems: "none",
-             },
-             editions: fullExistingBook.editions && fullExistingBook.editions.length > 0 ? fullExistingBook.editions : [{
-                 foreignEditionId: fullExistingBook.foreignEditionId || '0',
-                 monitored: true
-             }]
-           };
-
-           await apiPut<any>(config, `/api/v1/book/${fullExistingBook.id}`, updatePayload);
-
-           // Readarr quirk: Updating an existing book via PUT does not automatically trigger search.
-           try {
-               await apiPost(config, '/api/v1/command', { name: 'BookSearch', bookIds: [fullExistingBook.id] });
-           } catch(e) {
-               logger.warn('Failed to dispatch search command after updating book', { error: e, bookId: fullExistingBook.id });
-           }
+           await monitorExistingBook(config, existingBook.id, authorId, bookData);
         } else {
            // Fallback if no authorId is available, just monitor it
            if (existingBook.monitored === false) {
@@ -345,7 +316,7 @@ export async function addBook(
         return {
           success: false,
           requiresManualIntervention: true,
-          message: "MIMIRR_MANUAL_INTERVENTION_REQUIRED: Author already exists in Readarr. Due to Goodreads metadata conflicts, adding this book automatically will create a duplicate author profile. Please add this book manually."
+          message: "MIMIRR_MANUAL_INTERVENTION_REQUIRED: Author already exists in Readarr. Due to Goodreads metadata conflicts, adding this book automatically will create a duplicate author profile. Use Resolve on the All Requests page to link the book under the existing author, or add it manually."
         };
       }
     } catch (error) {
@@ -362,7 +333,7 @@ export async function addBook(
       author: {
         ...basePayload.author,
         qualityProfileId: bookData.qualityProfileId,
-        metadataProfileId: 1,
+        metadataProfileId: bookData.metadataProfileId,
         monitored: true,
         monitorNewItems: "none",
         rootFolderPath: bookData.rootFolderPath,
@@ -463,6 +434,76 @@ export async function addBook(
   }
 }
 
+/**
+ * Monitor a book that already exists in Bookshelf via PUT and trigger a search.
+ * Used for books already in the library (avoids the Editions unique constraint on POST)
+ * and for manually resolved requests. When foreignEditionId is given only that edition is monitored.
+ * Returns the updated book.
+ */
+export async function monitorExistingBook(
+  config: BookshelfConfig,
+  bookId: number,
+  authorId: number,
+  options: {
+    qualityProfileId: number
+    metadataProfileId: number
+    rootFolderPath: string
+    foreignEditionId?: string
+  }
+): Promise<any> {
+  // We MUST fetch the full library array for the author to get complete objects
+  // before performing a PUT update to avoid validation/LINQ crashes in Readarr.
+  const authorLibrary = await fetchWithTimeout<any[]>(config, `/api/v1/book?authorId=${authorId}`);
+  const fullExistingBook = authorLibrary.find((b: any) => String(b.id) === String(bookId))
+    || await fetchWithTimeout<any>(config, `/api/v1/book/${bookId}`);
+
+  logger.info('Updating existing book in Readarr (PUT) to avoid Editions Unique Constraint', {
+    bookId: fullExistingBook.id,
+    foreignBookId: fullExistingBook.foreignBookId,
+    foreignEditionId: options.foreignEditionId,
+  });
+
+  let editions = fullExistingBook.editions && fullExistingBook.editions.length > 0 ? fullExistingBook.editions : [{
+      foreignEditionId: fullExistingBook.foreignEditionId || '0',
+      monitored: true
+  }];
+  if (options.foreignEditionId) {
+    editions = editions.map((edition: any) => ({
+      ...edition,
+      monitored: String(edition.foreignEditionId) === String(options.foreignEditionId),
+    }));
+  }
+
+  const updatePayload = {
+    ...fullExistingBook,
+    monitored: true,
+    qualityProfileId: options.qualityProfileId,
+    rootFolderPath: options.rootFolderPath || fullExistingBook.rootFolderPath,
+    authorId: fullExistingBook.authorId || 0,
+    addOptions: { searchForNewBook: true },
+    author: {
+      ...(fullExistingBook.author || {}),
+      qualityProfileId: options.qualityProfileId,
+      metadataProfileId: options.metadataProfileId,
+      rootFolderPath: options.rootFolderPath || fullExistingBook.rootFolderPath,
+      monitored: true,
+      monitorNewItems: "none",
+    },
+    editions,
+  };
+
+  const updated = await apiPut<any>(config, `/api/v1/book/${fullExistingBook.id}`, updatePayload);
+
+  // Readarr quirk: Updating an existing book via PUT does not automatically trigger search.
+  try {
+      await apiPost(config, '/api/v1/command', { name: 'BookSearch', bookIds: [fullExistingBook.id] });
+  } catch(e) {
+      logger.warn('Failed to dispatch search command after updating book', { error: e, bookId: fullExistingBook.id });
+  }
+
+  return updated || fullExistingBook;
+}
+
 /**
  * Get status of a specific book from Bookshelf
  * @param config - Bookshelf configuration
@@ -2,10 +2,14 @@ import { BookshelfConfig } from '@/types/bookshelf.types';
 import { fetchWithTimeout } from './api';
 import { logger } from '@/lib/utils/logger';
 
-// Cache state
-let libraryCache: any[] | null = null;
-let libraryCacheTimestamp: number = 0;
-let libraryFetchPromise: Promise<any[]> | null = null;
+// Cache state, keyed by instance URL so each Bookshelf instance has its own library
+interface LibraryCacheEntry {
+  data: any[];
+  timestamp: number;
+}
+
+const libraryCache = new Map<string, LibraryCacheEntry>();
+const libraryFetchPromises = new Map<string, Promise<any[]>>();
 
 const CACHE_DURATION = 60 * 1000; // 60 seconds
 
@@ -17,32 +21,34 @@ export async function fetchLibraryWithCache(
   config: BookshelfConfig
 ): Promise<any[]> {
   const now = Date.now();
+  const cacheKey = config.url;
 
   // Check if we have a valid cache
-  if (libraryCache && now - libraryCacheTimestamp < CACHE_DURATION) {
+  const cached = libraryCache.get(cacheKey);
+  if (cached && now - cached.timestamp < CACHE_DURATION) {
     logger.debug('Using cached Bookshelf library', {
-      count: libraryCache.length,
-      age: `${((now - libraryCacheTimestamp) / 1000).toFixed(1)}s`,
+      count: cached.data.length,
+      age: `${((now - cached.timestamp) / 1000).toFixed(1)}s`,
     });
-    return libraryCache;
+    return cached.data;
   }
 
   // Check if a fetch is already in progress
-  if (libraryFetchPromise) {
+  const inProgress = libraryFetchPromises.get(cacheKey);
+  if (inProgress) {
     logger.debug('Waiting for in-progress Bookshelf library fetch');
-    return libraryFetchPromise;
+    return inProgress;
   }
 
   // Start a new fetch
   logger.debug('Fetching fresh Bookshelf library');
 
-  libraryFetchPromise = (async () => {
+  const fetchPromise = (async () => {
     try {
       const data = await fetchWithTimeout<any[]>(config, '/api/v1/book');
 
       // Update cache
-      libraryCache = data;
-      libraryCacheTimestamp = Date.now();
+      libraryCache.set(cacheKey, { data, timestamp: Date.now() });
       logger.debug('Bookshelf library cache updated', { count: data.length });
 
       return data;
@@ -50,19 +56,19 @@ export async function fetchLibraryWithCache(
       logger.error('Failed to fetch books from Bookshelf library', { error: error instanceof Error ? error.message : error });
       return [];
     } finally {
-      libraryFetchPromise = null;
+      libraryFetchPromises.delete(cacheKey);
     }
   })();
 
-  return libraryFetchPromise;
+  libraryFetchPromises.set(cacheKey, fetchPromise);
+  return fetchPromise;
 }
 
 /**
  * Invalidate the library cache (useful after adding/removing books)
  */
 export function invalidateLibraryCache(): void {
-  libraryCache = null;
-  libraryCacheTimestamp = 0;
+  libraryCache.clear();
   logger.debug('Bookshelf library cache invalidated');
 }
 
@@ -74,13 +80,15 @@ export function getCacheStatus(): {
   age: number | null;
   count: number | null;
 } {
-  if (!libraryCache) {
+  const entries = Array.from(libraryCache.values());
+  if (entries.length === 0) {
     return { isCached: false, age: null, count: null };
   }
 
+  const oldest = Math.min(...entries.map((e) => e.timestamp));
   return {
     isCached: true,
-    age: Date.now() - libraryCacheTimestamp,
-    count: libraryCache.length,
+    age: Date.now() - oldest,
+    count: entries.reduce((sum, e) => sum + e.data.length, 0),
   };
 }
@@ -0,0 +1,21 @@
+import type { BookshelfConfig, ImportList } from '@/types/bookshelf.types';
+import { apiGet } from './api';
+import { logger } from '@/lib/utils/logger';
+
+/**
+ * Get the import lists configured in Bookshelf
+ */
+export async function getImportLists(config: BookshelfConfig): Promise<ImportList[]> {
+  try {
+    const lists = await apiGet<any[]>(config, '/api/v1/importlist');
+    return lists.map((list) => ({
+      id: list.id,
+      name: list.name,
+      enabled: list.enableAutomaticAdd !== false,
+      tags: Array.isArray(list.tags) ? list.tags : [],
+    }));
+  } catch (error) {
+    logger.error('Failed to get import lists from Bookshelf', { error: error instanceof Error ? error.message : error });
+    return [];
+  }
+}
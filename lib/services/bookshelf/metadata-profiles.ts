@@ -0,0 +1,92 @@
+import { logger } from '@/lib/utils/logger'
+import { db, bookshelfInstances, qualityProfileConfigs } from '@/lib/db'
+import { eq, and } from 'drizzle-orm'
+import type { BookshelfConfig, MetadataProfile } from '@/types/bookshelf.types'
+import { apiGet } from './api'
+
+/**
+ * Get metadata profiles from Bookshelf
+ */
+export async function getMetadataProfiles(
+  config: BookshelfConfig
+): Promise<MetadataProfile[]> {
+  try {
+    const profiles = await apiGet<MetadataProfile[]>(config, '/api/v1/metadataprofile')
+
+    logger.debug('Metadata profiles fetched', { count: profiles.length })
+    return profiles.map((p) => ({ id: p.id, name: p.name }))
+  } catch (error) {
+    logger.error('Failed to fetch metadata profiles', {
+      error: error instanceof Error ? error.message : String(error),
+      url: '/api/v1/metadataprofile',
+    })
+    return []
+  }
+}
+
+/**
+ * Set an instance's default metadata profile (null = first profile Bookshelf returns)
+ */
+export async function setDefaultMetadataProfile(instanceId: number, metadataProfileId: number | null) {
+  try {
+    await db
+      .update(bookshelfInstances)
+      .set({ defaultMetadataProfileId: metadataProfileId, updatedAt: new Date() })
+      .where(eq(bookshelfInstances.id, instanceId))
+
+    logger.info('Default metadata profile updated', { instanceId, metadataProfileId })
+  } catch (error) {
+    logger.error('Failed to update default metadata profile', { error: error instanceof Error ? error.message : error, instanceId })
+    throw error
+  }
+}
+
+/**
+ * Pick the metadata profile for a new author.
+ * Order: the profile mapped to the quality profile, then the instance default, then the first profile.
+ * Configured IDs that no longer exist in Bookshelf are skipped with a warning.
+ */
+export async function resolveMetadataProfileId(
+  config: BookshelfConfig,
+  qualityProfileId: number
+): Promise<number> {
+  const profiles = await getMetadataProfiles(config)
+  if (profiles.length === 0) {
+    throw new Error('No metadata profile configured in Bookshelf')
+  }
+
+  const candidates: { source: string; id: number | null }[] = []
+
+  if (config.instanceId) {
+    const mapped = await db
+      .select({ metadataProfileId: qualityProfileConfigs.metadataProfileId })
+      .from(qualityProfileConfigs)
+      .where(and(eq(qualityProfileConfigs.instanceId, config.instanceId), eq(qualityProfileConfigs.profileId, qualityProfileId)))
+      .limit(1)
+
+    const instance = await db
+      .select({ defaultMetadataProfileId: bookshelfInstances.defaultMetadataProfileId })
+      .from(bookshelfInstances)
+      .where(eq(bookshelfInstances.id, config.instanceId))
+      .limit(1)
+
+    candidates.push(
+      { source: 'quality profile', id: mapped[0]?.metadataProfileId ?? null },
+      { source: 'instance default', id: instance[0]?.defaultMetadataProfileId ?? null }
+    )
+  }
+
+  for (const candidate of candidates) {
+    if (candidate.id === null) continue
+    if (profiles.some((p) => p.id === candidate.id)) {
+      return candidate.id
+    }
+    logger.warn('Configured metadata profile no longer exists in Bookshelf', {
+      source: candidate.source,
+      metadataProfileId: candidate.id,
+      instanceId: config.instanceId,
+    })
+  }
+
+  return profiles[0].id
+}
@@ -1,6 +1,6 @@
 import { logger } from '@/lib/utils/logger'
 import { db, qualityProfileConfigs } from '@/lib/db'
-import { eq } from 'drizzle-orm'
+import { eq, and } from 'drizzle-orm'
 import type { BookshelfConfig, QualityProfile } from '@/types/bookshelf.types'
 import { apiGet } from './api'
 
@@ -31,6 +31,12 @@ export async function getQualityProfiles(
  * Creates/updates profile configs, maintains order for new profiles
  */
 export async function syncQualityProfiles(config: BookshelfConfig): Promise<void> {
+  const instanceId = config.instanceId
+  if (!instanceId) {
+    logger.warn('Cannot sync quality profiles without a Bookshelf instance')
+    return
+  }
+
   try {
     const profiles = await getQualityProfiles(config)
 
@@ -43,6 +49,7 @@ export async function syncQualityProfiles(config: BookshelfConfig): Promise<void
     const existingConfigs = await db
       .select()
       .from(qualityProfileConfigs)
+      .where(eq(qualityProfileConfigs.instanceId, instanceId))
       .orderBy(qualityProfileConfigs.orderIndex)
 
     const existingIds = new Set(existingConfigs.map(c => c.profileId))
@@ -60,11 +67,12 @@ export async function syncQualityProfiles(config: BookshelfConfig): Promise<void
             profileName: profile.name,
             updatedAt: new Date()
           })
-          .where(eq(qualityProfileConfigs.profileId, profile.id))
+          .where(and(eq(qualityProfileConfigs.instanceId, instanceId), eq(qualityProfileConfigs.profileId, profile.id)))
       } else {
         // Insert new profile with next order index
         maxOrderIndex++
         await db.insert(qualityProfileConfigs).values({
+          instanceId,
           profileId: profile.id,
           profileName: profile.name,
           enabled: true,
@@ -75,7 +83,7 @@ export async function syncQualityProfiles(config: BookshelfConfig): Promise<void
       }
     }
 
-    logger.info('Quality profiles synced', { count: profiles.length })
+    logger.info('Quality profiles synced', { count: profiles.length, instanceId })
   } catch (error) {
     logger.error('Failed to sync quality profiles', { error: error instanceof Error ? error.message : error })
     throw error
@@ -83,13 +91,14 @@ export async function syncQualityProfiles(config: BookshelfConfig): Promise<void
 }
 
 /**
- * Get all quality profile configurations (for admin management)
+ * Get all quality profile configurations for an instance (for admin management)
  */
-export async function getQualityProfileConfigs() {
+export async function getQualityProfileConfigs(instanceId: number) {
   try {
     const configs = await db
       .select()
       .from(qualityProfileConfigs)
+      .where(eq(qualityProfileConfigs.instanceId, instanceId))
       .orderBy(qualityProfileConfigs.orderIndex)
 
     return configs
@@ -100,14 +109,14 @@ export async function getQualityProfileConfigs() {
 }
 
 /**
- * Get enabled quality profiles in order (for request form dropdown)
+ * Get an instance's enabled quality profiles in order (for request form dropdown)
  */
-export async function getEnabledQualityProfiles() {
+export async function getEnabledQualityProfiles(instanceId: number) {
   try {
     const configs = await db
       .select()
       .from(qualityProfileConfigs)
-      .where(eq(qualityProfileConfigs.enabled, true))
+      .where(and(eq(qualityProfileConfigs.instanceId, instanceId), eq(qualityProfileConfigs.enabled, true)))
       .orderBy(qualityProfileConfigs.orderIndex)
 
     return configs.map(c => ({
@@ -124,36 +133,55 @@ export async function getEnabledQualityProfiles() {
  * Update quality profile configuration
  */
 export async function updateQualityProfileConfig(
+  instanceId: number,
   profileId: number,
-  updates: { enabled?: boolean; orderIndex?: number }
+  updates: { enabled?: boolean; orderIndex?: number; rootFolderPath?: string | null; metadataProfileId?: number | null }
 ) {
   try {
     await db
       .update(qualityProfileConfigs)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(qualityProfileConfigs.profileId, profileId))
+      .where(and(eq(qualityProfileConfigs.instanceId, instanceId), eq(qualityProfileConfigs.profileId, profileId)))
 
-    logger.info('Quality profile config updated', { profileId, updates })
+    logger.info('Quality profile config updated', { instanceId, profileId, updates })
   } catch (error) {
     logger.error('Failed to update quality profile config', { error: error instanceof Error ? error.message : error, profileId })
     throw error
   }
 }
 
+/**
+ * Get the root folder mapped to a quality profile, or null to use the instance's first root folder
+ */
+export async function getProfileRootFolder(instanceId: number, profileId: number): Promise<string | null> {
+  try {
+    const result = await db
+      .select({ rootFolderPath: qualityProfileConfigs.rootFolderPath })
+      .from(qualityProfileConfigs)
+      .where(and(eq(qualityProfileConfigs.instanceId, instanceId), eq(qualityProfileConfigs.profileId, profileId)))
+      .limit(1)
+
+    return result[0]?.rootFolderPath ?? null
+  } catch (error) {
+    logger.error('Failed to get quality profile root folder', { error: error instanceof Error ? error.message : error, profileId })
+    return null
+  }
+}
+
 /**
  * Reorder quality profiles
  */
-export async function reorderQualityProfiles(orderedProfileIds: number[]) {
+export async function reorderQualityProfiles(instanceId: number, orderedProfileIds: number[]) {
   try {
     // Update each profile's orderIndex based on position in array
     for (let i = 0; i < orderedProfileIds.length; i++) {
       await db
         .update(qualityProfileConfigs)
         .set({ orderIndex: i, updatedAt: new Date() })
-        .where(eq(qualityProfileConfigs.profileId, orderedProfileIds[i]))
+        .where(and(eq(qualityProfileConfigs.instanceId, instanceId), eq(qualityProfileConfigs.profileId, orderedProfileIds[i])))
     }
 
-    logger.info('Quality profiles reordered', { count: orderedProfileIds.length })
+    logger.info('Quality profiles reordered', { instanceId, count: orderedProfileIds.length })
   } catch (error) {
     logger.error('Failed to reorder quality profiles', { error: error instanceof Error ? error.message : error })
     throw error
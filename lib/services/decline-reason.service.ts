@@ -0,0 +1,121 @@
+import { db, settings, requests, archivedRequests } from '@/lib/db'
+import { count, eq } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+
+const DECLINE_REASONS_SETTING_KEY = 'decline_reasons'
+
+export interface DeclineReason {
+  id: string
+  label: string
+}
+
+export interface DeclineReasonCount {
+  reason: string | null // null when the request was declined without a reason
+  count: number
+}
+
+// Used until an admin saves their own list
+const DEFAULT_DECLINE_REASONS: DeclineReason[] = [
+  { id: 'already_owned', label: 'Already owned in another format' },
+  { id: 'not_available', label: 'Not available' },
+  { id: 'inappropriate', label: 'Inappropriate' },
+]
+
+export class DeclineReasonService {
+  /**
+   * Get the admin-managed decline reason templates
+   */
+  static async getReasons(): Promise<DeclineReason[]> {
+    try {
+      const result = await db
+        .select()
+        .from(settings)
+        .where(eq(settings.key, DECLINE_REASONS_SETTING_KEY))
+        .limit(1)
+
+      if (!result[0]?.value) {
+        return [...DEFAULT_DECLINE_REASONS]
+      }
+
+      return JSON.parse(result[0].value) as DeclineReason[]
+    } catch (error) {
+      logger.error('Failed to get decline reasons', { error: error instanceof Error ? error.message : error })
+      return [...DEFAULT_DECLINE_REASONS]
+    }
+  }
+
+  /**
+   * Get a single decline reason template by ID
+   */
+  static async getReason(id: string): Promise<DeclineReason | null> {
+    const reasons = await this.getReasons()
+    return reasons.find((r) => r.id === id) ?? null
+  }
+
+  /**
+   * Replace the decline reason templates. New templates (no ID) get one derived from their label.
+   * Declined requests keep the label they were declined with, so removing a template does not rewrite history.
+   */
+  static async updateReasons(reasons: { id?: string; label: string }[], updatedBy: number): Promise<DeclineReason[]> {
+    const used = new Set<string>()
+    const saved = reasons.map((reason) => {
+      const base = reason.id || reason.label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'reason'
+      let id = base
+      for (let i = 2; used.has(id); i++) {
+        id = `${base}_${i}`
+      }
+      used.add(id)
+      return { id, label: reason.label.trim() }
+    })
+
+    const now = new Date()
+    const value = JSON.stringify(saved)
+
+    await db
+      .insert(settings)
+      .values({
+        key: DECLINE_REASONS_SETTING_KEY,
+        value,
+        category: 'general',
+        updatedAt: now,
+        updatedBy,
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value,
+          updatedAt: now,
+          updatedBy,
+        },
+      })
+
+    logger.info('Decline reasons updated', { count: saved.length, updatedBy })
+    return saved
+  }
+
+  /**
+   * Count declined requests per reason, most used first. Archived requests are included so the
+   * numbers do not drop when declined requests are cleaned up.
+   */
+  static async getDeclineCounts(): Promise<DeclineReasonCount[]> {
+    const [active, archived] = await Promise.all([
+      db
+        .select({ reason: requests.declineReason, count: count() })
+        .from(requests)
+        .where(eq(requests.status, 'declined'))
+        .groupBy(requests.declineReason),
+      db
+        .select({ reason: archivedRequests.declineReason, count: count() })
+        .from(archivedRequests)
+        .where(eq(archivedRequests.status, 'declined'))
+        .groupBy(archivedRequests.declineReason),
+    ])
+
+    const totals = new Map<string | null, number>()
+    for (const row of [...active, ...archived]) {
+      totals.set(row.reason, (totals.get(row.reason) ?? 0) + row.count)
+    }
+
+    return Array.from(totals, ([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count)
+  }
+}
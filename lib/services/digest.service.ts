@@ -0,0 +1,262 @@
+import { db, notifications, requests, syncJobs, userNotificationSettings, users } from '@/lib/db'
+import { and, count, desc, eq, gte, inArray, isNull, lt, ne, notInArray, or, sql } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { BookService } from './book.service'
+import { MailService } from './mail.service'
+import type { NotificationType } from './notification.service'
+import { formatDigest, isDigestEmpty, type Digest, type DigestFrequency, type DigestRequest } from './notifications/digest'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+}
+
+// Admin notifications already covered by the digest's admin sections
+const ADMIN_SECTION_TYPES: NotificationType[] = ['request_submitted', 'bookshelf_error', 'request_error']
+
+// Keep each section readable; anything beyond this is still in the app
+const SECTION_LIMIT = 25
+
+// Owner of the requests the library sync imports; they are not new requests anyone made
+const SYSTEM_SYNC_USERNAME = 'system_sync'
+
+interface DigestRecipient {
+  userId: number
+  role: 'admin' | 'user'
+  email: string
+  digestFrequency: 'off' | DigestFrequency
+  lastDigestSentAt: Date | null
+}
+
+export class DigestService {
+  /**
+   * Send every digest that has come due. Daily digests go out once a day at the send hour
+   * (server local time); weekly digests go out on the same hour seven days after the last one.
+   */
+  static async sendDueDigests(sendHour: number, now: Date = new Date()): Promise<number> {
+    const recipients = await this.getRecipients()
+    const due = recipients.filter((recipient) => this.isDue(recipient, sendHour, now))
+    if (due.length === 0) return 0
+
+    if (!(await MailService.getServerSettings())) {
+      logger.warn('Skipping email digests: no SMTP server configured', { due: due.length })
+      return 0
+    }
+
+    let sent = 0
+    for (const recipient of due) {
+      const frequency = recipient.digestFrequency as DigestFrequency
+      const since = recipient.lastDigestSentAt ?? new Date(now.getTime() - PERIOD_MS[frequency])
+
+      try {
+        const digest = await this.buildDigest(recipient, frequency, since, now)
+
+        if (!isDigestEmpty(digest)) {
+          await MailService.send({ to: [recipient.email], ...formatDigest(digest) })
+          sent++
+        }
+
+        // Quiet periods still move the window on, so the next digest does not repeat them
+        await db
+          .update(userNotificationSettings)
+          .set({ lastDigestSentAt: now })
+          .where(eq(userNotificationSettings.userId, recipient.userId))
+      } catch (error) {
+        logger.error('Failed to send email digest', {
+          userId: recipient.userId,
+          error: error instanceof Error ? error.message : error,
+        })
+      }
+    }
+
+    logger.info('Email digests sent', { due: due.length, sent })
+    return sent
+  }
+
+  /**
+   * Email a user their digest for the last period right away, even if it is empty, without moving the
+   * scheduled window. Throws with the delivery error so the settings page can show it.
+   */
+  static async sendPreview(userId: number): Promise<void> {
+    const recipient = (await this.getRecipients(userId))[0]
+    if (!recipient) {
+      throw new Error('User not found')
+    }
+
+    const frequency = recipient.digestFrequency === 'off' ? 'daily' : recipient.digestFrequency
+    const now = new Date()
+    const digest = await this.buildDigest(recipient, frequency, new Date(now.getTime() - PERIOD_MS[frequency]), now)
+
+    await MailService.send({ to: [recipient.email], ...formatDigest(digest) })
+    logger.info('Email digest preview sent', { userId })
+  }
+
+  /**
+   * Gather what happened between since and until: the user's own notifications, plus for admins the
+   * requests made in the period (with their current status), books that became available, errors and
+   * a summary of library syncs
+   */
+  static async buildDigest(
+    recipient: Pick<DigestRecipient, 'userId' | 'role'>,
+    frequency: DigestFrequency,
+    since: Date,
+    until: Date
+  ): Promise<Digest> {
+    const isAdmin = recipient.role === 'admin'
+    const inWindow = and(
+      eq(notifications.userId, recipient.userId),
+      gte(notifications.createdAt, since),
+      lt(notifications.createdAt, until)
+    )
+
+    const userNotifications = await db
+      .select({ title: notifications.title, message: notifications.message, createdAt: notifications.createdAt })
+      .from(notifications)
+      .where(isAdmin ? and(inWindow, notInArray(notifications.type, ADMIN_SECTION_TYPES)) : inWindow)
+      .orderBy(desc(notifications.createdAt))
+      .limit(SECTION_LIMIT)
+
+    if (!isAdmin) {
+      return { frequency, since, until, notifications: userNotifications, admin: null }
+    }
+
+    const syncInWindow = and(gte(syncJobs.startedAt, since), lt(syncJobs.startedAt, until))
+
+    const [pending, newRequests, available, errors, syncCounts, lastSync, failedSyncs] = await Promise.all([
+      db.select({ count: count() }).from(requests).where(eq(requests.status, 'pending')),
+      this.getRequests(
+        and(
+          gte(requests.requestedAt, since),
+          lt(requests.requestedAt, until),
+          or(isNull(users.username), ne(users.username, SYSTEM_SYNC_USERNAME))
+        ),
+        'requestedAt'
+      ),
+      this.getRequests(
+        and(
+          inArray(requests.status, ['available', 'Available']),
+          gte(requests.completedAt, since),
+          lt(requests.completedAt, until)
+        ),
+        'completedAt'
+      ),
+      db
+        .select({ title: notifications.title, message: notifications.message, createdAt: notifications.createdAt })
+        .from(notifications)
+        .where(and(inWindow, inArray(notifications.type, ['bookshelf_error', 'request_error'])))
+        .orderBy(desc(notifications.createdAt))
+        .limit(SECTION_LIMIT),
+      // Scheduled syncs run many times a period, so they are summarised rather than listed
+      db
+        .select({
+          total: count(),
+          failed: sql<number>`coalesce(sum(case when ${syncJobs.status} = 'error' then 1 else 0 end), 0)`,
+        })
+        .from(syncJobs)
+        .where(syncInWindow),
+      db.select().from(syncJobs).where(syncInWindow).orderBy(desc(syncJobs.startedAt)).limit(1),
+      db
+        .select()
+        .from(syncJobs)
+        .where(and(syncInWindow, eq(syncJobs.status, 'error')))
+        .orderBy(desc(syncJobs.startedAt))
+        .limit(SECTION_LIMIT),
+    ])
+
+    const toDigestSyncJob = (job: typeof syncJobs.$inferSelect) => ({
+      id: job.id,
+      status: job.status,
+      dryRun: job.dryRun,
+      processedBooks: job.processedBooks,
+      totalBooks: job.totalBooks,
+      startedAt: job.startedAt,
+      summary: job.currentLogMessage,
+    })
+
+    return {
+      frequency,
+      since,
+      until,
+      notifications: userNotifications,
+      admin: {
+        pendingCount: pending[0]?.count ?? 0,
+        newRequests,
+        available,
+        errors,
+        syncs: {
+          total: syncCounts[0]?.total ?? 0,
+          failed: Number(syncCounts[0]?.failed ?? 0),
+          lastRun: lastSync[0] ? toDigestSyncJob(lastSync[0]) : null,
+          failures: failedSyncs.map(toDigestSyncJob),
+        },
+      },
+    }
+  }
+
+  private static async getRequests(
+    where: ReturnType<typeof and>,
+    dateField: 'requestedAt' | 'completedAt'
+  ): Promise<DigestRequest[]> {
+    const rows = await db
+      .select({
+        id: requests.id,
+        bookId: requests.bookId,
+        requestedAt: requests.requestedAt,
+        completedAt: requests.completedAt,
+        status: requests.status,
+        username: users.username,
+      })
+      .from(requests)
+      .leftJoin(users, eq(requests.userId, users.id))
+      .where(where)
+      .orderBy(desc(requests[dateField]))
+      .limit(SECTION_LIMIT)
+
+    const booksMap = await BookService.getBooksByIds(rows.map((row) => row.bookId))
+
+    return rows.map((row) => {
+      const book = booksMap.get(row.bookId)
+      return {
+        id: row.id,
+        bookTitle: book?.title || 'Unknown Book',
+        bookAuthor: book?.author || 'Unknown Author',
+        requestedBy: row.username || 'Unknown User',
+        status: row.status,
+        at: row[dateField] ?? row.requestedAt,
+      }
+    })
+  }
+
+  private static async getRecipients(userId?: number): Promise<DigestRecipient[]> {
+    const rows = await db
+      .select({
+        userId: users.id,
+        role: users.role,
+        email: users.email,
+        digestFrequency: userNotificationSettings.digestFrequency,
+        lastDigestSentAt: userNotificationSettings.lastDigestSentAt,
+      })
+      .from(users)
+      .leftJoin(userNotificationSettings, eq(userNotificationSettings.userId, users.id))
+      .where(userId !== undefined ? eq(users.id, userId) : ne(userNotificationSettings.digestFrequency, 'off'))
+
+    return rows.map((row) => ({ ...row, digestFrequency: row.digestFrequency ?? 'off' }))
+  }
+
+  private static isDue(recipient: DigestRecipient, sendHour: number, now: Date): boolean {
+    if (recipient.digestFrequency === 'off') return false
+
+    const sendTime = new Date(now)
+    sendTime.setHours(sendHour, 0, 0, 0)
+    if (now < sendTime) return false
+    if (!recipient.lastDigestSentAt) return true
+
+    // A weekly digest is due once the last one went out before the send time six days ago
+    const threshold = recipient.digestFrequency === 'weekly'
+      ? sendTime.getTime() - 6 * DAY_MS
+      : sendTime.getTime()
+    return recipient.lastDigestSentAt.getTime() < threshold
+  }
+}
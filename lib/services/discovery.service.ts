@@ -0,0 +1,278 @@
+import { db, settings, requests, libraryBooks } from '@/lib/db'
+import { eq, sql } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import type { Book } from '@/types/bookinfo'
+import type { BookshelfConfig, ReadarrAuthor, ReadarrBook } from '@/types/bookshelf.types'
+import { BookService } from './book.service'
+import { BookshelfService } from './bookshelf.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { ReadarrService } from './readarr.service'
+import { extractSeries } from '@/lib/utils/series'
+
+const CACHE_SETTING_KEY = 'discovery_cache'
+const CACHED_LIST_SIZE = 50
+
+// New releases: published within the last 6 months (same window as personalized recommendations)
+const NEW_RELEASE_WINDOW_DAYS = 180
+
+export type DiscoverySource = 'import-list' | 'library' | 'cache'
+
+interface DiscoveryCandidate {
+  book: Book
+  source: DiscoverySource
+  votes: number
+  owned: boolean // Already has files in a library
+}
+
+interface DiscoveryCache {
+  refreshedAt: string
+  popular: Book[]
+  newReleases: Book[]
+}
+
+/**
+ * Map a Readarr library book to the Book shape used by the discover grids
+ */
+export function mapLibraryBook(book: ReadarrBook, authorNames: Map<number, string>): Book {
+  const author = book.author?.authorName || (book.authorId && authorNames.get(book.authorId)) || 'Unknown Author'
+  let coverImage = book.images?.find((img) => img.coverType === 'cover')?.remoteUrl
+    || book.images?.[0]?.remoteUrl
+    || undefined
+  if (coverImage === 'null') coverImage = undefined
+  const seriesInfo = extractSeries(book)
+
+  return {
+    id: String(book.foreignBookId),
+    foreignBookId: String(book.foreignBookId),
+    title: book.title?.replace(/\s+by\s+.+$/i, '').trim() || 'Unknown Title',
+    author,
+    authors: [author],
+    description: book.overview || undefined,
+    coverImage,
+    pageCount: book.pageCount || undefined,
+    publishedDate: book.releaseDate || undefined,
+    rating: book.ratings?.value || 0,
+    genres: Array.isArray(book.genres) ? book.genres : [],
+    series: seriesInfo?.series,
+    seriesPosition: seriesInfo?.seriesPosition,
+  }
+}
+
+export class DiscoveryService {
+  /**
+   * Rebuild the cached Popular and New Releases lists.
+   * Sources, in order of preference when the same book appears more than once:
+   * books Readarr import lists added (authors carrying a list's tag), the rest of each Readarr library,
+   * then the local book cache. The local library mirror fills in books from unreachable instances.
+   * Popular only lists books nobody has yet, so it points at import-list picks still missing from the library.
+   */
+  static async refresh(): Promise<DiscoveryCache> {
+    const candidates = new Map<string, DiscoveryCandidate>()
+    const add = (candidate: DiscoveryCandidate) => {
+      if (!candidate.book.id || candidates.has(candidate.book.id)) return
+      candidates.set(candidate.book.id, candidate)
+    }
+
+    const configs = await BookshelfInstanceService.getConfigs()
+    for (const config of configs) {
+      try {
+        for (const candidate of await this.getInstanceCandidates(config)) {
+          add(candidate)
+        }
+      } catch (error) {
+        logger.error('Failed to load discovery candidates from Bookshelf', {
+          error: error instanceof Error ? error.message : error,
+          instanceId: config.instanceId,
+        })
+      }
+    }
+
+    for (const book of await BookService.getRecentCachedBooks()) {
+      add({ book, source: 'cache', votes: 0, owned: false })
+    }
+
+    // Library mirror rows the live fetch missed (e.g. an instance was offline); these only rank by request count
+    const mirrored = await db
+      .select({
+        foreignBookId: libraryBooks.foreignBookId,
+        title: libraryBooks.title,
+        authorName: libraryBooks.authorName,
+        status: libraryBooks.status,
+      })
+      .from(libraryBooks)
+    const ownedIds = new Set(mirrored.filter((row) => row.status === 'available').map((row) => row.foreignBookId))
+    for (const row of mirrored) {
+      if (!row.title) continue
+      const author = row.authorName || 'Unknown Author'
+      add({
+        book: { id: row.foreignBookId, foreignBookId: row.foreignBookId, title: row.title, author, authors: [author], genres: [] },
+        source: 'library',
+        votes: 0,
+        owned: row.status === 'available',
+      })
+    }
+
+    const requestCounts = await this.getRequestCounts()
+    const all = Array.from(candidates.values())
+
+    const popular = all
+      .filter((candidate) => !candidate.owned && !ownedIds.has(candidate.book.id))
+      .map((candidate) => ({ candidate, score: this.popularityScore(candidate, requestCounts.get(candidate.book.id) || 0) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, CACHED_LIST_SIZE)
+      .map(({ candidate }) => candidate.book)
+
+    const now = Date.now()
+    const windowStart = now - NEW_RELEASE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    const newReleases = all
+      .map((candidate) => ({ candidate, published: new Date(candidate.book.publishedDate || '').getTime() }))
+      .filter(({ published }) => !isNaN(published) && published >= windowStart && published <= now)
+      .sort((a, b) => {
+        // Newest first; import-list books win ties
+        if (b.published !== a.published) return b.published - a.published
+        return Number(b.candidate.source === 'import-list') - Number(a.candidate.source === 'import-list')
+      })
+      .slice(0, CACHED_LIST_SIZE)
+      .map(({ candidate }) => candidate.book)
+
+    const cache: DiscoveryCache = {
+      refreshedAt: new Date().toISOString(),
+      popular,
+      newReleases,
+    }
+
+    await db
+      .insert(settings)
+      .values({
+        key: CACHE_SETTING_KEY,
+        value: JSON.stringify(cache),
+        category: 'general',
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value: JSON.stringify(cache),
+          updatedAt: new Date(),
+        },
+      })
+
+    logger.info('Discovery lists refreshed', {
+      candidates: all.length,
+      importListBooks: all.filter((c) => c.source === 'import-list').length,
+      popular: popular.length,
+      newReleases: newReleases.length,
+    })
+
+    return cache
+  }
+
+  /**
+   * Get popular books with current library badges, building the cache on first use.
+   * Books that became available since the last refresh are left out.
+   */
+  static async getPopularBooks(limit = 20): Promise<Book[]> {
+    const cache = await this.getCache()
+    const annotated = await ReadarrService.annotateLibraryState(cache.popular)
+    return annotated.filter((book) => book.mimirrState !== 'Available').slice(0, limit)
+  }
+
+  /**
+   * Get new releases with current library badges, building the cache on first use
+   */
+  static async getNewReleases(limit = 20): Promise<Book[]> {
+    const cache = await this.getCache()
+    return ReadarrService.annotateLibraryState(cache.newReleases.slice(0, limit))
+  }
+
+  /**
+   * Get every book in the last discovery refresh without triggering a new one
+   */
+  static async getCachedBooks(): Promise<Book[]> {
+    const cache = await this.readCache()
+    if (!cache) return []
+
+    return Array.from(new Map([...cache.popular, ...cache.newReleases].map((b) => [b.id, b])).values())
+  }
+
+  private static async readCache(): Promise<DiscoveryCache | null> {
+    try {
+      const result = await db
+        .select()
+        .from(settings)
+        .where(eq(settings.key, CACHE_SETTING_KEY))
+        .limit(1)
+
+      return result[0] ? (JSON.parse(result[0].value) as DiscoveryCache) : null
+    } catch (error) {
+      logger.error('Failed to read discovery cache', { error: error instanceof Error ? error.message : error })
+      return null
+    }
+  }
+
+  private static async getCache(): Promise<DiscoveryCache> {
+    const cache = await this.readCache()
+    if (cache) return cache
+
+    try {
+      return await this.refresh()
+    } catch (error) {
+      logger.error('Failed to build discovery cache', { error: error instanceof Error ? error.message : error })
+      return { refreshedAt: new Date().toISOString(), popular: [], newReleases: [] }
+    }
+  }
+
+  /**
+   * Load an instance's library, flagging books whose author was added by an import list and books that have files
+   */
+  private static async getInstanceCandidates(config: BookshelfConfig): Promise<DiscoveryCandidate[]> {
+    const [lists, authors, books] = await Promise.all([
+      BookshelfService.getImportLists(config),
+      BookshelfService.getLibraryAuthors(config) as Promise<ReadarrAuthor[]>,
+      BookshelfService.getLibraryBooks(config) as Promise<ReadarrBook[]>,
+    ])
+
+    const listTags = new Set(lists.filter((l) => l.enabled).flatMap((l) => l.tags))
+    const listAuthorIds = new Set(
+      authors
+        .filter((a) => Array.isArray(a.tags) && a.tags.some((t) => listTags.has(t)))
+        .map((a) => a.id)
+    )
+    const authorNames = new Map<number, string>(authors.map((a) => [a.id, a.authorName || '']))
+
+    const candidates = books
+      .filter((b) => b.foreignBookId)
+      .map((b) => ({
+        book: mapLibraryBook(b, authorNames),
+        source: (b.authorId && listAuthorIds.has(b.authorId) ? 'import-list' : 'library') as DiscoverySource,
+        votes: b.ratings?.votes || 0,
+        owned: (b.statistics?.bookFileCount ?? 0) > 0 || b.hasFile === true,
+      }))
+
+    // Import-list books first so they win deduplication across instances
+    return candidates.sort((a, b) => Number(b.source === 'import-list') - Number(a.source === 'import-list'))
+  }
+
+  /**
+   * Count requests per book across all users (Mimirr's own popularity signal)
+   */
+  private static async getRequestCounts(): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ bookId: requests.bookId, count: sql<number>`count(*)` })
+      .from(requests)
+      .groupBy(requests.bookId)
+
+    return new Map(rows.map((r) => [r.bookId, Number(r.count)]))
+  }
+
+  /**
+   * Rating weighted by how many people rated it, plus local requests, boosted for import-list books
+   */
+  private static popularityScore(candidate: DiscoveryCandidate, requestCount: number): number {
+    const rating = candidate.book.rating || 0
+    let score = rating * Math.log10(candidate.votes + 10) + requestCount * 2
+    if (candidate.source === 'import-list') score *= 1.5
+    return score
+  }
+}
@@ -0,0 +1,159 @@
+import { db, settings } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { encrypt, decrypt } from '@/lib/crypto'
+import type { SmtpServerInput } from '@/lib/utils/validation'
+import { sendMail } from './notifications/smtp'
+
+const SMTP_SERVER_SETTING_KEY = 'smtp_server'
+
+export interface SmtpServerSettings {
+  host: string
+  port: number
+  security: 'none' | 'starttls' | 'tls'
+  username?: string
+  password?: string
+  from: string
+}
+
+export interface SmtpServerSettingsView extends Omit<SmtpServerSettings, 'password'> {
+  hasPassword: boolean
+}
+
+/**
+ * The server-wide SMTP server Mimirr uses for email sent to users (personal notification emails and digests).
+ * Admin email channels carry their own SMTP settings and do not use this.
+ */
+export class MailService {
+  /**
+   * Whether the SMTP_* environment variables are set, replacing the saved settings
+   */
+  static isEnvironmentOverride(): boolean {
+    return !!process.env.SMTP_HOST
+  }
+
+  /**
+   * Get the SMTP server to send through: the environment override if set, otherwise the saved settings.
+   * Returns null if neither is configured.
+   */
+  static async getServerSettings(): Promise<SmtpServerSettings | null> {
+    return this.getEnvironmentSettings() ?? (await this.getSavedSettings())
+  }
+
+  /**
+   * Get the saved SMTP server settings for the settings page, without the password
+   */
+  static async getServerSettingsView(): Promise<SmtpServerSettingsView | null> {
+    const server = await this.getSavedSettings()
+    if (!server) return null
+
+    const { password, ...rest } = server
+    return { ...rest, hasPassword: !!password }
+  }
+
+  /**
+   * Save the SMTP server settings. An omitted password keeps the saved one.
+   */
+  static async updateServerSettings(data: SmtpServerInput, updatedBy: number): Promise<SmtpServerSettingsView> {
+    const existing = await this.getSavedSettings()
+    const password = data.password || existing?.password
+
+    const stored: SmtpServerSettings = {
+      host: data.host,
+      port: data.port,
+      security: data.security,
+      username: data.username || undefined,
+      password: password ? encrypt(password) : undefined,
+      from: data.from,
+    }
+
+    const now = new Date()
+    const value = JSON.stringify(stored)
+
+    await db
+      .insert(settings)
+      .values({
+        key: SMTP_SERVER_SETTING_KEY,
+        value,
+        category: 'general',
+        updatedAt: now,
+        updatedBy,
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value,
+          updatedAt: now,
+          updatedBy,
+        },
+      })
+
+    logger.info('SMTP server settings updated', { host: data.host, updatedBy })
+
+    const { password: _, ...rest } = stored
+    return { ...rest, hasPassword: !!password }
+  }
+
+  /**
+   * Send an email through the SMTP server. Throws if no server is configured or delivery fails.
+   */
+  static async send(message: { to: string[]; subject: string; text: string; html?: string }): Promise<void> {
+    const server = await this.getServerSettings()
+    if (!server) {
+      throw new Error('No SMTP server configured')
+    }
+
+    await sendMail(
+      {
+        host: server.host,
+        port: server.port,
+        security: server.security,
+        username: server.username,
+        password: server.password,
+      },
+      { from: server.from, ...message }
+    )
+
+    logger.info('Email sent', { recipients: message.to.length, subject: message.subject })
+  }
+
+  /**
+   * SMTP settings from the environment, so a deployment or a local test sink (such as Mailpit on port 1025
+   * with SMTP_SECURITY=none) can be used without going through the settings page
+   */
+  private static getEnvironmentSettings(): SmtpServerSettings | null {
+    const host = process.env.SMTP_HOST
+    if (!host) return null
+
+    const security = process.env.SMTP_SECURITY
+    return {
+      host,
+      port: parseInt(process.env.SMTP_PORT || '587', 10) || 587,
+      security: security === 'none' || security === 'tls' ? security : 'starttls',
+      username: process.env.SMTP_USERNAME || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from: process.env.SMTP_FROM || `Mimirr <mimirr@${host}>`,
+    }
+  }
+
+  /**
+   * Get the saved SMTP server settings with the password decrypted, or null if none are saved
+   */
+  private static async getSavedSettings(): Promise<SmtpServerSettings | null> {
+    try {
+      const result = await db
+        .select()
+        .from(settings)
+        .where(eq(settings.key, SMTP_SERVER_SETTING_KEY))
+        .limit(1)
+
+      if (!result[0]?.value) return null
+
+      const stored = JSON.parse(result[0].value) as SmtpServerSettings
+      return { ...stored, password: stored.password ? decrypt(stored.password) : undefined }
+    } catch (error) {
+      logger.error('Failed to get SMTP server settings', { error: error instanceof Error ? error.message : error })
+      return null
+    }
+  }
+}
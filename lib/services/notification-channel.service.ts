@@ -0,0 +1,142 @@
+import { db, notificationChannels, type NotificationChannel } from '@/lib/db'
+import { asc, eq } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import type { NotificationChannelInput } from '@/lib/utils/validation'
+import type { NotificationType } from './notification.service'
+import { buildTestMessage, sendToChannel } from './notifications/channels'
+import type { ChannelConfig, ChannelConfigMap, ChannelType, NotificationMessage } from './notifications/types'
+
+export interface ParsedNotificationChannel extends Omit<NotificationChannel, 'config' | 'events'> {
+  config: ChannelConfig
+  events: NotificationType[]
+}
+
+export class NotificationChannelService {
+  /**
+   * List all notification channels
+   */
+  static async getChannels(): Promise<ParsedNotificationChannel[]> {
+    const channels = await db.select().from(notificationChannels).orderBy(asc(notificationChannels.id))
+    return channels.map((channel) => this.parse(channel))
+  }
+
+  /**
+   * Get a single notification channel by ID
+   */
+  static async getChannel(channelId: number): Promise<ParsedNotificationChannel | null> {
+    const result = await db
+      .select()
+      .from(notificationChannels)
+      .where(eq(notificationChannels.id, channelId))
+      .limit(1)
+
+    return result[0] ? this.parse(result[0]) : null
+  }
+
+  /**
+   * Add a notification channel
+   */
+  static async createChannel(data: NotificationChannelInput): Promise<ParsedNotificationChannel> {
+    const result = await db
+      .insert(notificationChannels)
+      .values({
+        name: data.name,
+        type: data.type,
+        enabled: data.enabled,
+        config: JSON.stringify(data.config),
+        events: JSON.stringify(data.events),
+      })
+      .returning()
+
+    logger.info('Notification channel created', { channelId: result[0].id, type: data.type })
+    return this.parse(result[0])
+  }
+
+  /**
+   * Replace a notification channel's settings
+   */
+  static async updateChannel(channelId: number, data: NotificationChannelInput): Promise<ParsedNotificationChannel | null> {
+    const result = await db
+      .update(notificationChannels)
+      .set({
+        name: data.name,
+        type: data.type,
+        enabled: data.enabled,
+        config: JSON.stringify(data.config),
+        events: JSON.stringify(data.events),
+        updatedAt: new Date(),
+      })
+      .where(eq(notificationChannels.id, channelId))
+      .returning()
+
+    if (result.length === 0) return null
+
+    logger.info('Notification channel updated', { channelId, type: data.type })
+    return this.parse(result[0])
+  }
+
+  /**
+   * Remove a notification channel
+   */
+  static async deleteChannel(channelId: number): Promise<boolean> {
+    const result = await db
+      .delete(notificationChannels)
+      .where(eq(notificationChannels.id, channelId))
+      .returning({ id: notificationChannels.id })
+
+    if (result.length > 0) {
+      logger.info('Notification channel deleted', { channelId })
+    }
+    return result.length > 0
+  }
+
+  /**
+   * Send a test notification through a channel configuration, saved or not.
+   * Throws with the provider's error so the settings page can show it.
+   */
+  static async testChannel<T extends ChannelType>(type: T, config: ChannelConfigMap[T]): Promise<void> {
+    await sendToChannel(type, config, buildTestMessage())
+    logger.info('Test notification sent', { type })
+  }
+
+  /**
+   * Fan a notification out to every enabled channel subscribed to its type.
+   * Channels are independent: one failing never stops the others.
+   */
+  static async dispatch(message: NotificationMessage): Promise<void> {
+    let channels: ParsedNotificationChannel[]
+    try {
+      channels = (await this.getChannels()).filter(
+        (channel) => channel.enabled && channel.events.includes(message.type)
+      )
+    } catch (error) {
+      logger.error('Failed to load notification channels', { error: error instanceof Error ? error.message : error })
+      return
+    }
+
+    const results = await Promise.allSettled(
+      channels.map((channel) => sendToChannel(channel.type, channel.config, message))
+    )
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        logger.error('Failed to send channel notification', {
+          channelId: channels[i].id,
+          channel: channels[i].name,
+          type: message.type,
+          error: result.reason instanceof Error ? result.reason.message : result.reason,
+        })
+      } else {
+        logger.info('Channel notification sent', { channelId: channels[i].id, type: message.type })
+      }
+    })
+  }
+
+  private static parse(channel: NotificationChannel): ParsedNotificationChannel {
+    return {
+      ...channel,
+      config: JSON.parse(channel.config) as ChannelConfig,
+      events: JSON.parse(channel.events) as NotificationType[],
+    }
+  }
+}
@@ -1,7 +1,12 @@
-import { db, notificationSettings, notifications, users } from '@/lib/db'
-import { eq, desc, and } from 'drizzle-orm'
+import { db, notificationSettings, notifications, settings, users, type Notification } from '@/lib/db'
+import { eq, desc, and, count, inArray, lt } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
 import type { NewNotification } from '@/lib/db/schema'
+import type { NotificationRetentionInput } from '@/lib/utils/validation'
+import { NotificationChannelService } from './notification-channel.service'
+import { RealtimeService } from './realtime.service'
+import { UserNotificationService } from './user-notification.service'
+import type { NotificationMessage } from './notifications/types'
 
 export type NotificationType =
   | 'request_approved'
@@ -10,6 +15,23 @@ export type NotificationType =
   | 'request_submitted'
   | 'bookshelf_error'
   | 'request_error'
+  | 'author_new_release'
+  | 'request_comment'
+
+const RETENTION_SETTING_KEY = 'notification_retention'
+
+// Days notifications are kept once read, and while still unread (0 = keep forever)
+export interface NotificationRetentionPolicy {
+  readDays: number
+  unreadDays: number
+}
+
+const DEFAULT_RETENTION: NotificationRetentionPolicy = { readDays: 90, unreadDays: 0 }
+
+export interface NotificationPage {
+  notifications: Notification[]
+  nextCursor: number | null
+}
 
 interface DiscordEmbed {
   title: string
@@ -60,6 +82,7 @@ export class NotificationService {
     notifyRequestAvailable?: boolean
     notifyRequestSubmitted?: boolean
     notifyBookshelfError?: boolean
+    notifyRequestComment?: boolean
   }) {
     try {
       const settings = await this.getSettings()
@@ -95,6 +118,9 @@ export class NotificationService {
       if (typeof data.notifyBookshelfError === 'boolean') {
         updateData.notifyBookshelfError = data.notifyBookshelfError
       }
+      if (typeof data.notifyRequestComment === 'boolean') {
+        updateData.notifyRequestComment = data.notifyRequestComment
+      }
 
       if (!settings) {
         // Create settings if they don't exist
@@ -135,7 +161,8 @@ export class NotificationService {
     bookCoverImage: string | undefined,
     requestedBy: string,
     status: string,
-    format: string
+    format: string,
+    details: { name: string; value: string }[] = []
   ): Promise<boolean> {
     try {
       const settings = await this.getSettings()
@@ -169,6 +196,7 @@ export class NotificationService {
           { name: 'Requested By', value: requestedBy, inline: true },
           { name: 'Request Status', value: status, inline: true },
           { name: 'Requested Format', value: format, inline: true },
+          ...details.map((detail) => ({ ...detail, inline: false })),
         ],
       }
 
@@ -205,6 +233,51 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a notification to Discord and every other enabled notification channel
+   */
+  static async sendExternalNotification(
+    type: NotificationType,
+    notificationTitle: string,
+    bookTitle: string,
+    bookAuthor: string,
+    bookDescription: string,
+    bookCoverImage: string | undefined,
+    requestedBy: string,
+    status: string,
+    format: string,
+    link?: string,
+    details: { name: string; value: string }[] = []
+  ): Promise<void> {
+    await Promise.all([
+      this.sendDiscordNotification(
+        type,
+        notificationTitle,
+        bookTitle,
+        bookAuthor,
+        bookDescription,
+        bookCoverImage,
+        requestedBy,
+        status,
+        format,
+        details
+      ),
+      NotificationChannelService.dispatch({
+        type,
+        title: notificationTitle,
+        bookTitle,
+        bookAuthor,
+        description: bookDescription,
+        coverImage: bookCoverImage,
+        requestedBy,
+        status,
+        format,
+        details,
+        link,
+      }),
+    ])
+  }
+
   /**
    * Create in-app notification
    */
@@ -224,8 +297,10 @@ export class NotificationService {
         link,
       }
 
-      await db.insert(notifications).values(notification)
+      const created = await db.insert(notifications).values(notification).returning()
       logger.info('In-app notification created', { userId, type, title })
+
+      RealtimeService.publish({ type: 'notification', userId, notification: created[0] })
     } catch (error) {
       logger.error('Failed to create in-app notification', { error: error instanceof Error ? error.message : error, userId, type })
       throw error
@@ -233,7 +308,44 @@ export class NotificationService {
   }
 
   /**
-   * Send notification (both Discord and in-app)
+   * Deliver a notification to one user: in-app and on their personal channels.
+   * Skipped when the user has turned the event off. Personal channels also need the event
+   * enabled in the admin notification settings, like every other external channel.
+   * Returns once the in-app notification exists; personal channels are sent in the background.
+   */
+  static async notifyUser(
+    userId: number,
+    type: NotificationType,
+    title: string,
+    inAppMessage: string,
+    link: string | undefined,
+    message: NotificationMessage
+  ): Promise<void> {
+    const preferences = await UserNotificationService.getPreferences(userId)
+    if (!UserNotificationService.isEventEnabled(preferences, type)) {
+      logger.debug('User has turned this notification type off', { userId, type })
+      return
+    }
+
+    await this.createNotification(userId, type, title, inAppMessage, link)
+
+    if (!preferences.emailEnabled && !preferences.ntfyEnabled) return
+
+    // New releases from followed authors have no admin switch; they only ever go to the follower
+    const settings = await this.getSettings()
+    if (settings && type !== 'author_new_release' && !this.isNotificationTypeEnabled(type, settings)) {
+      return
+    }
+
+    // A slow mail relay or push server must not hold up the caller
+    UserNotificationService.sendToPersonalChannels(userId, preferences, message).catch((error) =>
+      logger.error('Failed to send personal notifications', { error: error instanceof Error ? error.message : error, userId, type })
+    )
+  }
+
+  /**
+   * Send notification (Discord, other notification channels and in-app).
+   * In-app notifications are created before this returns; external channels are sent in the background.
    */
   static async sendNotification(
     userId: number | number[], // Can be single user or array for admins
@@ -246,22 +358,10 @@ export class NotificationService {
     requestedBy: string,
     status: string,
     format: string,
-    link?: string
+    link?: string,
+    details: { name: string; value: string }[] = []
   ): Promise<void> {
     try {
-      // Send Discord notification
-      await this.sendDiscordNotification(
-        type,
-        notificationTitle,
-        bookTitle,
-        bookAuthor,
-        bookDescription,
-        bookCoverImage,
-        requestedBy,
-        status,
-        format
-      )
-
       // Create in-app notifications
       const userIds = Array.isArray(userId) ? userId : [userId]
       logger.info('Creating in-app notifications', {
@@ -272,19 +372,49 @@ export class NotificationService {
       })
 
       // For in-app notifications, use a simplified message
-      const inAppMessage = `${bookTitle} - ${status}`
+      const inAppMessage = [`${bookTitle} - ${status}`, ...details.map((d) => `${d.name}: ${d.value}`)].join('. ')
+      const message: NotificationMessage = {
+        type,
+        title: notificationTitle,
+        bookTitle,
+        bookAuthor,
+        description: bookDescription,
+        coverImage: bookCoverImage,
+        requestedBy,
+        status,
+        format,
+        details,
+        link,
+      }
 
       for (const uid of userIds) {
-        await this.createNotification(uid, type, notificationTitle, inAppMessage, link)
+        await this.notifyUser(uid, type, notificationTitle, inAppMessage, link, message)
       }
 
-      logger.info('In-app notifications created successfully', {
+      logger.info('User notifications delivered', {
         type,
         userCount: userIds.length
       })
     } catch (error) {
       logger.error('Failed to send notification', { error: error instanceof Error ? error.message : error, userId, type })
     }
+
+    // Send Discord and channel notifications without waiting; SMTP and HTTP channels can take seconds to time out
+    this.sendExternalNotification(
+      type,
+      notificationTitle,
+      bookTitle,
+      bookAuthor,
+      bookDescription,
+      bookCoverImage,
+      requestedBy,
+      status,
+      format,
+      link,
+      details
+    ).catch((error) =>
+      logger.error('Failed to send external notifications', { error: error instanceof Error ? error.message : error, type })
+    )
   }
 
   /**
@@ -311,22 +441,36 @@ export class NotificationService {
   }
 
   /**
-   * Get notifications for a user
+   * Get a page of a user's notifications, newest first.
+   * Pass the returned nextCursor back as cursor for the next page; it is null on the last page.
    */
-  static async getUserNotifications(userId: number, limit = 50) {
+  static async getUserNotifications(
+    userId: number,
+    options: { cursor?: number; limit?: number; type?: NotificationType } = {}
+  ): Promise<NotificationPage> {
+    const limit = options.limit ?? 50
+
     try {
+      const conditions = [eq(notifications.userId, userId)]
+      if (options.cursor) conditions.push(lt(notifications.id, options.cursor))
+      if (options.type) conditions.push(eq(notifications.type, options.type))
+
+      // One extra row tells us whether another page exists
       const result = await db
         .select()
         .from(notifications)
-        .where(eq(notifications.userId, userId))
-        .orderBy(desc(notifications.createdAt))
-        .limit(limit)
+        .where(and(...conditions))
+        .orderBy(desc(notifications.id))
+        .limit(limit + 1)
+
+      const page = result.slice(0, limit)
+      const nextCursor = result.length > limit ? page[page.length - 1].id : null
 
-      logger.debug('Retrieved notifications for user', { userId, count: result.length })
-      return result
+      logger.debug('Retrieved notifications for user', { userId, count: page.length, cursor: options.cursor })
+      return { notifications: page, nextCursor }
     } catch (error) {
       logger.error('Failed to get user notifications', { error: error instanceof Error ? error.message : error, userId })
-      return []
+      return { notifications: [], nextCursor: null }
     }
   }
 
@@ -336,11 +480,11 @@ export class NotificationService {
   static async getUnreadCount(userId: number): Promise<number> {
     try {
       const result = await db
-        .select()
+        .select({ count: count() })
         .from(notifications)
         .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
 
-      return result.length
+      return result[0]?.count ?? 0
     } catch (error) {
       logger.error('Failed to get unread count', { error: error instanceof Error ? error.message : error, userId })
       return 0
@@ -377,6 +521,96 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Delete some of a user's notifications. IDs belonging to other users are ignored.
+   */
+  static async deleteNotifications(userId: number, notificationIds: number[]): Promise<number> {
+    if (notificationIds.length === 0) return 0
+
+    const deleted = await db
+      .delete(notifications)
+      .where(and(eq(notifications.userId, userId), inArray(notifications.id, notificationIds)))
+      .returning({ id: notifications.id })
+
+    logger.info('Notifications deleted', { userId, count: deleted.length })
+    return deleted.length
+  }
+
+  /**
+   * Get how long notifications are kept, in days (0 = keep forever)
+   */
+  static async getRetentionPolicy(): Promise<NotificationRetentionPolicy> {
+    try {
+      const result = await db
+        .select()
+        .from(settings)
+        .where(eq(settings.key, RETENTION_SETTING_KEY))
+        .limit(1)
+
+      return result[0]?.value ? { ...DEFAULT_RETENTION, ...JSON.parse(result[0].value) } : { ...DEFAULT_RETENTION }
+    } catch (error) {
+      logger.error('Failed to get notification retention setting', { error: error instanceof Error ? error.message : error })
+      return { ...DEFAULT_RETENTION }
+    }
+  }
+
+  /**
+   * Update how long notifications are kept
+   */
+  static async setRetentionPolicy(policy: NotificationRetentionInput, updatedBy: number): Promise<void> {
+    const now = new Date()
+    const value = JSON.stringify({ readDays: policy.readDays, unreadDays: policy.unreadDays })
+
+    await db
+      .insert(settings)
+      .values({
+        key: RETENTION_SETTING_KEY,
+        value,
+        category: 'general',
+        updatedAt: now,
+        updatedBy,
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value,
+          updatedAt: now,
+          updatedBy,
+        },
+      })
+
+    logger.info('Notification retention updated', { ...policy, updatedBy })
+  }
+
+  /**
+   * Delete notifications older than the retention policy allows, read and unread separately
+   */
+  static async purgeExpired(): Promise<number> {
+    try {
+      const policy = await this.getRetentionPolicy()
+      let purged = 0
+
+      for (const [isRead, days] of [[true, policy.readDays], [false, policy.unreadDays]] as const) {
+        if (days <= 0) continue
+
+        const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+        const deleted = await db
+          .delete(notifications)
+          .where(and(eq(notifications.isRead, isRead), lt(notifications.createdAt, cutoff)))
+          .returning({ id: notifications.id })
+        purged += deleted.length
+      }
+
+      if (purged > 0) {
+        logger.info('Expired notifications purged', { count: purged, ...policy })
+      }
+      return purged
+    } catch (error) {
+      logger.error('Failed to purge expired notifications', { error: error instanceof Error ? error.message : error })
+      return 0
+    }
+  }
+
   /**
    * Test Discord webhook
    */
@@ -428,6 +662,8 @@ export class NotificationService {
       case 'bookshelf_error':
       case 'request_error':
         return settings.notifyBookshelfError
+      case 'request_comment':
+        return settings.notifyRequestComment
       default:
         return false
     }
@@ -449,6 +685,8 @@ export class NotificationService {
         return 0xf59e0b // Amber
       case 'bookshelf_error':
         return 0xef4444 // Red
+      case 'request_comment':
+        return 0x64748b // Slate
       default:
         return 0x8b5cf6 // Purple (default)
     }
@@ -0,0 +1,202 @@
+import type {
+  AppriseChannelConfig,
+  ChannelConfigMap,
+  ChannelType,
+  EmailChannelConfig,
+  GotifyChannelConfig,
+  NotificationMessage,
+  NtfyChannelConfig,
+  PushoverChannelConfig,
+  WebhookChannelConfig,
+} from './types'
+import { formatEmail, formatPlainText } from './format'
+import { sendMail } from './smtp'
+
+const DEFAULT_TIMEOUT = 15000
+
+type ChannelSender<T extends ChannelType> = (config: ChannelConfigMap[T], message: NotificationMessage) => Promise<void>
+
+/**
+ * POST to a notification service, failing on timeouts and non-2xx responses.
+ * Redirects are not followed, so a server cannot bounce the request somewhere it was not configured to go.
+ */
+async function post(url: string, init: RequestInit, service: string): Promise<void> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT)
+
+  try {
+    const response = await fetch(url, { ...init, method: 'POST', redirect: 'error', signal: controller.signal })
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(`${service} returned ${response.status} ${response.statusText}${body ? `: ${body.substring(0, 200)}` : ''}`)
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`${service} did not respond within ${DEFAULT_TIMEOUT / 1000} seconds`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+/**
+ * Map a notification type onto the success/failure/info levels push services understand
+ */
+function severityOf(message: NotificationMessage): 'success' | 'failure' | 'info' {
+  switch (message.type) {
+    case 'request_approved':
+    case 'request_available':
+      return 'success'
+    case 'request_declined':
+    case 'request_error':
+    case 'bookshelf_error':
+      return 'failure'
+    default:
+      return 'info'
+  }
+}
+
+const sendWebhook: ChannelSender<'webhook'> = async (config: WebhookChannelConfig, message) => {
+  await post(config.url, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.authHeader ? { Authorization: config.authHeader } : {}),
+    },
+    body: JSON.stringify({
+      event: message.type,
+      title: message.title,
+      message: formatPlainText(message),
+      book: {
+        title: message.bookTitle,
+        author: message.bookAuthor,
+        description: message.description,
+        coverImage: message.coverImage ?? null,
+      },
+      requestedBy: message.requestedBy,
+      status: message.status,
+      format: message.format,
+      details: message.details,
+      link: message.link ?? null,
+      timestamp: new Date().toISOString(),
+    }),
+  }, 'Webhook')
+}
+
+const sendEmail: ChannelSender<'email'> = async (config: EmailChannelConfig, message) => {
+  await sendMail(
+    {
+      host: config.host,
+      port: config.port,
+      security: config.security,
+      username: config.username || undefined,
+      password: config.password || undefined,
+    },
+    {
+      from: config.from,
+      to: config.to.split(',').map((address) => address.trim()).filter(Boolean),
+      ...formatEmail(message),
+    }
+  )
+}
+
+const sendNtfy: ChannelSender<'ntfy'> = async (config: NtfyChannelConfig, message) => {
+  // JSON publishing keeps non-ASCII titles intact, unlike the Title header
+  await post(trimSlash(config.serverUrl), {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+    },
+    body: JSON.stringify({
+      topic: config.topic,
+      title: message.title,
+      message: formatPlainText(message),
+      priority: config.priority ?? 3,
+      tags: [severityOf(message) === 'failure' ? 'warning' : 'books'],
+    }),
+  }, 'ntfy')
+}
+
+const sendGotify: ChannelSender<'gotify'> = async (config: GotifyChannelConfig, message) => {
+  await post(`${trimSlash(config.serverUrl)}/message`, {
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Gotify-Key': config.token,
+    },
+    body: JSON.stringify({
+      title: message.title,
+      message: formatPlainText(message),
+      priority: config.priority ?? 5,
+    }),
+  }, 'Gotify')
+}
+
+const sendPushover: ChannelSender<'pushover'> = async (config: PushoverChannelConfig, message) => {
+  const form = new URLSearchParams({
+    token: config.apiToken,
+    user: config.userKey,
+    title: message.title,
+    message: formatPlainText(message),
+    priority: String(config.priority ?? 0),
+  })
+
+  await post(config.apiUrl, {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+  }, 'Pushover')
+}
+
+const sendApprise: ChannelSender<'apprise'> = async (config: AppriseChannelConfig, message) => {
+  await post(config.url, {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      title: message.title,
+      body: formatPlainText(message),
+      type: severityOf(message),
+      format: 'text',
+      ...(config.tags ? { tag: config.tags } : {}),
+    }),
+  }, 'Apprise')
+}
+
+const senders: { [T in ChannelType]: ChannelSender<T> } = {
+  webhook: sendWebhook,
+  email: sendEmail,
+  ntfy: sendNtfy,
+  gotify: sendGotify,
+  pushover: sendPushover,
+  apprise: sendApprise,
+}
+
+/**
+ * Deliver a notification through one channel. Throws when the provider rejects it.
+ */
+export async function sendToChannel<T extends ChannelType>(
+  type: T,
+  config: ChannelConfigMap[T],
+  message: NotificationMessage
+): Promise<void> {
+  const sender = senders[type] as ChannelSender<T>
+  await sender(config, message)
+}
+
+/**
+ * The message sent by each channel's Test button
+ */
+export function buildTestMessage(): NotificationMessage {
+  return {
+    type: 'request_approved',
+    title: 'Test Notification',
+    bookTitle: 'The Hobbit',
+    bookAuthor: 'J.R.R. Tolkien',
+    description: 'This is a test notification from Mimirr. Your notification channel is configured correctly!',
+    requestedBy: 'Mimirr',
+    status: 'Approved',
+    format: 'Test',
+    details: [],
+  }
+}
@@ -0,0 +1,202 @@
+import { escapeHtml, truncate } from './format'
+
+export type DigestFrequency = 'daily' | 'weekly'
+
+export interface DigestRequest {
+  id: number
+  bookTitle: string
+  bookAuthor: string
+  requestedBy: string
+  status: string
+  at: Date
+}
+
+export interface DigestNotification {
+  title: string
+  message: string
+  createdAt: Date
+}
+
+export interface DigestSyncJob {
+  id: number
+  status: string
+  dryRun: boolean
+  processedBooks: number
+  totalBooks: number
+  startedAt: Date
+  summary: string | null
+}
+
+export interface DigestSyncSummary {
+  total: number
+  failed: number
+  lastRun: DigestSyncJob | null
+  failures: DigestSyncJob[]
+}
+
+/**
+ * Everything that happened in one digest period. Admin sections are null for regular users.
+ */
+export interface Digest {
+  frequency: DigestFrequency
+  since: Date
+  until: Date
+  notifications: DigestNotification[]
+  admin: {
+    pendingCount: number
+    newRequests: DigestRequest[]
+    available: DigestRequest[]
+    errors: DigestNotification[]
+    syncs: DigestSyncSummary
+  } | null
+}
+
+interface DigestSection {
+  heading: string
+  intro?: string
+  items: { primary: string; secondary: string }[]
+}
+
+// Request statuses as the requests pages show them; 'Available' is the legacy spelling
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  declined: 'Declined',
+  processing: 'Processing',
+  available: 'Available',
+  Available: 'Available',
+  error: 'Error',
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function requestItem(request: DigestRequest) {
+  return {
+    primary: `${request.bookTitle} by ${request.bookAuthor}`,
+    secondary: `${request.requestedBy} · ${formatDate(request.at)}`,
+  }
+}
+
+function newRequestItem(request: DigestRequest) {
+  const item = requestItem(request)
+  return { ...item, secondary: `${item.secondary} · ${STATUS_LABELS[request.status] ?? request.status}` }
+}
+
+function notificationItem(notification: DigestNotification) {
+  return {
+    primary: notification.title,
+    secondary: `${truncate(notification.message, 200)} · ${formatDate(notification.createdAt)}`,
+  }
+}
+
+function syncJobItem(job: DigestSyncJob) {
+  const progress = job.totalBooks > 0 ? ` · ${job.processedBooks}/${job.totalBooks} books` : ''
+  return {
+    primary: `Sync #${job.id}${job.dryRun ? ' (dry run)' : ''}: ${job.status}${progress}`,
+    secondary: `${job.summary ? `${truncate(job.summary, 200)} · ` : ''}${formatDate(job.startedAt)}`,
+  }
+}
+
+/**
+ * One line covering every sync in the period; the failed ones are listed below it
+ */
+function describeSyncs(syncs: DigestSyncSummary): string | undefined {
+  if (syncs.total === 0 || !syncs.lastRun) return undefined
+
+  const failed = syncs.failed > 0 ? `, ${syncs.failed} failed` : ', none failed'
+  const last = syncs.lastRun
+  return `${syncs.total} sync${syncs.total === 1 ? '' : 's'} ran${failed}. ` +
+    `Last run: ${formatDate(last.startedAt)}, ${last.status}${last.dryRun ? ' (dry run)' : ''}.`
+}
+
+/**
+ * Whether a digest has nothing to report, so scheduled sends can skip it
+ */
+export function isDigestEmpty(digest: Digest): boolean {
+  return buildSections(digest).every((section) => section.items.length === 0 && !section.intro)
+}
+
+/**
+ * Group the digest into the sections every rendering shows, leaving out empty ones
+ */
+function buildSections(digest: Digest): DigestSection[] {
+  const sections: DigestSection[] = []
+
+  if (digest.admin) {
+    const { admin } = digest
+    sections.push({
+      heading: 'New Requests',
+      intro: admin.pendingCount > 0
+        ? `${admin.pendingCount} request${admin.pendingCount === 1 ? ' is' : 's are'} waiting for approval.`
+        : undefined,
+      items: admin.newRequests.map(newRequestItem),
+    })
+    sections.push({ heading: 'Now Available', items: admin.available.map(requestItem) })
+    sections.push({ heading: 'Errors', items: admin.errors.map(notificationItem) })
+    sections.push({ heading: 'Library Syncs', intro: describeSyncs(admin.syncs), items: admin.syncs.failures.map(syncJobItem) })
+  }
+
+  sections.push({
+    heading: digest.admin ? 'Your Notifications' : 'Your Requests',
+    items: digest.notifications.map(notificationItem),
+  })
+
+  return sections.filter((section) => section.items.length > 0 || section.intro)
+}
+
+/**
+ * Render a digest as an email subject with plain-text and HTML bodies
+ */
+export function formatDigest(digest: Digest): { subject: string; text: string; html: string } {
+  const period = `${formatDate(digest.since)} - ${formatDate(digest.until)}`
+  const title = `Your ${digest.frequency} Mimirr digest`
+  const sections = buildSections(digest)
+
+  const text = [
+    title,
+    period,
+    '',
+    ...(sections.length === 0 ? ['Nothing new this period.'] : []),
+    ...sections.flatMap((section) => [
+      section.heading.toUpperCase(),
+      ...(section.intro ? [section.intro] : []),
+      ...section.items.map((item) => `- ${item.primary}\n  ${item.secondary}`),
+      '',
+    ]),
+  ].join('\n')
+
+  const body = sections.length === 0
+    ? '<p style="margin:0;font-size:14px;color:#4b5563">Nothing new this period.</p>'
+    : sections
+        .map((section) => {
+          const intro = section.intro
+            ? `<p style="margin:0 0 8px;font-size:14px">${escapeHtml(section.intro)}</p>`
+            : ''
+          const items = section.items
+            .map(
+              (item) =>
+                `<li style="margin:0 0 8px"><div style="font-weight:600">${escapeHtml(item.primary)}</div>` +
+                `<div style="color:#6b7280;font-size:13px">${escapeHtml(item.secondary)}</div></li>`
+            )
+            .join('')
+
+          return `<h3 style="margin:20px 0 8px;font-size:15px">${escapeHtml(section.heading)}</h3>${intro}` +
+            (items ? `<ul style="margin:0;padding-left:18px;font-size:14px">${items}</ul>` : '')
+        })
+        .join('\n')
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,Segoe UI,Roboto,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<h2 style="margin:0 0 4px;font-size:18px">${escapeHtml(title)}</h2>
+<p style="margin:0 0 8px;font-size:13px;color:#6b7280">${escapeHtml(period)}</p>
+${body}
+</div>
+</body>
+</html>`
+
+  return { subject: `${title} (${period})`, text, html }
+}
@@ -0,0 +1,85 @@
+import type { NotificationMessage } from './types'
+
+/**
+ * Truncate a book description for push notifications and emails
+ */
+export function truncate(text: string, length: number = 300): string {
+  return text.length > length ? text.substring(0, length - 3) + '...' : text
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * The labelled facts every channel shows under the book: who requested it, its status, its format,
+ * and any event-specific details such as a decline reason
+ */
+export function messageFields(message: NotificationMessage): { name: string; value: string }[] {
+  return [
+    { name: 'Requested By', value: message.requestedBy },
+    { name: 'Request Status', value: message.status },
+    { name: 'Requested Format', value: message.format },
+    ...message.details,
+  ]
+}
+
+/**
+ * Render a notification as plain text for push services and the text part of emails
+ */
+export function formatPlainText(message: NotificationMessage): string {
+  return [
+    `${message.bookTitle} by ${message.bookAuthor}`,
+    '',
+    truncate(message.description),
+    '',
+    ...messageFields(message).map((field) => `${field.name}: ${field.value}`),
+  ].join('\n')
+}
+
+/**
+ * Render a notification as a small self-contained HTML email
+ */
+export function formatHtml(message: NotificationMessage): string {
+  const rows = messageFields(message)
+    .map(
+      (field) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#6b7280;white-space:nowrap">${escapeHtml(field.name)}</td>` +
+        `<td style="padding:4px 0">${escapeHtml(field.value)}</td></tr>`
+    )
+    .join('')
+
+  const cover = message.coverImage
+    ? `<img src="${escapeHtml(message.coverImage)}" alt="" width="96" style="float:right;margin:0 0 12px 12px;border-radius:4px">`
+    : ''
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,Segoe UI,Roboto,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<h2 style="margin:0 0 16px;font-size:18px">${escapeHtml(message.title)}</h2>
+${cover}
+<p style="margin:0 0 4px;font-weight:600">${escapeHtml(message.bookTitle)}</p>
+<p style="margin:0 0 12px;font-style:italic;color:#4b5563">${escapeHtml(message.bookAuthor)}</p>
+<p style="margin:0 0 16px;font-size:14px;line-height:1.5">${escapeHtml(truncate(message.description))}</p>
+<table style="clear:both;font-size:14px;border-collapse:collapse">${rows}</table>
+</div>
+</body>
+</html>`
+}
+
+/**
+ * Render a notification as an email subject with plain-text and HTML bodies
+ */
+export function formatEmail(message: NotificationMessage): { subject: string; text: string; html: string } {
+  return {
+    subject: `${message.title}: ${message.bookTitle}`,
+    text: `${message.title}\n\n${formatPlainText(message)}`,
+    html: formatHtml(message),
+  }
+}
@@ -0,0 +1,272 @@
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import crypto from 'crypto'
+
+const DEFAULT_TIMEOUT = 30000
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  security: 'none' | 'starttls' | 'tls'
+  username?: string
+  password?: string
+  timeoutMs?: number
+}
+
+export interface MailMessage {
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Minimal SMTP client: one connection per message, optional STARTTLS or implicit TLS,
+ * and AUTH PLAIN/LOGIN. Enough for a relay or a local test sink such as MailHog or smtp4dev.
+ */
+class SmtpConnection {
+  private socket: net.Socket
+  private buffer = ''
+  private pendingLines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  /**
+   * Swap the plain socket for a TLS one after STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data')
+    this.socket.removeAllListeners('timeout')
+    this.socket.removeAllListeners('error')
+    this.socket.removeAllListeners('end')
+    this.socket.removeAllListeners('close')
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: this.socket, servername: host }, () => resolve(socket))
+      socket.once('error', reject)
+    })
+
+    this.socket = secure
+    this.attach(secure)
+  }
+
+  read(): Promise<SmtpReply> {
+    // Replies that arrived before the connection dropped are still worth reading
+    const reply = this.replies.shift()
+    if (reply) return Promise.resolve(reply)
+
+    if (this.failure) return Promise.reject(this.failure)
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject }
+    })
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0])
+  }
+
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  write(data: string): void {
+    this.socket.write(data)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8')
+    socket.setTimeout(this.timeoutMs)
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('timeout', () => {
+      this.fail(new Error('SMTP connection timed out'))
+      socket.destroy()
+    })
+    socket.on('error', (error) => this.fail(error))
+    // A server that hangs up mid-conversation would otherwise leave the pending read waiting forever
+    socket.on('end', () => this.fail(new Error('SMTP server closed the connection')))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      this.pendingLines.push(line.slice(4))
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines }
+        this.pendingLines = []
+
+        if (this.waiter) {
+          this.waiter.resolve(reply)
+          this.waiter = null
+        } else {
+          this.replies.push(reply)
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    // Keep the first cause; 'close' always follows 'error' or 'end'
+    if (this.failure) return
+    this.failure = error
+    if (this.waiter) {
+      this.waiter.reject(error)
+      this.waiter = null
+    }
+  }
+}
+
+function connect(options: SmtpTransportOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      options.security === 'tls'
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+        : net.connect({ host: options.host, port: options.port }, () => resolve(socket))
+
+    socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT, () => {
+      socket.destroy()
+      reject(new Error('SMTP connection timed out'))
+    })
+    socket.once('error', reject)
+  })
+}
+
+/**
+ * Pull the bare address out of "Name <address>"
+ */
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/)
+  return (match ? match[1] : mailbox).trim()
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function encodeBody(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+}
+
+/**
+ * Render the message as RFC 5322 text. Bodies are base64 encoded, so no line of the
+ * DATA section can start with a dot and no dot-stuffing is needed.
+ */
+export function buildMimeMessage(message: MailMessage): string {
+  const domain = addressOf(message.from).split('@')[1] || os.hostname()
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ]
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+    ].join('\r\n')
+  }
+
+  const boundary = `mimirr-${crypto.randomBytes(12).toString('hex')}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n')
+}
+
+/**
+ * Deliver one message over SMTP. Throws with the server's reply when any step is rejected.
+ */
+export async function sendMail(options: SmtpTransportOptions, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) {
+    throw new Error('No email recipients')
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT
+  const connection = new SmtpConnection(await connect(options), timeoutMs)
+  const hostname = os.hostname()
+
+  try {
+    await connection.expect([220], 'greeting')
+    let ehlo = await connection.command(`EHLO ${hostname}`, [250])
+
+    if (options.security === 'starttls') {
+      await connection.command('STARTTLS', [220])
+      await connection.upgrade(options.host)
+      ehlo = await connection.command(`EHLO ${hostname}`, [250])
+    }
+
+    if (options.username) {
+      const authLine = ehlo.lines.find((line) => line.toUpperCase().startsWith('AUTH')) || ''
+      const password = options.password || ''
+
+      if (!authLine.toUpperCase().includes('PLAIN') && authLine.toUpperCase().includes('LOGIN')) {
+        await connection.command('AUTH LOGIN', [334])
+        await connection.command(Buffer.from(options.username).toString('base64'), [334])
+        await connection.command(Buffer.from(password).toString('base64'), [235])
+      } else {
+        const token = Buffer.from(`\0${options.username}\0${password}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${token}`, [235])
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250])
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251])
+    }
+
+    await connection.command('DATA', [354])
+    connection.write(`${buildMimeMessage(message)}\r\n.\r\n`)
+    await connection.expect([250], 'DATA')
+
+    await connection.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    connection.close()
+  }
+}
@@ -0,0 +1,94 @@
+import type { NotificationType } from '../notification.service'
+
+export type ChannelType = 'webhook' | 'email' | 'ntfy' | 'gotify' | 'pushover' | 'apprise'
+
+/**
+ * Events a channel can subscribe to, in the order the settings page lists them
+ */
+export const NOTIFICATION_EVENTS: { type: NotificationType; label: string }[] = [
+  { type: 'request_submitted', label: 'New Request Submitted' },
+  { type: 'request_approved', label: 'Request Approved' },
+  { type: 'request_declined', label: 'Request Declined' },
+  { type: 'request_available', label: 'Request Available' },
+  { type: 'request_comment', label: 'Request Comments' },
+  { type: 'bookshelf_error', label: 'Bookshelf Connection Issues' },
+  { type: 'request_error', label: 'Request Errors' },
+  { type: 'author_new_release', label: 'Followed Author Releases' },
+]
+
+export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  webhook: 'Webhook',
+  email: 'Email (SMTP)',
+  ntfy: 'ntfy',
+  gotify: 'Gotify',
+  pushover: 'Pushover',
+  apprise: 'Apprise',
+}
+
+export interface WebhookChannelConfig {
+  url: string
+  authHeader?: string // Sent verbatim as the Authorization header
+}
+
+export interface EmailChannelConfig {
+  host: string
+  port: number
+  security: 'none' | 'starttls' | 'tls'
+  username?: string
+  password?: string
+  from: string
+  to: string // Comma-separated recipients
+}
+
+export interface NtfyChannelConfig {
+  serverUrl: string
+  topic: string
+  token?: string
+  priority?: number // 1 (min) to 5 (max)
+}
+
+export interface GotifyChannelConfig {
+  serverUrl: string
+  token: string // Application token
+  priority?: number
+}
+
+export interface PushoverChannelConfig {
+  apiUrl: string // Pushover's API, or any service that accepts the same form fields
+  apiToken: string
+  userKey: string
+  priority?: number // -2 to 2
+}
+
+export interface AppriseChannelConfig {
+  url: string // Apprise API notify endpoint, e.g. http://apprise:8000/notify/mimirr
+  tags?: string
+}
+
+export interface ChannelConfigMap {
+  webhook: WebhookChannelConfig
+  email: EmailChannelConfig
+  ntfy: NtfyChannelConfig
+  gotify: GotifyChannelConfig
+  pushover: PushoverChannelConfig
+  apprise: AppriseChannelConfig
+}
+
+export type ChannelConfig = ChannelConfigMap[ChannelType]
+
+/**
+ * Everything a provider needs to render one notification, independent of the channel
+ */
+export interface NotificationMessage {
+  type: NotificationType
+  title: string
+  bookTitle: string
+  bookAuthor: string
+  description: string
+  coverImage?: string
+  requestedBy: string
+  status: string
+  format: string
+  details: { name: string; value: string }[]
+  link?: string
+}
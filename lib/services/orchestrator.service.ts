@@ -1,49 +1,144 @@
-import { db, syncJobs } from '@/lib/db'
+import { db, syncJobs, type NewSyncJob } from '@/lib/db'
 import { eq } from 'drizzle-orm'
-import { SyncService } from './sync.service'
+import { SyncService, type ReconciliationPlan, type ReconciliationReport } from './sync.service'
+import { RealtimeService } from './realtime.service'
 import { logger } from '@/lib/utils/logger'
 import type { BookshelfConfig } from '@/types/bookshelf.types'
 
 export class ReadarrJobOrchestrator {
-  static async startJob(jobId: number, config: BookshelfConfig): Promise<void> {
+  /**
+   * Run a Baseline Sync job across every instance.
+   * A dry run stores the computed plans (one per instance) on the job row instead of applying them.
+   */
+  static async startJob(jobId: number, configs: BookshelfConfig[], options: { dryRun?: boolean } = {}): Promise<void> {
+    const dryRun = !!options.dryRun
+
     try {
-      logger.info('Orchestrator starting Readarr job', { jobId })
-      logger.debug('Readarr job configuration', { jobId, configUrl: config.url })
+      logger.info('Orchestrator starting Readarr job', { jobId, dryRun, instances: configs.length })
+      logger.debug('Readarr job configuration', { jobId, configUrls: configs.map((c) => c.url) })
 
       // 1. Mark job as scanning
-      await db.update(syncJobs)
-        .set({ status: 'scanning', currentLogMessage: 'Starting Baseline Sync with Readarr...' })
-        .where(eq(syncJobs.id, jobId))
+      await this.updateJob(jobId, {
+        status: 'scanning',
+        dryRun,
+        currentLogMessage: dryRun ? 'Starting Baseline Sync dry run with Readarr...' : 'Starting Baseline Sync with Readarr...',
+      })
+
+      // 2. Run Baseline Sync for each instance in turn
+      const report: ReconciliationReport = { added: 0, orphaned: 0, purged: 0, corrected: 0 }
+      const plans: ReconciliationPlan[] = []
 
-      // 2. Run Baseline Sync
-      const report = await SyncService.reconcileWithReadarr(config, jobId)
+      for (const config of configs) {
+        if (configs.length > 1) {
+          await this.updateJob(jobId, { currentLogMessage: `Syncing ${config.instanceName || 'Bookshelf'}...` })
+        }
+
+        const instanceReport = await SyncService.reconcileWithReadarr(config, jobId, { dryRun })
+        report.added += instanceReport.added
+        report.orphaned += instanceReport.orphaned
+        report.purged += instanceReport.purged
+        report.corrected += instanceReport.corrected
+        if (instanceReport.plan) plans.push(instanceReport.plan)
+      }
 
       // 3. Mark job as complete
-      await db.update(syncJobs)
-        .set({
-          status: 'complete',
-          currentLogMessage: `Scan successfully completed. Added ${report.added} ghosts, removed ${report.orphaned} orphans, purged ${report.purged} metadata caches.`,
-          completedAt: new Date()
-        })
-        .where(eq(syncJobs.id, jobId))
-
-      logger.info('Orchestrator completed Readarr job successfully', { jobId })
+      await this.updateJob(jobId, {
+        status: 'complete',
+        plan: dryRun ? JSON.stringify(plans) : null,
+        currentLogMessage: dryRun
+          ? `Dry run complete. Would add ${report.added} ghosts, archive ${report.orphaned} orphans, auto-correct ${report.corrected} statuses and purge ${report.purged} metadata caches. Nothing was changed.`
+          : `Scan successfully completed. Added ${report.added} ghosts, removed ${report.orphaned} orphans, purged ${report.purged} metadata caches.`,
+        completedAt: new Date()
+      })
+
+      logger.info('Orchestrator completed Readarr job successfully', { jobId, dryRun })
       logger.trace('Job execution report', { jobId, report })
 
     } catch (error: any) {
-      logger.error('Orchestrator encountered error during Readarr job', { error: error instanceof Error ? error.message : error, jobId })
-
-      try {
-        await db.update(syncJobs)
-          .set({
-            status: 'error',
-            currentLogMessage: `Error: ${error.message || 'Unknown error occurred'}`,
-            completedAt: new Date()
-          })
-          .where(eq(syncJobs.id, jobId))
-      } catch (dbError) {
-        logger.error('Failed to update sync job error status', { error: dbError, jobId })
+      await this.failJob(jobId, error)
+    }
+  }
+
+  /**
+   * Apply the plans stored by a dry-run job, exactly as they were reviewed
+   */
+  static async applyPlan(jobId: number, planJobId: number, configs: BookshelfConfig[]): Promise<void> {
+    try {
+      logger.info('Orchestrator applying stored Readarr plan', { jobId, planJobId })
+
+      const planJobs = await db
+        .select()
+        .from(syncJobs)
+        .where(eq(syncJobs.id, planJobId))
+        .limit(1)
+
+      const planJob = planJobs[0]
+      if (!planJob?.plan) {
+        throw new Error(`Dry-run job ${planJobId} has no stored plan`)
       }
+
+      const parsed = JSON.parse(planJob.plan) as ReconciliationPlan[] | ReconciliationPlan
+      const plans = Array.isArray(parsed) ? parsed : [parsed]
+
+      await this.updateJob(jobId, {
+        status: 'scanning',
+        planJobId,
+        currentLogMessage: `Applying plan from dry run #${planJobId}...`,
+      })
+
+      const report: ReconciliationReport = { added: 0, orphaned: 0, purged: 0, corrected: 0 }
+
+      for (const plan of plans) {
+        const config = configs.find((c) => c.instanceId === plan.instanceId)
+        if (!config) {
+          logger.warn('Skipping stored plan for an instance that no longer exists', { planJobId, instanceId: plan.instanceId })
+          continue
+        }
+
+        const instanceReport = await SyncService.applyReconciliationPlan(plan)
+        report.added += instanceReport.added
+        report.orphaned += instanceReport.orphaned
+        report.purged += instanceReport.purged
+        report.corrected += instanceReport.corrected
+      }
+
+      // Only a fully applied plan is marked consumed; the apply-plan route refuses it from then on
+      await this.updateJob(planJobId, { planAppliedAt: new Date() })
+
+      await this.updateJob(jobId, {
+        status: 'complete',
+        currentLogMessage: `Plan from dry run #${planJobId} applied. Added ${report.added} ghosts, archived ${report.orphaned} orphans, auto-corrected ${report.corrected} statuses, purged ${report.purged} metadata caches.`,
+        completedAt: new Date()
+      })
+
+      logger.info('Orchestrator applied stored Readarr plan successfully', { jobId, planJobId })
+      logger.trace('Job execution report', { jobId, report })
+
+    } catch (error: any) {
+      // The plan stays unapplied; whatever ran before the failure is kept, so a fresh dry run shows what is left
+      await this.failJob(jobId, error, `Plan from dry run #${planJobId} was only partly applied. Run a new dry run to review the remaining changes`)
+    }
+  }
+
+  private static async updateJob(jobId: number, values: Partial<NewSyncJob>): Promise<void> {
+    await db.update(syncJobs)
+      .set(values)
+      .where(eq(syncJobs.id, jobId))
+
+    await RealtimeService.publishSyncJob(jobId)
+  }
+
+  private static async failJob(jobId: number, error: any, note?: string): Promise<void> {
+    logger.error('Orchestrator encountered error during Readarr job', { error: error instanceof Error ? error.message : error, jobId })
+
+    try {
+      await this.updateJob(jobId, {
+        status: 'error',
+        currentLogMessage: `Error: ${error.message || 'Unknown error occurred'}${note ? `. ${note}.` : ''}`,
+        completedAt: new Date()
+      })
+    } catch (dbError) {
+      logger.error('Failed to update sync job error status', { error: dbError, jobId })
     }
   }
 }
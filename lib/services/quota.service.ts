@@ -0,0 +1,288 @@
+import { db, requestQuotas, requests, settings, users, type RequestQuota } from '@/lib/db'
+import { eq, and, gte, not } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+
+const DEFAULT_QUOTA_SETTING_KEY = 'request_quota_default'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type QuotaWindow = 'daily' | 'weekly' | 'monthly'
+
+// Rolling window lengths, counted backwards from "now"
+const WINDOW_DURATIONS: Record<QuotaWindow, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+}
+
+export interface QuotaLimits {
+  dailyLimit: number | null
+  weeklyLimit: number | null
+  monthlyLimit: number | null
+}
+
+export interface QuotaWindowStatus {
+  limit: number | null
+  used: number
+  remaining: number | null
+  resetsAt: Date | null
+}
+
+export interface UserQuotaOverrideInput extends QuotaLimits {
+  unlimited: boolean
+}
+
+export interface QuotaStatus {
+  exempt: boolean
+  daily: QuotaWindowStatus
+  weekly: QuotaWindowStatus
+  monthly: QuotaWindowStatus
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public window: QuotaWindow,
+    public resetsAt: Date | null
+  ) {
+    super(message)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+const UNLIMITED: QuotaLimits = { dailyLimit: null, weeklyLimit: null, monthlyLimit: null }
+
+export class QuotaService {
+  /**
+   * Get the global default quota (applies to every user without an override)
+   */
+  static async getDefaultQuota(): Promise<QuotaLimits> {
+    try {
+      const result = await db
+        .select()
+        .from(settings)
+        .where(eq(settings.key, DEFAULT_QUOTA_SETTING_KEY))
+        .limit(1)
+
+      if (!result[0]?.value) {
+        return { ...UNLIMITED }
+      }
+
+      const parsed = JSON.parse(result[0].value)
+      return {
+        dailyLimit: parsed.dailyLimit ?? null,
+        weeklyLimit: parsed.weeklyLimit ?? null,
+        monthlyLimit: parsed.monthlyLimit ?? null,
+      }
+    } catch (error) {
+      logger.error('Failed to get default request quota', { error: error instanceof Error ? error.message : error })
+      return { ...UNLIMITED }
+    }
+  }
+
+  /**
+   * Update the global default quota
+   */
+  static async updateDefaultQuota(limits: QuotaLimits, updatedBy: number): Promise<QuotaLimits> {
+    const now = new Date()
+    const value = JSON.stringify(limits)
+
+    await db
+      .insert(settings)
+      .values({
+        key: DEFAULT_QUOTA_SETTING_KEY,
+        value,
+        category: 'general',
+        updatedAt: now,
+        updatedBy,
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value,
+          updatedAt: now,
+          updatedBy,
+        },
+      })
+
+    logger.info('Default request quota updated', { limits, updatedBy })
+    return limits
+  }
+
+  /**
+   * Get all per-user quota overrides
+   */
+  static async getUserQuotaOverrides(): Promise<RequestQuota[]> {
+    try {
+      return await db.select().from(requestQuotas)
+    } catch (error) {
+      logger.error('Failed to get user quota overrides', { error: error instanceof Error ? error.message : error })
+      return []
+    }
+  }
+
+  /**
+   * Get a single user's quota override, if any
+   */
+  static async getUserQuotaOverride(userId: number): Promise<RequestQuota | null> {
+    const result = await db
+      .select()
+      .from(requestQuotas)
+      .where(eq(requestQuotas.userId, userId))
+      .limit(1)
+
+    return result[0] || null
+  }
+
+  /**
+   * Create or replace a user's quota override
+   */
+  static async setUserQuotaOverride(userId: number, limits: UserQuotaOverrideInput): Promise<RequestQuota> {
+    const now = new Date()
+
+    const result = await db
+      .insert(requestQuotas)
+      .values({
+        userId,
+        ...limits,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: requestQuotas.userId,
+        set: {
+          ...limits,
+          updatedAt: now,
+        },
+      })
+      .returning()
+
+    logger.info('User request quota override saved', { userId, limits })
+    return result[0]
+  }
+
+  /**
+   * Remove a user's quota override so they fall back to the global default
+   */
+  static async clearUserQuotaOverride(userId: number): Promise<void> {
+    await db.delete(requestQuotas).where(eq(requestQuotas.userId, userId))
+    logger.info('User request quota override cleared', { userId })
+  }
+
+  /**
+   * Resolve the effective limits for a user (override first, then global default).
+   * An override marked unlimited ignores the default entirely.
+   */
+  static async getEffectiveQuota(userId: number): Promise<QuotaLimits> {
+    const [defaults, override] = await Promise.all([
+      this.getDefaultQuota(),
+      this.getUserQuotaOverride(userId),
+    ])
+
+    if (override?.unlimited) {
+      return { ...UNLIMITED }
+    }
+
+    return {
+      dailyLimit: override?.dailyLimit ?? defaults.dailyLimit,
+      weeklyLimit: override?.weeklyLimit ?? defaults.weeklyLimit,
+      monthlyLimit: override?.monthlyLimit ?? defaults.monthlyLimit,
+    }
+  }
+
+  /**
+   * Get usage against each rolling window for a user.
+   * Declined requests do not count against the quota. Admins and users with an unlimited override are exempt.
+   */
+  static async getQuotaStatus(userId: number): Promise<QuotaStatus> {
+    const userResult = await db
+      .select({ role: users.role, unlimited: requestQuotas.unlimited })
+      .from(users)
+      .leftJoin(requestQuotas, eq(requestQuotas.userId, users.id))
+      .where(eq(users.id, userId))
+      .limit(1)
+
+    const exempt = userResult[0]?.role === 'admin' || userResult[0]?.unlimited === true
+    const limits = exempt ? { ...UNLIMITED } : await this.getEffectiveQuota(userId)
+
+    const now = Date.now()
+    const oldestWindowStart = new Date(now - WINDOW_DURATIONS.monthly)
+
+    const recentRequests = await db
+      .select({ requestedAt: requests.requestedAt })
+      .from(requests)
+      .where(
+        and(
+          eq(requests.userId, userId),
+          gte(requests.requestedAt, oldestWindowStart),
+          not(eq(requests.status, 'declined'))
+        )
+      )
+
+    const timestamps = recentRequests
+      .map((r) => new Date(r.requestedAt).getTime())
+      .sort((a, b) => a - b)
+
+    const buildWindow = (window: QuotaWindow, limit: number | null): QuotaWindowStatus => {
+      const windowStart = now - WINDOW_DURATIONS[window]
+      const inWindow = timestamps.filter((t) => t >= windowStart)
+      const used = inWindow.length
+
+      if (limit === null) {
+        return { limit: null, used, remaining: null, resetsAt: null }
+      }
+
+      const remaining = Math.max(limit - used, 0)
+
+      // When the window is full, a slot frees up once the oldest counted request ages out
+      let resetsAt: Date | null = null
+      if (remaining === 0 && inWindow.length > 0) {
+        const freeingIndex = Math.max(used - limit, 0)
+        resetsAt = new Date(inWindow[freeingIndex] + WINDOW_DURATIONS[window])
+      }
+
+      return { limit, used, remaining, resetsAt }
+    }
+
+    return {
+      exempt,
+      daily: buildWindow('daily', limits.dailyLimit),
+      weekly: buildWindow('weekly', limits.weeklyLimit),
+      monthly: buildWindow('monthly', limits.monthlyLimit),
+    }
+  }
+
+  /**
+   * Throw a QuotaExceededError if the user cannot create `count` more requests right now
+   */
+  static async assertWithinQuota(userId: number, count = 1): Promise<void> {
+    const status = await this.getQuotaStatus(userId)
+    if (status.exempt) return
+
+    for (const window of ['daily', 'weekly', 'monthly'] as QuotaWindow[]) {
+      const windowStatus = status[window]
+      if (windowStatus.limit !== null && windowStatus.remaining !== null && windowStatus.remaining > 0 && windowStatus.remaining < count) {
+        logger.info('Request batch blocked by quota', { userId, window, limit: windowStatus.limit, used: windowStatus.used, count })
+
+        throw new QuotaExceededError(
+          `This would add ${count} requests but you only have ${windowStatus.remaining} left in your ${window} limit of ${windowStatus.limit}.`,
+          window,
+          windowStatus.resetsAt
+        )
+      }
+      if (windowStatus.limit !== null && windowStatus.remaining === 0) {
+        logger.info('Request blocked by quota', { userId, window, limit: windowStatus.limit, used: windowStatus.used })
+
+        const resetHint = windowStatus.resetsAt
+          ? ` You can request again after ${windowStatus.resetsAt.toLocaleString()}.`
+          : ''
+
+        throw new QuotaExceededError(
+          `You have reached your ${window} request limit of ${windowStatus.limit}.${resetHint}`,
+          window,
+          windowStatus.resetsAt
+        )
+      }
+    }
+  }
+}
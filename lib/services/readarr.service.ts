@@ -1,12 +1,16 @@
-import { db, settings } from '@/lib/db'
-import { eq } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
+import { db, libraryBooks, requests } from '@/lib/db'
+import { inArray } from 'drizzle-orm'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import type { BookshelfConfig, InstanceAvailability } from '@/types/bookshelf.types'
+import { extractSeries } from '@/lib/utils/series'
 
 export type MimirrState = 'Unowned' | 'Requested' | 'Processing' | 'Available' | 'Unreleased';
 
 export interface TargetBookShape {
   id: string; // React key
   mimirrState?: MimirrState;
+  instanceAvailability?: InstanceAvailability[];
   title: string;
   author: string;
   authors: string[];
@@ -19,6 +23,8 @@ export interface TargetBookShape {
   description: string;
   genres: string[];
   coverImage: string | undefined;
+  series?: string;
+  seriesPosition?: number;
 
   // Custom schema fields required by prompt mapping internally
   _rawMapping: {
@@ -41,22 +47,94 @@ export interface TargetBookShape {
 
 export class ReadarrService {
   /**
-   * Get Readarr settings
+   * Inject mimirrState (and per-instance availability when more than one instance exists)
+   * into a list of books, using the local library mirror and requests in two batch queries.
    */
-  private static async getReadarrConfig() {
-    const configSettings = await db.select().from(settings)
+  static async annotateLibraryState<T extends { foreignBookId?: string }>(
+    books: T[]
+  ): Promise<(T & { mimirrState: MimirrState; instanceAvailability?: InstanceAvailability[] })[]> {
+    // 1. Extract all IDs from the results
+    const foreignIds = books
+      .map(b => b.foreignBookId)
+      .filter((id): id is string => id !== undefined && id !== null)
+
+    if (foreignIds.length === 0) {
+      return books.map(b => ({ ...b, mimirrState: 'Unowned' as MimirrState }))
+    }
+
+    // 2. Query both tables using the IN clause (Batch Processing)
+    const ownedBooks = await db
+      .select()
+      .from(libraryBooks)
+      .where(inArray(libraryBooks.foreignBookId, foreignIds))
+
+    const requestedBooks = await db
+      .select()
+      .from(requests)
+      .where(inArray(requests.foreignBookId, foreignIds))
+
+    // Per-instance availability is only shown when more than one instance is configured
+    const availability = await BookshelfInstanceService.getAvailability(foreignIds)
+
+    // 3. Inject the state back into the results array before sending to the frontend.
+    const withState = books.map(book => {
+      if (!book.foreignBookId) {
+        return { ...book, mimirrState: 'Unowned' as MimirrState }
+      }
+
+      // With several instances, the best state across them wins
+      const matches = ownedBooks.filter(ob => ob.foreignBookId === book.foreignBookId)
+      const owned = matches.find(ob => ob.status === 'Available' || ob.status === 'available') ?? matches[0]
+      if (owned) {
+        if (owned.status === 'Available' || owned.status === 'available') {
+          return { ...book, mimirrState: 'Available' as MimirrState }
+        } else if (owned.status === 'Unreleased' || owned.status === 'unreleased') {
+          return { ...book, mimirrState: 'Unreleased' as MimirrState }
+        } else {
+          return { ...book, mimirrState: 'Processing' as MimirrState }
+        }
+      }
+
+      const requested = requestedBooks.find(rb => rb.foreignBookId === book.foreignBookId)
+      if (requested) {
+        if (requested.status === 'pending') {
+          return { ...book, mimirrState: 'Requested' as MimirrState }
+        }
+        if (['approved', 'processing', 'Processing'].includes(requested.status)) {
+          return { ...book, mimirrState: 'Processing' as MimirrState }
+        }
+        if (['unreleased', 'Unreleased'].includes(requested.status)) {
+          return { ...book, mimirrState: 'Unreleased' as MimirrState }
+        }
+        // 'available' is effectively 'Available' if requested and picked up, or we can fallback to unowned for declined
+        if (['available', 'Available'].includes(requested.status)) {
+          return { ...book, mimirrState: 'Available' as MimirrState }
+        }
+      }
 
-    const url = configSettings.find(s => s.key === 'bookshelf_url')?.value
-    const apiKey = configSettings.find(s => s.key === 'bookshelf_api_key')?.value
+      return { ...book, mimirrState: 'Unowned' as MimirrState }
+    })
 
-    if (!url || !apiKey) {
+    return withState.map(book => {
+      const instanceAvailability = book.foreignBookId ? availability.get(book.foreignBookId) : undefined
+      return instanceAvailability && instanceAvailability.length > 1 ? { ...book, instanceAvailability } : book
+    })
+  }
+
+  /**
+   * Get Readarr settings (the default instance unless a config is supplied)
+   */
+  private static async getReadarrConfig(config?: BookshelfConfig) {
+    const resolved = config ?? await BookshelfInstanceService.getConfig()
+
+    if (!resolved) {
       throw new Error('Readarr connection settings are missing.')
     }
 
     // Remove trailing slash
     return {
-      url: url.replace(/\/$/, ''),
-      apiKey
+      url: resolved.url.replace(/\/$/, ''),
+      apiKey: resolved.apiKey
     }
   }
 
@@ -114,6 +192,7 @@ export class ReadarrService {
 
             const firstEdition = Array.isArray(editions) && editions.length > 0 ? editions[0] : null;
             const cleanTitle = book.title?.replace(/\s+by\s+.+$/i, '').trim() || 'Unknown Title';
+            const seriesInfo = extractSeries(book);
 
             let coverArt = firstEdition?.images?.[0]?.remoteUrl
                           || book.images?.find((img: any) => img.coverType === 'cover')?.remoteUrl
@@ -150,6 +229,8 @@ export class ReadarrService {
               description: mapped["Description"],
               genres: Array.isArray(book.genres) ? book.genres : [],
               coverImage: mapped["Cover Art"],
+              series: seriesInfo?.series,
+              seriesPosition: seriesInfo?.seriesPosition,
               _rawMapping: mapped,
               foreignBookId: book.foreignBookId,
               readarrBookId: book.id
@@ -194,9 +275,9 @@ export class ReadarrService {
    * Method B: Inward Sync
    * Step 1: Scan local Readarr library
    */
-  static async scanLocalLibrary(): Promise<any[]> {
+  static async scanLocalLibrary(config?: BookshelfConfig): Promise<any[]> {
     try {
-      const { url, apiKey } = await this.getReadarrConfig()
+      const { url, apiKey } = await this.getReadarrConfig(config)
 
       const scanUrl = `${url}/api/v1/book`
 
@@ -317,6 +398,7 @@ export class ReadarrService {
 
       // Clean title ("Title by Author")
       const cleanTitle = fullBook.title?.replace(/\s+by\s+.+$/i, '').trim() || 'Unknown Title'
+      const seriesInfo = extractSeries(fullBook)
 
       // Get cover art remote URL
       let coverArt = fullBook.images?.find((img: any) => img.coverType === 'cover')?.remoteUrl
@@ -352,6 +434,8 @@ export class ReadarrService {
         description: mapped["Description"],
         genres: Array.isArray(fullBook.genres) ? fullBook.genres : [],
         coverImage: mapped["Cover Art"],
+        series: seriesInfo?.series,
+        seriesPosition: seriesInfo?.seriesPosition,
         _rawMapping: mapped,
         foreignBookId: book.foreignBookId,
         readarrBookId: book.id
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events'
+import { db, requests, syncJobs, type Notification, type SyncJob } from '@/lib/db'
+import { eq, inArray } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+
+export interface RequestStatusChange {
+  requestId: number
+  userId: number | null // null when the request no longer exists (deleted or purged)
+  fromStatus: string | null
+  toStatus: string
+}
+
+export type ServerEvent =
+  | { type: 'notification'; userId: number; notification: Notification }
+  | { type: 'request_status'; changes: RequestStatusChange[] }
+  | { type: 'sync_job'; job: SyncJob }
+
+type Listener = (event: ServerEvent) => void
+
+// Route handlers and instrumentation can each load their own copy of this module,
+// so the emitter lives on globalThis for everyone to share
+const globalAny = globalThis as any
+if (!globalAny.__mimirr_realtime_emitter) {
+  globalAny.__mimirr_realtime_emitter = new EventEmitter().setMaxListeners(0)
+}
+const emitter: EventEmitter = globalAny.__mimirr_realtime_emitter
+
+/**
+ * In-process pub/sub behind the /api/events stream. Publishing never throws and is skipped
+ * entirely when nobody is connected.
+ */
+export class RealtimeService {
+  /**
+   * Listen for every published event. Returns the function that stops listening.
+   */
+  static subscribe(listener: Listener): () => void {
+    emitter.on('event', listener)
+    return () => {
+      emitter.off('event', listener)
+    }
+  }
+
+  static hasSubscribers(): boolean {
+    return emitter.listenerCount('event') > 0
+  }
+
+  static publish(event: ServerEvent): void {
+    if (!this.hasSubscribers()) return
+
+    try {
+      emitter.emit('event', event)
+    } catch (error) {
+      logger.error('Failed to publish server event', { type: event.type, error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  /**
+   * The part of an event a user may see, or null if none of it is theirs.
+   * Users see their own notifications and requests; admins also see every request and sync jobs.
+   */
+  static visibleTo(event: ServerEvent, user: { userId: number; role: string }): ServerEvent | null {
+    const isAdmin = user.role === 'admin'
+
+    switch (event.type) {
+      case 'notification':
+        return event.userId === user.userId ? event : null
+      case 'request_status': {
+        const changes = isAdmin ? event.changes : event.changes.filter((change) => change.userId === user.userId)
+        return changes.length > 0 ? { ...event, changes } : null
+      }
+      case 'sync_job':
+        return isAdmin ? event : null
+    }
+  }
+
+  /**
+   * Publish request status transitions, looking up who each request belongs to
+   */
+  static async publishRequestChanges(changes: Omit<RequestStatusChange, 'userId'>[]): Promise<void> {
+    if (changes.length === 0 || !this.hasSubscribers()) return
+
+    try {
+      const owners = await db
+        .select({ id: requests.id, userId: requests.userId })
+        .from(requests)
+        .where(inArray(requests.id, Array.from(new Set(changes.map((change) => change.requestId)))))
+      const ownerById = new Map(owners.map((owner) => [owner.id, owner.userId]))
+
+      this.publish({
+        type: 'request_status',
+        changes: changes.map((change) => ({
+          requestId: change.requestId,
+          userId: ownerById.get(change.requestId) ?? null,
+          fromStatus: change.fromStatus,
+          toStatus: change.toStatus,
+        })),
+      })
+    } catch (error) {
+      logger.error('Failed to publish request status changes', { error: error instanceof Error ? error.message : error })
+    }
+  }
+
+  /**
+   * Publish the current state of a sync job after it changes
+   */
+  static async publishSyncJob(jobId: number): Promise<void> {
+    if (!this.hasSubscribers()) return
+
+    try {
+      const result = await db.select().from(syncJobs).where(eq(syncJobs.id, jobId)).limit(1)
+      if (result[0]) {
+        this.publish({ type: 'sync_job', job: result[0] })
+      }
+    } catch (error) {
+      logger.error('Failed to publish sync job', { jobId, error: error instanceof Error ? error.message : error })
+    }
+  }
+}
@@ -1,9 +1,10 @@
-import { db, userPreferences, type UserPreferences } from '@/lib/db'
-import { eq } from 'drizzle-orm'
+import { db, userPreferences, bookCache, recommendationFeedback, type UserPreferences, type RecommendationFeedback } from '@/lib/db'
+import { and, desc, eq, inArray } from 'drizzle-orm'
 import { RequestService } from './request.service'
 import { BookService } from './book.service'
-import type { Book, Author } from '@/types/bookinfo'
+import type { Book, Author, RecommendationSignals } from '@/types/bookinfo'
 import { logger } from '@/lib/utils/logger'
+import type { RecommendationFeedbackInput } from '@/lib/utils/validation'
 
 // Half-life = 90 days (requests older than 90 days have 50% weight)
 const HALF_LIFE_DAYS = 90
@@ -13,6 +14,12 @@ const DECAY_CONSTANT = Math.log(2) / HALF_LIFE_DAYS
 export const MOOD_KEYWORDS = ['Dark', 'Mysterious', 'Uplifting', 'Melancholic', 'Whimsical', 'Tense', 'Funny', 'Romantic'];
 export const PACE_KEYWORDS = ['Fast-paced', 'Slow-burn', 'Steady'];
 
+// Negative weight applied to a disliked book's genres (before time decay), relative to one request
+const FEEDBACK_GENRE_PENALTY = {
+  thumbs_down: 1,
+  not_interested: 0.5,
+} as const
+
 interface GenreWeight {
   [genre: string]: number
 }
@@ -22,6 +29,12 @@ interface AuthorPreference {
   weight: number
 }
 
+interface RequestedBook {
+  requestId: number
+  requestedAt: Date
+  book: Book
+}
+
 /**
  * Calculate time-based weight for a request using exponential decay
  * More recent requests have higher weight (1.0 = today, 0.5 = 90 days ago)
@@ -32,9 +45,43 @@ function calculateTimeWeight(requestDate: Date): number {
   return Math.exp(-DECAY_CONSTANT * ageInDays)
 }
 
+/**
+ * Load a user's recommendation feedback (thumbs down, not interested, hidden authors)
+ */
+async function loadFeedback(userId: number): Promise<RecommendationFeedback[]> {
+  return db
+    .select()
+    .from(recommendationFeedback)
+    .where(eq(recommendationFeedback.userId, userId))
+}
+
+/**
+ * Whether the user hid this author (case-insensitive)
+ */
+export function isAuthorHidden(authorName: string, feedback: RecommendationFeedback[]): boolean {
+  const name = normalizeAuthorName(authorName)
+  return feedback.some(f => f.type === 'hide_author' && !!f.authorName && normalizeAuthorName(f.authorName) === name)
+}
+
+/**
+ * Author names come from several metadata sources, so compare them ignoring case and stray spaces
+ */
+function normalizeAuthorName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+/**
+ * Whether feedback rules a book out of the personalized feed: the book itself was
+ * dismissed, or any of its authors is hidden
+ */
+export function isExcludedByFeedback(book: Pick<Book, 'id' | 'author' | 'authors'>, feedback: RecommendationFeedback[]): boolean {
+  if (feedback.some(f => f.bookId === book.id && f.type !== 'hide_author')) return true
+  return (book.authors?.length ? book.authors : [book.author]).some(a => !!a && isAuthorHidden(a, feedback))
+}
+
 /**
  * Calculate genre weights from user's request history
- * Returns normalized weights (0-1) for each genre
+ * Returns normalized weights (0-1) for each genre; genres of disliked books can go negative
  */
 async function calculateGenreWeights(userId: number): Promise<GenreWeight> {
   const requests = await RequestService.getRequestsByUserId(userId)
@@ -60,9 +107,19 @@ async function calculateGenreWeights(userId: number): Promise<GenreWeight> {
     }
   }
 
+  // Thumbs down and "not interested" count against the book's genres
+  for (const feedback of await loadFeedback(userId)) {
+    if (feedback.type === 'hide_author' || !feedback.genres) continue
+
+    const penalty = FEEDBACK_GENRE_PENALTY[feedback.type] * calculateTimeWeight(feedback.createdAt)
+    for (const genre of JSON.parse(feedback.genres) as string[]) {
+      genreScores[genre] = (genreScores[genre] || 0) - penalty
+    }
+  }
+
   // Normalize weights to 0-1 range
   const maxScore = Math.max(...Object.values(genreScores))
-  if (maxScore === 0) return {}
+  if (maxScore <= 0) return {}
 
   const normalizedWeights: GenreWeight = {}
   for (const [genre, score] of Object.entries(genreScores)) {
@@ -74,7 +131,8 @@ async function calculateGenreWeights(userId: number): Promise<GenreWeight> {
 
 /**
  * Calculate author preferences from user's request history
- * Returns array of {name, weight} sorted by weight descending
+ * Returns array of {name, weight} sorted by weight descending.
+ * Thumbs-down books count against their author and hidden authors are pinned to -1.
  */
 async function calculateAuthorPreferences(userId: number): Promise<AuthorPreference[]> {
   const requests = await RequestService.getRequestsByUserId(userId)
@@ -86,7 +144,14 @@ async function calculateAuthorPreferences(userId: number): Promise<AuthorPrefere
   const bookIds = requests.map(r => r.bookId)
   const booksMap = await BookService.getBooksByIds(bookIds)
 
+  // Scores are keyed by normalized name; the first spelling seen is the one shown
   const authorScores: { [author: string]: number } = {}
+  const displayNames = new Map<string, string>()
+  const keyFor = (author: string) => {
+    const key = normalizeAuthorName(author)
+    if (!displayNames.has(key)) displayNames.set(key, author.trim())
+    return key
+  }
 
   for (const request of requests) {
     const book = booksMap.get(request.bookId)
@@ -96,18 +161,33 @@ async function calculateAuthorPreferences(userId: number): Promise<AuthorPrefere
 
     // Primary author gets full weight, co-authors get partial weight
     for (let i = 0; i < book.authors.length; i++) {
-      const author = book.authors[i]
+      const author = keyFor(book.authors[i])
       const authorWeight = i === 0 ? timeWeight : timeWeight * 0.5
       authorScores[author] = (authorScores[author] || 0) + authorWeight
     }
   }
 
+  const hiddenAuthors = new Set<string>()
+  for (const feedback of await loadFeedback(userId)) {
+    if (!feedback.authorName?.trim()) continue
+
+    const author = keyFor(feedback.authorName)
+    if (feedback.type === 'hide_author') {
+      hiddenAuthors.add(author)
+    } else if (feedback.type === 'thumbs_down') {
+      const penalty = 0.5 * calculateTimeWeight(feedback.createdAt)
+      authorScores[author] = (authorScores[author] || 0) - penalty
+    }
+  }
+
   // Normalize and sort
-  const maxScore = Math.max(...Object.values(authorScores))
-  if (maxScore === 0) return []
+  const maxScore = Math.max(0, ...Object.values(authorScores))
+  const scale = maxScore > 0 ? maxScore : 1
 
   const preferences: AuthorPreference[] = Object.entries(authorScores)
-    .map(([name, score]) => ({ name, weight: score / maxScore }))
+    .filter(([author]) => !hiddenAuthors.has(author))
+    .map(([author, score]) => ({ name: displayNames.get(author)!, weight: Math.max(score / scale, -1) }))
+    .concat(Array.from(hiddenAuthors).map(author => ({ name: displayNames.get(author)!, weight: -1 })))
     .sort((a, b) => b.weight - a.weight)
 
   return preferences
@@ -200,6 +280,7 @@ async function calculatePacePreferences(userId: number): Promise<{ pace: string,
  */
 function extractTopGenres(genreWeights: GenreWeight, n: number = 5): string[] {
   return Object.entries(genreWeights)
+    .filter(([, weight]) => weight > 0)
     .sort(([, a], [, b]) => b - a)
     .slice(0, n)
     .map(([genre]) => genre)
@@ -209,7 +290,7 @@ function extractTopGenres(genreWeights: GenreWeight, n: number = 5): string[] {
  * Extract top N authors from author preferences
  */
 function extractTopAuthors(authorPreferences: AuthorPreference[], n: number = 5): string[] {
-  return authorPreferences.slice(0, n).map(a => a.name)
+  return authorPreferences.filter(a => a.weight > 0).slice(0, n).map(a => a.name)
 }
 
 /**
@@ -226,6 +307,87 @@ function extractTopPaces(pacePreferences: { pace: string, weight: number }[], n:
   return pacePreferences.slice(0, n).map(p => p.pace)
 }
 
+/**
+ * Collect candidate books for each genre from local data: the book cache (which holds every
+ * search result and viewed book) plus the last discovery refresh.
+ * Returns one array per genre, in the same order as the input.
+ */
+async function collectGenreCandidates(genres: string[], perGenre: number = 50): Promise<Book[][]> {
+  const { DiscoveryService } = await import('./discovery.service')
+  const discoveryBooks = await DiscoveryService.getCachedBooks()
+
+  return Promise.all(
+    genres.map(async (genre) => {
+      const target = genre.toLowerCase()
+      const cached = await BookService.getCachedBooksByGenre(genre, perGenre)
+      const discovered = discoveryBooks.filter(book =>
+        (book.genres || []).some(g => g.toLowerCase() === target)
+      )
+
+      return Array.from(
+        new Map([...cached, ...discovered].map(book => [book.id, book])).values()
+      ).slice(0, perGenre)
+    })
+  )
+}
+
+/**
+ * Work out why a book was recommended: the genres, moods and paces it shares with the user's
+ * preferences, a preferred author, and the request that contributed most to the match
+ * (same author first, otherwise the most shared specific genres, weighted by recency).
+ */
+function buildRecommendationSignals(
+  book: Book,
+  context: {
+    genreWeights: GenreWeight
+    broadGenres: Set<string>
+    topMoods: string[]
+    topPaces: string[]
+    authorPreferences: AuthorPreference[]
+    requestedBooks: RequestedBook[]
+  }
+): RecommendationSignals {
+  const bookGenres = book.genres || []
+  const isTag = (g: string) => MOOD_KEYWORDS.includes(g) || PACE_KEYWORDS.includes(g)
+
+  const genres = bookGenres
+    .filter(g => context.genreWeights[g] && !context.broadGenres.has(g) && !isTag(g))
+    .sort((a, b) => context.genreWeights[b] - context.genreWeights[a])
+  const moods = bookGenres.filter(g => context.topMoods.includes(g))
+  const paces = bookGenres.filter(g => context.topPaces.includes(g))
+
+  const bookAuthors = (book.authors?.length ? book.authors : [book.author]).map(normalizeAuthorName)
+  const author = context.authorPreferences.find(p => p.weight > 0 && bookAuthors.includes(normalizeAuthorName(p.name)))?.name
+
+  let source: RequestedBook | undefined
+  if (author) {
+    source = context.requestedBooks.find(r =>
+      (r.book.authors || [r.book.author]).some(a => a.toLowerCase() === author.toLowerCase())
+    )
+  }
+  if (!source) {
+    let bestScore = 0
+    for (const requested of context.requestedBooks) {
+      const shared = (requested.book.genres || []).filter(g => genres.includes(g) || moods.includes(g) || paces.includes(g))
+      const score = shared.length * calculateTimeWeight(requested.requestedAt)
+      if (score > bestScore) {
+        bestScore = score
+        source = requested
+      }
+    }
+  }
+
+  return {
+    genres,
+    moods,
+    paces,
+    author,
+    sourceRequest: source
+      ? { requestId: source.requestId, bookId: source.book.id, title: source.book.title }
+      : undefined,
+  }
+}
+
 /**
  * Update user preferences based on their current request history
  * Uses time-weighted algorithm to prioritize recent requests
@@ -257,9 +419,11 @@ export async function updateUserPreferences(userId: number): Promise<void> {
     let recommendedPopularBooks: string[] = []
     let recommendedNewBooks: string[] = []
     let recommendedAuthorBooks: string = '[]' // JSON string of Author objects
+    const recommendationSignals: Record<string, RecommendationSignals> = {}
 
     try {
       const requestedBookIds = new Set(requests.map(r => r.bookId))
+      const feedback = await loadFeedback(userId)
 
       // Broad genres to de-prioritize (focus on specific genres)
       const broadGenres = new Set([
@@ -278,6 +442,8 @@ export async function updateUserPreferences(userId: number): Promise<void> {
         'Biography Memoir' // Too broad, prefer specific "Memoir"
       ])
       const specificGenres = topGenres.filter(g => !broadGenres.has(g))
+      // Fall back to the broad genres when a user has only requested broadly tagged books
+      const candidateGenres = specificGenres.length > 0 ? specificGenres : topGenres
 
       logger.info('Fetching books by genre for recommendations', {
         userId,
@@ -285,21 +451,22 @@ export async function updateUserPreferences(userId: number): Promise<void> {
         broadGenres: topGenres.filter(g => broadGenres.has(g))
       })
 
-      // TODO: Architect Readarr Lists integration for discovery features.
-      const genreBookArrays: any[] = []
+      const genreBookArrays = await collectGenreCandidates(candidateGenres)
 
       // Combine and deduplicate all genre books
       const allGenreBooks = Array.from(
         new Map(
           genreBookArrays.flat().map((book: any) => [book.id, book])
         ).values()
-      ).filter((book: any) => !requestedBookIds.has(book.id))
+      )
+        .filter((book: any) => !requestedBookIds.has(book.id))
+        .filter((book: any) => !isExcludedByFeedback(book, feedback))
 
       logger.info('Genre books fetched', {
         userId,
         totalBooks: allGenreBooks.length,
         booksPerGenre: genreBookArrays.map((books, i) => ({
-          genre: specificGenres[i],
+          genre: candidateGenres[i],
           count: books.length
         }))
       })
@@ -331,14 +498,24 @@ export async function updateUserPreferences(userId: number): Promise<void> {
         return { book, matchScore: totalScore, rating: book.rating || 0 }
       })
 
-      // Cache all fetched books to database for later retrieval
+      // Cache books that only exist in the discovery lists so the personalized route can load them by ID.
+      // Books already in the cache are left alone to keep their cachedAt (and refresh schedule) intact.
+      const alreadyCached = allGenreBooks.length > 0
+        ? await db
+            .select({ id: bookCache.id })
+            .from(bookCache)
+            .where(inArray(bookCache.id, allGenreBooks.map(book => book.id)))
+        : []
+      const cachedIds = new Set(alreadyCached.map(row => row.id))
+      const uncachedBooks = allGenreBooks.filter(book => !cachedIds.has(book.id))
+
       logger.info('Caching genre books to database', {
         userId,
-        bookCount: allGenreBooks.length
+        bookCount: uncachedBooks.length
       })
 
       await Promise.all(
-        allGenreBooks.map(book => BookService.cacheBook(book))
+        uncachedBooks.map(book => BookService.cacheBook(book))
       )
 
       // Popular Books: Top-rated books from genre matches, sorted by score
@@ -360,6 +537,27 @@ export async function updateUserPreferences(userId: number): Promise<void> {
       const newReleasesSorted = recentBooks.sort((a, b) => b.matchScore - a.matchScore)
       recommendedNewBooks = newReleasesSorted.slice(0, 5).map(s => s.book.id)
 
+      // Record why each recommended book made the cut
+      const requestedBooksMap = await BookService.getBooksByIds(requests.map(r => r.bookId))
+      const requestedBooks: RequestedBook[] = requests
+        .map(r => ({ requestId: r.id, requestedAt: r.requestedAt, book: requestedBooksMap.get(r.bookId) }))
+        .filter((r): r is RequestedBook => !!r.book)
+        .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime())
+
+      const recommendedBooks = new Map(scoredBooks.map(({ book }) => [book.id, book]))
+      for (const bookId of [...recommendedPopularBooks, ...recommendedNewBooks]) {
+        const book = recommendedBooks.get(bookId)
+        if (!book || recommendationSignals[bookId]) continue
+        recommendationSignals[bookId] = buildRecommendationSignals(book, {
+          genreWeights,
+          broadGenres,
+          topMoods,
+          topPaces,
+          authorPreferences,
+          requestedBooks,
+        })
+      }
+
       logger.info('New releases filtered', {
         userId,
         totalGenreBooks: allGenreBooks.length,
@@ -386,6 +584,7 @@ export async function updateUserPreferences(userId: number): Promise<void> {
 
         for (const authorName of book.authors || [book.author]) {
           if (!authorName || authorName === 'Unknown Author') continue
+          if (isAuthorHidden(authorName, feedback)) continue
 
           const existing = authorMap.get(authorName)
           if (existing) {
@@ -506,6 +705,7 @@ export async function updateUserPreferences(userId: number): Promise<void> {
         recommendedPopularBooks: JSON.stringify(recommendedPopularBooks),
         recommendedNewBooks: JSON.stringify(recommendedNewBooks),
         recommendedAuthorBooks: recommendedAuthorBooks, // Already a JSON string
+        recommendationSignals: JSON.stringify(recommendationSignals),
         updatedAt: new Date(),
       })
       .onConflictDoUpdate({
@@ -522,6 +722,7 @@ export async function updateUserPreferences(userId: number): Promise<void> {
           recommendedPopularBooks: JSON.stringify(recommendedPopularBooks),
           recommendedNewBooks: JSON.stringify(recommendedNewBooks),
           recommendedAuthorBooks: recommendedAuthorBooks, // Already a JSON string
+          recommendationSignals: JSON.stringify(recommendationSignals),
           updatedAt: new Date(),
         },
       })
@@ -686,3 +887,75 @@ export async function getAuthorRecommendations(userId: number, limit: number = 1
     return []
   }
 }
+
+/**
+ * Get a user's recommendation feedback, newest first
+ */
+export async function getRecommendationFeedback(userId: number): Promise<RecommendationFeedback[]> {
+  return db
+    .select()
+    .from(recommendationFeedback)
+    .where(eq(recommendationFeedback.userId, userId))
+    .orderBy(desc(recommendationFeedback.createdAt))
+}
+
+/**
+ * Record recommendation feedback. Book feedback snapshots the book's genres and author from the cache
+ * so the negative weights survive cache purges. Repeating the same feedback returns the existing row.
+ */
+export async function addRecommendationFeedback(
+  userId: number,
+  input: RecommendationFeedbackInput
+): Promise<RecommendationFeedback> {
+  let authorName = input.authorName ?? null
+  let genres: string[] | null = null
+
+  if (input.type !== 'hide_author' && input.bookId) {
+    const book = (await BookService.getBooksByIds([input.bookId])).get(input.bookId)
+    genres = book?.genres || null
+    authorName = authorName ?? (book?.authors?.[0] || book?.author || null)
+  }
+
+  const existing = await db
+    .select()
+    .from(recommendationFeedback)
+    .where(
+      and(
+        eq(recommendationFeedback.userId, userId),
+        eq(recommendationFeedback.type, input.type),
+        input.type === 'hide_author'
+          ? eq(recommendationFeedback.authorName, authorName!)
+          : eq(recommendationFeedback.bookId, input.bookId!)
+      )
+    )
+    .limit(1)
+
+  if (existing[0]) return existing[0]
+
+  const [feedback] = await db
+    .insert(recommendationFeedback)
+    .values({
+      userId,
+      type: input.type,
+      bookId: input.type === 'hide_author' ? null : input.bookId,
+      authorName,
+      genres: genres ? JSON.stringify(genres) : null,
+    })
+    .returning()
+
+  logger.info('Recommendation feedback recorded', { userId, type: feedback.type, bookId: feedback.bookId, authorName: feedback.authorName })
+
+  return feedback
+}
+
+/**
+ * Remove a piece of the user's recommendation feedback (undo). Returns false if it was not found.
+ */
+export async function removeRecommendationFeedback(userId: number, feedbackId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(recommendationFeedback)
+    .where(and(eq(recommendationFeedback.id, feedbackId), eq(recommendationFeedback.userId, userId)))
+    .returning({ id: recommendationFeedback.id })
+
+  return deleted.length > 0
+}
@@ -0,0 +1,165 @@
+import { db, requestComments, users, type Request, type RequestComment } from '@/lib/db'
+import { eq, asc, inArray } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { BookService } from './book.service'
+import { BookshelfService } from './bookshelf.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { NotificationService } from './notification.service'
+import type { NotificationMessage } from './notifications/types'
+
+export interface RequestCommentWithAuthor extends RequestComment {
+  authorUsername: string | null
+  authorRole: 'user' | 'admin' | null
+}
+
+export class RequestCommentService {
+  /**
+   * Get a request's comment thread, oldest first
+   */
+  static async getComments(requestId: number): Promise<RequestCommentWithAuthor[]> {
+    try {
+      const result = await db
+        .select({
+          comment: requestComments,
+          authorUsername: users.username,
+          authorRole: users.role,
+        })
+        .from(requestComments)
+        .leftJoin(users, eq(requestComments.userId, users.id))
+        .where(eq(requestComments.requestId, requestId))
+        .orderBy(asc(requestComments.createdAt), asc(requestComments.id))
+
+      return result.map((row) => ({
+        ...row.comment,
+        authorUsername: row.authorUsername,
+        authorRole: row.authorRole,
+      }))
+    } catch (error) {
+      logger.error('Failed to get request comments', { error: error instanceof Error ? error.message : error, requestId })
+      throw new Error('Failed to retrieve request comments')
+    }
+  }
+
+  /**
+   * Delete the comment threads of requests that are gone for good (deleted, or purged from the archive)
+   */
+  static async deleteComments(requestIds: number[]): Promise<void> {
+    if (requestIds.length === 0) return
+    await db.delete(requestComments).where(inArray(requestComments.requestId, requestIds))
+  }
+
+  /**
+   * Add a comment to a request and notify the other side of the thread:
+   * the requester when someone else comments, the admins when the requester does
+   */
+  static async addComment(
+    existingRequest: Request,
+    author: { userId: number; role: 'user' | 'admin' },
+    body: string
+  ): Promise<RequestCommentWithAuthor> {
+    const [comment] = await db
+      .insert(requestComments)
+      .values({
+        requestId: existingRequest.id,
+        userId: author.userId,
+        body: body.trim(),
+        createdAt: new Date(),
+      })
+      .returning()
+
+    logger.info('Request comment added', { requestId: existingRequest.id, userId: author.userId })
+
+    const authorRow = await db
+      .select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, author.userId))
+      .limit(1)
+    const authorUsername = authorRow[0]?.username || 'Unknown User'
+
+    // A failed notification should not fail the comment itself
+    try {
+      await this.notifyThread(existingRequest, { userId: author.userId, username: authorUsername }, comment.body)
+    } catch (error) {
+      logger.error('Failed to send request comment notifications', {
+        error: error instanceof Error ? error.message : error,
+        requestId: existingRequest.id,
+      })
+    }
+
+    return { ...comment, authorUsername, authorRole: author.role }
+  }
+
+  private static async notifyThread(
+    existingRequest: Request,
+    author: { userId: number; username: string },
+    body: string
+  ): Promise<void> {
+    const fromRequester = author.userId === existingRequest.userId
+    const recipients = fromRequester
+      ? (await NotificationService.getAdminUserIds()).filter((id) => id !== author.userId)
+      : [existingRequest.userId]
+
+    const book = await BookService.getBookById(existingRequest.bookId)
+    const bookTitle = book?.title || 'Unknown Book'
+
+    const requester = await db
+      .select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, existingRequest.userId))
+      .limit(1)
+
+    let qualityProfileName = 'Unknown'
+    try {
+      const bookshelfConfig = await BookshelfInstanceService.getConfig(existingRequest.instanceId)
+      if (bookshelfConfig) {
+        const profiles = await BookshelfService.getQualityProfiles(bookshelfConfig)
+        const profile = profiles.find((p) => p.id === existingRequest.qualityProfileId)
+        if (profile) qualityProfileName = profile.name
+      }
+    } catch (error) {
+      logger.error('Failed to fetch quality profile', { error: error instanceof Error ? error.message : error })
+    }
+
+    const status = existingRequest.status.charAt(0).toUpperCase() + existingRequest.status.slice(1)
+
+    const link = fromRequester ? '/requests/all' : '/requests'
+    const message: NotificationMessage = {
+      type: 'request_comment',
+      title: `New Comment from ${author.username}`,
+      bookTitle,
+      bookAuthor: book?.author || 'Unknown Author',
+      description: body,
+      coverImage: book?.coverImage,
+      requestedBy: requester[0]?.username || 'Unknown User',
+      status,
+      format: qualityProfileName,
+      details: [],
+      link,
+    }
+
+    await NotificationService.sendExternalNotification(
+      message.type,
+      message.title,
+      message.bookTitle,
+      message.bookAuthor,
+      message.description,
+      message.coverImage,
+      message.requestedBy,
+      message.status,
+      message.format,
+      link
+    )
+
+    const preview = body.length > 120 ? body.substring(0, 117) + '...' : body
+    for (const userId of recipients) {
+      await NotificationService.notifyUser(
+        userId,
+        'request_comment',
+        `New Comment on ${bookTitle}`,
+        `${author.username}: ${preview}`,
+        link,
+        message
+      )
+    }
+  }
+}
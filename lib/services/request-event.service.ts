@@ -0,0 +1,94 @@
+import { db, requestEvents, users, type RequestEvent, type NewRequestEvent } from '@/lib/db'
+import { eq, asc } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { RealtimeService } from './realtime.service'
+
+export type RequestEventSource = RequestEvent['source']
+
+export interface RequestEventWithActor extends RequestEvent {
+  actorUsername: string | null
+}
+
+export class RequestEventService {
+  /**
+   * Record a single request status transition.
+   * Failures are logged and swallowed so auditing never breaks the transition itself.
+   */
+  static async recordEvent(event: {
+    requestId: number
+    fromStatus: string | null
+    toStatus: string
+    source: RequestEventSource
+    actorId?: number | null
+    message?: string | null
+  }): Promise<void> {
+    await this.recordEvents([event])
+  }
+
+  /**
+   * Record several request status transitions in one insert
+   */
+  static async recordEvents(
+    events: Array<{
+      requestId: number
+      fromStatus: string | null
+      toStatus: string
+      source: RequestEventSource
+      actorId?: number | null
+      message?: string | null
+    }>
+  ): Promise<void> {
+    if (events.length === 0) return
+
+    try {
+      const now = new Date()
+      const rows: NewRequestEvent[] = events.map((event) => ({
+        requestId: event.requestId,
+        fromStatus: event.fromStatus,
+        toStatus: event.toStatus,
+        source: event.source,
+        actorId: event.actorId ?? null,
+        message: event.message ?? null,
+        createdAt: now,
+      }))
+
+      // Keep each insert well under SQLite's bound parameter limit
+      const chunkSize = 100
+      for (let i = 0; i < rows.length; i += chunkSize) {
+        await db.insert(requestEvents).values(rows.slice(i, i + chunkSize))
+      }
+
+      await RealtimeService.publishRequestChanges(events)
+    } catch (error) {
+      logger.error('Failed to record request events', {
+        error: error instanceof Error ? error.message : error,
+        requestIds: events.map((e) => e.requestId),
+      })
+    }
+  }
+
+  /**
+   * Get a request's status history, oldest first
+   */
+  static async getHistory(requestId: number): Promise<RequestEventWithActor[]> {
+    try {
+      const result = await db
+        .select({
+          event: requestEvents,
+          actorUsername: users.username,
+        })
+        .from(requestEvents)
+        .leftJoin(users, eq(requestEvents.actorId, users.id))
+        .where(eq(requestEvents.requestId, requestId))
+        .orderBy(asc(requestEvents.createdAt), asc(requestEvents.id))
+
+      return result.map((row) => ({
+        ...row.event,
+        actorUsername: row.actorUsername,
+      }))
+    } catch (error) {
+      logger.error('Failed to get request history', { error: error instanceof Error ? error.message : error, requestId })
+      throw new Error('Failed to retrieve request history')
+    }
+  }
+}
@@ -1,9 +1,17 @@
-import { db, requests, users, settings, libraryBooks, bookCache, type Request, type NewRequest } from '@/lib/db'
+import { db, requests, users, libraryBooks, bookshelfInstances, bookCache, syncJobs, type Request, type NewRequest } from '@/lib/db'
 import { eq, and, desc, isNotNull, lt, sql } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
 import { BookService } from './book.service'
 import { BookshelfService } from './bookshelf.service'
 import { NotificationService } from './notification.service'
+import { QuotaService } from './quota.service'
+import { RequestEventService, type RequestEventSource } from './request-event.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { RequestCommentService } from './request-comment.service'
+import { AutoApprovalService } from './auto-approval.service'
+import * as RecommendationService from './recommendation.service'
+import type { BookshelfConfig } from '@/types/bookshelf.types'
+import type { Book } from '@/types/bookinfo'
 
 export interface RequestWithBook extends Request {
   bookTitle: string
@@ -11,6 +19,23 @@ export interface RequestWithBook extends Request {
   bookCoverImage?: string
   bookPublishedDate?: string
   requestedBy?: string
+  instanceName?: string // Only set when more than one Bookshelf instance is configured
+}
+
+/**
+ * Thrown when requests cannot be accepted yet (no Bookshelf connected or no library sync has completed)
+ */
+export class RequestsUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RequestsUnavailableError'
+  }
+}
+
+export interface SubmittedRequest {
+  request: Request
+  book: Book | null
+  autoApproved: boolean
 }
 
 export class RequestService {
@@ -29,6 +54,46 @@ export class RequestService {
     return `${year}-${month}-${day}`;
   }
 
+  /**
+   * Resolve the instance a new request targets, falling back to the default instance
+   */
+  private static async resolveInstanceId(instanceId?: number): Promise<number | null> {
+    if (instanceId) {
+      const instance = await BookshelfInstanceService.getInstance(instanceId)
+      if (!instance) {
+        throw new Error('Bookshelf instance not found')
+      }
+      return instance.id
+    }
+
+    const defaultInstance = await BookshelfInstanceService.getDefaultInstance()
+    return defaultInstance?.id ?? null
+  }
+
+  private static async hasMultipleInstances(): Promise<boolean> {
+    const instances = await db.select({ id: bookshelfInstances.id }).from(bookshelfInstances).limit(2)
+    return instances.length > 1
+  }
+
+  /**
+   * Throw a RequestsUnavailableError unless Bookshelf is connected and a library sync has completed at least once
+   */
+  static async assertAcceptingRequests(): Promise<void> {
+    if ((await BookshelfInstanceService.getDefaultInstance()) === null) {
+      throw new RequestsUnavailableError('Bookshelf must be connected before requesting books. Please ask an admin to configure it.')
+    }
+
+    const syncCheck = await db
+      .select({ id: syncJobs.id })
+      .from(syncJobs)
+      .where(eq(syncJobs.status, 'complete'))
+      .limit(1)
+
+    if (syncCheck.length === 0) {
+      throw new RequestsUnavailableError('Library sync required before requesting books. Please ask an admin to run a scan.')
+    }
+  }
+
   /**
    * Create a new book request
    */
@@ -36,10 +101,13 @@ export class RequestService {
     userId: number
     bookId: string
     qualityProfileId: number
+    instanceId?: number
     notes?: string
   }): Promise<Request> {
     try {
-      // Check if user already has a pending/approved request for this book
+      const instanceId = await this.resolveInstanceId(data.instanceId)
+
+      // Check if user already has a pending/approved request for this book on the same instance
       const existing = await db
         .select()
         .from(requests)
@@ -47,7 +115,8 @@ export class RequestService {
           and(
             eq(requests.userId, data.userId),
             eq(requests.bookId, data.bookId),
-            eq(requests.status, 'pending')
+            eq(requests.status, 'pending'),
+            instanceId ? eq(requests.instanceId, instanceId) : undefined
           )
         )
         .limit(1)
@@ -56,11 +125,15 @@ export class RequestService {
         throw new Error('You already have a pending request for this book')
       }
 
+      // Enforce the user's rolling request quota
+      await QuotaService.assertWithinQuota(data.userId)
+
       // Fetch book details to cache them
       await BookService.getBookById(data.bookId)
 
       const newRequest: NewRequest = {
         userId: data.userId,
+        instanceId,
         bookId: data.bookId,
         qualityProfileId: data.qualityProfileId,
         notes: data.notes,
@@ -70,6 +143,14 @@ export class RequestService {
 
       const result = await db.insert(requests).values(newRequest).returning()
 
+      await RequestEventService.recordEvent({
+        requestId: result[0].id,
+        fromStatus: null,
+        toStatus: 'pending',
+        source: 'user',
+        actorId: data.userId,
+      })
+
       logger.info('Book request created', {
         requestId: result[0].id,
         userId: data.userId,
@@ -84,6 +165,25 @@ export class RequestService {
     }
   }
 
+  /**
+   * Create a request the way every user-facing path does: the usual duplicate and quota checks,
+   * then the auto-approval rules, which send a matching request to Bookshelf right away.
+   * Pass the book when the caller already has it to skip the lookup.
+   */
+  static async submitRequest(
+    data: {
+      userId: number
+      bookId: string
+      qualityProfileId: number
+      instanceId?: number
+      notes?: string
+    },
+    book?: Book
+  ): Promise<SubmittedRequest> {
+    const newRequest = await this.createRequest(data)
+    return this.applyAutoApproval(newRequest, book ?? (await BookService.getBookById(data.bookId)))
+  }
+
   /**
    * Get request by ID
    */
@@ -108,18 +208,21 @@ export class RequestService {
         .select({
           request: requests,
           username: users.username,
+          instanceName: bookshelfInstances.name,
         })
         .from(requests)
         .leftJoin(users, eq(requests.userId, users.id))
+        .leftJoin(bookshelfInstances, eq(requests.instanceId, bookshelfInstances.id))
         .where(eq(requests.userId, userId))
         .orderBy(desc(requests.requestedAt))
 
       // Batch fetch all book details
       const bookIds = userRequests.map((r) => r.request.bookId)
       const booksMap = await BookService.getBooksByIds(bookIds)
+      const showInstance = await this.hasMultipleInstances()
 
       // Enrich with book details
-      const enrichedRequests = userRequests.map(({ request, username }) => {
+      const enrichedRequests = userRequests.map(({ request, username, instanceName }) => {
         const book = booksMap.get(request.bookId)
         return {
           ...request,
@@ -128,6 +231,7 @@ export class RequestService {
           bookCoverImage: book?.coverImage,
           bookPublishedDate: book?.publishedDate,
           requestedBy: username || 'Unknown User',
+          instanceName: showInstance ? instanceName ?? undefined : undefined,
         }
       })
 
@@ -147,17 +251,20 @@ export class RequestService {
         .select({
           request: requests,
           username: users.username,
+          instanceName: bookshelfInstances.name,
         })
         .from(requests)
         .leftJoin(users, eq(requests.userId, users.id))
+        .leftJoin(bookshelfInstances, eq(requests.instanceId, bookshelfInstances.id))
         .orderBy(desc(requests.requestedAt))
 
       // Batch fetch all book details
       const bookIds = allRequests.map((r) => r.request.bookId)
       const booksMap = await BookService.getBooksByIds(bookIds)
+      const showInstance = await this.hasMultipleInstances()
 
       // Enrich with book details
-      const enrichedRequests = allRequests.map(({ request, username }) => {
+      const enrichedRequests = allRequests.map(({ request, username, instanceName }) => {
         const book = booksMap.get(request.bookId)
         return {
           ...request,
@@ -166,6 +273,7 @@ export class RequestService {
           bookCoverImage: book?.coverImage,
           bookPublishedDate: book?.publishedDate,
           requestedBy: username || 'Unknown User',
+          instanceName: showInstance ? instanceName ?? undefined : undefined,
         }
       })
 
@@ -178,6 +286,8 @@ export class RequestService {
 
   /**
    * Update request status
+   * Status changes are recorded in the request's history. The event source defaults to
+   * 'admin' when processedBy is set and 'system' otherwise.
    */
   static async updateRequest(
     requestId: number,
@@ -187,7 +297,11 @@ export class RequestService {
       processedBy?: number
       bookshelfId?: number
       foreignBookId?: string
-    }
+      rootFolderPath?: string | null
+      declineReason?: string | null
+      declineNote?: string | null
+    },
+    audit: { source?: RequestEventSource; message?: string } = {}
   ): Promise<Request> {
     try {
       const updateData: Partial<Request> = {
@@ -195,6 +309,15 @@ export class RequestService {
         processedAt: new Date(),
       }
 
+      // Capture the previous status so the transition can be recorded
+      const previous = data.status
+        ? await db
+            .select({ status: requests.status })
+            .from(requests)
+            .where(eq(requests.id, requestId))
+            .limit(1)
+        : []
+
       const result = await db
         .update(requests)
         .set(updateData)
@@ -205,6 +328,17 @@ export class RequestService {
         throw new Error('Request not found')
       }
 
+      if (data.status && previous[0]?.status !== data.status) {
+        await RequestEventService.recordEvent({
+          requestId,
+          fromStatus: previous[0]?.status ?? null,
+          toStatus: data.status,
+          source: audit.source ?? (data.processedBy ? 'admin' : 'system'),
+          actorId: data.processedBy,
+          message: audit.message ?? data.notes,
+        })
+      }
+
       logger.info('Request updated', {
         requestId,
         status: data.status,
@@ -221,9 +355,29 @@ export class RequestService {
   /**
    * Delete request
    */
-  static async deleteRequest(requestId: number): Promise<void> {
+  static async deleteRequest(
+    requestId: number,
+    audit: { source?: RequestEventSource; actorId?: number } = {}
+  ): Promise<void> {
     try {
+      const existing = await db
+        .select({ status: requests.status })
+        .from(requests)
+        .where(eq(requests.id, requestId))
+        .limit(1)
+
       await db.delete(requests).where(eq(requests.id, requestId))
+      await RequestCommentService.deleteComments([requestId])
+
+      if (existing.length > 0) {
+        await RequestEventService.recordEvent({
+          requestId,
+          fromStatus: existing[0].status,
+          toStatus: 'deleted',
+          source: audit.source ?? 'user',
+          actorId: audit.actorId,
+        })
+      }
 
       logger.info('Request deleted', { requestId })
     } catch (error) {
@@ -287,16 +441,23 @@ export class RequestService {
     title: string
     authorName: string
     qualityProfileId: number
+    instanceId?: number
     notes?: string
     monitoringOption: 'specificBook'
   }): Promise<Request> {
     try {
+      // Enforce the user's rolling request quota
+      await QuotaService.assertWithinQuota(data.userId)
+
+      const instanceId = await this.resolveInstanceId(data.instanceId)
+
       // For Only This Book requests, we need to create a new book entry first
       // In a real implementation, you'd want to integrate with a book database or API
       // Here we'll simulate the process by creating a request that tracks the foreign identifiers
       
       const newRequest: NewRequest = {
         userId: data.userId,
+        instanceId,
         bookId: data.foreignBookId, // Using foreign ID as bookId for now (this would be a proper book ID in production)
         qualityProfileId: data.qualityProfileId,
         notes: data.notes,
@@ -309,6 +470,14 @@ export class RequestService {
 
       const result = await db.insert(requests).values(newRequest).returning()
 
+      await RequestEventService.recordEvent({
+        requestId: result[0].id,
+        fromStatus: null,
+        toStatus: 'pending',
+        source: 'user',
+        actorId: data.userId,
+      })
+
       logger.info('Only This Book request created', {
         requestId: result[0].id,
         userId: data.userId,
@@ -325,11 +494,114 @@ export class RequestService {
   }
 
   /**
-   * Sync Readarr library to local mirror table
+   * Create an Only This Book request and run it through the auto-approval rules,
+   * then drop the temporary search cache entry for the book
    */
-  static async syncReadarrLibrary(bookshelfConfig: { url: string; apiKey: string }): Promise<void> {
+  static async submitOnlyThisBookRequest(data: {
+    userId: number
+    foreignBookId: string
+    foreignAuthorId: string
+    title: string
+    authorName: string
+    qualityProfileId: number
+    instanceId?: number
+    notes?: string
+  }): Promise<SubmittedRequest> {
+    const newRequest = await this.createOnlyThisBookRequest({ ...data, monitoringOption: 'specificBook' })
+
+    // Look the book up before its search cache entry is cleared
+    const submitted = await this.applyAutoApproval(newRequest, await BookService.getBookById(data.foreignBookId))
+
+    try {
+      await db.delete(bookCache).where(eq(bookCache.id, data.foreignBookId))
+      logger.info('Cleaned up temporary cache for newly added book', { foreignBookId: data.foreignBookId })
+    } catch (cacheErr) {
+      logger.error('Failed to clean up temporary cache', { error: cacheErr instanceof Error ? cacheErr.message : cacheErr, foreignBookId: data.foreignBookId })
+    }
+
+    return submitted
+  }
+
+  private static async applyAutoApproval(newRequest: Request, book: Book | null): Promise<SubmittedRequest> {
+    if (!book) {
+      return { request: newRequest, book: null, autoApproved: false }
+    }
+
+    const evaluation = await AutoApprovalService.evaluateRequest(newRequest, book)
+    return { request: evaluation.request, book, autoApproved: evaluation.rule !== null }
+  }
+
+  /**
+   * Follow-up for newly submitted requests, run in the background: refresh the requester's
+   * recommendation preferences and send admins one "request submitted" notification
+   */
+  static announceSubmission(data: {
+    userId: number
+    instanceId: number | null
+    qualityProfileId: number
+    title: string
+    bookTitle: string
+    bookAuthor: string
+    description: string
+    coverImage?: string
+    autoApproved: boolean
+  }): void {
+    RecommendationService.updateUserPreferences(data.userId).catch((error) => {
+      logger.error('Failed to update user preferences', { error: error instanceof Error ? error.message : error, userId: data.userId })
+    })
+
+    const processNotifications = async () => {
+      const requestingUser = await db
+        .select({ username: users.username })
+        .from(users)
+        .where(eq(users.id, data.userId))
+        .limit(1)
+
+      let qualityProfileName = 'Unknown'
+      try {
+        const bookshelfConfig = await BookshelfInstanceService.getConfig(data.instanceId)
+        if (bookshelfConfig) {
+          const profiles = await BookshelfService.getQualityProfiles(bookshelfConfig)
+          const profile = profiles.find((p) => p.id === data.qualityProfileId)
+          if (profile) qualityProfileName = profile.name
+        }
+      } catch (error) {
+        logger.error('Failed to fetch quality profile', { error: error instanceof Error ? error.message : error })
+      }
+
+      const adminIds = await NotificationService.getAdminUserIds()
+      await NotificationService.sendNotification(
+        adminIds,
+        'request_submitted',
+        data.title,
+        data.bookTitle,
+        data.bookAuthor,
+        data.description,
+        data.coverImage,
+        requestingUser[0]?.username || 'Unknown User',
+        data.autoApproved ? 'Auto-approved' : 'Pending',
+        qualityProfileName,
+        '/requests/all'
+      )
+    }
+
+    processNotifications().catch((error) =>
+      logger.error('Background notification error', { error: error instanceof Error ? error.message : error })
+    )
+  }
+
+  /**
+   * Sync an instance's Readarr library to local mirror table
+   */
+  static async syncReadarrLibrary(bookshelfConfig: BookshelfConfig): Promise<void> {
     try {
-      logger.debug('Starting Readarr library sync')
+      if (!bookshelfConfig.instanceId) {
+        logger.warn('Skipping Readarr library sync: no instance given')
+        return
+      }
+      const instanceId = bookshelfConfig.instanceId
+
+      logger.debug('Starting Readarr library sync', { instanceId })
       
       // Make GET request to Readarr's book endpoint
       const baseUrl = bookshelfConfig.url.replace(/\/$/, '')
@@ -358,6 +630,7 @@ export class RequestService {
         const status = book.monitored && hasFiles ? 'available' : 'monitored'
         
         return {
+          instanceId,
           foreignBookId,
           status,
           bookshelfId: book.id,
@@ -372,7 +645,7 @@ export class RequestService {
           await db.insert(libraryBooks)
             .values(mappedData)
             .onConflictDoUpdate({
-              target: libraryBooks.foreignBookId,
+              target: [libraryBooks.foreignBookId, libraryBooks.instanceId],
               set: {
                 status: sql`excluded.status`,
                 bookshelfId: sql`excluded.bookshelf_id`,
@@ -387,7 +660,7 @@ export class RequestService {
           for (const item of mappedData) {
              try {
                 await db.insert(libraryBooks).values([item]).onConflictDoUpdate({
-                   target: libraryBooks.foreignBookId,
+                   target: [libraryBooks.foreignBookId, libraryBooks.instanceId],
                    set: {
                      status: sql`excluded.status`,
                      bookshelfId: sql`excluded.bookshelf_id`,
@@ -436,31 +709,15 @@ export class RequestService {
     try {
       logger.trace('Target Polling execution started')
 
-      // Get Bookshelf config from database
-      const urlSetting = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.key, 'bookshelf_url'))
-        .limit(1)
-
-      const apiKeySetting = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.key, 'bookshelf_api_key'))
-        .limit(1)
+      // Get Bookshelf config for every instance (default first)
+      const bookshelfConfigs = await BookshelfInstanceService.getConfigs()
 
-      const bookshelfUrl = urlSetting[0]?.value
-      const bookshelfApiKey = apiKeySetting[0]?.value
-
-      if (!bookshelfUrl || !bookshelfApiKey) {
+      if (bookshelfConfigs.length === 0) {
         logger.warn('Bookshelf not configured, skipping poll')
         return { checked: 0, updated: 0, errors: 0, details: [] }
       }
 
-      const bookshelfConfig = {
-        url: bookshelfUrl,
-        apiKey: bookshelfApiKey,
-      }
+      const configsByInstance = new Map(bookshelfConfigs.map((c) => [c.instanceId, c]))
 
       // Get active requests (pending, processing, approved, downloading, error)
       const requestsToPoll = await db
@@ -500,6 +757,7 @@ export class RequestService {
       // Poll each request
       for (const request of requestsToPoll) {
         checked++
+        const bookshelfConfig = (request.instanceId && configsByInstance.get(request.instanceId)) || bookshelfConfigs[0]
 
         // Phase One: Stranded 'Pending' Reconciliation
         if (
@@ -513,6 +771,14 @@ export class RequestService {
               .set({ status: 'error' })
               .where(eq(requests.id, request.id))
 
+            await RequestEventService.recordEvent({
+              requestId: request.id,
+              fromStatus: request.status,
+              toStatus: 'error',
+              source: 'poll',
+              message: request.notes,
+            })
+
             logger.info(`Self-healing stranded request ${request.id} from pending to error state.`)
           } catch (error: any) {
             logger.error('Failed to self-heal stranded request', { error: error instanceof Error ? error.message : error, requestId: request.id })
@@ -629,6 +895,14 @@ export class RequestService {
                      notes: 'MIMIRR_SYNC_FAILED: Book missing from Readarr (Self-heal failed)'
                  }).where(eq(requests.id, request.id))
 
+                 await RequestEventService.recordEvent({
+                     requestId: request.id,
+                     fromStatus: request.status,
+                     toStatus: 'error',
+                     source: 'poll',
+                     message: 'MIMIRR_SYNC_FAILED: Book missing from Readarr (Self-heal failed)',
+                 })
+
                  logger.info(`Request ${request.id} transitioned to error: Self-heal failed after grace period`)
              }
 
@@ -725,14 +999,9 @@ export class RequestService {
             // Get quality profile name from Bookshelf
             let qualityProfileName = 'Unknown'
             try {
-              if (bookshelfUrl && bookshelfApiKey) {
-                const profiles = await BookshelfService.getQualityProfiles({
-                  url: bookshelfUrl,
-                  apiKey: bookshelfApiKey,
-                })
-                const profile = profiles.find((p) => p.id === request.qualityProfileId)
-                if (profile) qualityProfileName = profile.name
-              }
+              const profiles = await BookshelfService.getQualityProfiles(bookshelfConfig)
+              const profile = profiles.find((p) => p.id === request.qualityProfileId)
+              if (profile) qualityProfileName = profile.name
             } catch (error) {
               logger.error('Failed to fetch quality profile', { error: error instanceof Error ? error.message : error })
             }
@@ -892,6 +1161,16 @@ export class RequestService {
               .update(requests)
               .set(updateData)
               .where(eq(requests.id, request.id))
+
+            if (updateData.status && updateData.status !== request.status) {
+              await RequestEventService.recordEvent({
+                requestId: request.id,
+                fromStatus: request.status,
+                toStatus: updateData.status,
+                source: 'poll',
+                message: updateData.notes,
+              })
+            }
           } catch (dbError: any) {
              logger.error('Database constraint error updating request status', {
                error: dbError,
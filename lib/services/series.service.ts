@@ -0,0 +1,249 @@
+import { db, bookCache, type Request } from '@/lib/db'
+import { eq, inArray } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { isSameSeries } from '@/lib/utils/series'
+import type { Book } from '@/types/bookinfo'
+import { BookService } from './book.service'
+import { BookshelfService } from './bookshelf.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { ReadarrService } from './readarr.service'
+import { RequestService } from './request.service'
+import { QuotaService } from './quota.service'
+import { mapLibraryBook } from './discovery.service'
+import * as RecommendationService from './recommendation.service'
+
+// Upper bound on series looked up per user for "next in series" (each may hit Readarr once per instance)
+const MAX_SERIES_LOOKUPS = 10
+
+export interface SeriesWithBooks {
+  name: string
+  books: Book[]
+}
+
+export interface SeriesRequestBatch {
+  series: string
+  requests: Request[]
+  books: Book[]
+  autoApproved: number
+}
+
+export class SeriesService {
+  /**
+   * Get every known book in a series, in series order, with library state.
+   * Members come from the book cache plus the author's books in each Bookshelf instance;
+   * the series data of library books is written back to the cache so they can be opened and requested.
+   */
+  static async getSeriesBooks(series: string, authorName?: string): Promise<Book[]> {
+    const books = new Map<string, Book>()
+    for (const book of await BookService.getCachedBooksBySeries(series)) {
+      books.set(book.id, book)
+    }
+
+    const libraryOnly: Book[] = []
+    if (authorName) {
+      for (const config of await BookshelfInstanceService.getConfigs()) {
+        try {
+          const author = await BookshelfService.findLibraryAuthor(config, authorName)
+          if (!author) continue
+
+          const authorNames = new Map<number, string>([[author.id, author.authorName]])
+          for (const raw of await BookshelfService.getAuthorBooks(config, author.id)) {
+            if (!raw.foreignBookId) continue
+
+            const mapped = mapLibraryBook(raw, authorNames)
+            if (!isSameSeries(mapped.series, series)) continue
+
+            const existing = books.get(mapped.id)
+            if (existing) {
+              // Readarr's series links are authoritative for the position
+              existing.seriesPosition = mapped.seriesPosition ?? existing.seriesPosition
+            } else {
+              books.set(mapped.id, mapped)
+              libraryOnly.push(mapped)
+            }
+          }
+        } catch (error) {
+          logger.error('Failed to load series books from Bookshelf', {
+            error: error instanceof Error ? error.message : error,
+            instanceId: config.instanceId,
+            series,
+          })
+        }
+      }
+    }
+
+    await this.storeSeriesData(libraryOnly)
+
+    const ordered = Array.from(books.values()).sort(
+      (a, b) => (a.seriesPosition ?? Infinity) - (b.seriesPosition ?? Infinity)
+    )
+    return ReadarrService.annotateLibraryState(ordered)
+  }
+
+  /**
+   * Get the series a book belongs to, or null when it has no series data
+   */
+  static async getSeriesForBook(book: Book): Promise<SeriesWithBooks | null> {
+    if (!book.series) return null
+
+    return {
+      name: book.series,
+      books: await this.getSeriesBooks(book.series, book.author),
+    }
+  }
+
+  /**
+   * The books "request the rest of this series" would request: unowned, unrequested books
+   * from this one onward (every unowned book when this one has no position)
+   */
+  static getRemainingBooks(book: Book, seriesBooks: Book[]): Book[] {
+    const from = book.seriesPosition
+    return seriesBooks.filter((b) => {
+      if (b.mimirrState !== 'Unowned') return false
+      if (from === undefined || b.id === book.id) return true
+      return b.seriesPosition !== undefined && b.seriesPosition >= from
+    })
+  }
+
+  /**
+   * Request the rest of a series in one go. The quota is checked for the whole batch up front,
+   * then each book becomes a normal request (auto-approval rules still apply per book).
+   */
+  static async requestRestOfSeries(data: {
+    userId: number
+    bookId: string
+    qualityProfileId: number
+    instanceId?: number
+    notes?: string
+  }): Promise<SeriesRequestBatch> {
+    const book = await BookService.getBookById(data.bookId)
+    if (!book?.series) {
+      throw new Error('This book is not part of a known series')
+    }
+
+    const seriesBooks = await this.getSeriesBooks(book.series, book.author)
+    const remaining = this.getRemainingBooks(book, seriesBooks)
+    if (remaining.length === 0) {
+      throw new Error('Every remaining book in this series is already in the library or requested')
+    }
+
+    await QuotaService.assertWithinQuota(data.userId, remaining.length)
+
+    const created: Request[] = []
+    const createdBooks: Book[] = []
+    let autoApproved = 0
+
+    for (const seriesBook of remaining) {
+      try {
+        const submitted = await RequestService.submitRequest({
+          userId: data.userId,
+          bookId: seriesBook.id,
+          qualityProfileId: data.qualityProfileId,
+          instanceId: data.instanceId,
+          notes: data.notes,
+        }, seriesBook)
+        if (submitted.autoApproved) autoApproved++
+
+        created.push(submitted.request)
+        createdBooks.push(seriesBook)
+      } catch (error) {
+        // One book failing (e.g. a duplicate pending request) should not sink the rest of the batch
+        logger.warn('Skipping book in series request batch', {
+          error: error instanceof Error ? error.message : error,
+          bookId: seriesBook.id,
+          series: book.series,
+        })
+      }
+    }
+
+    if (created.length === 0) {
+      throw new Error('None of the remaining books in this series could be requested')
+    }
+
+    logger.info('Series request batch created', {
+      userId: data.userId,
+      series: book.series,
+      requested: created.length,
+      skipped: remaining.length - created.length,
+    })
+
+    return { series: book.series, requests: created, books: createdBooks, autoApproved }
+  }
+
+  /**
+   * Suggest the next unowned book in each series the user has made progress in:
+   * for every series with an available request, the first book after the furthest one they have.
+   */
+  static async getNextInSeriesForUser(userId: number, limit = 10): Promise<Book[]> {
+    try {
+      const userRequests = await RequestService.getRequestsByUserId(userId)
+      const finished = userRequests.filter((r) => r.status === 'available')
+      if (finished.length === 0) return []
+
+      const booksMap = await BookService.getBooksByIds(finished.map((r) => r.bookId))
+
+      // Furthest position reached in each series
+      const progress: { series: string; author: string; position: number }[] = []
+      for (const request of finished) {
+        const book = booksMap.get(request.bookId)
+        if (!book?.series || book.seriesPosition === undefined) continue
+
+        const entry = progress.find((p) => isSameSeries(p.series, book.series))
+        if (!entry) {
+          progress.push({ series: book.series, author: book.author, position: book.seriesPosition })
+        } else if (book.seriesPosition > entry.position) {
+          entry.position = book.seriesPosition
+        }
+      }
+
+      const feedback = await RecommendationService.getRecommendationFeedback(userId)
+      const suggestions: Book[] = []
+
+      for (const entry of progress.slice(0, MAX_SERIES_LOOKUPS)) {
+        const seriesBooks = await this.getSeriesBooks(entry.series, entry.author)
+        const next = seriesBooks.find(
+          (b) => b.seriesPosition !== undefined && b.seriesPosition > entry.position && b.mimirrState === 'Unowned'
+        )
+
+        if (next && !RecommendationService.isExcludedByFeedback(next, feedback)) {
+          suggestions.push(next)
+        }
+        if (suggestions.length >= limit) break
+      }
+
+      return suggestions
+    } catch (error) {
+      logger.error('Failed to get next in series', { error: error instanceof Error ? error.message : error, userId })
+      return []
+    }
+  }
+
+  /**
+   * Cache library books that are not cached yet, and add series data to those that are
+   * (without overwriting their richer metadata)
+   */
+  private static async storeSeriesData(books: Book[]): Promise<void> {
+    if (books.length === 0) return
+
+    try {
+      const cached = await db
+        .select({ id: bookCache.id })
+        .from(bookCache)
+        .where(inArray(bookCache.id, books.map((b) => b.id)))
+      const cachedIds = new Set(cached.map((row) => row.id))
+
+      for (const book of books) {
+        if (!cachedIds.has(book.id)) {
+          await BookService.cacheBook(book)
+        } else {
+          await db
+            .update(bookCache)
+            .set({ series: book.series, seriesPosition: book.seriesPosition ?? null })
+            .where(eq(bookCache.id, book.id))
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to store series data', { error: error instanceof Error ? error.message : error })
+    }
+  }
+}
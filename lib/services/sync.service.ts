@@ -1,21 +1,119 @@
-import { db, requests, users, qualityProfileConfigs, settings, bookCache, libraryBooks, syncJobs } from '@/lib/db'
-import { eq, and, sql, isNotNull, inArray, not } from 'drizzle-orm'
+import { db, requests, users, qualityProfileConfigs, bookCache, libraryBooks, syncJobs } from '@/lib/db'
+import { eq, and, or, sql, isNotNull, isNull, inArray, not } from 'drizzle-orm'
 import { logger } from '@/lib/utils/logger'
 import { BookshelfService } from './bookshelf.service'
+import { RequestEventService } from './request-event.service'
+import { ArchiveService } from './archive.service'
+import { BookshelfInstanceService } from './bookshelf-instance.service'
+import { AuthorFollowService } from './author-follow.service'
+import { RealtimeService } from './realtime.service'
 import type { BookshelfConfig } from '@/types/bookshelf.types'
 
 let lastReconciliationTime: number = 0
 const RECONCILIATION_INTERVAL_MS = 15 * 60 * 1000 // 15 minutes
 
+// How often each followed author is checked for new releases
+const AUTHOR_FOLLOW_CHECK_HOURS = parseInt(process.env.AUTHOR_FOLLOW_CHECK_HOURS || '12', 10) || 12
+
+const SYSTEM_USERNAME = 'system_sync'
+
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Older status values and the strict lowercase ones they map to
+const LEGACY_STATUS_MAP: Record<string, string> = {
+  'approved': 'processing',
+  'Available': 'available',
+  'Unreleased': 'unreleased',
+  'Requested': 'requested',
+  'Processing': 'processing',
+  'Pending': 'pending',
+  'Declined': 'declined',
+  'Error': 'error'
+}
+
+export interface ReconciliationReport {
+  added: number
+  orphaned: number
+  purged: number
+  corrected: number
+}
+
+/**
+ * Everything a Baseline Sync would change, computed up front so it can be
+ * reviewed (dry run) and later applied exactly as shown.
+ */
+export interface ReconciliationPlan {
+  generatedAt: string
+  instanceId: number
+  instanceName?: string
+  statusNormalizations: Array<{
+    requestId: number
+    fromStatus: string
+    toStatus: string
+  }>
+  statusCorrections: Array<{
+    requestId: number
+    bookId: string
+    bookshelfId: number
+    title?: string
+    fromStatus: string
+    toStatus: 'available'
+  }>
+  orphans: Array<{
+    requestId: number
+    bookId: string
+    bookshelfId: number
+    title?: string
+    reason: string
+  }>
+  cachePurges: string[]
+  backfills: Array<{
+    requestId: number
+    bookshelfId: number
+    foreignBookId: string
+    title: string
+    fromStatus: string
+    toStatus: string
+  }>
+  ghosts: Array<{
+    bookId: string
+    bookshelfId: number
+    title: string
+    author: string
+    status: string
+    qualityProfileId: number
+    foreignAuthorId: string
+    addedAt: string
+  }>
+  libraryBooks: Array<{
+    instanceId: number
+    foreignBookId: string
+    status: string
+    bookshelfId: number
+    title: string
+    authorName: string
+  }>
+  // Book cache rows as fetched from Readarr while the plan was built; applying only writes them
+  metadataRefresh: Array<{
+    id: string
+    title: string
+    author: string
+    rating: string | null
+    pageCount: number | null
+    publishedDate: string | null
+    publisher: string | null
+    isbn13: string | null
+    description: string | null
+    genres: string | null
+    coverImage: string | null
+  }>
+}
+
 export class SyncService {
   /**
    * Ensure a System user exists for ghost imports
    */
   private static async getSystemUserId(): Promise<number> {
-    const SYSTEM_USERNAME = 'system_sync'
-
     // Check if system user exists
     const existing = await db
       .select()
@@ -41,13 +139,13 @@ export class SyncService {
   }
 
   /**
-   * Get fallback quality profile ID
+   * Get fallback quality profile ID for an instance
    */
-  private static async getFallbackQualityProfileId(): Promise<number> {
+  private static async getFallbackQualityProfileId(instanceId: number): Promise<number> {
     const profiles = await db
       .select()
       .from(qualityProfileConfigs)
-      .where(eq(qualityProfileConfigs.enabled, true))
+      .where(and(eq(qualityProfileConfigs.instanceId, instanceId), eq(qualityProfileConfigs.enabled, true)))
       .limit(1)
 
     if (profiles.length > 0) {
@@ -58,73 +156,21 @@ export class SyncService {
     return 1
   }
 
-  /**
-   * Main reconciliation engine (Baseline Sync)
-   * Detached from standard polling. Triggered manually via API.
-   * Implements the Hard Filter and Scorched Earth purge.
-   */
-  private static async normalizeLegacyStatuses(): Promise<void> {
-    const statusMap: Record<string, string> = {
-      'approved': 'processing',
-      'Available': 'available',
-      'Unreleased': 'unreleased',
-      'Requested': 'requested',
-      'Processing': 'processing',
-      'Pending': 'pending',
-      'Declined': 'declined',
-      'Error': 'error'
-    }
-
-    try {
-      let totalUpdated = 0
-
-      for (const [legacyStatus, newStatus] of Object.entries(statusMap)) {
-        const result = await db
-          .update(requests)
-          .set({ status: newStatus as any })
-          .where(eq(requests.status, legacyStatus as any))
-
-        totalUpdated += result.rowsAffected
-      }
-
-      if (totalUpdated > 0) {
-        logger.info(`Normalized ${totalUpdated} legacy request statuses to strict lowercase`)
-      }
-    } catch (error) {
-      logger.error('Failed to normalize legacy statuses:', error instanceof Error ? error.message : String(error))
-    }
-  }
-
   static async runBackgroundSync(): Promise<void> {
     try {
       logger.info('Starting scheduled background polling sync...')
 
-      // 1. Fetch Configuration
-      const urlSetting = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.key, 'bookshelf_url'))
-        .limit(1)
+      // Enforce archive retention independently of Bookshelf connectivity
+      await ArchiveService.purgeExpired()
 
-      const apiKeySetting = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.key, 'bookshelf_api_key'))
-        .limit(1)
+      // 1. Fetch Configuration for every instance
+      const bookshelfConfigs = await BookshelfInstanceService.getConfigs()
 
-      const bookshelfUrl = urlSetting[0]?.value
-      const bookshelfApiKey = apiKeySetting[0]?.value
-
-      if (!bookshelfUrl || !bookshelfApiKey) {
+      if (bookshelfConfigs.length === 0) {
         logger.warn('Bookshelf configuration missing. Skipping background sync.')
         return
       }
 
-      const bookshelfConfig = {
-        url: bookshelfUrl,
-        apiKey: bookshelfApiKey,
-      }
-
       // 2. Concurrency Lock check
       const activeJobs = await db
         .select()
@@ -166,405 +212,675 @@ export class SyncService {
 
       // 4. Run Orchestrator
       const { ReadarrJobOrchestrator } = await import('./orchestrator.service')
-      await ReadarrJobOrchestrator.startJob(jobId, bookshelfConfig)
+      await ReadarrJobOrchestrator.startJob(jobId, bookshelfConfigs)
+
+      // 5. New releases by followed authors (after the sync, so library state is current)
+      try {
+        await AuthorFollowService.checkDueFollows(AUTHOR_FOLLOW_CHECK_HOURS)
+      } catch (error) {
+        logger.error('Error checking followed authors', { error: error instanceof Error ? error.message : error })
+      }
 
     } catch (error) {
       logger.error('Error during scheduled background sync', { error: error instanceof Error ? error.message : error })
     }
   }
 
-  static async reconcileWithReadarr(config: BookshelfConfig, jobId?: number): Promise<{ added: number, orphaned: number, purged: number }> {
-    logger.info('Starting Baseline Sync & Active State Reconciliation with Readarr')
-
-    await this.normalizeLegacyStatuses()
-    let addedCount = 0;
-    let orphanedCount = 0;
-    let purgedCount = 0;
+  /**
+   * Run a Baseline Sync against Readarr.
+   * With dryRun the full plan is computed and returned without touching the database.
+   */
+  static async reconcileWithReadarr(
+    config: BookshelfConfig,
+    jobId?: number,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ReconciliationReport & { plan?: ReconciliationPlan }> {
+    logger.info('Starting Baseline Sync & Active State Reconciliation with Readarr', { dryRun: !!options.dryRun })
 
     try {
-      const { ReadarrService } = await import('@/lib/services/readarr.service');
+      const plan = await this.buildReconciliationPlan(config, jobId)
 
-      let shouldTriggerBookLore = false
-
-      // 1. Fetch bulk library and authors from Readarr
-      const readarrAuthors = await BookshelfService.getLibraryAuthors(config)
-      const readarrLibrary = await ReadarrService.scanLocalLibrary()
-
-      // Build author lookup map
-      const authorMap = new Map<number, string>()
-      for (const author of readarrAuthors) {
-        if (author.id && author.authorName) {
-          authorMap.set(author.id, author.authorName)
-        }
+      if (options.dryRun) {
+        const report = summarizePlan(plan)
+        logger.info('Baseline Sync dry run complete', report)
+        return { ...report, plan }
       }
 
-      // Build lookup maps for fast access
-      const readarrBooksByBookshelfId = new Map<number, any>()
-      const readarrForeignIds = new Set<string>()
+      return await this.applyReconciliationPlan(plan)
+    } catch (error) {
+      logger.error('Failed to execute Active State Reconciliation', { error: error instanceof Error ? error.message : error })
+      throw error; // Rethrow so the API endpoint catches it
+    }
+  }
 
-      for (const book of readarrLibrary) {
-        if (book.id) {
-          readarrBooksByBookshelfId.set(book.id, book)
-        }
-        if (book.foreignBookId) {
-          readarrForeignIds.add(String(book.foreignBookId))
-        }
-      }
+  /**
+   * Compute everything a Baseline Sync would change for one instance without touching requests or library data,
+   * including the book metadata to cache, so applying the plan needs nothing further from Readarr.
+   * Partial imports found along the way go to the job's activity log.
+   */
+  static async buildReconciliationPlan(config: BookshelfConfig, jobId?: number): Promise<ReconciliationPlan> {
+    const { ReadarrService } = await import('@/lib/services/readarr.service');
 
-      // Ensure system user exists
-      const systemUserId = await this.getSystemUserId()
+    if (!config.instanceId) {
+      throw new Error('Baseline Sync requires a Bookshelf instance')
+    }
+    const instanceId = config.instanceId
 
-      // 2. Query Mimirr's requests table (only those tracking Readarr)
-      const mimirrRequests = await db
-        .select()
-        .from(requests)
+    // 1. Fetch bulk library and authors from Readarr
+    const readarrAuthors = await BookshelfService.getLibraryAuthors(config)
+    const readarrLibrary = await ReadarrService.scanLocalLibrary(config)
 
-      const mimirrBookshelfIds = new Set<number>()
-      const mimirrForeignIds = new Set<string>()
+    // Build author lookup map
+    const authorMap = new Map<number, string>()
+    for (const author of readarrAuthors) {
+      if (author.id && author.authorName) {
+        authorMap.set(author.id, author.authorName)
+      }
+    }
 
-      const orphansToDelete: number[] = []
-      const scorchForeignIds = new Set<string>()
+    // Build lookup maps for fast access
+    const readarrBooksByBookshelfId = new Map<number, any>()
+    for (const book of readarrLibrary) {
+      if (book.id) {
+        readarrBooksByBookshelfId.set(book.id, book)
+      }
+    }
 
-      for (const req of mimirrRequests) {
-        if (req.bookshelfId) {
-          mimirrBookshelfIds.add(req.bookshelfId)
+    // The system user is only looked up here; it is created when a plan is applied
+    const systemUser = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, SYSTEM_USERNAME))
+      .limit(1)
+    const systemUserId = systemUser[0]?.id ?? null
 
-          // 3. Diff: Hard Purge (Orphans) and Scorched Earth Purge
-          const readarrBook = readarrBooksByBookshelfId.get(req.bookshelfId)
-          if (!readarrBook) {
-            // Book is completely gone from Readarr
-            orphansToDelete.push(req.id)
-            logger.info('Identified orphaned request for hard purge', {
+    // 2. Query Mimirr's requests table (only those tracking this instance)
+    const mimirrRequests = await db
+      .select()
+      .from(requests)
+      .where(eq(requests.instanceId, instanceId))
+
+    const mimirrBookshelfIds = new Set<number>()
+    const mimirrForeignIds = new Set<string>()
+
+    const statusNormalizations: ReconciliationPlan['statusNormalizations'] = mimirrRequests
+      .filter((req) => LEGACY_STATUS_MAP[req.status])
+      .map((req) => ({ requestId: req.id, fromStatus: req.status, toStatus: LEGACY_STATUS_MAP[req.status] }))
+
+    const statusCorrections: ReconciliationPlan['statusCorrections'] = []
+    const orphans: ReconciliationPlan['orphans'] = []
+    const scorchForeignIds = new Set<string>()
+
+    for (const req of mimirrRequests) {
+      if (req.bookshelfId) {
+        mimirrBookshelfIds.add(req.bookshelfId)
+
+        // 3. Diff: Orphan Archive and Scorched Earth Purge
+        const readarrBook = readarrBooksByBookshelfId.get(req.bookshelfId)
+        if (!readarrBook) {
+          // Book is completely gone from Readarr
+          orphans.push({
+            requestId: req.id,
+            bookId: req.bookId,
+            bookshelfId: req.bookshelfId,
+            reason: 'Book no longer exists in Readarr',
+          })
+        } else if (req.userId === systemUserId) {
+          // Scorched Earth Purge: Check if system_sync request should be purged
+          const hasFiles = readarrBook.statistics?.bookFileCount > 0 || readarrBook.hasFile === true
+          if (!hasFiles) {
+            orphans.push({
               requestId: req.id,
+              bookId: req.bookId,
               bookshelfId: req.bookshelfId,
-              bookId: req.bookId
+              title: readarrBook.title,
+              reason: 'System import has no files in Readarr',
             })
-          } else if (req.userId === systemUserId) {
-            // Scorched Earth Purge: Check if system_sync request should be purged
-            const hasFiles = readarrBook.statistics?.bookFileCount > 0 || readarrBook.hasFile === true
-            if (!hasFiles) {
-              orphansToDelete.push(req.id)
-              if (req.foreignBookId) scorchForeignIds.add(String(req.foreignBookId))
-              if (req.bookId) scorchForeignIds.add(String(req.bookId))
-              logger.info('Identified file-less ghost request for scorched earth purge', {
-                requestId: req.id,
-                bookshelfId: req.bookshelfId,
-                bookId: req.bookId
-              })
-            }
+            if (req.foreignBookId) scorchForeignIds.add(String(req.foreignBookId))
+            if (req.bookId) scorchForeignIds.add(String(req.bookId))
           }
+        }
 
-          // **NEW LOGIC: Update Mimirr status if Readarr book exists and is available but Mimirr is not**
-          if (readarrBook) {
-             const hasFiles = readarrBook.statistics?.bookFileCount > 0 || readarrBook.hasFile === true
-             if (hasFiles && req.status !== 'available' && req.status !== 'Available') {
-                try {
-                   await db.update(requests)
-                     .set({ status: 'available' as any, completedAt: new Date() })
-                     .where(eq(requests.id, req.id))
-                   logger.info(`Auto-corrected request ${req.id} status to available via background sync`, {
-                     bookshelfId: req.bookshelfId,
-                     foreignBookId: req.foreignBookId
-                   })
-                   shouldTriggerBookLore = true
-                } catch (e) {
-                   logger.error('Failed to auto-correct request status to available', { error: e, requestId: req.id })
-                }
-             }
+        // Update Mimirr status if Readarr book exists and is available but Mimirr is not
+        if (readarrBook) {
+          const hasFiles = readarrBook.statistics?.bookFileCount > 0 || readarrBook.hasFile === true
+          if (hasFiles && req.status !== 'available' && req.status !== 'Available') {
+            statusCorrections.push({
+              requestId: req.id,
+              bookId: req.bookId,
+              bookshelfId: req.bookshelfId,
+              title: readarrBook.title,
+              fromStatus: req.status,
+              toStatus: 'available',
+            })
           }
         }
-        if (req.foreignBookId) {
-            mimirrForeignIds.add(String(req.foreignBookId))
-        } else if (req.bookId) {
-             mimirrForeignIds.add(String(req.bookId))
-        }
       }
+      if (req.foreignBookId) {
+          mimirrForeignIds.add(String(req.foreignBookId))
+      } else if (req.bookId) {
+           mimirrForeignIds.add(String(req.bookId))
+      }
+    }
 
-      // Execute Hard Purge and Scorched Earth Purge (requests)
-      if (orphansToDelete.length > 0) {
-         // Batch delete in chunks if necessary, SQLite has limits but usually ok for small arrays
-         await db.delete(requests).where(inArray(requests.id, orphansToDelete))
-         orphanedCount = orphansToDelete.length;
-         logger.info(`Completed Hard Purge: Deleted ${orphansToDelete.length} orphaned/file-less requests.`)
+    // Fill in titles for orphans whose book is gone from Readarr
+    const untitledOrphanIds = orphans.filter((o) => !o.title).map((o) => o.bookId)
+    if (untitledOrphanIds.length > 0) {
+      const cachedTitles = await db
+        .select({ id: bookCache.id, title: bookCache.title })
+        .from(bookCache)
+        .where(inArray(bookCache.id, untitledOrphanIds))
+      const titleMap = new Map(cachedTitles.map((c) => [String(c.id), c.title]))
+      for (const orphan of orphans) {
+        if (!orphan.title) orphan.title = titleMap.get(orphan.bookId) || undefined
       }
+    }
 
-      // Execute Scorched Earth Purge (metadata caches)
-      if (scorchForeignIds.size > 0) {
-        // Find which of these foreignIds are STILL being requested by REAL users
-        const remainingRequests = await db
-          .select({ bookId: requests.bookId, foreignBookId: requests.foreignBookId })
-          .from(requests)
-          .where(not(eq(requests.userId, systemUserId)))
-
-        const activeForeignIds = new Set<string>()
-        for (const req of remainingRequests) {
-          if (req.foreignBookId) activeForeignIds.add(String(req.foreignBookId))
-          if (req.bookId) activeForeignIds.add(String(req.bookId))
-        }
+    // Scorched Earth Purge (metadata caches): skip IDs still requested by REAL users
+    // or tracked by another instance, since the cache is shared
+    const orphanIds = new Set(orphans.map((o) => o.requestId))
+    const activeForeignIds = new Set<string>()
+    for (const req of mimirrRequests) {
+      if (orphanIds.has(req.id) || req.userId === systemUserId) continue
+      if (req.foreignBookId) activeForeignIds.add(String(req.foreignBookId))
+      if (req.bookId) activeForeignIds.add(String(req.bookId))
+    }
+    const otherInstanceRequests = await db
+      .select({ bookId: requests.bookId, foreignBookId: requests.foreignBookId })
+      .from(requests)
+      .where(or(isNull(requests.instanceId), not(eq(requests.instanceId, instanceId))))
+    for (const req of otherInstanceRequests) {
+      if (req.foreignBookId) activeForeignIds.add(String(req.foreignBookId))
+      if (req.bookId) activeForeignIds.add(String(req.bookId))
+    }
+    const cachePurges = Array.from(scorchForeignIds).filter(id => !activeForeignIds.has(id))
 
-        // Filter out IDs that are still actively requested
-        const cacheIdsToPurge = Array.from(scorchForeignIds).filter(id => !activeForeignIds.has(id))
+    // 3.5 Populate libraryBooks table
+    const uniqueLibraryBooks = new Map<string, ReconciliationPlan['libraryBooks'][number]>()
+    for (const book of readarrLibrary) {
+      const foreignBookId = String(book.foreignBookId || book.id)
+      const hasFiles = book.statistics?.bookFileCount > 0 || book.hasFile === true
 
-        if (cacheIdsToPurge.length > 0) {
-          // Purge from bookCache
-          await db.delete(bookCache).where(inArray(bookCache.id, cacheIdsToPurge))
+      let status = 'unowned'; // Default fallback though it shouldn't hit this if monitored or has files
 
-          // Purge from libraryBooks
-          await db.delete(libraryBooks).where(inArray(libraryBooks.foreignBookId, cacheIdsToPurge))
-          purgedCount = cacheIdsToPurge.length;
+      if (hasFiles) {
+        status = 'available';
+      } else if (book.monitored) {
+        const releaseDate = book.releaseDate ? new Date(book.releaseDate) : null;
+        const now = new Date();
 
-          logger.info(`Completed Scorched Earth Cache Purge: Deleted metadata for ${cacheIdsToPurge.length} file-less ghost books.`)
+        if (releaseDate && releaseDate > now) {
+          status = 'unreleased';
+        } else {
+          status = 'processing';
         }
+      } else {
+        // Skip unmonitored books without files
+        continue;
       }
 
-      // 3.5 Populate libraryBooks table
-      const uniqueLibraryBooks = new Map<string, any>()
-      for (const book of readarrLibrary) {
-        const foreignBookId = String(book.foreignBookId || book.id)
-        const hasFiles = book.statistics?.bookFileCount > 0 || book.hasFile === true
-
-        let status = 'unowned'; // Default fallback though it shouldn't hit this if monitored or has files
+      const existing = uniqueLibraryBooks.get(foreignBookId)
+      // Deduplicate: Prioritize the duplicate that has files ('available')
+      if (!existing || status === 'available' || status === 'Available') {
+         uniqueLibraryBooks.set(foreignBookId, {
+            instanceId,
+            foreignBookId,
+            status,
+            bookshelfId: book.id,
+            title: book.title || '',
+            authorName: authorMap.get(book.authorId) || '',
+         })
+      }
+    }
 
-        if (hasFiles) {
-          status = 'available';
-        } else if (book.monitored) {
-          const releaseDate = book.releaseDate ? new Date(book.releaseDate) : null;
-          const now = new Date();
+    // 4. Diff: Ghost Import & Deep-Sync
+    const fallbackQualityProfileId = await this.getFallbackQualityProfileId(instanceId)
+    const relevantBooks: Array<{
+      bookshelfId: number
+      foreignBookId: string
+      title: string
+      author: string
+      pageCount: number | null
+      releaseDate: string | null
+      coverImage: string | null
+      overview: string | null
+    }> = []
+    const backfills: ReconciliationPlan['backfills'] = []
+    const ghosts: ReconciliationPlan['ghosts'] = []
+    const backfilledRequestIds = new Set<number>()
+
+    for (const book of readarrLibrary) {
+      const foreignId = String(book.foreignBookId || book.id)
+
+      // Determine status
+      const hasFiles = book.statistics?.bookFileCount > 0 || book.hasFile === true
+
+      // "Relevant Only" Filter
+      if (!hasFiles && book.monitored !== true) {
+        continue;
+      }
 
-          if (releaseDate && releaseDate > now) {
-            status = 'unreleased';
-          } else {
-            status = 'processing';
-          }
+      let ghostStatus = 'unowned';
+      if (hasFiles) {
+        ghostStatus = 'available';
+      } else if (book.monitored) {
+        const releaseDate = book.releaseDate ? new Date(book.releaseDate) : null;
+        const now = new Date();
+        if (releaseDate && releaseDate > now) {
+          ghostStatus = 'unreleased';
         } else {
-          // If neither has files nor monitored, skip inserting into uniqueLibraryBooks
-          // unless it's a manual override, but rule says "Skip unmonitored books without files"
-          // However, to keep legacy behavior of just skipping, we'll continue
-          continue;
+          ghostStatus = 'processing';
         }
+      }
 
-        const existing = uniqueLibraryBooks.get(foreignBookId)
-        // Deduplicate: Prioritize the duplicate that has files ('available')
-        if (!existing || status === 'available' || status === 'Available') {
-           uniqueLibraryBooks.set(foreignBookId, {
-              foreignBookId,
-              status,
-              bookshelfId: book.id,
-              title: book.title || '',
-              authorName: authorMap.get(book.authorId) || '',
-           })
+      const titleStr = book.title;
+      const authorStr = authorMap.get(book.authorId);
+
+      if (!authorStr || !titleStr) {
+        logger.warn('Skipping book due to missing discrete author or title in Readarr payload. Pending Manual Review.', {
+          id: book.id,
+          foreignBookId: book.foreignBookId,
+          authorId: book.authorId,
+          title: titleStr
+        });
+        continue;
+      }
+
+      relevantBooks.push({
+        bookshelfId: book.id,
+        foreignBookId: foreignId,
+        title: titleStr,
+        author: authorStr,
+        pageCount: book.pageCount || null,
+        releaseDate: book.releaseDate ? String(book.releaseDate) : null,
+        coverImage: book.images?.[0]?.remoteUrl || book.images?.[0]?.url || null,
+        overview: book.overview || null,
+      })
+
+      // Check for Legacy Requests (Backfill Migration)
+      const legacyRequest = mimirrRequests.find(req =>
+        (req.foreignBookId === foreignId || req.bookId === foreignId) && !req.bookshelfId
+      );
+
+      if (legacyRequest) {
+        if (!backfilledRequestIds.has(legacyRequest.id)) {
+          backfilledRequestIds.add(legacyRequest.id)
+          backfills.push({
+            requestId: legacyRequest.id,
+            bookshelfId: book.id,
+            foreignBookId: foreignId,
+            title: titleStr,
+            fromStatus: legacyRequest.status,
+            toStatus: ghostStatus,
+          })
         }
+        mimirrBookshelfIds.add(book.id); // Add it to avoid processing as ghost below if logic shifts
+      } else if (!mimirrForeignIds.has(foreignId) && !mimirrBookshelfIds.has(book.id)) {
+        // If it's not in Mimirr's tracking set AND not a legacy request
+        ghosts.push({
+          bookId: foreignId, // Use foreignBookId as primary Mimirr ID for ghost imports
+          bookshelfId: book.id,
+          title: titleStr,
+          author: authorStr,
+          status: ghostStatus, // Reflect actual status
+          qualityProfileId: book.qualityProfileId || fallbackQualityProfileId,
+          foreignAuthorId: String(book.authorId || ''),
+          addedAt: book.added ? new Date(book.added).toISOString() : new Date().toISOString(),
+        })
       }
+    }
 
-      const libraryBooksToUpsert = Array.from(uniqueLibraryBooks.values())
-      if (libraryBooksToUpsert.length > 0) {
+    const activityLog: string[] = []
+    const logToActivity = async (msg: string) => {
+      activityLog.push(msg)
+      if (jobId) {
         try {
-          // Batch upsert library books
-          const chunkSize = 100
-          for (let i = 0; i < libraryBooksToUpsert.length; i += chunkSize) {
-            const chunk = libraryBooksToUpsert.slice(i, i + chunkSize)
-            await db.insert(libraryBooks).values(chunk).onConflictDoUpdate({
-              target: libraryBooks.foreignBookId,
-              set: {
-                status: sql`excluded.status`,
-                bookshelfId: sql`excluded.bookshelf_id`,
-                title: sql`excluded.title`,
-                authorName: sql`excluded.author_name`
-              }
-            })
-          }
-          logger.info(`Completed LibraryBooks Upsert: Synced ${libraryBooksToUpsert.length} books.`)
-        } catch (e) {
-          logger.error('Failed to upsert libraryBooks during Baseline Sync', { error: e })
-        }
+          await db.update(syncJobs)
+            .set({ activityLog: JSON.stringify(activityLog) })
+            .where(eq(syncJobs.id, jobId))
+          await RealtimeService.publishSyncJob(jobId)
+        } catch(e) {}
       }
+    }
 
-      // 4. Diff: Ghost Import & Deep-Sync
-      const ghostsToImport = []
-      const fallbackQualityProfileId = await this.getFallbackQualityProfileId()
-
-      const activityLog: string[] = []
-      const logToActivity = async (msg: string) => {
-        activityLog.push(msg)
-        if (jobId) {
-          try {
-            await db.update(syncJobs)
-              .set({ activityLog: JSON.stringify(activityLog) })
-              .where(eq(syncJobs.id, jobId))
-          } catch(e) {}
-        }
+    // 5. Deep-Sync metadata for every relevant library book
+    const metadataRefresh: ReconciliationPlan['metadataRefresh'] = []
+    for (const entry of relevantBooks) {
+      await delay(50); // 50ms breather
+
+      const deepBook = await BookshelfService.getBook(config, entry.bookshelfId);
+      const editions = await BookshelfService.getBookEditions(config, entry.bookshelfId);
+      const firstEdition = editions && editions.length > 0 ? editions[0] : null;
+
+      if (!firstEdition) {
+        const warnMsg = `[Partial Import] Missing edition for: ${entry.title}`;
+        logger.warn(warnMsg);
+        await logToActivity(warnMsg);
       }
 
-      for (const book of readarrLibrary) {
-        const foreignId = String(book.foreignBookId || book.id)
+      const description = firstEdition?.overview || deepBook?.overview || entry.overview;
+      if (!description) {
+        const warnMsg = `[Partial Import] Missing description for: ${entry.title}`;
+        logger.warn(warnMsg);
+        await logToActivity(warnMsg);
+      }
 
-        // Determine status
-        const hasFiles = book.statistics?.bookFileCount > 0 || book.hasFile === true
+      // Mapping Deep-Sync data
+      metadataRefresh.push({
+        id: entry.foreignBookId,
+        title: entry.title,
+        author: entry.author,
+        rating: deepBook?.ratings?.value ? String(deepBook.ratings.value) : null,
+        pageCount: entry.pageCount,
+        publishedDate: entry.releaseDate,
+        publisher: firstEdition?.publisher || null,
+        isbn13: firstEdition?.isbn13 || null,
+        description: description || null,
+        genres: deepBook?.genres ? JSON.stringify(deepBook.genres) : null,
+        coverImage: entry.coverImage,
+      })
+    }
 
-        // "Relevant Only" Filter
-        if (!hasFiles && book.monitored !== true) {
-          continue;
-        }
+    return {
+      generatedAt: new Date().toISOString(),
+      instanceId,
+      instanceName: config.instanceName,
+      statusNormalizations,
+      statusCorrections,
+      orphans,
+      cachePurges,
+      backfills,
+      ghosts,
+      libraryBooks: Array.from(uniqueLibraryBooks.values()),
+      metadataRefresh,
+    }
+  }
 
-        let ghostStatus = 'unowned';
-        if (hasFiles) {
-          ghostStatus = 'available';
-        } else if (book.monitored) {
-          const releaseDate = book.releaseDate ? new Date(book.releaseDate) : null;
-          const now = new Date();
-          if (releaseDate && releaseDate > now) {
-            ghostStatus = 'unreleased';
-          } else {
-            ghostStatus = 'processing';
-          }
-        }
+  /**
+   * Execute a reconciliation plan, either freshly built or stored by a dry run, and nothing beyond it.
+   * Rows that changed since the plan was built are skipped rather than overwritten.
+   */
+  static async applyReconciliationPlan(plan: ReconciliationPlan): Promise<ReconciliationReport> {
+    let correctedCount = 0;
+    let orphanedCount = 0;
+    let purgedCount = 0;
+    let addedCount = 0;
+    let shouldTriggerBookLore = false
+
+    // Ensure system user exists
+    const systemUserId = await this.getSystemUserId()
+
+    // Rename legacy status values, skipping requests whose status changed since the plan was built
+    const normalizationGroups = new Map<string, { fromStatus: string; toStatus: string; requestIds: number[] }>()
+    for (const normalization of plan.statusNormalizations) {
+      const key = `${normalization.fromStatus}:${normalization.toStatus}`
+      const group = normalizationGroups.get(key) ?? { fromStatus: normalization.fromStatus, toStatus: normalization.toStatus, requestIds: [] }
+      group.requestIds.push(normalization.requestId)
+      normalizationGroups.set(key, group)
+    }
 
-        const titleStr = book.title;
-        const authorStr = authorMap.get(book.authorId);
-
-        if (!authorStr || !titleStr) {
-          logger.warn('Skipping book due to missing discrete author or title in Readarr payload. Pending Manual Review.', {
-            id: book.id,
-            foreignBookId: book.foreignBookId,
-            authorId: book.authorId,
-            title: titleStr
-          });
-          continue;
-        }
+    let normalizedCount = 0
+    for (const group of Array.from(normalizationGroups.values())) {
+      try {
+        const result = await db
+          .update(requests)
+          .set({ status: group.toStatus as any })
+          .where(and(inArray(requests.id, group.requestIds), eq(requests.status, group.fromStatus as any)))
+        normalizedCount += result.rowsAffected
+      } catch (e) {
+        logger.error('Failed to normalize legacy request statuses', { error: e, fromStatus: group.fromStatus })
+      }
+    }
 
-        // Deep-Sync Fetch
-        await delay(50); // 50ms breather
+    if (normalizedCount > 0) {
+      logger.info(`Normalized ${normalizedCount} legacy request statuses to strict lowercase`)
+    }
 
-        const deepBook = await BookshelfService.getBook(config, book.id);
-        const editions = await BookshelfService.getBookEditions(config, book.id);
-        const firstEdition = editions && editions.length > 0 ? editions[0] : null;
+    // Auto-correct statuses for books that have files in Readarr
+    for (const correction of plan.statusCorrections) {
+      try {
+        const updated = await db.update(requests)
+          .set({ status: 'available' as any, completedAt: new Date() })
+          .where(and(eq(requests.id, correction.requestId), not(eq(requests.status, 'available'))))
+          .returning({ id: requests.id })
+
+        if (updated.length === 0) continue
+
+        await RequestEventService.recordEvent({
+          requestId: correction.requestId,
+          fromStatus: correction.fromStatus,
+          toStatus: 'available',
+          source: 'sync',
+          message: 'Auto-corrected: book has files in Readarr',
+        })
+        logger.info(`Auto-corrected request ${correction.requestId} status to available via background sync`, {
+          bookshelfId: correction.bookshelfId,
+          bookId: correction.bookId
+        })
+        correctedCount++
+        shouldTriggerBookLore = true
+      } catch (e) {
+        logger.error('Failed to auto-correct request status to available', { error: e, requestId: correction.requestId })
+      }
+    }
 
-        if (!firstEdition) {
-          const warnMsg = `[Partial Import] Missing edition for: ${titleStr}`;
-          logger.warn(warnMsg);
-          await logToActivity(warnMsg);
-        }
+    // Execute Orphan Archive and Scorched Earth Purge (requests)
+    // Requests are moved to the archive rather than deleted so they can be restored
+    if (plan.orphans.length > 0) {
+       const archiveReasons = new Map(plan.orphans.map((o) => [o.requestId, o.reason]))
+       orphanedCount = await ArchiveService.archiveRequests(plan.orphans.map((o) => o.requestId), archiveReasons, 'sync')
+       logger.info(`Completed Orphan Archive: Archived ${orphanedCount} orphaned/file-less requests.`)
+    }
 
-        const description = firstEdition?.overview || deepBook?.overview || book.overview;
-        if (!description) {
-          const warnMsg = `[Partial Import] Missing description for: ${titleStr}`;
-          logger.warn(warnMsg);
-          await logToActivity(warnMsg);
-        }
+    // Execute Scorched Earth Purge (metadata caches)
+    if (plan.cachePurges.length > 0) {
+      // Re-check against requests made by REAL users since the plan was built
+      const remainingRequests = await db
+        .select({ bookId: requests.bookId, foreignBookId: requests.foreignBookId })
+        .from(requests)
+        .where(or(
+          not(eq(requests.userId, systemUserId)),
+          isNull(requests.instanceId),
+          not(eq(requests.instanceId, plan.instanceId))
+        ))
+
+      const activeForeignIds = new Set<string>()
+      for (const req of remainingRequests) {
+        if (req.foreignBookId) activeForeignIds.add(String(req.foreignBookId))
+        if (req.bookId) activeForeignIds.add(String(req.bookId))
+      }
 
-        // Mapping Deep-Sync data
-        const deepSyncData = {
-          id: foreignId,
-          title: titleStr,
-          author: authorStr,
-          rating: deepBook?.ratings?.value ? String(deepBook.ratings.value) : null,
-          pageCount: book.pageCount || null,
-          publishedDate: book.releaseDate ? String(book.releaseDate) : null,
-          publisher: firstEdition?.publisher || null,
-          isbn13: firstEdition?.isbn13 || null,
-          description: description || null,
-          genres: deepBook?.genres ? JSON.stringify(deepBook.genres) : null,
-          coverImage: book.images?.[0]?.remoteUrl || book.images?.[0]?.url || null,
+      const cacheIdsToPurge = plan.cachePurges.filter(id => !activeForeignIds.has(id))
+
+      if (cacheIdsToPurge.length > 0) {
+        // Purge from bookCache
+        await db.delete(bookCache).where(inArray(bookCache.id, cacheIdsToPurge))
+
+        // Purge from this instance's libraryBooks
+        await db.delete(libraryBooks).where(and(
+          eq(libraryBooks.instanceId, plan.instanceId),
+          inArray(libraryBooks.foreignBookId, cacheIdsToPurge)
+        ))
+        purgedCount = cacheIdsToPurge.length;
+
+        logger.info(`Completed Scorched Earth Cache Purge: Deleted metadata for ${cacheIdsToPurge.length} file-less ghost books.`)
+      }
+    }
+
+    // Populate libraryBooks table
+    if (plan.libraryBooks.length > 0) {
+      try {
+        // Batch upsert library books
+        const chunkSize = 100
+        for (let i = 0; i < plan.libraryBooks.length; i += chunkSize) {
+          const chunk = plan.libraryBooks.slice(i, i + chunkSize)
+          await db.insert(libraryBooks).values(chunk).onConflictDoUpdate({
+            target: [libraryBooks.foreignBookId, libraryBooks.instanceId],
+            set: {
+              status: sql`excluded.status`,
+              bookshelfId: sql`excluded.bookshelf_id`,
+              title: sql`excluded.title`,
+              authorName: sql`excluded.author_name`
+            }
+          })
         }
+        logger.info(`Completed LibraryBooks Upsert: Synced ${plan.libraryBooks.length} books.`)
+      } catch (e) {
+        logger.error('Failed to upsert libraryBooks during Baseline Sync', { error: e })
+      }
+    }
 
-        // Insert into cache
+    // Cache the metadata fetched while the plan was built
+    if (plan.metadataRefresh.length > 0) {
+      const chunkSize = 50
+      for (let i = 0; i < plan.metadataRefresh.length; i += chunkSize) {
         try {
-          await db.insert(bookCache).values(deepSyncData).onConflictDoUpdate({
-             target: bookCache.id,
-             set: deepSyncData
+          await db.insert(bookCache).values(plan.metadataRefresh.slice(i, i + chunkSize)).onConflictDoUpdate({
+            target: bookCache.id,
+            set: {
+              title: sql`excluded.title`,
+              author: sql`excluded.author`,
+              rating: sql`excluded.rating`,
+              pageCount: sql`excluded.page_count`,
+              publishedDate: sql`excluded.published_date`,
+              publisher: sql`excluded.publisher`,
+              isbn13: sql`excluded.isbn13`,
+              description: sql`excluded.description`,
+              genres: sql`excluded.genres`,
+              coverImage: sql`excluded.cover_image`,
+            }
           })
         } catch (e) {
-           logger.warn('Failed to insert/update deep-sync cache entry', { foreignId, error: e })
+          logger.warn('Failed to insert/update deep-sync cache entries', { error: e })
         }
+      }
+    }
 
-        // Check for Legacy Requests (Backfill Migration)
-        const legacyRequest = mimirrRequests.find(req =>
-          (req.foreignBookId === foreignId || req.bookId === foreignId) && !req.bookshelfId
-        );
-
-        if (legacyRequest) {
-          // Backfill: Update the legacy request with the missing bookshelfId
-          try {
-            await db.update(requests)
-              .set({
-                bookshelfId: book.id,
-                foreignBookId: foreignId,
-                status: ghostStatus as any
-              })
-              .where(eq(requests.id, legacyRequest.id));
-
-            logger.info('Backfilled legacy request with Readarr bookshelfId', {
-              requestId: legacyRequest.id,
-              bookshelfId: book.id,
-              foreignBookId: foreignId
-            });
-            mimirrBookshelfIds.add(book.id); // Add it to avoid processing as ghost below if logic shifts
-          } catch (e) {
-            logger.warn('Failed to backfill legacy request', { requestId: legacyRequest.id, error: e });
-          }
-        } else if (!mimirrForeignIds.has(foreignId) && !mimirrBookshelfIds.has(book.id)) {
-          // If it's not in Mimirr's tracking set AND not a legacy request
-          const addedDate = book.added ? new Date(book.added) : new Date()
+    // Backfill: Update legacy requests with the missing bookshelfId
+    for (const backfill of plan.backfills) {
+      try {
+        const updated = await db.update(requests)
+          .set({
+            bookshelfId: backfill.bookshelfId,
+            foreignBookId: backfill.foreignBookId,
+            status: backfill.toStatus as any
+          })
+          .where(and(eq(requests.id, backfill.requestId), isNull(requests.bookshelfId)))
+          .returning({ id: requests.id })
+
+        if (updated.length === 0) continue
+
+        if (backfill.fromStatus !== backfill.toStatus) {
+          await RequestEventService.recordEvent({
+            requestId: backfill.requestId,
+            fromStatus: backfill.fromStatus,
+            toStatus: backfill.toStatus,
+            source: 'sync',
+            message: 'Backfilled from Readarr library',
+          })
+        }
+
+        logger.info('Backfilled legacy request with Readarr bookshelfId', {
+          requestId: backfill.requestId,
+          bookshelfId: backfill.bookshelfId,
+          foreignBookId: backfill.foreignBookId
+        });
+      } catch (e) {
+        logger.warn('Failed to backfill legacy request', { requestId: backfill.requestId, error: e });
+      }
+    }
 
-          // We're casting here because NewRequest expects a specific shape, but we are building it inline
-          // Ensure we don't violate DB constraints
-          const ghostRequest = {
+    // Execute Ghost Import, skipping books that started being tracked after the plan was built
+    if (plan.ghosts.length > 0) {
+      const ghostIds = plan.ghosts.map((g) => g.bookId)
+      const alreadyTracked = await db
+        .select({ bookId: requests.bookId, foreignBookId: requests.foreignBookId })
+        .from(requests)
+        .where(and(
+          eq(requests.instanceId, plan.instanceId),
+          or(inArray(requests.bookId, ghostIds), inArray(requests.foreignBookId, ghostIds))
+        ))
+
+      const trackedIds = new Set<string>()
+      for (const req of alreadyTracked) {
+        trackedIds.add(req.bookId)
+        if (req.foreignBookId) trackedIds.add(req.foreignBookId)
+      }
+
+      // We're casting here because NewRequest expects a specific shape, but we are building it inline
+      const ghostsToImport = plan.ghosts
+        .filter((ghost) => !trackedIds.has(ghost.bookId))
+        .map((ghost) => {
+          const addedDate = new Date(ghost.addedAt)
+          return {
             userId: systemUserId,
-            bookId: foreignId, // Use foreignBookId as primary Mimirr ID for ghost imports
-            status: ghostStatus as any, // Reflect actual status
-            qualityProfileId: book.qualityProfileId || fallbackQualityProfileId,
-            bookshelfId: book.id,
+            instanceId: plan.instanceId,
+            bookId: ghost.bookId,
+            status: ghost.status as any,
+            qualityProfileId: ghost.qualityProfileId,
+            bookshelfId: ghost.bookshelfId,
             requestedAt: addedDate,
             processedAt: addedDate,
             completedAt: addedDate,
-            foreignBookId: foreignId,
-            foreignAuthorId: String(book.authorId || ''),
+            foreignBookId: ghost.bookId,
+            foreignAuthorId: ghost.foreignAuthorId,
             notes: null // Start clean, no notes unless needed
           }
+        })
 
-          ghostsToImport.push(ghostRequest)
-        }
-      }
-
-      // Execute Ghost Import
-      if (ghostsToImport.length > 0) {
-         // Break into chunks if necessary
-         const chunkSize = 50
-         for (let i = 0; i < ghostsToImport.length; i += chunkSize) {
-            const chunk = ghostsToImport.slice(i, i + chunkSize)
-            await db.insert(requests).values(chunk)
-         }
-         addedCount = ghostsToImport.length;
-         logger.info(`Completed Ghost Import: Added ${ghostsToImport.length} synthetic requests.`)
-         
-         // If any ghosts were added and are available, we should trigger BookLore scan
-         if (ghostsToImport.some(g => g.status === 'available' || g.status === 'Available')) {
-           shouldTriggerBookLore = true
-         }
-      }
+       // Break into chunks if necessary
+       const chunkSize = 50
+       for (let i = 0; i < ghostsToImport.length; i += chunkSize) {
+          const chunk = ghostsToImport.slice(i, i + chunkSize)
+          const inserted = await db.insert(requests).values(chunk).returning({ id: requests.id, status: requests.status })
+          await RequestEventService.recordEvents(
+            inserted.map((r) => ({
+              requestId: r.id,
+              fromStatus: null,
+              toStatus: r.status,
+              source: 'sync' as const,
+              message: 'Imported from Readarr library',
+            }))
+          )
+       }
+       addedCount = ghostsToImport.length;
+       logger.info(`Completed Ghost Import: Added ${ghostsToImport.length} synthetic requests.`)
+
+       // If any ghosts were added and are available, we should trigger BookLore scan
+       if (ghostsToImport.some(g => g.status === 'available' || g.status === 'Available')) {
+         shouldTriggerBookLore = true
+       }
+    }
 
-      // Hybrid Fallback: Trigger BookLore scan if any books transitioned to 'available'
-      if (shouldTriggerBookLore) {
-        import('@/lib/services/booklore.service').then(({ BookLoreService }) => {
-          BookLoreService.getConfig().then(bookLoreConfig => {
-            if (bookLoreConfig) {
-              logger.info('Triggering automated BookLore scan from background sync (hybrid fallback)');
-              BookLoreService.refreshLibrary(bookLoreConfig).catch(err => {
-                logger.error('Automated BookLore scan failed during background sync', { error: err });
-              });
-            }
-          }).catch(err => {
-            logger.error('Failed to retrieve BookLore config for automated scan during background sync', { error: err });
-          });
+    // Hybrid Fallback: Trigger BookLore scan if any books transitioned to 'available'
+    if (shouldTriggerBookLore) {
+      import('@/lib/services/booklore.service').then(({ BookLoreService }) => {
+        BookLoreService.getConfig().then(bookLoreConfig => {
+          if (bookLoreConfig) {
+            logger.info('Triggering automated BookLore scan from background sync (hybrid fallback)');
+            BookLoreService.refreshLibrary(bookLoreConfig).catch(err => {
+              logger.error('Automated BookLore scan failed during background sync', { error: err });
+            });
+          }
+        }).catch(err => {
+          logger.error('Failed to retrieve BookLore config for automated scan during background sync', { error: err });
         });
-      }
+      });
+    }
 
-      logger.info('Baseline Sync & Active State Reconciliation complete')
-      return { added: addedCount, orphaned: orphanedCount, purged: purgedCount };
+    logger.info('Baseline Sync & Active State Reconciliation complete')
+    return { added: addedCount, orphaned: orphanedCount, purged: purgedCount, corrected: correctedCount };
+  }
+}
 
-    } catch (error) {
-      logger.error('Failed to execute Active State Reconciliation', { error: error instanceof Error ? error.message : error })
-      throw error; // Rethrow so the API endpoint catches it
-    }
+/**
+ * Counts a plan would produce if applied as-is
+ */
+export function summarizePlan(plan: ReconciliationPlan): ReconciliationReport {
+  return {
+    added: plan.ghosts.length,
+    orphaned: plan.orphans.length,
+    purged: plan.cachePurges.length,
+    corrected: plan.statusCorrections.length,
   }
 }
@@ -0,0 +1,204 @@
+import { db, userNotificationSettings, users, type UserNotificationSettings } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { logger } from '@/lib/utils/logger'
+import { assertPublicHttpUrl } from '@/lib/utils/public-url'
+import type { UserNotificationSettingsInput } from '@/lib/utils/validation'
+import type { NotificationType } from './notification.service'
+import { MailService } from './mail.service'
+import { buildTestMessage, sendToChannel } from './notifications/channels'
+import { formatEmail } from './notifications/format'
+import type { NotificationMessage } from './notifications/types'
+
+export type UserNotificationPreferences = Omit<
+  UserNotificationSettings,
+  'id' | 'userId' | 'lastDigestSentAt' | 'createdAt' | 'updatedAt'
+>
+
+export type PersonalChannel = 'email' | 'ntfy'
+
+// Used for users who have never saved their notification settings
+const DEFAULT_PREFERENCES: UserNotificationPreferences = {
+  notifyRequestApproved: true,
+  notifyRequestDeclined: true,
+  notifyRequestAvailable: true,
+  notifyRequestComment: true,
+  emailEnabled: false,
+  ntfyEnabled: false,
+  ntfyServerUrl: null,
+  ntfyTopic: null,
+  ntfyToken: null,
+  digestFrequency: 'off',
+}
+
+// Events users can turn off for themselves; every other event always reaches them
+const EVENT_PREFERENCES: Partial<Record<NotificationType, keyof UserNotificationPreferences>> = {
+  request_approved: 'notifyRequestApproved',
+  request_declined: 'notifyRequestDeclined',
+  request_available: 'notifyRequestAvailable',
+  request_comment: 'notifyRequestComment',
+}
+
+/**
+ * A personal channel is set up in a way that cannot work or is not allowed.
+ * The message is written for the user and safe to show them.
+ */
+export class PersonalChannelError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PersonalChannelError'
+  }
+}
+
+export class UserNotificationService {
+  /**
+   * Get a user's notification preferences and personal channels
+   */
+  static async getPreferences(userId: number): Promise<UserNotificationPreferences> {
+    try {
+      const result = await db
+        .select()
+        .from(userNotificationSettings)
+        .where(eq(userNotificationSettings.userId, userId))
+        .limit(1)
+
+      return result[0] ? this.toPreferences(result[0]) : { ...DEFAULT_PREFERENCES }
+    } catch (error) {
+      logger.error('Failed to get user notification settings', { error: error instanceof Error ? error.message : error, userId })
+      return { ...DEFAULT_PREFERENCES }
+    }
+  }
+
+  /**
+   * Save a user's notification preferences and personal channels.
+   * Throws PersonalChannelError when ntfy is enabled with a server that is not a public http(s) URL.
+   */
+  static async updatePreferences(userId: number, data: UserNotificationSettingsInput): Promise<UserNotificationPreferences> {
+    const values = this.toPreferences(data)
+    if (values.ntfyEnabled && values.ntfyServerUrl) {
+      await this.assertPublicNtfyServer(values.ntfyServerUrl)
+    }
+    const now = new Date()
+
+    await db
+      .insert(userNotificationSettings)
+      .values({ userId, ...values, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userNotificationSettings.userId,
+        set: { ...values, updatedAt: now },
+      })
+
+    logger.info('User notification settings updated', { userId })
+    return values
+  }
+
+  /**
+   * Whether the user wants to hear about this event
+   */
+  static isEventEnabled(preferences: UserNotificationPreferences, type: NotificationType): boolean {
+    const key = EVENT_PREFERENCES[type]
+    return key ? !!preferences[key] : true
+  }
+
+  /**
+   * Send a notification to each of the user's enabled personal channels.
+   * Users on an email digest get these events in the digest instead of one email each.
+   * Failures are logged; one channel failing never stops the other.
+   */
+  static async sendToPersonalChannels(
+    userId: number,
+    preferences: UserNotificationPreferences,
+    message: NotificationMessage
+  ): Promise<void> {
+    const channels: PersonalChannel[] = []
+    if (preferences.emailEnabled && preferences.digestFrequency === 'off') channels.push('email')
+    if (preferences.ntfyEnabled) channels.push('ntfy')
+
+    const results = await Promise.allSettled(
+      channels.map((channel) => this.sendToChannel(userId, channel, preferences, message))
+    )
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        logger.error('Failed to send personal notification', {
+          userId,
+          channel: channels[i],
+          type: message.type,
+          error: result.reason instanceof Error ? result.reason.message : result.reason,
+        })
+      }
+    })
+  }
+
+  /**
+   * Send a test notification to one personal channel using unsaved settings.
+   * Throws PersonalChannelError when the channel is not set up, or the delivery error otherwise.
+   * Emails always go to the account's own address.
+   */
+  static async testChannel(userId: number, channel: PersonalChannel, data: UserNotificationSettingsInput): Promise<void> {
+    await this.sendToChannel(userId, channel, this.toPreferences(data), buildTestMessage())
+    logger.info('Personal test notification sent', { userId, channel })
+  }
+
+  private static async sendToChannel(
+    userId: number,
+    channel: PersonalChannel,
+    preferences: UserNotificationPreferences,
+    message: NotificationMessage
+  ): Promise<void> {
+    if (channel === 'ntfy') {
+      if (!preferences.ntfyServerUrl || !preferences.ntfyTopic) {
+        throw new PersonalChannelError('ntfy needs a server URL and a topic')
+      }
+
+      // Checked again on every send: the host may resolve somewhere else than when it was saved
+      await this.assertPublicNtfyServer(preferences.ntfyServerUrl)
+
+      await sendToChannel('ntfy', {
+        serverUrl: preferences.ntfyServerUrl,
+        topic: preferences.ntfyTopic,
+        token: preferences.ntfyToken || undefined,
+      }, message)
+      return
+    }
+
+    const address = await this.getAccountEmail(userId)
+    if (!address) {
+      throw new PersonalChannelError('Your account has no email address')
+    }
+
+    await MailService.send({ to: [address], ...formatEmail(message) })
+  }
+
+  private static async assertPublicNtfyServer(serverUrl: string): Promise<void> {
+    try {
+      await assertPublicHttpUrl(serverUrl)
+    } catch (error) {
+      throw new PersonalChannelError(`The ntfy server URL ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private static async getAccountEmail(userId: number): Promise<string | null> {
+    const result = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1)
+
+    return result[0]?.email || null
+  }
+
+  private static toPreferences(data: UserNotificationSettingsInput | UserNotificationSettings): UserNotificationPreferences {
+    return {
+      notifyRequestApproved: data.notifyRequestApproved,
+      notifyRequestDeclined: data.notifyRequestDeclined,
+      notifyRequestAvailable: data.notifyRequestAvailable,
+      notifyRequestComment: data.notifyRequestComment,
+      emailEnabled: data.emailEnabled,
+      ntfyEnabled: data.ntfyEnabled,
+      ntfyServerUrl: data.ntfyServerUrl || null,
+      ntfyTopic: data.ntfyTopic || null,
+      ntfyToken: data.ntfyToken || null,
+      digestFrequency: data.digestFrequency,
+    }
+  }
+}
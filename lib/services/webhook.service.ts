@@ -0,0 +1,363 @@
+import { db, requests, libraryBooks, settings, users, type Request } from '@/lib/db'
+import { eq, and, or, inArray } from 'drizzle-orm'
+import crypto from 'crypto'
+import { logger } from '@/lib/utils/logger'
+import { timingSafeCompare } from '@/lib/utils/crypto'
+import { BookService } from './book.service'
+import { NotificationService } from './notification.service'
+import { RequestEventService } from './request-event.service'
+
+const WEBHOOK_SECRET_SETTING_KEY = 'bookshelf_webhook_secret'
+
+// Minimal shapes of the Readarr webhook payloads we act on
+interface WebhookAuthor {
+  id?: number | null
+  name?: string | null
+  foreignAuthorId?: string | null
+}
+
+interface WebhookBook {
+  id?: number | null
+  title?: string | null
+  foreignBookId?: string | null
+  goodreadsId?: string | null
+  releaseDate?: string | null
+}
+
+export interface BookshelfWebhookPayload {
+  eventType?: string
+  author?: WebhookAuthor
+  book?: WebhookBook
+  books?: WebhookBook[]
+  isUpgrade?: boolean
+}
+
+export interface WebhookResult {
+  eventType: string
+  matchedRequests: number
+  updatedRequests: number
+}
+
+// Statuses a request can move out of when Readarr reports progress. Pending requests are left alone
+// so a book added in Readarr directly cannot skip approval.
+const ACTIVE_STATUSES = ['approved', 'processing', 'error'] as const
+
+export class WebhookService {
+  /**
+   * Get the per-install webhook secret, generating one on first use
+   */
+  static async getWebhookSecret(): Promise<string> {
+    const result = await db
+      .select()
+      .from(settings)
+      .where(eq(settings.key, WEBHOOK_SECRET_SETTING_KEY))
+      .limit(1)
+
+    if (result[0]?.value) {
+      return result[0].value
+    }
+
+    return this.regenerateWebhookSecret()
+  }
+
+  /**
+   * Generate and store a new webhook secret, invalidating the previous one
+   */
+  static async regenerateWebhookSecret(updatedBy?: number): Promise<string> {
+    const secret = crypto.randomBytes(24).toString('hex')
+    const now = new Date()
+
+    await db
+      .insert(settings)
+      .values({
+        key: WEBHOOK_SECRET_SETTING_KEY,
+        value: secret,
+        category: 'bookshelf',
+        updatedAt: now,
+        updatedBy,
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value: secret,
+          updatedAt: now,
+          updatedBy,
+        },
+      })
+
+    logger.info('Bookshelf webhook secret generated', { updatedBy })
+    return secret
+  }
+
+  /**
+   * Check a secret supplied by an inbound webhook against the stored one
+   */
+  static async verifySecret(provided: string | null | undefined): Promise<boolean> {
+    if (!provided) return false
+
+    const result = await db
+      .select()
+      .from(settings)
+      .where(eq(settings.key, WEBHOOK_SECRET_SETTING_KEY))
+      .limit(1)
+
+    return timingSafeCompare(provided, result[0]?.value)
+  }
+
+  /**
+   * Apply a Readarr webhook event from one instance to the matching requests and library mirror rows
+   */
+  static async handleBookshelfEvent(payload: BookshelfWebhookPayload, instanceId: number): Promise<WebhookResult> {
+    const eventType = payload.eventType || 'Unknown'
+    const webhookBooks = payload.books?.length ? payload.books : payload.book ? [payload.book] : []
+
+    logger.info('Bookshelf webhook received', {
+      eventType,
+      instanceId,
+      author: payload.author?.name,
+      books: webhookBooks.map((b) => b.title),
+    })
+
+    let matchedRequests = 0
+    let updatedRequests = 0
+
+    for (const webhookBook of webhookBooks) {
+      const matches = await this.findMatchingRequests(webhookBook, instanceId)
+      matchedRequests += matches.length
+
+      switch (eventType) {
+        case 'Grab':
+          updatedRequests += await this.handleGrab(webhookBook, matches)
+          break
+        case 'Download':
+        case 'Upgrade':
+          updatedRequests += await this.handleDownload(webhookBook, matches, instanceId, payload.author)
+          break
+        case 'BookDelete':
+          updatedRequests += await this.handleBookDelete(webhookBook, matches, instanceId)
+          break
+        case 'Rename':
+          // Files were renamed on disk; nothing in Mimirr tracks file paths
+          break
+        default:
+          logger.debug('Ignoring unsupported Bookshelf webhook event', { eventType })
+      }
+    }
+
+    if (eventType === 'Rename' || eventType === 'Test') {
+      logger.info(`Bookshelf webhook ${eventType} event acknowledged`)
+    }
+
+    return { eventType, matchedRequests, updatedRequests }
+  }
+
+  /**
+   * Find an instance's requests tracking a Readarr book by Bookshelf ID or foreign book ID
+   */
+  private static async findMatchingRequests(webhookBook: WebhookBook, instanceId: number): Promise<Request[]> {
+    const foreignBookId = webhookBook.foreignBookId || webhookBook.goodreadsId
+    const conditions = []
+
+    if (webhookBook.id) {
+      conditions.push(eq(requests.bookshelfId, webhookBook.id))
+    }
+    if (foreignBookId) {
+      conditions.push(eq(requests.foreignBookId, foreignBookId))
+      conditions.push(eq(requests.bookId, foreignBookId))
+    }
+
+    if (conditions.length === 0) return []
+
+    return db
+      .select()
+      .from(requests)
+      .where(and(eq(requests.instanceId, instanceId), or(...conditions)))
+  }
+
+  /**
+   * A release was grabbed: the book is on its way
+   */
+  private static async handleGrab(webhookBook: WebhookBook, matches: Request[]): Promise<number> {
+    const toUpdate = matches.filter((r) => (ACTIVE_STATUSES as readonly string[]).includes(r.status))
+    if (toUpdate.length === 0) return 0
+
+    await db
+      .update(requests)
+      .set({
+        status: 'processing',
+        bookshelfId: webhookBook.id,
+        notes: null,
+        lastPolledAt: new Date(),
+      })
+      .where(inArray(requests.id, toUpdate.map((r) => r.id)))
+
+    await RequestEventService.recordEvents(
+      toUpdate
+        .filter((r) => r.status !== 'processing')
+        .map((r) => ({
+          requestId: r.id,
+          fromStatus: r.status,
+          toStatus: 'processing',
+          source: 'webhook' as const,
+          message: 'Release grabbed by Bookshelf',
+        }))
+    )
+
+    logger.info('Requests marked processing via Bookshelf webhook', {
+      requestIds: toUpdate.map((r) => r.id),
+      title: webhookBook.title,
+    })
+
+    return toUpdate.length
+  }
+
+  /**
+   * A book file was imported (or upgraded): mark requests available and notify requesters
+   */
+  private static async handleDownload(
+    webhookBook: WebhookBook,
+    matches: Request[],
+    instanceId: number,
+    author?: WebhookAuthor
+  ): Promise<number> {
+    const foreignBookId = webhookBook.foreignBookId || webhookBook.goodreadsId
+
+    // Keep the library mirror in step so the book shows as owned straight away
+    if (foreignBookId) {
+      try {
+        await db
+          .insert(libraryBooks)
+          .values({
+            instanceId,
+            foreignBookId,
+            status: 'available',
+            bookshelfId: webhookBook.id,
+            title: webhookBook.title || '',
+            authorName: author?.name || '',
+          })
+          .onConflictDoUpdate({
+            target: [libraryBooks.foreignBookId, libraryBooks.instanceId],
+            set: {
+              status: 'available',
+              bookshelfId: webhookBook.id,
+            },
+          })
+      } catch (error) {
+        logger.error('Failed to update library mirror from webhook', { error: error instanceof Error ? error.message : error, foreignBookId })
+      }
+    }
+
+    const toUpdate = matches.filter((r) => r.status !== 'available' && r.status !== 'Available' && r.status !== 'declined')
+    const now = new Date()
+
+    for (const request of toUpdate) {
+      try {
+        await db
+          .update(requests)
+          .set({
+            status: 'available',
+            bookshelfId: webhookBook.id ?? request.bookshelfId,
+            completedAt: now,
+            lastPolledAt: now,
+            notes: null, // Clear any SEARCHING or ERROR notes when book becomes available
+          })
+          .where(eq(requests.id, request.id))
+
+        await RequestEventService.recordEvent({
+          requestId: request.id,
+          fromStatus: request.status,
+          toStatus: 'available',
+          source: 'webhook',
+          message: 'Book imported by Bookshelf',
+        })
+
+        logger.info('Request completed via Bookshelf webhook', {
+          requestId: request.id,
+          title: webhookBook.title,
+        })
+
+        await this.notifyAvailable(request, webhookBook, author)
+      } catch (error) {
+        logger.error('Failed to apply webhook download to request', {
+          error: error instanceof Error ? error.message : error,
+          requestId: request.id,
+        })
+      }
+    }
+
+    return toUpdate.length
+  }
+
+  /**
+   * A book was removed from Readarr: drop it from the library mirror and flag active requests.
+   * Fulfilled requests keep their status; the book was delivered even if it later left Readarr.
+   */
+  private static async handleBookDelete(webhookBook: WebhookBook, matches: Request[], instanceId: number): Promise<number> {
+    const foreignBookId = webhookBook.foreignBookId || webhookBook.goodreadsId
+
+    if (foreignBookId) {
+      await db.delete(libraryBooks).where(and(eq(libraryBooks.instanceId, instanceId), eq(libraryBooks.foreignBookId, foreignBookId)))
+    } else if (webhookBook.id) {
+      await db.delete(libraryBooks).where(and(eq(libraryBooks.instanceId, instanceId), eq(libraryBooks.bookshelfId, webhookBook.id)))
+    }
+
+    const toUpdate = matches.filter((r) => (ACTIVE_STATUSES as readonly string[]).includes(r.status))
+    if (toUpdate.length === 0) return 0
+
+    await db
+      .update(requests)
+      .set({
+        status: 'error',
+        notes: 'MIMIRR_SYNC_FAILED: Book deleted from Readarr',
+      })
+      .where(inArray(requests.id, toUpdate.map((r) => r.id)))
+
+    await RequestEventService.recordEvents(
+      toUpdate
+        .filter((r) => r.status !== 'error')
+        .map((r) => ({
+          requestId: r.id,
+          fromStatus: r.status,
+          toStatus: 'error',
+          source: 'webhook' as const,
+          message: 'MIMIRR_SYNC_FAILED: Book deleted from Readarr',
+        }))
+    )
+
+    logger.info('Requests flagged after book deleted from Bookshelf', {
+      requestIds: toUpdate.map((r) => r.id),
+      title: webhookBook.title,
+    })
+
+    return toUpdate.length
+  }
+
+  /**
+   * Send the request_available notification for a completed request
+   */
+  private static async notifyAvailable(request: Request, webhookBook: WebhookBook, author?: WebhookAuthor) {
+    const book = await BookService.getBookById(request.bookId)
+
+    const requestingUser = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, request.userId))
+      .limit(1)
+
+    const username = requestingUser[0]?.username || 'Unknown User'
+
+    await NotificationService.sendNotification(
+      request.userId,
+      'request_available',
+      'Book Available',
+      book?.title || webhookBook.title || 'Unknown Book',
+      book?.author || author?.name || 'Unknown Author',
+      book?.description || 'No description available',
+      book?.coverImage,
+      username,
+      'Available',
+      'Unknown',
+      '/requests'
+    )
+  }
+}
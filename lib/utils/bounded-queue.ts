@@ -0,0 +1,51 @@
+import { logger } from './logger'
+
+/**
+ * In-process task queue that runs at most `concurrency` tasks at a time.
+ * Tasks are fire-and-forget: failures are logged, never thrown to the caller.
+ * `onTaskSettled` runs each time a task finishes, so a caller can top the queue back up.
+ */
+export class BoundedQueue {
+  private pending: Array<{ label: string; task: () => Promise<void> }> = []
+  private running = 0
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly onTaskSettled?: () => void
+  ) {}
+
+  /**
+   * Queue a task and return immediately
+   */
+  push(label: string, task: () => Promise<void>): void {
+    this.pending.push({ label, task })
+    this.drain()
+  }
+
+  get size(): number {
+    return this.pending.length + this.running
+  }
+
+  /**
+   * Whether a new task would start right away instead of waiting for a slot
+   */
+  get hasFreeSlot(): boolean {
+    return this.size < this.concurrency
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!
+      this.running++
+
+      next
+        .task()
+        .catch((error) => logger.error('Queued task failed', { label: next.label, error: error instanceof Error ? error.message : error }))
+        .finally(() => {
+          this.running--
+          this.drain()
+          this.onTaskSettled?.()
+        })
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import dns from 'dns/promises'
+import net from 'net'
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList()
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, 'ipv4')
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, 'ipv6')
+}
+
+/**
+ * Whether an IP address is reachable only from inside the server's own network
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) reaches the IPv4 address it wraps
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  const family = net.isIP(address)
+  if (family === 0) return true
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Check that a user-supplied URL is http(s) and that every address its host resolves to is public,
+ * so the server cannot be pointed at itself or its local network. Throws with the reason otherwise.
+ */
+export async function assertPublicHttpUrl(value: string): Promise<void> {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error('is not a valid URL')
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('must start with http:// or https://')
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  let addresses: { address: string }[]
+  try {
+    addresses = await dns.lookup(host, { all: true, verbatim: true })
+  } catch {
+    throw new Error(`host ${host} could not be resolved`)
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('must point to a public server, not a local or private network address')
+  }
+}
@@ -0,0 +1,49 @@
+export interface SeriesInfo {
+  series: string
+  seriesPosition?: number
+}
+
+/**
+ * Parse a Readarr seriesTitle ("The Expanse #1; Expanse Universe #1") into the primary series
+ * and its position. Only the first series is kept.
+ */
+export function parseSeriesTitle(seriesTitle: string | null | undefined): SeriesInfo | null {
+  const first = seriesTitle?.split(';')[0]?.trim()
+  if (!first) return null
+
+  const match = first.match(/^(.*?)\s*#\s*([\d.]+)(?:-[\d.]+)?$/)
+  if (!match) return { series: first }
+
+  const position = parseFloat(match[2])
+  return {
+    series: match[1].trim() || first,
+    seriesPosition: isNaN(position) ? undefined : position,
+  }
+}
+
+/**
+ * Pull series info out of a Readarr book payload: the seriesTitle field first,
+ * then a Goodreads-style "(Series, #2)" suffix on the title
+ */
+export function extractSeries(book: { seriesTitle?: string | null; title?: string | null }): SeriesInfo | null {
+  const fromSeriesTitle = parseSeriesTitle(book.seriesTitle)
+  if (fromSeriesTitle) return fromSeriesTitle
+
+  const match = book.title?.match(/\(([^()]+?),?\s*#\s*([\d.]+)\)\s*$/)
+  if (!match) return null
+
+  const position = parseFloat(match[2])
+  return {
+    series: match[1].trim(),
+    seriesPosition: isNaN(position) ? undefined : position,
+  }
+}
+
+/**
+ * Series names are compared case- and punctuation-insensitively
+ */
+export function isSameSeries(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false
+  const clean = (str: string) => str.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
+  return clean(a) === clean(b)
+}
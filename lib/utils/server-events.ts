@@ -0,0 +1,63 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { ServerEvent } from '@/lib/services/realtime.service'
+
+/**
+ * Events from /api/events, plus 'reconnected' after the stream drops and comes back,
+ * so subscribers can refetch whatever they missed in between
+ */
+export type ServerEventMessage = ServerEvent | { type: 'reconnected' }
+
+type Listener = (event: ServerEventMessage) => void
+
+// Every component shares one connection per tab; browsers allow only a few open streams per host
+const listeners = new Set<Listener>()
+let source: EventSource | null = null
+
+function connect() {
+  let opened = false
+  source = new EventSource('/api/events')
+
+  source.onopen = () => {
+    if (opened) {
+      listeners.forEach((listener) => listener({ type: 'reconnected' }))
+    }
+    opened = true
+  }
+
+  source.onmessage = (message) => {
+    let event: ServerEvent
+    try {
+      event = JSON.parse(message.data)
+    } catch {
+      return
+    }
+    listeners.forEach((listener) => listener(event))
+  }
+}
+
+/**
+ * Subscribe to server events for as long as the component is mounted
+ */
+export function useServerEvents(listener: Listener) {
+  const listenerRef = useRef(listener)
+
+  useEffect(() => {
+    listenerRef.current = listener
+  })
+
+  useEffect(() => {
+    const subscriber: Listener = (event) => listenerRef.current(event)
+    listeners.add(subscriber)
+    if (!source) connect()
+
+    return () => {
+      listeners.delete(subscriber)
+      if (listeners.size === 0 && source) {
+        source.close()
+        source = null
+      }
+    }
+  }, [])
+}
@@ -27,6 +27,7 @@ export const registerSchema = z.object({
 export const createRequestSchema = z.object({
   bookId: z.string().min(1, 'Book ID is required'),
   qualityProfileId: z.number().int().positive('Quality profile ID is required'),
+  instanceId: z.number().int().positive().optional(),
   notes: z.string().max(500).optional(),
 })
 
@@ -37,6 +38,7 @@ export const createOnlyThisBookRequestSchema = z.object({
   authorName: z.string().min(1, 'Author name is required'),
   monitoringOption: z.literal('specificBook'),
   qualityProfileId: z.number().int().positive('Quality profile ID is required'),
+  instanceId: z.number().int().positive().optional(),
   notes: z.string().max(500).optional(),
 })
 
@@ -45,12 +47,113 @@ export const updateRequestSchema = z.object({
   notes: z.string().max(500).optional(),
 })
 
+export const approveRequestSchema = z.object({
+  rootFolderPath: z.string().min(1).optional(),
+})
+
+export const resolveRequestSchema = z.object({
+  bookshelfBookId: z.number().int().positive('Bookshelf book ID is required'),
+  foreignEditionId: z.string().min(1).optional(),
+})
+
+export const requestCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(2000),
+})
+
+// Decline: an optional reason template ID plus an optional explanation
+export const declineRequestSchema = z.object({
+  reasonId: z.string().min(1).optional(),
+  note: z.string().trim().max(1000).optional(),
+})
+
+// Bulk admin actions on the all-requests page
+export const bulkRequestActionSchema = z.object({
+  action: z.enum(['approve', 'decline', 'delete', 'retry']),
+  ids: z.array(z.number().int().positive()).min(1).max(100),
+  reasonId: z.string().min(1).optional(),
+  note: z.string().trim().max(1000).optional(),
+})
+
+export const declineReasonsSchema = z.object({
+  reasons: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(50).optional(),
+        label: z.string().trim().min(1, 'Reason cannot be empty').max(100),
+      })
+    )
+    .max(50),
+})
+
+// Recommendation feedback: book actions need a bookId, hiding an author needs its name
+export const recommendationFeedbackSchema = z
+  .object({
+    type: z.enum(['thumbs_down', 'not_interested', 'hide_author']),
+    bookId: z.string().min(1).optional(),
+    authorName: z.string().min(1).max(200).optional(),
+  })
+  .refine(
+    (feedback) => (feedback.type === 'hide_author' ? !!feedback.authorName : !!feedback.bookId),
+    { message: 'A book ID is required for book feedback and an author name for hiding an author' }
+  )
+
+export const authorFollowSchema = z.object({
+  authorName: z.string().min(1).max(200),
+  instanceId: z.number().int().positive().optional(),
+  qualityProfileId: z.number().int().positive().optional(),
+})
+
+// Quota schemas (null = unlimited for the default, inherit default for a user override)
+const quotaLimitSchema = z.number().int().min(0).max(1000).nullable()
+
+export const requestQuotaSchema = z.object({
+  dailyLimit: quotaLimitSchema,
+  weeklyLimit: quotaLimitSchema,
+  monthlyLimit: quotaLimitSchema,
+})
+
+// A user override can also lift every limit, including the default's
+export const userQuotaOverrideSchema = requestQuotaSchema.extend({
+  unlimited: z.boolean().default(false),
+})
+
+export const autoApprovalRuleSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    ruleType: z.enum(['user', 'role', 'quality_profile', 'library_author']),
+    targetUserId: z.number().int().positive().nullable().optional(),
+    targetRole: z.enum(['admin', 'user']).nullable().optional(),
+    targetQualityProfileId: z.number().int().positive().nullable().optional(),
+    targetInstanceId: z.number().int().positive().nullable().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine(
+    (rule) =>
+      (rule.ruleType !== 'user' || !!rule.targetUserId) &&
+      (rule.ruleType !== 'role' || !!rule.targetRole) &&
+      (rule.ruleType !== 'quality_profile' || (!!rule.targetQualityProfileId && !!rule.targetInstanceId)),
+    { message: 'A target is required for this rule type' }
+  )
+
 // Settings schemas
 export const bookshelfSettingsSchema = z.object({
   url: z.string().url('Invalid URL'),
   apiKey: z.string().min(1, 'API key is required'),
 })
 
+export const bookshelfInstanceSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(50),
+  mediaType: z.enum(['ebook', 'audiobook']),
+  url: z.string().url('Invalid URL'),
+  apiKey: z.string().min(1, 'API key is required'),
+  isDefault: z.boolean().optional(),
+})
+
+export const defaultMetadataProfileSchema = z.object({
+  instanceId: z.number().int().positive().optional(),
+  metadataProfileId: z.number().int().positive().nullable(),
+})
+
 export const bookloreSettingsSchema = z.object({
   url: z.string().url('Invalid URL'),
   username: z.string().min(1, 'Username is required'),
@@ -58,6 +161,156 @@ export const bookloreSettingsSchema = z.object({
   libraryId: z.string().min(1, 'Library ID is required'),
 })
 
+// Readarr webhook payload; only the fields the webhook handler reads are checked. Readarr sends null
+// for values it does not have.
+const bookshelfWebhookBookSchema = z.object({
+  id: z.number().nullish(),
+  title: z.string().nullish(),
+  foreignBookId: z.string().nullish(),
+  goodreadsId: z.string().nullish(),
+  releaseDate: z.string().nullish(),
+})
+
+export const bookshelfWebhookSchema = z.object({
+  eventType: z.string().optional(),
+  author: z
+    .object({
+      id: z.number().nullish(),
+      name: z.string().nullish(),
+      foreignAuthorId: z.string().nullish(),
+    })
+    .optional(),
+  book: bookshelfWebhookBookSchema.optional(),
+  books: z.array(bookshelfWebhookBookSchema).optional(),
+  isUpgrade: z.boolean().optional(),
+})
+
+// Notification channels: the config shape depends on the channel type
+const notificationEventSchema = z.enum([
+  'request_approved',
+  'request_declined',
+  'request_available',
+  'request_submitted',
+  'bookshelf_error',
+  'request_error',
+  'author_new_release',
+  'request_comment',
+])
+
+const optionalText = z.string().max(500).optional()
+
+export const notificationChannelConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('webhook'),
+    config: z.object({
+      url: z.string().url('Invalid URL'),
+      authHeader: optionalText,
+    }),
+  }),
+  z.object({
+    type: z.literal('email'),
+    config: z.object({
+      host: z.string().min(1, 'SMTP host is required'),
+      port: z.number().int().min(1).max(65535),
+      security: z.enum(['none', 'starttls', 'tls']),
+      username: optionalText,
+      password: optionalText,
+      from: z.string().min(1, 'From address is required').max(200),
+      to: z.string().min(1, 'At least one recipient is required').max(1000),
+    }),
+  }),
+  z.object({
+    type: z.literal('ntfy'),
+    config: z.object({
+      serverUrl: z.string().url('Invalid URL'),
+      topic: z.string().min(1, 'Topic is required').max(64),
+      token: optionalText,
+      priority: z.number().int().min(1).max(5).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('gotify'),
+    config: z.object({
+      serverUrl: z.string().url('Invalid URL'),
+      token: z.string().min(1, 'Application token is required'),
+      priority: z.number().int().min(0).max(10).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('pushover'),
+    config: z.object({
+      apiUrl: z.string().url('Invalid URL'),
+      apiToken: z.string().min(1, 'API token is required'),
+      userKey: z.string().min(1, 'User key is required'),
+      priority: z.number().int().min(-2).max(2).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('apprise'),
+    config: z.object({
+      url: z.string().url('Invalid URL'),
+      tags: optionalText,
+    }),
+  }),
+])
+
+export const notificationChannelSchema = notificationChannelConfigSchema.and(
+  z.object({
+    name: z.string().min(1, 'Name is required').max(50),
+    enabled: z.boolean(),
+    events: z.array(notificationEventSchema),
+  })
+)
+
+// Days notifications are kept once read and while unread (0 = keep forever)
+export const notificationRetentionSchema = z.object({
+  readDays: z.number().int().min(0).max(3650),
+  unreadDays: z.number().int().min(0).max(3650),
+})
+
+export const bulkNotificationDeleteSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(500),
+})
+
+// Server-wide SMTP server for email sent to users. An omitted password keeps the saved one.
+export const smtpServerSchema = z.object({
+  host: z.string().min(1, 'SMTP host is required'),
+  port: z.number().int().min(1).max(65535),
+  security: z.enum(['none', 'starttls', 'tls']),
+  username: optionalText,
+  password: optionalText,
+  from: z.string().min(1, 'From address is required').max(200),
+})
+
+// A user's own notification preferences and personal channels
+export const userNotificationSettingsSchema = z
+  .object({
+    notifyRequestApproved: z.boolean(),
+    notifyRequestDeclined: z.boolean(),
+    notifyRequestAvailable: z.boolean(),
+    notifyRequestComment: z.boolean(),
+    emailEnabled: z.boolean(),
+    ntfyEnabled: z.boolean(),
+    ntfyServerUrl: z
+      .string()
+      .url('Invalid URL')
+      .refine((url) => /^https?:\/\//i.test(url), 'Server URL must start with http:// or https://')
+      .or(z.literal(''))
+      .optional(),
+    ntfyTopic: z.string().max(64).optional(),
+    ntfyToken: optionalText,
+    digestFrequency: z.enum(['off', 'daily', 'weekly']),
+  })
+  .refine((data) => !data.ntfyEnabled || (!!data.ntfyServerUrl && !!data.ntfyTopic), {
+    message: 'ntfy needs a server URL and a topic',
+    path: ['ntfyTopic'],
+  })
+
+export const userNotificationTestSchema = z.object({
+  channel: z.enum(['email', 'ntfy']),
+  settings: userNotificationSettingsSchema,
+})
+
 // User schemas
 export const createUserSchema = z.object({
   username: z
@@ -89,7 +342,25 @@ export type LoginInput = z.infer<typeof loginSchema>
 export type RegisterInput = z.infer<typeof registerSchema>
 export type CreateRequestInput = z.infer<typeof createRequestSchema>
 export type UpdateRequestInput = z.infer<typeof updateRequestSchema>
+export type ApproveRequestInput = z.infer<typeof approveRequestSchema>
+export type ResolveRequestInput = z.infer<typeof resolveRequestSchema>
+export type RequestCommentInput = z.infer<typeof requestCommentSchema>
+export type DeclineRequestInput = z.infer<typeof declineRequestSchema>
+export type BulkRequestActionInput = z.infer<typeof bulkRequestActionSchema>
+export type DeclineReasonsInput = z.infer<typeof declineReasonsSchema>
+export type RecommendationFeedbackInput = z.infer<typeof recommendationFeedbackSchema>
+export type AuthorFollowInput = z.infer<typeof authorFollowSchema>
+export type RequestQuotaInput = z.infer<typeof requestQuotaSchema>
+export type AutoApprovalRuleInput = z.infer<typeof autoApprovalRuleSchema>
 export type BookshelfSettingsInput = z.infer<typeof bookshelfSettingsSchema>
+export type BookshelfInstanceInput = z.infer<typeof bookshelfInstanceSchema>
+export type BookshelfWebhookInput = z.infer<typeof bookshelfWebhookSchema>
+export type DefaultMetadataProfileInput = z.infer<typeof defaultMetadataProfileSchema>
 export type BookLoreSettingsInput = z.infer<typeof bookloreSettingsSchema>
+export type NotificationChannelConfigInput = z.infer<typeof notificationChannelConfigSchema>
+export type NotificationChannelInput = z.infer<typeof notificationChannelSchema>
+export type NotificationRetentionInput = z.infer<typeof notificationRetentionSchema>
+export type SmtpServerInput = z.infer<typeof smtpServerSchema>
+export type UserNotificationSettingsInput = z.infer<typeof userNotificationSettingsSchema>
 export type CreateUserInput = z.infer<typeof createUserSchema>
 export type UpdateUserInput = z.infer<typeof updateUserSchema>
@@ -1,3 +1,5 @@
+import type { InstanceAvailability } from './bookshelf.types'
+
 // Bookinfo.pro API response types
 
 export interface BookinfoSearchResult {
@@ -71,6 +73,19 @@ export interface BookinfoBulkResponse {
   Authors: BookinfoAuthor[]
 }
 
+// Signals that put a book into a user's personalized recommendations
+export interface RecommendationSignals {
+  genres: string[]
+  moods: string[]
+  paces: string[]
+  author?: string
+  sourceRequest?: {
+    requestId: number
+    bookId: string
+    title: string
+  }
+}
+
 // Simplified book type for our application
 export interface Book {
   id: string
@@ -91,8 +106,12 @@ export interface Book {
   genres: string[]
   metadata?: any
   mimirrState?: 'Unowned' | 'Requested' | 'Processing' | 'Available' | 'Unreleased'
+  instanceAvailability?: InstanceAvailability[]
   requestStatus?: 'pending' | 'approved' | 'declined' | 'available' | 'processing'
   requestId?: number
+  requestedInstanceIds?: number[] // Instances the current user has an open request on
+  foreignBookId?: string // Readarr foreign book ID, used to look up library state
+  recommendationSignals?: RecommendationSignals // Why a personalized recommendation was made
   availableFormat?: string
 }
 
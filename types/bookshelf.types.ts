@@ -1,6 +1,18 @@
 export interface BookshelfConfig {
   url: string;
   apiKey: string;
+  instanceId?: number;
+  instanceName?: string;
+}
+
+export type BookshelfMediaType = 'ebook' | 'audiobook';
+
+// Library status of a book in one Bookshelf instance (status is null when not in that library)
+export interface InstanceAvailability {
+  instanceId: number;
+  instanceName: string;
+  mediaType: BookshelfMediaType;
+  status: string | null;
 }
 
 export interface QualityProfile {
@@ -9,3 +21,45 @@ export interface QualityProfile {
   upgradeAllowed: boolean;
   cutoff: number;
 }
+
+export interface MetadataProfile {
+  id: number;
+  name: string;
+}
+
+export interface ImportList {
+  id: number;
+  name: string;
+  enabled: boolean;
+  tags: number[]; // Readarr applies these tags to the authors the list adds
+}
+
+// The parts of Readarr's author and book resources Mimirr reads
+export interface ReadarrAuthor {
+  id: number;
+  authorName?: string;
+  foreignAuthorId?: string;
+  tags?: number[];
+}
+
+export interface ReadarrImage {
+  coverType?: string;
+  remoteUrl?: string | null;
+}
+
+export interface ReadarrBook {
+  id?: number;
+  authorId?: number;
+  foreignBookId?: string;
+  title?: string;
+  seriesTitle?: string | null;
+  overview?: string | null;
+  releaseDate?: string | null;
+  pageCount?: number;
+  genres?: string[];
+  images?: ReadarrImage[];
+  ratings?: { votes?: number; value?: number };
+  statistics?: { bookFileCount?: number };
+  hasFile?: boolean;
+  author?: Partial<ReadarrAuthor>; // Search results embed the author, without a library ID for unowned authors
+}